@@ -0,0 +1,415 @@
+// User-defined alert rules evaluated against every finished analysis. Matches
+// are POSTed to the rule's webhook, signed with a per-rule secret and retried
+// with exponential backoff; every attempt is recorded in a delivery log.
+//
+// Receivers verify `X-Cognitia-Signature: sha256=<hex>`, an HMAC-SHA256 of
+// `${X-Cognitia-Timestamp}.${raw body}` keyed with the rule's secret. The
+// secret is returned once, when the rule is created; listings only show a hint.
+//
+// Webhooks may target public hosts. Link-local, metadata and reserved
+// addresses are always refused; loopback and other private ranges only for
+// hosts on the allow-list. Hostnames are checked after DNS resolution, at connect time.
+//
+//   ALERT_RETRY_BASE_DELAY_MS=1000          (backoff base between delivery attempts)
+//   ALERT_WEBHOOK_ALLOWED_HOSTS=hooks.lan   (comma-separated private hosts or IPs)
+
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import axios from "axios";
+import type Database from "better-sqlite3";
+import type { AnalysisResult, Level, Trend } from "./schema";
+import { LEVEL_RANK } from "./compare";
+
+export type AlertCondition =
+  | { kind: "anomaly"; severity: Level }
+  | { kind: "metric_trend"; metric: string; trend: Trend }
+  | { kind: "risk_score"; op: ">" | ">=" | "<" | "<="; value: number; category?: string };
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+export type AlertEvent = "alert.triggered" | "alert.test";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  description: string;
+  webhook_url: string;
+  // The first characters of the signing secret, enough to tell rules apart
+  secret_hint: string;
+  enabled: boolean;
+  created_at: string;
+}
+
+// Only the create response carries the full secret
+export interface CreatedAlertRule extends AlertRule {
+  secret: string;
+}
+
+type StoredRule = AlertRule & { secret: string };
+
+export type AlertRuleInput = Pick<AlertRule, "name" | "condition" | "webhook_url" | "enabled">;
+
+export interface AlertDelivery {
+  id: number;
+  rule_id: string;
+  rule_name: string;
+  report_id: string | null;
+  event: AlertEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  matches: string[];
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface AlertSubject {
+  reportId: string | null;
+  query?: string;
+}
+
+const MAX_ATTEMPTS = 5;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LOG_LIMIT = 100;
+const LEVELS: Level[] = ["Low", "Medium", "High"];
+const TRENDS: Trend[] = ["up", "down", "stable"];
+const OPERATORS = [">", ">=", "<", "<="] as const;
+const BLOCKED_CODE = "EWEBHOOKBLOCKED";
+
+// Never reachable: link-local (cloud metadata lives at 169.254.169.254),
+// "this network", multicast and reserved space
+const FORBIDDEN_RANGES = new net.BlockList();
+FORBIDDEN_RANGES.addSubnet("0.0.0.0", 8, "ipv4");
+FORBIDDEN_RANGES.addSubnet("169.254.0.0", 16, "ipv4");
+FORBIDDEN_RANGES.addSubnet("224.0.0.0", 3, "ipv4");
+FORBIDDEN_RANGES.addSubnet("::", 128, "ipv6");
+FORBIDDEN_RANGES.addSubnet("fe80::", 10, "ipv6");
+FORBIDDEN_RANGES.addSubnet("ff00::", 8, "ipv6");
+
+// Reachable only through ALERT_WEBHOOK_ALLOWED_HOSTS
+const PRIVATE_RANGES = new net.BlockList();
+PRIVATE_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_RANGES.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_RANGES.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_RANGES.addAddress("::1", "ipv6");
+PRIVATE_RANGES.addSubnet("fc00::", 7, "ipv6");
+
+export function initAlerts(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      condition TEXT NOT NULL,
+      webhook_url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+    CREATE TABLE IF NOT EXISTS alert_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule_id TEXT NOT NULL,
+      report_id TEXT,
+      event TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      error TEXT,
+      matches TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      delivered_at TEXT,
+      FOREIGN KEY(rule_id) REFERENCES alert_rules(id) ON DELETE CASCADE,
+      FOREIGN KEY(report_id) REFERENCES reports(id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_alert_deliveries_rule ON alert_deliveries(rule_id, id DESC);
+  `);
+  // Retries live in memory, so anything still pending was lost in a restart
+  const interrupted = db.prepare(`
+    UPDATE alert_deliveries SET status = 'failed', error = 'Interrupted by server restart' WHERE status = 'pending'
+  `).run();
+  if (interrupted.changes > 0) console.warn(`Marked ${interrupted.changes} interrupted alert deliveries as failed`);
+}
+
+function parseCondition(value: any): AlertCondition | string {
+  if (!value || typeof value !== "object") return "Condition is required";
+  switch (value.kind) {
+    case "anomaly":
+      return LEVELS.includes(value.severity) ? { kind: "anomaly", severity: value.severity } : "Severity must be Low, Medium or High";
+    case "metric_trend": {
+      const metric = typeof value.metric === "string" ? value.metric.trim() : "";
+      if (!metric) return "Metric name is required";
+      if (!TRENDS.includes(value.trend)) return "Trend must be up, down or stable";
+      return { kind: "metric_trend", metric, trend: value.trend };
+    }
+    case "risk_score": {
+      const threshold = Number(value.value);
+      if (!OPERATORS.includes(value.op)) return "Operator must be one of >, >=, <, <=";
+      if (!Number.isFinite(threshold)) return "Threshold must be a number";
+      const category = typeof value.category === "string" && value.category.trim() ? value.category.trim() : undefined;
+      return { kind: "risk_score", op: value.op, value: threshold, ...(category ? { category } : {}) };
+    }
+    default:
+      return "Condition kind must be anomaly, metric_trend or risk_score";
+  }
+}
+
+function allowedHosts(): Set<string> {
+  return new Set((process.env.ALERT_WEBHOOK_ALLOWED_HOSTS || "").split(",").map(h => h.trim().toLowerCase()).filter(Boolean));
+}
+
+// Why a webhook for `hostname` may not connect to `address`, or null if it may
+function blockedAddress(address: string, hostname: string): string | null {
+  const ip = address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "");
+  const type = net.isIPv4(ip) ? "ipv4" : "ipv6";
+  if (FORBIDDEN_RANGES.check(ip, type)) return `${ip} is a link-local or reserved address`;
+  if (PRIVATE_RANGES.check(ip, type)) {
+    const allowed = allowedHosts();
+    if (!allowed.has(ip) && !allowed.has(hostname.toLowerCase())) {
+      return `${ip} is a private address; add the host to ALERT_WEBHOOK_ALLOWED_HOSTS to allow it`;
+    }
+  }
+  return null;
+}
+
+// IP literals never go through DNS, so they are checked up front
+function blockedUrl(url: URL): string | null {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  return net.isIP(host) ? blockedAddress(host, host) : null;
+}
+
+function parseWebhookUrl(value: unknown): { value: string } | { error: string } {
+  let url: URL;
+  try {
+    url = new URL(typeof value === "string" ? value.trim() : "");
+  } catch {
+    return { error: "Webhook URL must be an http(s) URL" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return { error: "Webhook URL must be an http(s) URL" };
+  const blocked = blockedUrl(url);
+  return blocked ? { error: `Webhook URL is not allowed: ${blocked}` } : { value: url.toString() };
+}
+
+// Resolves like dns.lookup but refuses blocked addresses, so a hostname can't
+// be pointed at an internal address after the rule was saved
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    for (const a of addresses) {
+      const blocked = blockedAddress(a, hostname);
+      if (blocked) return callback(Object.assign(new Error(`Webhook blocked: ${blocked}`), { code: BLOCKED_CODE }), address, family);
+    }
+    callback(null, address, family);
+  });
+}) as unknown as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+export function validateRule(
+  body: any,
+  existing?: AlertRule
+): { value: AlertRuleInput } | { error: string } {
+  const pick = (key: keyof AlertRule) => (body[key] !== undefined ? body[key] : existing?.[key]);
+  const name = typeof pick("name") === "string" ? pick("name").trim().slice(0, 200) : "";
+  if (!name) return { error: "Name is required" };
+  const condition = parseCondition(pick("condition"));
+  if (typeof condition === "string") return { error: condition };
+  const webhookUrl = parseWebhookUrl(pick("webhook_url"));
+  if ("error" in webhookUrl) return webhookUrl;
+  return { value: { name, condition, webhook_url: webhookUrl.value, enabled: pick("enabled") !== false } };
+}
+
+function toStoredRule(row: any): StoredRule {
+  const condition: AlertCondition = JSON.parse(row.condition);
+  return { ...row, condition, description: describeCondition(condition), secret_hint: `${row.secret.slice(0, 10)}…`, enabled: row.enabled === 1 };
+}
+
+function toRule(row: any): AlertRule {
+  const { secret, ...rule } = toStoredRule(row);
+  return rule;
+}
+
+export function createRule(db: Database.Database, userId: string, value: AlertRuleInput): CreatedAlertRule {
+  const id = `alr_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+  const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+  db.prepare(`
+    INSERT INTO alert_rules (id, user_id, name, condition, webhook_url, secret, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, value.name, JSON.stringify(value.condition), value.webhook_url, secret, value.enabled ? 1 : 0);
+  return { ...getRule(db, userId, id)!, secret };
+}
+
+export function updateRule(db: Database.Database, userId: string, id: string, value: AlertRuleInput): AlertRule {
+  db.prepare(`
+    UPDATE alert_rules SET name = ?, condition = ?, webhook_url = ?, enabled = ? WHERE id = ? AND user_id = ?
+  `).run(value.name, JSON.stringify(value.condition), value.webhook_url, value.enabled ? 1 : 0, id, userId);
+  return getRule(db, userId, id)!;
+}
+
+export function deleteRule(db: Database.Database, userId: string, id: string): boolean {
+  return db.prepare("DELETE FROM alert_rules WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function getRule(db: Database.Database, userId: string, id: string): AlertRule | null {
+  const row = db.prepare("SELECT * FROM alert_rules WHERE id = ? AND user_id = ?").get(id, userId);
+  return row ? toRule(row) : null;
+}
+
+export function listRules(db: Database.Database, userId: string): AlertRule[] {
+  return db.prepare("SELECT * FROM alert_rules WHERE user_id = ? ORDER BY created_at DESC, id DESC").all(userId).map(toRule);
+}
+
+export function listDeliveries(db: Database.Database, userId: string, ruleId?: string): AlertDelivery[] {
+  const rows = db.prepare(`
+    SELECT d.id, d.rule_id, r.name AS rule_name, d.report_id, d.event, d.status, d.attempts, d.response_status,
+      d.error, d.matches, d.created_at, d.delivered_at
+    FROM alert_deliveries d JOIN alert_rules r ON r.id = d.rule_id
+    WHERE r.user_id = ? ${ruleId ? "AND d.rule_id = ?" : ""}
+    ORDER BY d.id DESC
+    LIMIT ?
+  `).all(...(ruleId ? [userId, ruleId] : [userId]), DELIVERY_LOG_LIMIT);
+  return rows.map((row: any) => ({ ...row, matches: JSON.parse(row.matches) }));
+}
+
+const compare = (a: number, op: ">" | ">=" | "<" | "<=", b: number) =>
+  op === ">" ? a > b : op === ">=" ? a >= b : op === "<" ? a < b : a <= b;
+
+// Human-readable descriptions of everything in the report that satisfies the condition.
+export function evaluateCondition(condition: AlertCondition, result: AnalysisResult): string[] {
+  switch (condition.kind) {
+    case "anomaly":
+      return (result.anomalies || [])
+        .filter(a => LEVEL_RANK[a.severity] >= LEVEL_RANK[condition.severity])
+        .map(a => `${a.severity} anomaly: ${a.type} at ${a.location}`);
+    case "metric_trend": {
+      const needle = condition.metric.toLowerCase();
+      return (result.data_summary?.key_metrics || [])
+        .filter(m => m.name.toLowerCase().includes(needle) && m.trend === condition.trend)
+        .map(m => `Metric ${m.name} (${m.value}) trending ${m.trend}`);
+    }
+    case "risk_score": {
+      const category = condition.category?.toLowerCase();
+      return (result.risk_heatmap?.data || [])
+        .filter(r => (!category || r.category.toLowerCase() === category) && compare(r.risk_score, condition.op, condition.value))
+        .map(r => `Risk ${r.category} scored ${r.risk_score} (${condition.op} ${condition.value})`);
+    }
+  }
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case "anomaly":
+      return `Any ${condition.severity === "High" ? "High" : `${condition.severity}+`} anomaly`;
+    case "metric_trend":
+      return `Metric "${condition.metric}" trend ${condition.trend}`;
+    case "risk_score":
+      return `${condition.category ? `Risk "${condition.category}"` : "Any risk"} score ${condition.op} ${condition.value}`;
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// 4xx other than 408/429 means the receiver rejected the payload; retrying won't help
+const isRetryable = (status: number | null) => status === null || status === 408 || status === 429 || status >= 500;
+
+async function deliver(db: Database.Database, deliveryId: number, rule: StoredRule, event: AlertEvent, body: string) {
+  const baseDelay = Number(process.env.ALERT_RETRY_BASE_DELAY_MS) || 1000;
+  const update = db.prepare(`
+    UPDATE alert_deliveries SET status = ?, attempts = ?, response_status = ?, error = ?, delivered_at = ? WHERE id = ?
+  `);
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let status: number | null = null;
+    let error: string | null = null;
+    let blocked = false;
+    try {
+      // Rules saved before the address checks, or before the allow-list changed
+      const refused = blockedUrl(new URL(rule.webhook_url));
+      if (refused) throw Object.assign(new Error(`Webhook blocked: ${refused}`), { code: BLOCKED_CODE });
+      const response = await axios.post(rule.webhook_url, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+        validateStatus: () => true,
+        maxRedirects: 0,
+        httpAgent,
+        httpsAgent,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "CognitiaOS-Alerts/1.0",
+          "X-Cognitia-Event": event,
+          "X-Cognitia-Delivery": String(deliveryId),
+          "X-Cognitia-Timestamp": timestamp,
+          "X-Cognitia-Signature": signPayload(rule.secret, timestamp, body),
+        },
+      });
+      status = response.status;
+      if (status >= 200 && status < 300) {
+        update.run("delivered", attempt, status, null, new Date().toISOString(), deliveryId);
+        return;
+      }
+      error = `Receiver responded with HTTP ${status}`;
+    } catch (e: any) {
+      error = e.code ? `${e.code}: ${e.message}` : e.message;
+      blocked = e.code === BLOCKED_CODE || e.cause?.code === BLOCKED_CODE;
+    }
+
+    const final = attempt === MAX_ATTEMPTS || blocked || !isRetryable(status);
+    update.run(final ? "failed" : "pending", attempt, status, error, null, deliveryId);
+    if (final) {
+      console.warn(`Alert delivery ${deliveryId} to ${rule.webhook_url} failed after ${attempt} attempts: ${error}`);
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, attempt - 1)));
+  }
+}
+
+function enqueue(db: Database.Database, rule: StoredRule, event: AlertEvent, subject: AlertSubject, matches: string[]): number {
+  const payload = {
+    event,
+    rule: { id: rule.id, name: rule.name, condition: rule.condition, description: describeCondition(rule.condition) },
+    report: { id: subject.reportId, query: subject.query ?? null },
+    matches,
+    sent_at: new Date().toISOString(),
+  };
+  const body = JSON.stringify(payload);
+  const info = db.prepare(`
+    INSERT INTO alert_deliveries (rule_id, report_id, event, status, matches, payload) VALUES (?, ?, ?, 'pending', ?, ?)
+  `).run(rule.id, subject.reportId, event, JSON.stringify(matches), body);
+  const deliveryId = Number(info.lastInsertRowid);
+  deliver(db, deliveryId, rule, event, body).catch(error => {
+    console.error(`Alert delivery ${deliveryId} crashed:`, error);
+  });
+  return deliveryId;
+}
+
+// Evaluates the user's enabled rules against a finished analysis. Deliveries
+// run in the background so analysis responses never wait on a receiver.
+export function dispatchAlerts(db: Database.Database, userId: string, result: AnalysisResult, subject: AlertSubject): number {
+  const rules = db.prepare("SELECT * FROM alert_rules WHERE user_id = ? AND enabled = 1").all(userId).map(toStoredRule);
+  let fired = 0;
+  for (const rule of rules) {
+    const matches = evaluateCondition(rule.condition, result);
+    if (matches.length === 0) continue;
+    fired++;
+    enqueue(db, rule, "alert.triggered", subject, matches);
+  }
+  if (fired > 0) console.log(`Fired ${fired} alert rule(s) for ${subject.reportId ?? "unsaved analysis"}`);
+  return fired;
+}
+
+// Sends a sample payload so receivers can be wired up without waiting for a
+// match. Returns the delivery id; the outcome shows up in the delivery log.
+export function testRule(db: Database.Database, rule: AlertRule): number {
+  const { secret } = db.prepare("SELECT secret FROM alert_rules WHERE id = ?").get(rule.id) as { secret: string };
+  return enqueue(db, { ...rule, secret }, "alert.test", { reportId: null, query: "Test delivery" }, [`Test alert for: ${describeCondition(rule.condition)}`]);
+}
@@ -0,0 +1,87 @@
+// Follow-up questions about a saved report. The model sees the report, the
+// dataset profile and the earlier turns of the thread; it answers in JSON so
+// citations and ad-hoc charts can be rendered like the rest of the report.
+
+import { formatProfileForPrompt } from "./profile";
+import { withRetry, parseModelJson } from "./engine";
+import { validateChatAnswer, AnalysisResult, ChatAnswer, ChatMessage } from "./schema";
+import { createProvider } from "./providers";
+
+export interface ChatInput {
+  report: AnalysisResult;
+  history: ChatMessage[];
+  question: string;
+  provider?: string;
+  model?: string;
+}
+
+// Older turns are dropped first; the report itself always stays in context
+const MAX_HISTORY_TURNS = 12;
+
+export const CHAT_SYSTEM_INSTRUCTION = `
+You are the CognitiaOS Intelligence Engine answering follow-up questions about a report you produced earlier.
+Answer only from the report and the dataset profile provided. If they do not contain the answer, say so plainly.
+
+Respond ONLY with a JSON object:
+{
+  "answer": "string (concise, plain text)",
+  "citations": [{ "section": "insights|anomalies", "index": number }],
+  "visualizations": [{ "type": "bar|line|pie|area", "title": "string", "data": [{ "name": "string", "value": number }], "description": "string" }]
+}
+
+Cite the numbered insights and anomalies your answer relies on. Include a visualization only when a chart makes the answer clearer, and only with figures present in the report or profile.
+`;
+
+function formatReportForPrompt(report: AnalysisResult): string {
+  const { profile, coverage, validation, evidence, engine, insights, anomalies, ...rest } = report;
+  const numbered = (items: unknown[], label: string) =>
+    items.map((item, i) => `[${label} ${i}] ${JSON.stringify(item)}`).join("\n") || "(none)";
+  return `INSIGHTS:
+${numbered(insights || [], "insights")}
+
+ANOMALIES:
+${numbered(anomalies || [], "anomalies")}
+
+OTHER SECTIONS:
+${JSON.stringify(rest)}`;
+}
+
+export function buildChatPrompt(input: ChatInput): string {
+  const history = input.history.slice(-MAX_HISTORY_TURNS)
+    .map(m => `${m.role === "user" ? "User" : "Engine"}: ${m.content}`)
+    .join("\n");
+  return `
+${input.report.profile ? `${formatProfileForPrompt(input.report.profile)}\n` : ""}
+REPORT:
+${formatReportForPrompt(input.report)}
+
+CONVERSATION SO FAR:
+${history || "(new conversation)"}
+
+QUESTION: ${input.question}
+`;
+}
+
+export async function answerQuestion(input: ChatInput): Promise<ChatAnswer> {
+  const provider = createProvider({ provider: input.provider, model: input.model });
+  const baseDelay = Number(process.env.LLM_RETRY_BASE_DELAY_MS) || 2000;
+  const text = await withRetry(
+    () => provider.generate({
+      task: "chat",
+      system: CHAT_SYSTEM_INSTRUCTION,
+      prompt: buildChatPrompt(input),
+      json: true,
+      chat: { report: input.report, history: input.history, question: input.question },
+    }),
+    3, baseDelay
+  );
+
+  if (!text) {
+    throw new Error("Model returned empty response");
+  }
+
+  const { value, issues } = validateChatAnswer(parseModelJson(text), input.report);
+  if (issues.length > 0) console.warn(`Chat answer adjusted: ${issues.map(i => `${i.path} ${i.action}`).join(", ")}`);
+  if (!value.answer) value.answer = "I couldn't find an answer to that in this report.";
+  return value;
+}
@@ -0,0 +1,146 @@
+// Diff between two reports of (usually) the same recurring analysis. Items
+// are aligned by name rather than position because the model rarely emits
+// sections in the same order twice.
+
+import { parseNumeric } from './schema';
+import type { AnalysisResult, Insight, Anomaly, Level, Trend } from './schema';
+
+export interface MetricDelta {
+  name: string;
+  before: string | null;
+  after: string | null;
+  delta: number | null;
+  delta_pct: number | null;
+  trend_before?: Trend;
+  trend_after?: Trend;
+}
+
+export interface ItemChange<T> {
+  appeared: T[];
+  disappeared: T[];
+  persisted: { before: T; after: T }[];
+}
+
+export interface RiskDelta {
+  category: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  impact_before: number | null;
+  impact_after: number | null;
+}
+
+export interface ForecastPoint {
+  period: string;
+  before?: number;
+  after?: number;
+}
+
+export interface ReportComparison {
+  metrics: MetricDelta[];
+  insights: ItemChange<Insight>;
+  anomalies: ItemChange<Anomaly>;
+  risks: RiskDelta[];
+  forecast: ForecastPoint[];
+}
+
+// Titles are reworded between runs; token overlap above this counts as the same item
+const SIMILARITY_THRESHOLD = 0.5;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function tokens(s: string): Set<string> {
+  return new Set(normalize(s).split(' ').filter(t => t.length > 2 && !/^\d+$/.test(t)));
+}
+
+function similarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return normalize(a) === normalize(b) ? 1 : 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+// Greedy one-to-one matching, best pairs first
+export function matchItems<T>(before: T[], after: T[], key: (item: T) => string): ItemChange<T> {
+  const pairs: { i: number; j: number; score: number }[] = [];
+  before.forEach((b, i) => after.forEach((a, j) => {
+    const score = similarity(key(b), key(a));
+    if (score >= SIMILARITY_THRESHOLD) pairs.push({ i, j, score });
+  }));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const usedBefore = new Set<number>();
+  const usedAfter = new Set<number>();
+  const persisted: { before: T; after: T }[] = [];
+  for (const p of pairs) {
+    if (usedBefore.has(p.i) || usedAfter.has(p.j)) continue;
+    usedBefore.add(p.i);
+    usedAfter.add(p.j);
+    persisted.push({ before: before[p.i], after: after[p.j] });
+  }
+  return {
+    appeared: after.filter((_, j) => !usedAfter.has(j)),
+    disappeared: before.filter((_, i) => !usedBefore.has(i)),
+    persisted,
+  };
+}
+
+function compareMetrics(before: AnalysisResult, after: AnalysisResult): MetricDelta[] {
+  const out: MetricDelta[] = [];
+  const remaining = new Map((after.data_summary?.key_metrics || []).map(m => [normalize(m.name), m]));
+  for (const b of before.data_summary?.key_metrics || []) {
+    const a = remaining.get(normalize(b.name));
+    remaining.delete(normalize(b.name));
+    const vb = parseNumeric(b.value);
+    const va = a ? parseNumeric(a.value) : null;
+    const delta = vb !== null && va !== null ? va - vb : null;
+    out.push({
+      name: b.name,
+      before: b.value,
+      after: a?.value ?? null,
+      delta,
+      delta_pct: delta !== null && vb ? (delta / Math.abs(vb)) * 100 : null,
+      trend_before: b.trend,
+      trend_after: a?.trend,
+    });
+  }
+  for (const a of remaining.values()) {
+    out.push({ name: a.name, before: null, after: a.value, delta: null, delta_pct: null, trend_after: a.trend });
+  }
+  return out;
+}
+
+function compareRisks(before: AnalysisResult, after: AnalysisResult): RiskDelta[] {
+  const rows = new Map<string, RiskDelta>();
+  const entry = (category: string) => {
+    const key = normalize(category);
+    if (!rows.has(key)) rows.set(key, { category, before: null, after: null, delta: null, impact_before: null, impact_after: null });
+    return rows.get(key)!;
+  };
+  for (const r of before.risk_heatmap?.data || []) Object.assign(entry(r.category), { before: r.risk_score, impact_before: r.impact });
+  for (const r of after.risk_heatmap?.data || []) Object.assign(entry(r.category), { after: r.risk_score, impact_after: r.impact });
+  for (const r of rows.values()) r.delta = r.before !== null && r.after !== null ? r.after - r.before : null;
+  return Array.from(rows.values()).sort((a, b) => Math.abs(b.delta ?? 0) - Math.abs(a.delta ?? 0));
+}
+
+function compareForecasts(before: AnalysisResult, after: AnalysisResult): ForecastPoint[] {
+  const points = new Map<string, ForecastPoint>();
+  for (const p of before.forecast?.projection_data || []) points.set(p.period, { period: p.period, before: p.value });
+  for (const p of after.forecast?.projection_data || []) points.set(p.period, { ...(points.get(p.period) || { period: p.period }), after: p.value });
+  // Periods are model-written labels; keep first-seen order, which follows each report's own ordering
+  return Array.from(points.values());
+}
+
+export function compareReports(before: AnalysisResult, after: AnalysisResult): ReportComparison {
+  return {
+    metrics: compareMetrics(before, after),
+    insights: matchItems(before.insights || [], after.insights || [], i => i.title),
+    anomalies: matchItems(before.anomalies || [], after.anomalies || [], a => `${a.type} ${a.location}`),
+    risks: compareRisks(before, after),
+    forecast: compareForecasts(before, after),
+  };
+}
+
+export const LEVEL_RANK: Record<Level, number> = { Low: 0, Medium: 1, High: 2 };
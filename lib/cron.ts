@@ -0,0 +1,105 @@
+// Minimal five-field cron (minute hour day-of-month month day-of-week) in
+// server local time. Supports *, lists, ranges, steps and the common
+// @hourly/@daily/@weekly/@monthly shorthands.
+
+export interface CronSchedule {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match.
+  // A field that matches every day ("*", "*/1", "1-31") is not a restriction.
+  anyDay: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Upper bound on the search; covers leap days and the sparsest valid schedules
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export class CronError extends Error {}
+
+function parseField(expr: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of expr.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new CronError(`Invalid ${field.name} "${part}"`);
+    const step = match[4] ? Number(match[4]) : 1;
+    let start = field.min;
+    let end = field.max;
+    if (match[2] !== undefined) {
+      start = Number(match[2]);
+      // "5/15" means "from 5 every 15"
+      end = match[3] !== undefined ? Number(match[3]) : match[4] ? field.max : start;
+    }
+    if (start < field.min || end > field.max) {
+      throw new CronError(`${field.name} "${part}" is outside ${field.min}-${field.max}`);
+    }
+    if (start > end || step < 1) throw new CronError(`Invalid ${field.name} range "${part}"`);
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+const coversRange = (values: Set<number>, min: number, max: number) => {
+  for (let v = min; v <= max; v++) if (!values.has(v)) return false;
+  return true;
+};
+
+export function parseCron(expression: string): CronSchedule {
+  const source = expression.trim();
+  const parts = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (parts.length !== 5) throw new CronError("Cron expressions need five fields: minute hour day month weekday");
+
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+  const anyDay = !coversRange(days, 1, 31) && !coversRange(weekdays, 0, 6);
+  return { source, minutes, hours, days, months, weekdays, anyDay };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.days.has(date.getDate());
+  const dow = schedule.weekdays.has(date.getDay());
+  return schedule.anyDay ? dom || dow : dom && dow;
+}
+
+// First matching minute strictly after `after`
+export function nextRun(schedule: CronSchedule, after: Date): Date | null {
+  const t = new Date(after.getTime());
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  while (t.getTime() <= limit) {
+    if (!schedule.months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0);
+    } else if (!dayMatches(schedule, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0);
+    } else if (!schedule.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1);
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
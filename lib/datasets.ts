@@ -0,0 +1,141 @@
+// Uploaded datasets stored server-side so reports can be reproduced and
+// re-run. Rows are kept gzip-compressed; re-uploading a file under the same
+// name in a workspace creates a new version unless its content hash is unchanged.
+// Rows are stored as uploaded; the preparation recipe (see ./prep) is saved
+// alongside so a re-run or a scheduled refresh replays the same cleanup.
+
+import zlib from "zlib";
+import type Database from "better-sqlite3";
+import { hashRows } from "./hash";
+import { collectHeaders } from "./profile";
+import { addColumnIfMissing } from "./db";
+import type { PrepStep } from "./prep";
+
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  version: number;
+  content_hash: string;
+  row_count: number;
+  columns: string[];
+  size_bytes: number;
+  recipe: PrepStep[];
+  created_at: string;
+}
+
+const MAX_NAME_LENGTH = 200;
+
+const DATASET_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content_hash TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  columns TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  data BLOB NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  recipe TEXT NOT NULL DEFAULT '[]',
+  workspace_id TEXT REFERENCES workspaces(id),
+  UNIQUE(workspace_id, name, version),
+  FOREIGN KEY(user_id) REFERENCES users(id)
+`;
+
+export function initDatasets(db: Database.Database) {
+  db.exec(`CREATE TABLE IF NOT EXISTS datasets (${DATASET_COLUMNS})`);
+  addColumnIfMissing(db, "reports", "dataset_id", "TEXT REFERENCES datasets(id)");
+  addColumnIfMissing(db, "datasets", "recipe", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "datasets", "workspace_id", "TEXT REFERENCES workspaces(id)");
+  scopeVersionsToWorkspace(db);
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_datasets_user_hash ON datasets(user_id, content_hash);
+    CREATE INDEX IF NOT EXISTS idx_datasets_workspace_name ON datasets(workspace_id, name, version);
+  `);
+}
+
+// Versions were once numbered per user; they are numbered per workspace now, so
+// tables created with UNIQUE(user_id, name, version) are rebuilt with the
+// workspace constraint. SQLite can't alter a constraint in place; foreign keys
+// are off for the rebuild so dropping the old table leaves reports.dataset_id
+// alone, and workspaces may not exist yet when upgrading an older database.
+function scopeVersionsToWorkspace(db: Database.Database) {
+  const table = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'datasets'").get() as { sql: string };
+  if (!/UNIQUE\s*\(\s*user_id\s*,\s*name\s*,\s*version\s*\)/i.test(table.sql)) return;
+  const columns = "id, user_id, name, version, content_hash, row_count, columns, size_bytes, data, created_at, recipe, workspace_id";
+  db.pragma("foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE datasets_migrated (${DATASET_COLUMNS});
+        INSERT INTO datasets_migrated (${columns}) SELECT ${columns} FROM datasets;
+        DROP TABLE datasets;
+        ALTER TABLE datasets_migrated RENAME TO datasets;
+      `);
+    })();
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+  console.log("Migrated datasets: versions are unique per workspace");
+}
+
+const META_COLUMNS = "id, name, version, content_hash, row_count, columns, size_bytes, recipe, created_at";
+
+function toMeta(row: any): DatasetMeta {
+  return { ...row, columns: JSON.parse(row.columns), recipe: JSON.parse(row.recipe) };
+}
+
+export function saveDataset(
+  db: Database.Database,
+  workspaceId: string,
+  userId: string,
+  name: string,
+  rows: Record<string, unknown>[],
+  recipe: PrepStep[] = []
+): { dataset: DatasetMeta; created: boolean } {
+  const cleanName = name.trim().slice(0, MAX_NAME_LENGTH) || "Untitled dataset";
+  const contentHash = hashRows(rows);
+  const recipeJson = JSON.stringify(recipe);
+
+  const latest: any = db.prepare(`
+    SELECT ${META_COLUMNS} FROM datasets WHERE workspace_id = ? AND name = ? ORDER BY version DESC LIMIT 1
+  `).get(workspaceId, cleanName);
+  if (latest && latest.content_hash === contentHash && latest.recipe === recipeJson) {
+    return { dataset: toMeta(latest), created: false };
+  }
+
+  const data = zlib.gzipSync(JSON.stringify(rows));
+  const id = `ds_${contentHash.slice(0, 12)}_${Date.now().toString(36)}`;
+  const version = latest ? latest.version + 1 : 1;
+  db.prepare(`
+    INSERT INTO datasets (id, user_id, workspace_id, name, version, content_hash, row_count, columns, size_bytes, recipe, data)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, workspaceId, cleanName, version, contentHash, rows.length, JSON.stringify(collectHeaders(rows)), data.length, recipeJson, data);
+
+  return { dataset: getDataset(db, workspaceId, id)!, created: true };
+}
+
+export function listDatasets(db: Database.Database, workspaceId: string): DatasetMeta[] {
+  const rows = db.prepare(`
+    SELECT ${META_COLUMNS} FROM datasets WHERE workspace_id = ? ORDER BY created_at DESC, version DESC
+  `).all(workspaceId);
+  return rows.map(toMeta);
+}
+
+export function getDataset(db: Database.Database, workspaceId: string, id: string): DatasetMeta | null {
+  const row = db.prepare(`SELECT ${META_COLUMNS} FROM datasets WHERE id = ? AND workspace_id = ?`).get(id, workspaceId);
+  return row ? toMeta(row) : null;
+}
+
+export function loadDatasetRows(db: Database.Database, workspaceId: string, id: string): Record<string, unknown>[] | null {
+  const row = db.prepare("SELECT data FROM datasets WHERE id = ? AND workspace_id = ?").get(id, workspaceId) as { data: Buffer } | undefined;
+  return row ? JSON.parse(zlib.gunzipSync(row.data).toString("utf8")) : null;
+}
+
+// Recipe of the newest version under a name, for scheduled refreshes of that name
+export function latestRecipe(db: Database.Database, workspaceId: string, name: string): PrepStep[] {
+  const row = db.prepare(`
+    SELECT recipe FROM datasets WHERE workspace_id = ? AND name = ? ORDER BY version DESC LIMIT 1
+  `).get(workspaceId, name.trim().slice(0, MAX_NAME_LENGTH)) as { recipe: string } | undefined;
+  return row ? JSON.parse(row.recipe) : [];
+}
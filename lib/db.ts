@@ -0,0 +1,11 @@
+import type Database from "better-sqlite3";
+
+// `CREATE TABLE IF NOT EXISTS` never alters an existing table, so columns added
+// after a table first shipped go through here.
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Migrated ${table}: added ${column}`);
+  }
+}
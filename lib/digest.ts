@@ -0,0 +1,248 @@
+// Summarization layer that lets the model reason about the whole dataset
+// without pasting every row into the prompt: a stratified sample, per-dimension
+// aggregates and time-bucketed rollups, all computed over every row.
+
+import { DatasetProfile, ColumnProfile, toNumber, toDate, isMissing } from './profile';
+
+export interface Coverage {
+  total_rows: number;
+  sampled_rows: number;
+  aggregated_rows: number;
+  fraction: number;
+  strata_column?: string;
+}
+
+export interface GroupAggregate {
+  value: string;
+  count: number;
+  sums: Record<string, number>;
+  means: Record<string, number>;
+}
+
+export interface DimensionAggregate {
+  dimension: string;
+  groups: GroupAggregate[];
+  other_groups: number;
+}
+
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface TimeRollup {
+  date_column: string;
+  granularity: TimeGranularity;
+  buckets: { period: string; count: number; sums: Record<string, number> }[];
+}
+
+export interface DatasetDigest {
+  coverage: Coverage;
+  sample: Record<string, unknown>[];
+  dimension_aggregates: DimensionAggregate[];
+  time_rollup?: TimeRollup;
+}
+
+const SAMPLE_SIZE = 120;
+const MAX_DIMENSIONS = 4;
+const MAX_MEASURES = 6;
+const MAX_GROUPS = 20;
+const MAX_BUCKETS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function isDimension(c: ColumnProfile, rowCount: number): boolean {
+  return (c.type === 'string' || c.type === 'boolean') &&
+    c.semantic !== 'identifier' && c.semantic !== 'text' &&
+    c.distinct_count >= 2 &&
+    c.distinct_count <= Math.max(50, Math.floor(rowCount * 0.05)) &&
+    c.distinct_count < rowCount;
+}
+
+export function pickDimensions(profile: DatasetProfile): ColumnProfile[] {
+  return profile.columns
+    .filter(c => isDimension(c, profile.row_count))
+    .sort((a, b) => a.null_rate - b.null_rate || a.distinct_count - b.distinct_count)
+    .slice(0, MAX_DIMENSIONS);
+}
+
+export function pickMeasures(profile: DatasetProfile): ColumnProfile[] {
+  return profile.columns
+    .filter(c => c.type === 'number' && c.semantic !== 'identifier' && c.distinct_count > 1)
+    .sort((a, b) => a.null_rate - b.null_rate)
+    .slice(0, MAX_MEASURES);
+}
+
+// Systematic sampling inside each stratum keeps the sample deterministic,
+// which matters for fixture hashing and reproducible reports.
+function stratifiedSample(rows: Record<string, unknown>[], strata?: string): Record<string, unknown>[] {
+  if (rows.length <= SAMPLE_SIZE) return rows;
+  if (!strata) {
+    const step = rows.length / SAMPLE_SIZE;
+    return Array.from({ length: SAMPLE_SIZE }, (_, i) => rows[Math.floor(i * step)]);
+  }
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const key = isMissing(row[strata]) ? '(missing)' : String(row[strata]);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(i);
+  });
+  const picked: number[] = [];
+  for (const indices of groups.values()) {
+    const quota = Math.max(1, Math.round((indices.length / rows.length) * SAMPLE_SIZE));
+    const step = indices.length / quota;
+    for (let i = 0; i < quota && i * step < indices.length; i++) {
+      picked.push(indices[Math.floor(i * step)]);
+    }
+  }
+  return picked.sort((a, b) => a - b).map(i => rows[i]);
+}
+
+function aggregateDimension(rows: Record<string, unknown>[], dimension: string, measures: string[]): DimensionAggregate {
+  const groups = new Map<string, { count: number; sums: Record<string, number>; counts: Record<string, number> }>();
+  for (const row of rows) {
+    const key = isMissing(row[dimension]) ? '(missing)' : String(row[dimension]);
+    let g = groups.get(key);
+    if (!g) {
+      g = { count: 0, sums: {}, counts: {} };
+      groups.set(key, g);
+    }
+    g.count++;
+    for (const m of measures) {
+      const n = toNumber(row[m]);
+      if (n === null) continue;
+      g.sums[m] = (g.sums[m] || 0) + n;
+      g.counts[m] = (g.counts[m] || 0) + 1;
+    }
+  }
+  const sorted = Array.from(groups.entries()).sort((a, b) => b[1].count - a[1].count);
+  return {
+    dimension,
+    groups: sorted.slice(0, MAX_GROUPS).map(([value, g]) => ({
+      value,
+      count: g.count,
+      sums: Object.fromEntries(Object.entries(g.sums).map(([k, v]) => [k, round(v)])),
+      means: Object.fromEntries(Object.entries(g.sums).map(([k, v]) => [k, round(v / g.counts[k])])),
+    })),
+    other_groups: Math.max(0, sorted.length - MAX_GROUPS),
+  };
+}
+
+export function chooseGranularity(spanMs: number): TimeGranularity {
+  const days = spanMs / DAY_MS;
+  if (days <= 62) return 'day';
+  if (days <= 366) return 'week';
+  if (days <= 366 * 5) return 'month';
+  if (days <= 366 * 15) return 'quarter';
+  return 'year';
+}
+
+export function bucketKey(d: Date, granularity: TimeGranularity): string {
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth();
+  switch (granularity) {
+    case 'day':
+      return d.toISOString().slice(0, 10);
+    case 'week': {
+      // Monday-based week start
+      const start = new Date(Date.UTC(y, m, d.getUTCDate() - ((d.getUTCDay() + 6) % 7)));
+      return start.toISOString().slice(0, 10);
+    }
+    case 'month':
+      return `${y}-${String(m + 1).padStart(2, '0')}`;
+    case 'quarter':
+      return `${y}-Q${Math.floor(m / 3) + 1}`;
+    default:
+      return String(y);
+  }
+}
+
+function rollup(rows: Record<string, unknown>[], dateColumn: ColumnProfile, measures: string[]): { rollup: TimeRollup; rows: number } {
+  const span = new Date(String(dateColumn.max)).getTime() - new Date(String(dateColumn.min)).getTime();
+  const granularity = chooseGranularity(span);
+  const buckets = new Map<string, { count: number; sums: Record<string, number> }>();
+  let covered = 0;
+  for (const row of rows) {
+    const d = toDate(row[dateColumn.name]);
+    if (!d) continue;
+    covered++;
+    const key = bucketKey(d, granularity);
+    let b = buckets.get(key);
+    if (!b) {
+      b = { count: 0, sums: {} };
+      buckets.set(key, b);
+    }
+    b.count++;
+    for (const m of measures) {
+      const n = toNumber(row[m]);
+      if (n !== null) b.sums[m] = (b.sums[m] || 0) + n;
+    }
+  }
+  const ordered = Array.from(buckets.entries()).sort((a, b) => a[0].localeCompare(b[0])).slice(-MAX_BUCKETS);
+  return {
+    rollup: {
+      date_column: dateColumn.name,
+      granularity,
+      buckets: ordered.map(([period, b]) => ({
+        period,
+        count: b.count,
+        sums: Object.fromEntries(Object.entries(b.sums).map(([k, v]) => [k, round(v)])),
+      })),
+    },
+    rows: covered,
+  };
+}
+
+export function buildDigest(rows: Record<string, unknown>[], profile: DatasetProfile): DatasetDigest {
+  const dimensions = pickDimensions(profile);
+  const measures = pickMeasures(profile).map(c => c.name);
+  const strata = dimensions[0]?.name;
+  const sample = stratifiedSample(rows, strata);
+
+  const dimension_aggregates = dimensions.map(d => aggregateDimension(rows, d.name, measures));
+  const dateColumn = profile.columns.find(c => c.type === 'date');
+  const timed = dateColumn ? rollup(rows, dateColumn, measures) : undefined;
+
+  // Dimension aggregates see every row; otherwise fall back to what the rollup
+  // or the sample could cover.
+  const aggregated = dimension_aggregates.length > 0 ? rows.length : timed ? timed.rows : sample.length;
+
+  return {
+    coverage: {
+      total_rows: rows.length,
+      sampled_rows: sample.length,
+      aggregated_rows: aggregated,
+      fraction: rows.length ? round(aggregated / rows.length) : 0,
+      strata_column: strata,
+    },
+    sample,
+    dimension_aggregates,
+    time_rollup: timed?.rollup,
+  };
+}
+
+export function formatDigestForPrompt(digest: DatasetDigest): string {
+  const sections: string[] = [];
+  for (const agg of digest.dimension_aggregates) {
+    const lines = agg.groups.map(g => {
+      const stats = Object.keys(g.sums).map(m => `${m}: sum=${g.sums[m]}, mean=${g.means[m]}`).join('; ');
+      return `  ${g.value} (n=${g.count})${stats ? ` ${stats}` : ''}`;
+    });
+    if (agg.other_groups > 0) lines.push(`  ... ${agg.other_groups} smaller groups omitted`);
+    sections.push(`AGGREGATES BY ${agg.dimension}:\n${lines.join('\n')}`);
+  }
+  if (digest.time_rollup) {
+    const t = digest.time_rollup;
+    const lines = t.buckets.map(b => {
+      const sums = Object.entries(b.sums).map(([m, v]) => `${m}=${v}`).join(', ');
+      return `  ${b.period} (n=${b.count})${sums ? ` ${sums}` : ''}`;
+    });
+    sections.push(`TIME ROLLUP (${t.granularity} buckets on ${t.date_column}, sums):\n${lines.join('\n')}`);
+  }
+  const c = digest.coverage;
+  sections.push(
+    `REPRESENTATIVE SAMPLE (${c.sampled_rows} of ${c.total_rows} rows${c.strata_column ? `, stratified by ${c.strata_column}` : ''}):\n` +
+    digest.sample.map(row => JSON.stringify(row)).join('\n')
+  );
+  return sections.join('\n\n');
+}
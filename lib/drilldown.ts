@@ -0,0 +1,92 @@
+// Maps a clicked chart datum back to the rows behind it. The engine may attach
+// a grid filter to each datum; when it doesn't, or the filter names columns
+// the dataset doesn't have, the label is matched against dimension values and
+// then against time buckets built the same way as the digest's rollup.
+
+import { chooseGranularity, bucketKey, type TimeGranularity } from './digest';
+import { describeFilters, filterIndices, type GridFilters, type Row } from './grid';
+import { isMissing, toDate } from './profile';
+
+export interface DrillTarget {
+  // Chart title, shown in the drill-down header
+  chart: string;
+  label: string;
+  filter?: GridFilters;
+}
+
+export interface DrillMatch {
+  indices: number[];
+  // Human-readable condition, e.g. `Region = North` or `Date in month 2025-03`
+  description: string;
+  source: 'engine' | 'inferred';
+}
+
+// The digest's label for blank dimension values
+const MISSING_LABEL = '(missing)';
+const PERIOD_LABEL = /^\d{4}(-Q[1-4]|-\d{2}(-\d{2})?)?$/;
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+function matchEngineFilter(rows: Row[], headers: string[], filter: GridFilters | undefined): DrillMatch | null {
+  if (!filter || Object.keys(filter).length === 0) return null;
+  if (!Object.keys(filter).every(column => headers.includes(column))) return null;
+  const indices = filterIndices(rows, filter);
+  return indices.length > 0 ? { indices, description: describeFilters(filter), source: 'engine' } : null;
+}
+
+// The column whose values equal the label on the most rows wins
+function matchDimension(rows: Row[], headers: string[], label: string): DrillMatch | null {
+  const needle = normalize(label);
+  const blank = needle === MISSING_LABEL;
+  let best: { column: string; indices: number[] } | null = null;
+  for (const column of headers) {
+    const indices: number[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const value = rows[i][column];
+      if (blank ? isMissing(value) : !isMissing(value) && normalize(value) === needle) indices.push(i);
+    }
+    if (indices.length > 0 && (!best || indices.length > best.indices.length)) best = { column, indices };
+  }
+  if (!best) return null;
+  return { indices: best.indices, description: blank ? `${best.column} is blank` : `${best.column} = ${label}`, source: 'inferred' };
+}
+
+// "2025", "2025-Q1" and "2025-03" say their own granularity; a full date is a
+// day or, in the digest's weekly rollup, the Monday a week starts on
+function labelGranularity(label: string, spanMs: number): TimeGranularity {
+  if (/^\d{4}$/.test(label)) return 'year';
+  if (/-Q[1-4]$/.test(label)) return 'quarter';
+  if (/^\d{4}-\d{2}$/.test(label)) return 'month';
+  return chooseGranularity(spanMs) === 'week' ? 'week' : 'day';
+}
+
+function matchPeriod(rows: Row[], headers: string[], label: string): DrillMatch | null {
+  const period = label.trim();
+  if (!PERIOD_LABEL.test(period)) return null;
+  for (const column of headers) {
+    const dates = rows.map(r => toDate(r[column]));
+    let count = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const d of dates) {
+      if (!d) continue;
+      count++;
+      min = Math.min(min, d.getTime());
+      max = Math.max(max, d.getTime());
+    }
+    if (count < rows.length / 2) continue;
+    const granularity = labelGranularity(period, max - min);
+    const indices: number[] = [];
+    dates.forEach((d, i) => {
+      if (d && bucketKey(d, granularity) === period) indices.push(i);
+    });
+    if (indices.length > 0) return { indices, description: `${column} in ${granularity} ${period}`, source: 'inferred' };
+  }
+  return null;
+}
+
+export function resolveDrill(rows: Row[], headers: string[], target: DrillTarget): DrillMatch | null {
+  return matchEngineFilter(rows, headers, target.filter)
+    ?? matchDimension(rows, headers, target.label)
+    ?? matchPeriod(rows, headers, target.label);
+}
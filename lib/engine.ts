@@ -0,0 +1,369 @@
+// Analysis pipeline shared by the JSON and streaming /api/analyze routes:
+// profile the dataset, build the digest, call the selected provider and
+// normalize output.
+
+import { profileDataset, formatProfileForPrompt, collectHeaders, DatasetProfile } from "./profile";
+import { detectSchema, applySchema, ColumnSchema } from "./semantic";
+import { buildDigest, formatDigestForPrompt, DatasetDigest } from "./digest";
+import { JsonSectionScanner } from "./jsonStream";
+import {
+  AnalysisResult,
+  ModelOutput,
+  ValidationIssue,
+  ValidationReport,
+  validateModelOutput,
+  validateSection,
+  sectionsNeedingRepair,
+} from "./schema";
+import { createProvider, getGeminiKeyName, GenerateTask, LLMProvider } from "./providers";
+import { hashRows } from "./hash";
+import { verifyEvidence } from "./evidence";
+import { buildForecast, formatForecastForPrompt, reconcileForecast, StatisticalForecast } from "./forecast";
+
+export type AnalysisPhase = "parsing" | "profiling" | "model" | "retry" | "validating" | "verifying" | "saving" | "complete";
+
+export interface ProgressEvent {
+  phase: AnalysisPhase;
+  message: string;
+  attempt?: number;
+  delay?: number;
+}
+
+export interface AnalysisInput {
+  dataset: Record<string, unknown>[];
+  query?: string;
+  context?: string;
+  provider?: string;
+  model?: string;
+  // Remove insights and risks whose figures can't be found in the data
+  dropUnsupported?: boolean;
+  // Column types confirmed by the user; the rest are detected from the data
+  schema?: ColumnSchema[];
+}
+
+export interface AnalysisHooks {
+  onProgress?: (event: ProgressEvent) => void;
+  onSection?: (key: string, value: unknown) => void;
+}
+
+// Helper for exponential backoff
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 5,
+  baseDelay = 2000,
+  onRetry?: (attempt: number, delay: number, error: any) => void
+): Promise<T> {
+  let lastError: any;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      lastError = error;
+      // Retry on 503 (Service Unavailable) or 429 (Too Many Requests)
+      const status = error.status || (error.response && error.response.status);
+      const message = error.message?.toLowerCase() || "";
+      
+      if (status === 503 || status === 429 || 
+          message.includes("503") || 
+          message.includes("429") || 
+          message.includes("demand") || 
+          message.includes("rate exceeded") ||
+          message.includes("quota")) {
+        
+        const delay = baseDelay * Math.pow(2, i);
+        console.warn(`Model provider busy or rate limited (attempt ${i + 1}/${maxRetries}). Retrying in ${delay}ms...`);
+        onRetry?.(i + 1, delay, error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw lastError;
+}
+
+const SYSTEM_INSTRUCTION = `
+SYSTEM ROLE:
+You are an AI Data Intelligence Engine designed to replace spreadsheets, dashboards, and BI tools. You do not generate generic responses. You perform structured reasoning over data and produce autonomous insights, forecasts, risk analysis, and decision intelligence.
+You behave like a persistent enterprise intelligence system, not a chatbot.
+
+OBJECTIVE:
+Given a structured dataset (CSV or tabular data), you must:
+1. Understand schema automatically
+2. Detect relationships
+3. Identify key metrics
+4. Generate contextual insights
+5. Detect anomalies
+6. Forecast trends
+7. Identify risks
+8. Suggest decisions
+9. Provide explainability with evidence
+10. Provide confidence score
+
+REASONING RULES:
+- Always infer KPIs from data automatically.
+- If time-series data exists → generate forecast.
+- If numeric variance > 2 standard deviations → flag anomaly.
+- Detect correlations.
+- Detect trend direction.
+- Always explain WHY.
+- Never say “insufficient data” unless truly impossible.
+- Be analytical, not conversational.
+- Use structured business reasoning.
+- Assume enterprise-level decision making.
+
+OUTPUT FORMAT (STRICT JSON):
+{
+  "data_summary": {
+    "detected_entities": ["string"],
+    "key_metrics": [{"name": "string", "value": "string", "trend": "up/down/stable"}],
+    "relationships": ["string"]
+  },
+  "visualizations": [
+    {
+      "type": "pie | bar | line | area",
+      "title": "string",
+      "data": [{"name": "string", "value": "number", "filter": {"column": "string"}}],
+      "description": "string"
+    }
+  ],
+  "insights": [
+    {
+      "title": "string",
+      "description": "string",
+      "data_evidence": "string",
+      "impact_level": "Low/Medium/High"
+    }
+  ],
+  "anomalies": [
+    {
+      "type": "string",
+      "location": "string",
+      "reasoning": "string",
+      "severity": "Low/Medium/High"
+    }
+  ],
+  "forecast": {
+    "time_horizon": "string",
+    "predicted_trend": "string",
+    "confidence_level": "string",
+    "projection_data": [{"period": "string", "value": "number"}]
+  },
+  "strategic_growth": {
+    "title": "string",
+    "data": [{"label": "string", "current": "number", "projected": "number"}]
+  },
+  "market_expansion": {
+    "title": "string",
+    "data": [{"segment": "string", "opportunity_score": "number", "risk_factor": "number"}]
+  },
+  "geographic_matrix": {
+    "title": "string",
+    "data": [{"city": "string", "score": "number", "risk": "number"}]
+  },
+  "risk_heatmap": {
+    "title": "string",
+    "data": [{"category": "string", "risk_score": "number", "impact": "number"}]
+  },
+  "operational_efficiency": {
+    "title": "string",
+    "metrics": [{"label": "string", "score": "number"}]
+  },
+  "risk_analysis": [
+    {
+      "risk_type": "string",
+      "probability": "string",
+      "business_impact": "string",
+      "evidence": "string"
+    }
+  ],
+  "recommendations": [
+    {
+      "action": "string",
+      "justification": "string",
+      "expected_outcome": "string",
+      "confidence_score": "number (0-1)"
+    }
+  ]
+}
+`;
+
+function buildPrompt(input: AnalysisInput, profile: DatasetProfile, digest: DatasetDigest, forecast?: StatisticalForecast): string {
+  const { query, context } = input;
+  return `
+Dataset Context: ${context || 'General Business Data'}
+User Intent: ${query || 'Analyze this data for executive insights'}
+
+DATASET PROFILE (computed deterministically over ALL rows - treat these numbers as ground truth):
+${formatProfileForPrompt(profile)}
+
+DATASET DIGEST (aggregates cover ${(digest.coverage.fraction * 100).toFixed(1)}% of rows):
+${formatDigestForPrompt(digest)}
+${forecast ? `\n${formatForecastForPrompt(forecast)}\n` : ""}
+Perform full intelligence analysis and return the results in the specified JSON format.
+- For "geographic_matrix", provide a comprehensive "Geographic Opportunity Matrix" covering ALL major cities or regions identified in the dataset. Do not limit to just 3; include as many as are relevant to show a complete geographic spread.
+- For "forecast.projection_data", provide at least 6-8 data points representing a logical progression.${forecast ? ` Base the forecast on the STATISTICAL FORECAST: use its periods and stay inside its 95% range unless the data gives a concrete reason not to, and say so in "predicted_trend" if you depart from it.` : ""}
+- For "strategic_growth", provide a comparison of current vs projected performance across key segments.
+- For "risk_heatmap", provide data points that can be visualized as a scatter or bubble chart (risk vs impact).
+- For "operational_efficiency", provide scores (0-100) for different operational areas.
+- For "data_summary.key_metrics", prefer values taken directly from the DATASET PROFILE over estimates from the sample rows.
+- A second column type in the DATASET PROFILE, e.g. "(number, currency)", is the column's meaning: never sum or average identifier columns, report currency columns as money, and read percentage columns as fractions (0.15 = 15%).
+- Base trends, rankings and regional comparisons on the AGGREGATES and TIME ROLLUP, which cover the full dataset; use the sample rows only to understand row-level structure.
+- Chart data points in "visualizations", "strategic_growth", "market_expansion", "geographic_matrix" and "risk_heatmap" may carry a "filter" naming the rows they summarize, keyed by exact column names from the DATASET PROFILE: "= North" for equality, "> 100" or ">= 2025-01-01" for comparisons, "2025-01-01..2025-03-31" for inclusive ranges. Omit it for points that are not a subset of rows, such as projections.
+- Ensure all JSON is valid and strictly follows the schema.
+`;
+}
+
+function buildRepairPrompt(raw: Record<string, unknown>, keys: (keyof ModelOutput)[], issues: ValidationIssue[]): string {
+  const relevant = issues.filter(i => keys.some(k => i.path === k || i.path.startsWith(`${k}.`) || i.path.startsWith(`${k}[`)));
+  const original = Object.fromEntries(keys.map(k => [k, raw[k] ?? null]));
+  return `
+Your previous response failed schema validation in these sections: ${keys.join(", ")}.
+
+PROBLEMS:
+${relevant.map(i => `- ${i.path}: ${i.detail}`).join("\n")}
+
+ORIGINAL VALUES:
+${JSON.stringify(original, null, 2)}
+
+Return a JSON object containing ONLY the keys ${keys.map(k => `"${k}"`).join(", ")}, with corrected values that strictly follow the OUTPUT FORMAT.
+- Numbers must be JSON numbers, not strings.
+- impact_level and severity must be exactly "Low", "Medium" or "High".
+- confidence_score must be between 0 and 1.
+- Keep the original meaning; fix types and omissions only.
+`;
+}
+
+// Chat-tuned models behind OpenAI-compatible servers often wrap their JSON in
+// a markdown fence (```json ... ```) even when asked for a bare object. A
+// response that already starts as JSON is parsed untouched, so fences quoted
+// inside its strings are left alone.
+export function parseModelJson(text: string): any {
+  const trimmed = text.trim();
+  const fenced = /^[{[]/.test(trimmed) ? null : /```(?:json)?\s*([\s\S]*?)\s*```/i.exec(trimmed);
+  return JSON.parse(fenced ? fenced[1] : trimmed);
+}
+
+export async function runAnalysis(input: AnalysisInput, hooks: AnalysisHooks = {}): Promise<AnalysisResult> {
+  const progress = (event: ProgressEvent) => hooks.onProgress?.(event);
+
+  progress({ phase: "parsing", message: `Received ${input.dataset.length.toLocaleString()} rows` });
+  // "$1,200" becomes 1200 and ZIP codes stay text before anything is counted
+  // Columns the request leaves out keep their detected type
+  const confirmed = new Map(input.schema?.map(c => [c.name, c.type]));
+  const schema = detectSchema(input.dataset, collectHeaders(input.dataset))
+    .map(c => ({ name: c.name, type: confirmed.get(c.name) ?? c.type }));
+  const dataset = applySchema(input.dataset, schema);
+
+  const provider: LLMProvider = createProvider({ provider: input.provider, model: input.model });
+
+  // Ground-truth statistics computed locally over every row
+  progress({ phase: "profiling", message: "Profiling columns and building dataset digest" });
+  const profile = profileDataset(dataset, schema);
+  const digest = buildDigest(dataset, profile);
+  const statistical = buildForecast(profile, digest);
+  console.log(`Profiled ${profile.row_count} rows across ${profile.column_count} columns (${digest.coverage.sampled_rows} sampled)`);
+
+  const analysis = { datasetHash: hashRows(dataset), profile, digest, query: input.query, context: input.context };
+  // Overridable so replayed failures don't make offline test runs crawl
+  const baseDelay = Number(process.env.LLM_RETRY_BASE_DELAY_MS) || 2000;
+  // `startAttempt` is called per retry attempt so partial output from a
+  // failed stream is not mixed into the next one.
+  const generate = (task: GenerateTask, prompt: string, startAttempt?: () => (piece: string) => void) => withRetry(
+    () => provider.generate({ task, system: SYSTEM_INSTRUCTION, prompt, json: true, analysis }, startAttempt?.()),
+    5, baseDelay,
+    (attempt, delay) => {
+      progress({ phase: "retry", message: `Model busy, retrying in ${delay / 1000}s`, attempt, delay });
+    }
+  );
+
+  const prompt = buildPrompt(input, profile, digest, statistical);
+
+  console.log(`Sending request to ${provider.id} (${provider.model})...`);
+  progress({ phase: "model", message: `Calling ${provider.id}/${provider.model}` });
+  const text = await generate("analysis", prompt, () => {
+    const scanner = new JsonSectionScanner();
+    return piece => {
+      for (const section of scanner.push(piece)) {
+        // Sections are validated before they reach the client's charts
+        const value = validateSection(section.key as keyof ModelOutput, section.value);
+        if (value !== undefined) hooks.onSection?.(section.key, value);
+      }
+    };
+  });
+
+  if (!text) {
+    throw new Error("Model returned empty response");
+  }
+
+  progress({ phase: "validating", message: "Validating model output" });
+  const raw = parseModelJson(text);
+  let { value: output, issues } = validateModelOutput(raw);
+  const broken = sectionsNeedingRepair(issues);
+  let repairAttempted = false;
+
+  if (broken.length > 0) {
+    repairAttempted = true;
+    console.warn(`Model output failed validation in: ${broken.join(", ")}. Requesting repair...`);
+    progress({ phase: "validating", message: `Requesting repair of ${broken.join(", ")}` });
+    try {
+      const patch = parseModelJson(await generate("repair", buildRepairPrompt(raw, broken, issues)));
+      const merged = { ...raw };
+      for (const key of broken) {
+        if (patch && patch[key] !== undefined) merged[key] = patch[key];
+      }
+      const revalidated = validateModelOutput(merged);
+      const stillBroken = new Set(sectionsNeedingRepair(revalidated.issues));
+      output = revalidated.value;
+      issues = [
+        ...broken.filter(k => !stillBroken.has(k)).map((k): ValidationIssue => ({
+          path: k,
+          action: "repaired",
+          detail: "Regenerated by targeted repair request",
+        })),
+        ...revalidated.issues,
+      ];
+    } catch (error) {
+      console.error("Repair request failed:", error);
+    }
+  }
+
+  const unresolved = sectionsNeedingRepair(issues).length > 0;
+  const validation: ValidationReport = {
+    status: unresolved ? "partial" : issues.length > 0 ? "repaired" : "valid",
+    repair_attempted: repairAttempted,
+    issues,
+  };
+
+  progress({ phase: "verifying", message: "Checking cited figures against the dataset" });
+  const result: AnalysisResult = { ...output, profile, coverage: digest.coverage, validation, engine: { provider: provider.id, model: provider.model } };
+  if (statistical) result.statistical_forecast = { ...statistical, reconciliation: reconcileForecast(statistical, output.forecast) };
+  result.evidence = verifyEvidence(result, dataset, profile, digest, { dropUnsupported: input.dropUnsupported });
+  console.log(`Evidence: ${result.evidence.verified} verified, ${result.evidence.approximate} approximate, ${result.evidence.unsupported} unsupported${result.evidence.dropped ? ` (${result.evidence.dropped} dropped)` : ""}`);
+
+  console.log("Analysis successful");
+  return result;
+}
+
+// Maps provider failures to the HTTP status and message shown to users.
+export function describeAnalysisError(error: any): { status: number; error: string } {
+  const status = error.status || (error.response && error.response.status) || 500;
+  const message = error.message?.toLowerCase() || "";
+  
+  if (status === 400 && message.includes("api key not valid")) {
+    const keySource = getGeminiKeyName() === "NONE" ? "Unknown" : getGeminiKeyName();
+    return {
+      status: 400,
+      error: `The Gemini API key is invalid. Current key source: ${keySource}. Please update your environment variables in AI Studio.` 
+    };
+  }
+
+  if (status === 429 || message.includes("rate exceeded") || message.includes("quota")) {
+    return {
+      status: 429,
+      error: "Model provider rate limit exceeded. The system is currently under high load. Please wait a few moments and try again." 
+    };
+  }
+  
+  return { status, error: error.message || "Failed to analyze data" };
+}
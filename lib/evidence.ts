@@ -0,0 +1,322 @@
+// Evidence verification: pulls numeric claims out of the model's
+// data_evidence / evidence strings and checks them against figures recomputed
+// from the rows (totals, means, group shares, growth rates, raw values).
+
+import { DatasetProfile, toNumber, toDate, isMissing } from "./profile";
+import { DatasetDigest, bucketKey } from "./digest";
+import type { AnalysisResult } from "./schema";
+
+export type ClaimStatus = "verified" | "approximate" | "unsupported";
+export type EvidenceStatus = ClaimStatus | "qualitative";
+
+export interface VerifiedClaim {
+  text: string;
+  value: number;
+  percent: boolean;
+  status: ClaimStatus;
+  matched?: { label: string; value: number };
+}
+
+export interface EvidenceVerification {
+  status: EvidenceStatus;
+  claims: VerifiedClaim[];
+}
+
+export interface VerificationSummary {
+  verified: number;
+  approximate: number;
+  unsupported: number;
+  qualitative: number;
+  dropped: number;
+}
+
+interface Fact {
+  label: string;
+  value: number;
+  percent: boolean;
+  entities: string[];
+}
+
+const VERIFIED_TOLERANCE = 0.01;
+const APPROXIMATE_TOLERANCE = 0.1;
+const MAX_DIMENSION_VALUES = 50;
+const MAX_RAW_VALUES = 50000;
+const MAX_CELLS_PER_VALUE = 20;
+
+const CLAIM_PATTERN = /([-+]?[$€£]?\d[\d,]*(?:\.\d+)?)\s*(%|percent\b|k\b|K\b|m\b|M\b|mn\b|million\b|bn\b|B\b|billion\b|thousand\b)?/g;
+const SCALE: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mn: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9 };
+
+export function extractClaims(text: string): { text: string; value: number; percent: boolean; precision: number }[] {
+  const claims: { text: string; value: number; percent: boolean; precision: number }[] = [];
+  for (const match of text.matchAll(CLAIM_PATTERN)) {
+    const [raw, numberPart, unit] = match;
+    const digits = numberPart.replace(/[$€£,+]/g, "");
+    const base = Number(digits);
+    if (!Number.isFinite(base)) continue;
+    const before = text.slice(Math.max(0, (match.index ?? 0) - 1), match.index ?? 0);
+    const after = text.slice((match.index ?? 0) + raw.length, (match.index ?? 0) + raw.length + 1);
+    // Dates, times, ranks and identifiers are not quantitative claims
+    if (/[-/:.#\w]/.test(before) || /^[-/:]/.test(after)) continue;
+    const percent = unit === "%" || unit === "percent";
+    const scale = unit && !percent ? SCALE[unit.toLowerCase()] ?? 1 : 1;
+    if (!unit && !numberPart.includes(",") && !digits.includes(".") && base >= 1900 && base <= 2100) continue;
+    const decimals = digits.includes(".") ? digits.split(".")[1].length : 0;
+    claims.push({
+      text: raw.trim(),
+      value: base * scale,
+      percent,
+      // Half a unit in the last stated digit: "14.2k" covers 14,150..14,250
+      precision: (0.5 * Math.pow(10, -decimals)) * scale,
+    });
+  }
+  return claims;
+}
+
+function pctChange(from: number, to: number): number | null {
+  return from === 0 ? null : ((to - from) / Math.abs(from)) * 100;
+}
+
+// Exact cell values, looked up directly instead of scanned like facts. Each
+// cell keeps its column and the dimension values of its row, because a common
+// number like 120 is only evidence where the text names one of them.
+interface RawCell {
+  label: string;
+  entities: string[];
+}
+
+interface RawValues {
+  values: Map<number, RawCell[]>;
+  percents: Map<number, RawCell[]>;
+}
+
+export interface EvidenceFacts {
+  facts: Fact[];
+  raw: RawValues;
+  // Numeric-looking values of text columns (zip codes, store numbers, years
+  // stored as labels) by lowercased column name
+  categories: Map<string, Set<number>>;
+}
+
+export function buildFacts(rows: Record<string, unknown>[], profile: DatasetProfile, digest: DatasetDigest): EvidenceFacts {
+  const facts: Fact[] = [];
+  const raw: RawValues = { values: new Map(), percents: new Map() };
+  const categories = new Map<string, Set<number>>();
+  const measures = profile.columns.filter(c => c.type === "number");
+  const dimensions = profile.columns.filter(c => (c.type === "string" || c.type === "boolean") && c.distinct_count <= MAX_DIMENSION_VALUES);
+  const dateColumn = profile.columns.find(c => c.type === "date");
+  const granularity = digest.time_rollup?.granularity;
+
+  facts.push({ label: "row count", value: profile.row_count, percent: false, entities: [] });
+
+  for (const m of measures) {
+    const e = [m.name];
+    for (const [label, value] of [["sum", m.sum], ["mean", m.mean], ["min", m.min], ["max", m.max], ["std", m.std], ["median", m.quantiles?.p50]] as const) {
+      if (typeof value === "number") facts.push({ label: `${label} of ${m.name}`, value, percent: false, entities: e });
+    }
+    facts.push({ label: `null rate of ${m.name}`, value: m.null_rate * 100, percent: true, entities: e });
+  }
+
+  // Overall growth over the time rollup
+  if (digest.time_rollup && digest.time_rollup.buckets.length >= 2) {
+    const buckets = digest.time_rollup.buckets;
+    for (const m of measures) {
+      const series = buckets.map(b => b.sums[m.name] || 0);
+      const first = pctChange(series[0], series[series.length - 1]);
+      if (first !== null) facts.push({ label: `${m.name} change ${buckets[0].period}→${buckets[buckets.length - 1].period}`, value: first, percent: true, entities: [m.name] });
+      const prev = pctChange(series[series.length - 2], series[series.length - 1]);
+      if (prev !== null) facts.push({ label: `${m.name} change over last ${granularity}`, value: prev, percent: true, entities: [m.name] });
+      buckets.forEach((b, i) => {
+        facts.push({ label: `${m.name} sum for ${b.period}`, value: series[i], percent: false, entities: [m.name, b.period] });
+      });
+    }
+  }
+
+  for (const d of dimensions) {
+    const groups = new Map<string, { count: number; sums: Record<string, number>; counts: Record<string, number>; series: Map<string, Record<string, number>> }>();
+    for (const row of rows) {
+      if (isMissing(row[d.name])) continue;
+      const key = String(row[d.name]);
+      let g = groups.get(key);
+      if (!g) {
+        g = { count: 0, sums: {}, counts: {}, series: new Map() };
+        groups.set(key, g);
+      }
+      g.count++;
+      const date = dateColumn && granularity ? toDate(row[dateColumn.name]) : null;
+      const bucket = date && granularity ? bucketKey(date, granularity) : null;
+      for (const m of measures) {
+        const n = toNumber(row[m.name]);
+        if (n === null) continue;
+        g.sums[m.name] = (g.sums[m.name] || 0) + n;
+        g.counts[m.name] = (g.counts[m.name] || 0) + 1;
+        if (bucket) {
+          const b = g.series.get(bucket) || {};
+          b[m.name] = (b[m.name] || 0) + n;
+          g.series.set(bucket, b);
+        }
+      }
+    }
+    for (const [value, g] of groups) {
+      const e = [value, d.name];
+      facts.push({ label: `rows where ${d.name}=${value}`, value: g.count, percent: false, entities: e });
+      facts.push({ label: `share of rows where ${d.name}=${value}`, value: (g.count / profile.row_count) * 100, percent: true, entities: e });
+      for (const m of measures) {
+        const sum = g.sums[m.name];
+        if (sum === undefined) continue;
+        const me = [...e, m.name];
+        facts.push({ label: `${m.name} sum for ${value}`, value: sum, percent: false, entities: me });
+        facts.push({ label: `${m.name} mean for ${value}`, value: sum / g.counts[m.name], percent: false, entities: me });
+        if (m.sum) facts.push({ label: `${value} share of ${m.name}`, value: (sum / m.sum) * 100, percent: true, entities: me });
+        const periods = Array.from(g.series.keys()).sort();
+        if (periods.length >= 2) {
+          const first = g.series.get(periods[0])![m.name] || 0;
+          const last = g.series.get(periods[periods.length - 1])![m.name] || 0;
+          const change = pctChange(first, last);
+          if (change !== null) facts.push({ label: `${m.name} change for ${value} ${periods[0]}→${periods[periods.length - 1]}`, value: change, percent: true, entities: me });
+        }
+      }
+    }
+  }
+
+  // Individual cell values, including ratio columns quoted as percentages
+  const addCell = (map: Map<number, RawCell[]>, value: number, label: string, row: Record<string, unknown>, column: string) => {
+    const cells = map.get(value) ?? [];
+    if (cells.length >= MAX_CELLS_PER_VALUE) return;
+    cells.push({ label, entities: [column, ...dimensions.filter(d => !isMissing(row[d.name])).map(d => String(row[d.name]))] });
+    map.set(value, cells);
+  };
+  for (const m of measures) {
+    const ratio = typeof m.min === "number" && typeof m.max === "number" && m.min >= -1.5 && m.max <= 1.5;
+    for (const row of rows) {
+      if (raw.values.size >= MAX_RAW_VALUES) break;
+      const n = toNumber(row[m.name]);
+      if (n === null) continue;
+      addCell(raw.values, n, `${m.name} value`, row, m.name);
+      if (ratio) addCell(raw.percents, Math.round(n * 1e8) / 1e6, `${m.name} value as %`, row, m.name);
+    }
+  }
+
+  for (const c of profile.columns) {
+    if (c.type !== "string" && c.type !== "boolean") continue;
+    const values = new Set<number>();
+    for (const row of rows) {
+      if (values.size >= MAX_DIMENSION_VALUES * 10) break;
+      const n = isMissing(row[c.name]) ? null : toNumber(row[c.name]);
+      if (n !== null) values.add(n);
+    }
+    if (values.size > 0) categories.set(c.name.toLowerCase(), values);
+  }
+
+  return { facts, raw, categories };
+}
+
+function relativeError(claim: number, actual: number, precision: number): number {
+  const diff = Math.abs(claim - actual);
+  if (diff <= precision) return 0;
+  return diff / Math.max(Math.abs(actual), 1e-9);
+}
+
+function verifyClaim(
+  claim: { text: string; value: number; percent: boolean; precision: number },
+  mentioned: Set<string>,
+  { facts, raw }: EvidenceFacts
+): VerifiedClaim {
+  const tier = (error: number) => (error <= VERIFIED_TOLERANCE ? 0 : error <= APPROXIMATE_TOLERANCE ? 1 : 2);
+  let best: { fact: Fact; error: number; relevant: boolean } | null = null;
+  for (const fact of facts) {
+    if (fact.percent !== claim.percent) continue;
+    // Growth claims are often quoted without a sign ("declined 12%")
+    const error = Math.min(
+      relativeError(claim.value, fact.value, claim.precision),
+      fact.percent ? relativeError(claim.value, Math.abs(fact.value), claim.precision) : Infinity
+    );
+    const relevant = fact.entities.length === 0 || fact.entities.some(e => mentioned.has(e.toLowerCase()));
+    // Closeness decides first; among equally close facts prefer ones about
+    // the entities the sentence mentions
+    const better = !best
+      || tier(error) < tier(best.error)
+      || (tier(error) === tier(best.error) && ((relevant && !best.relevant) || (relevant === best.relevant && error < best.error)));
+    if (better) best = { fact, error, relevant };
+  }
+
+  // Percentage columns may store 35 or 0.35 for "35%"
+  const cells = (claim.percent ? raw.percents.get(claim.value) : undefined) ?? raw.values.get(claim.value);
+  if (cells && (!best || best.error > VERIFIED_TOLERANCE)) {
+    // The value exists somewhere, but only a cell of a cited metric or from a
+    // row of a cited group confirms the claim
+    const cited = cells.find(c => c.entities.some(e => mentioned.has(e.toLowerCase())));
+    if (cited) {
+      return { text: claim.text, value: claim.value, percent: claim.percent, status: "verified", matched: { label: cited.label, value: claim.value } };
+    }
+    if (!best || best.error > APPROXIMATE_TOLERANCE) {
+      return { text: claim.text, value: claim.value, percent: claim.percent, status: "approximate", matched: { label: cells[0].label, value: claim.value } };
+    }
+  }
+  if (!best) return { text: claim.text, value: claim.value, percent: claim.percent, status: "unsupported" };
+
+  const status: ClaimStatus = best.error <= VERIFIED_TOLERANCE ? "verified" : best.error <= APPROXIMATE_TOLERANCE ? "approximate" : "unsupported";
+  return {
+    text: claim.text,
+    value: claim.value,
+    percent: claim.percent,
+    status,
+    matched: status === "unsupported" ? undefined : { label: best.fact.label, value: Math.round(best.fact.value * 100) / 100 },
+  };
+}
+
+// A number that is a value of a dimension the text cites ("Zip=10010") labels
+// a group rather than claiming a quantity
+function isCategoryLabel(claim: { value: number; percent: boolean }, lower: string, known: EvidenceFacts): boolean {
+  if (claim.percent) return false;
+  for (const [column, values] of known.categories) {
+    if (values.has(claim.value) && lower.includes(column)) return true;
+  }
+  return false;
+}
+
+export function verifyText(text: string, known: EvidenceFacts): EvidenceVerification {
+  const lower = text.toLowerCase();
+  const claims = extractClaims(text).filter(c => !isCategoryLabel(c, lower, known));
+  if (claims.length === 0) return { status: "qualitative", claims: [] };
+  const mentioned = new Set<string>();
+  for (const f of known.facts) {
+    for (const e of f.entities) {
+      const key = e.toLowerCase();
+      if (!mentioned.has(key) && lower.includes(key)) mentioned.add(key);
+    }
+  }
+  const verified = claims.map(c => verifyClaim(c, mentioned, known));
+  const status: EvidenceStatus = verified.some(c => c.status === "unsupported") ? "unsupported"
+    : verified.some(c => c.status === "approximate") ? "approximate"
+    : "verified";
+  return { status, claims: verified };
+}
+
+// Tags every insight and risk in place; optionally removes unsupported ones.
+export function verifyEvidence(
+  result: AnalysisResult,
+  rows: Record<string, unknown>[],
+  profile: DatasetProfile,
+  digest: DatasetDigest,
+  options: { dropUnsupported?: boolean } = {}
+): VerificationSummary {
+  const known = buildFacts(rows, profile, digest);
+  const summary: VerificationSummary = { verified: 0, approximate: 0, unsupported: 0, qualitative: 0, dropped: 0 };
+
+  for (const insight of result.insights) {
+    insight.verification = verifyText(insight.data_evidence, known);
+    summary[insight.verification.status]++;
+  }
+  for (const risk of result.risk_analysis) {
+    risk.verification = verifyText(risk.evidence, known);
+    summary[risk.verification.status]++;
+  }
+
+  if (options.dropUnsupported) {
+    const before = result.insights.length + result.risk_analysis.length;
+    result.insights = result.insights.filter(i => i.verification?.status !== "unsupported");
+    result.risk_analysis = result.risk_analysis.filter(r => r.verification?.status !== "unsupported");
+    summary.dropped = before - result.insights.length - result.risk_analysis.length;
+  }
+  return summary;
+}
@@ -0,0 +1,44 @@
+// Pieces every export format shares, so the documents read the same
+// whichever one a stakeholder opens.
+
+import type { ExportReport } from "./types";
+
+export const BRAND = "CognitiaOS";
+export const PALETTE = ["1C1917", "44403C", "78716C", "A8A29E", "D6D3D1", "E7E5E4"];
+export const LEVEL_COLORS: Record<string, string> = { High: "DC2626", Medium: "D97706", Low: "059669" };
+
+export function reportTitle(report: ExportReport): string {
+  return report.query?.trim() || "General Analysis";
+}
+
+// SQLite stores CURRENT_TIMESTAMP as UTC without a zone marker
+export function reportDate(report: ExportReport): string {
+  const value = report.created_at.includes("T") ? report.created_at : `${report.created_at.replace(" ", "T")}Z`;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? report.created_at : date.toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+export function reportMeta(report: ExportReport): [string, string][] {
+  const { result } = report;
+  const meta: [string, string][] = [["Generated", reportDate(report)]];
+  if (report.context) meta.push(["Context", report.context]);
+  if (report.dataset_name) meta.push(["Dataset", `${report.dataset_name}${report.dataset_version ? ` v${report.dataset_version}` : ""}`]);
+  if (result.coverage) {
+    meta.push(["Coverage", `${(result.coverage.fraction * 100).toFixed(1)}% of ${result.coverage.total_rows.toLocaleString("en-US")} rows`]);
+  }
+  if (result.engine) meta.push(["Engine", `${result.engine.provider}/${result.engine.model}`]);
+  if (result.evidence) {
+    const e = result.evidence;
+    meta.push(["Evidence", `${e.verified} verified, ${e.approximate} approximate, ${e.unsupported} unsupported`]);
+  }
+  return meta;
+}
+
+export function exportFilename(report: ExportReport, extension: string): string {
+  const slug = reportTitle(report).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "report";
+  return `${slug}-${report.id}.${extension}`;
+}
+
+export function formatNumber(value: number): string {
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString("en-US") : String(Number(value.toFixed(2)));
+}
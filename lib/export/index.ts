@@ -0,0 +1,19 @@
+// Export registry: one renderer per download format.
+
+import type { ExportFormat, ExportRenderer } from "./types";
+import { pdfRenderer } from "./pdf";
+import { xlsxRenderer } from "./xlsx";
+import { markdownRenderer } from "./markdown";
+import { pptxRenderer } from "./pptx";
+
+export * from "./types";
+export { exportFilename } from "./common";
+
+export const EXPORT_RENDERERS: Record<ExportFormat, ExportRenderer> = {
+  pdf: pdfRenderer,
+  xlsx: xlsxRenderer,
+  md: markdownRenderer,
+  pptx: pptxRenderer,
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORT_RENDERERS) as ExportFormat[];
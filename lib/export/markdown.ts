@@ -0,0 +1,93 @@
+import type { ExportRenderer, ExportReport } from "./types";
+import { BRAND, reportTitle, reportMeta, formatNumber } from "./common";
+import { METHOD_LABELS } from "../forecast";
+
+const cell = (value: unknown) => String(value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+function table(headers: string[], rows: unknown[][]): string[] {
+  return [
+    `| ${headers.map(cell).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map(r => `| ${r.map(cell).join(" | ")} |`),
+  ];
+}
+
+export function renderMarkdown(report: ExportReport): string {
+  const { result } = report;
+  const lines: string[] = [`# ${reportTitle(report)}`, ""];
+  for (const [label, value] of reportMeta(report)) lines.push(`- **${label}:** ${value}`);
+  lines.push("");
+
+  const metrics = result.data_summary?.key_metrics || [];
+  if (metrics.length) {
+    lines.push("## Key Metrics", "", ...table(["Metric", "Value", "Trend"], metrics.map(m => [m.name, m.value, m.trend])), "");
+  }
+
+  if (result.insights?.length) {
+    lines.push("## Insights", "");
+    result.insights.forEach((insight, i) => {
+      lines.push(`### ${i + 1}. ${insight.title} _(${insight.impact_level} impact)_`, "", insight.description, "");
+      if (insight.data_evidence) lines.push(`> Evidence: ${insight.data_evidence}`, "");
+    });
+  }
+
+  if (result.anomalies?.length) {
+    lines.push("## Anomalies", "", ...table(
+      ["Severity", "Type", "Location", "Reasoning"],
+      result.anomalies.map(a => [a.severity, a.type, a.location, a.reasoning])
+    ), "");
+  }
+
+  if (result.risk_analysis?.length) {
+    lines.push("## Risk Analysis", "", ...table(
+      ["Risk", "Probability", "Business Impact", "Evidence"],
+      result.risk_analysis.map(r => [r.risk_type, r.probability, r.business_impact, r.evidence])
+    ), "");
+  }
+
+  if (result.risk_heatmap?.data?.length) {
+    lines.push(`## ${result.risk_heatmap.title}`, "", ...table(
+      ["Category", "Risk Score", "Impact"],
+      result.risk_heatmap.data.map(r => [r.category, r.risk_score, r.impact])
+    ), "");
+  }
+
+  if (result.recommendations?.length) {
+    lines.push("## Recommendations", "");
+    result.recommendations.forEach((rec, i) => {
+      lines.push(
+        `${i + 1}. **${rec.action}** (confidence ${Math.round(rec.confidence_score * 100)}%)`,
+        `   - Why: ${rec.justification}`,
+        `   - Expected outcome: ${rec.expected_outcome}`,
+      );
+    });
+    lines.push("");
+  }
+
+  if (result.forecast) {
+    const f = result.forecast;
+    lines.push("## Forecast", "", `**${f.predicted_trend}** over ${f.time_horizon} (confidence: ${f.confidence_level})`, "");
+    if (f.projection_data?.length) {
+      lines.push(...table(["Period", "Projected Value"], f.projection_data.map(p => [p.period, formatNumber(p.value)])), "");
+    }
+  }
+
+  if (result.statistical_forecast) {
+    const s = result.statistical_forecast;
+    lines.push(`### Statistical Forecast: ${s.measure} (${METHOD_LABELS[s.method]})`, "");
+    if (s.reconciliation) lines.push(`_${s.reconciliation.note}_`, "");
+    lines.push(...table(
+      ["Period", "Forecast", "80% Interval", "95% Interval"],
+      s.points.map(p => [p.period, formatNumber(p.value), `${formatNumber(p.lower80)} – ${formatNumber(p.upper80)}`, `${formatNumber(p.lower95)} – ${formatNumber(p.upper95)}`]),
+    ), "");
+  }
+
+  lines.push("---", `_Generated by ${BRAND} • Report ${report.id}_`, "");
+  return lines.join("\n");
+}
+
+export const markdownRenderer: ExportRenderer = {
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+  render: async report => Buffer.from(renderMarkdown(report), "utf8"),
+};
@@ -0,0 +1,280 @@
+// Paginated PDF. Charts are drawn as vector graphics rather than screenshots
+// and reserve their full height before drawing, so they never split across a
+// page break.
+
+import PDFDocument from "pdfkit";
+import type { ExportRenderer, ExportReport } from "./types";
+import { BRAND, PALETTE, LEVEL_COLORS, reportTitle, reportMeta, formatNumber } from "./common";
+import { METHOD_LABELS } from "../forecast";
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 50;
+const INK = `#${PALETTE[0]}`;
+const MUTED = `#${PALETTE[2]}`;
+const RULE = `#${PALETTE[5]}`;
+const CHART_HEIGHT = 170;
+
+// The built-in fonts only cover WinAnsi; map common typography and drop the rest
+const SUBSTITUTIONS: Record<string, string> = {
+  "\u2018": "'", "\u2019": "'", "\u201C": '"', "\u201D": '"', "\u2013": "-", "\u2014": "-",
+  "\u2022": "-", "\u2026": "...", "\u2192": "->", "\u2190": "<-", "\u2264": "<=", "\u2265": ">=",
+};
+
+function latin(text: unknown): string {
+  return String(text ?? "").replace(/[^\x00-\xFF]/g, ch => SUBSTITUTIONS[ch] ?? "");
+}
+
+const contentWidth = (doc: Doc) => doc.page.width - MARGIN * 2;
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+}
+
+function heading(doc: Doc, text: string) {
+  // Keep a heading with at least the start of its section
+  ensureSpace(doc, 80);
+  doc.moveDown(1).font("Helvetica-Bold").fontSize(13).fillColor(INK).text(latin(text).toUpperCase(), MARGIN, doc.y, { characterSpacing: 1 });
+  const y = doc.y + 4;
+  doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.5).strokeColor(RULE).stroke();
+  doc.y = y + 10;
+}
+
+function paragraph(doc: Doc, text: string, options: { bold?: boolean; size?: number; color?: string; indent?: number } = {}) {
+  doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(options.size ?? 10).fillColor(options.color ?? INK)
+    .text(latin(text), MARGIN + (options.indent ?? 0), doc.y, { width: contentWidth(doc) - (options.indent ?? 0) });
+}
+
+function levelTag(doc: Doc, level: string, x: number, y: number) {
+  doc.font("Helvetica-Bold").fontSize(7);
+  const label = level.toUpperCase();
+  const width = doc.widthOfString(label) + 10;
+  doc.roundedRect(x, y, width, 12, 6).fill(`#${LEVEL_COLORS[level] ?? PALETTE[2]}`);
+  doc.fillColor("#FFFFFF").text(label, x + 5, y + 3, { lineBreak: false });
+  return width;
+}
+
+function block(doc: Doc, estimate: number, draw: () => void) {
+  ensureSpace(doc, estimate);
+  draw();
+  doc.moveDown(0.6);
+}
+
+function barChart(doc: Doc, title: string, data: { name: string; value: number }[], max?: number) {
+  const rows = data.slice(0, 12);
+  const rowHeight = 16;
+  ensureSpace(doc, 30 + rows.length * rowHeight);
+  paragraph(doc, title, { bold: true, size: 10 });
+  doc.moveDown(0.3);
+
+  const labelWidth = 130;
+  const valueWidth = 60;
+  const barWidth = contentWidth(doc) - labelWidth - valueWidth - 10;
+  const top = Math.max(...rows.map(r => r.value), max ?? 0) || 1;
+  let y = doc.y;
+  rows.forEach((row, i) => {
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED)
+      .text(latin(row.name), MARGIN, y + 3, { width: labelWidth - 6, height: rowHeight, ellipsis: true, lineBreak: false });
+    doc.rect(MARGIN + labelWidth, y + 2, barWidth, rowHeight - 5).fill(`#${PALETTE[5]}`);
+    doc.rect(MARGIN + labelWidth, y + 2, Math.max(1, (Math.max(0, row.value) / top) * barWidth), rowHeight - 5)
+      .fill(`#${PALETTE[i % 3]}`);
+    doc.fillColor(INK).text(formatNumber(row.value), MARGIN + labelWidth + barWidth + 6, y + 3, { width: valueWidth, lineBreak: false });
+    y += rowHeight;
+  });
+  doc.y = y + 6;
+  doc.x = MARGIN;
+}
+
+function lineChart(doc: Doc, title: string, points: { label: string; value: number }[]) {
+  if (points.length === 0) return;
+  ensureSpace(doc, CHART_HEIGHT + 40);
+  paragraph(doc, title, { bold: true, size: 10 });
+  doc.moveDown(0.3);
+
+  const left = MARGIN + 45;
+  const width = contentWidth(doc) - 45;
+  const top = doc.y;
+  const height = CHART_HEIGHT - 20;
+  const values = points.map(p => p.value);
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) { min -= 1; max += 1; }
+  const x = (i: number) => left + (points.length === 1 ? width / 2 : (i / (points.length - 1)) * width);
+  const y = (v: number) => top + height - ((v - min) / (max - min)) * height;
+
+  // Gridlines with value labels
+  doc.font("Helvetica").fontSize(7);
+  for (let g = 0; g <= 4; g++) {
+    const v = min + ((max - min) * g) / 4;
+    doc.moveTo(left, y(v)).lineTo(left + width, y(v)).lineWidth(0.3).strokeColor(RULE).stroke();
+    doc.fillColor(MUTED).text(formatNumber(v), MARGIN, y(v) - 3, { width: 40, align: "right", lineBreak: false });
+  }
+
+  doc.moveTo(x(0), y(values[0]));
+  values.forEach((v, i) => i > 0 && doc.lineTo(x(i), y(v)));
+  doc.lineWidth(1.5).strokeColor(INK).stroke();
+  values.forEach((v, i) => doc.circle(x(i), y(v), 2).fill(INK));
+
+  // Thin out period labels so they don't collide
+  const every = Math.ceil(points.length / 8);
+  points.forEach((p, i) => {
+    if (i % every !== 0 && i !== points.length - 1) return;
+    doc.fillColor(MUTED).text(latin(p.label), x(i) - 30, top + height + 5, { width: 60, align: "center", lineBreak: false });
+  });
+  doc.y = top + height + 20;
+  doc.x = MARGIN;
+}
+
+function drawReport(doc: Doc, report: ExportReport) {
+  const { result } = report;
+
+  doc.font("Helvetica-Bold").fontSize(8).fillColor(MUTED).text(BRAND.toUpperCase(), { characterSpacing: 2 });
+  doc.moveDown(0.4);
+  paragraph(doc, reportTitle(report), { bold: true, size: 20 });
+  doc.moveDown(0.4);
+  for (const [label, value] of reportMeta(report)) {
+    doc.font("Helvetica-Bold").fontSize(8).fillColor(MUTED).text(`${label.toUpperCase()}  `, MARGIN, doc.y, { continued: true, characterSpacing: 0.5 })
+      .font("Helvetica").fillColor(INK).text(latin(value), { characterSpacing: 0 });
+  }
+
+  const metrics = result.data_summary?.key_metrics || [];
+  if (metrics.length) {
+    heading(doc, "Key Metrics");
+    const columns = 3;
+    const gap = 10;
+    const boxWidth = (contentWidth(doc) - gap * (columns - 1)) / columns;
+    const boxHeight = 48;
+    for (let i = 0; i < metrics.length; i += columns) {
+      ensureSpace(doc, boxHeight + gap);
+      const y = doc.y;
+      metrics.slice(i, i + columns).forEach((m, j) => {
+        const x = MARGIN + j * (boxWidth + gap);
+        doc.roundedRect(x, y, boxWidth, boxHeight, 6).lineWidth(0.5).strokeColor(RULE).stroke();
+        doc.font("Helvetica-Bold").fontSize(7).fillColor(MUTED)
+          .text(latin(m.name).toUpperCase(), x + 8, y + 8, { width: boxWidth - 16, lineBreak: false, ellipsis: true });
+        const arrow = m.trend === "up" ? "+" : m.trend === "down" ? "-" : "=";
+        doc.font("Helvetica-Bold").fontSize(14).fillColor(INK)
+          .text(`${latin(m.value)} `, x + 8, y + 22, { width: boxWidth - 16, lineBreak: false, ellipsis: true, continued: true })
+          .fontSize(9).fillColor(m.trend === "down" ? "#DC2626" : m.trend === "up" ? "#059669" : MUTED).text(arrow);
+      });
+      doc.y = y + boxHeight + gap;
+    }
+  }
+
+  if (result.insights?.length) {
+    heading(doc, "Insights");
+    result.insights.forEach((insight, i) => block(doc, 60, () => {
+      const y = doc.y;
+      const tagWidth = levelTag(doc, insight.impact_level, MARGIN, y);
+      doc.font("Helvetica-Bold").fontSize(11).fillColor(INK)
+        .text(`${i + 1}. ${latin(insight.title)}`, MARGIN + tagWidth + 6, y, { width: contentWidth(doc) - tagWidth - 6 });
+      doc.moveDown(0.2);
+      paragraph(doc, insight.description, { size: 9.5 });
+      if (insight.data_evidence) paragraph(doc, `Evidence: ${insight.data_evidence}`, { size: 8.5, color: MUTED, indent: 8 });
+    }));
+  }
+
+  if (result.anomalies?.length) {
+    heading(doc, "Anomalies");
+    result.anomalies.forEach(a => block(doc, 45, () => {
+      const y = doc.y;
+      const tagWidth = levelTag(doc, a.severity, MARGIN, y);
+      doc.font("Helvetica-Bold").fontSize(10).fillColor(INK)
+        .text(`${latin(a.type)} - ${latin(a.location)}`, MARGIN + tagWidth + 6, y, { width: contentWidth(doc) - tagWidth - 6 });
+      paragraph(doc, a.reasoning, { size: 9, color: MUTED });
+    }));
+  }
+
+  const charts = (result.visualizations || []).filter(v => v.data?.length);
+  if (charts.length) {
+    heading(doc, "Visualizations");
+    for (const viz of charts) {
+      if (viz.type === "line" || viz.type === "area") {
+        lineChart(doc, viz.title, viz.data.map(d => ({ label: d.name, value: d.value })));
+      } else {
+        barChart(doc, viz.title, viz.data);
+      }
+      if (viz.description) paragraph(doc, viz.description, { size: 8.5, color: MUTED });
+      doc.moveDown(0.8);
+    }
+  }
+
+  if (result.forecast) {
+    const f = result.forecast;
+    heading(doc, "Forecast");
+    paragraph(doc, `${f.predicted_trend} over ${f.time_horizon} (confidence: ${f.confidence_level})`, { size: 10 });
+    doc.moveDown(0.5);
+    if (f.projection_data?.length) lineChart(doc, "Projection", f.projection_data.map(p => ({ label: p.period, value: p.value })));
+    const s = result.statistical_forecast;
+    if (s) {
+      const last = s.points[s.points.length - 1];
+      paragraph(doc, `${METHOD_LABELS[s.method]} on ${s.measure}: ${formatNumber(last.value)} by ${last.period} (95% interval ${formatNumber(last.lower95)} – ${formatNumber(last.upper95)}).`, { size: 9 });
+      if (s.reconciliation) paragraph(doc, s.reconciliation.note, { size: 9 });
+    }
+  }
+
+  if (result.risk_heatmap?.data?.length) {
+    heading(doc, result.risk_heatmap.title || "Risk Distribution");
+    barChart(doc, "Risk score by category", result.risk_heatmap.data.map(r => ({ name: r.category, value: r.risk_score })), 100);
+  }
+
+  if (result.risk_analysis?.length) {
+    heading(doc, "Risk Analysis");
+    result.risk_analysis.forEach(r => block(doc, 55, () => {
+      paragraph(doc, r.risk_type, { bold: true, size: 10 });
+      paragraph(doc, `Probability: ${r.probability}  |  Impact: ${r.business_impact}`, { size: 8.5, color: MUTED });
+      if (r.evidence) paragraph(doc, r.evidence, { size: 9 });
+    }));
+  }
+
+  if (result.recommendations?.length) {
+    heading(doc, "Recommendations");
+    result.recommendations.forEach((rec, i) => block(doc, 55, () => {
+      paragraph(doc, `${i + 1}. ${rec.action}  (${Math.round(rec.confidence_score * 100)}% confidence)`, { bold: true, size: 10 });
+      paragraph(doc, rec.justification, { size: 9 });
+      paragraph(doc, `Expected outcome: ${rec.expected_outcome}`, { size: 9, color: MUTED });
+    }));
+  }
+}
+
+function addFooters(doc: Doc, report: ExportReport) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise trigger a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(7).fillColor(MUTED)
+      .text(`${BRAND} - ${latin(reportTitle(report))}`, MARGIN, doc.page.height - 30, { width: contentWidth(doc) / 2, lineBreak: false, ellipsis: true })
+      .text(`Page ${i + 1} of ${range.count}`, MARGIN, doc.page.height - 30, { width: contentWidth(doc), align: "right", lineBreak: false });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+export function renderPdf(report: ExportReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: latin(reportTitle(report)), Author: BRAND, Subject: latin(report.context) },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    try {
+      drawReport(doc, report);
+      addFooters(doc, report);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+export const pdfRenderer: ExportRenderer = {
+  contentType: "application/pdf",
+  extension: "pdf",
+  render: renderPdf,
+};
@@ -0,0 +1,165 @@
+// Executive deck: one idea per slide, native (editable) PowerPoint charts.
+
+import PptxGenJSModule from "pptxgenjs";
+import type { ExportRenderer, ExportReport } from "./types";
+import { BRAND, PALETTE, LEVEL_COLORS, reportTitle, reportMeta } from "./common";
+
+// tsx loads the CommonJS build, so the class arrives wrapped in `default`
+const PptxGenJS = ((PptxGenJSModule as any).default ?? PptxGenJSModule) as typeof PptxGenJSModule;
+type PptxGenJS = PptxGenJSModule;
+
+const INK = PALETTE[0];
+const MUTED = PALETTE[2];
+const FONT = "Helvetica";
+const MAX_ROWS = 6;
+const MAX_CHART_SLIDES = 4;
+
+// LAYOUT_WIDE is 13.33 x 7.5 inches
+const WIDTH = 13.33;
+const X = 0.6;
+const CONTENT_WIDTH = WIDTH - X * 2;
+
+type Slide = PptxGenJSModule.Slide;
+
+function titledSlide(pptx: PptxGenJS, title: string, eyebrow?: string): Slide {
+  const slide = pptx.addSlide();
+  slide.background = { color: "FFFFFF" };
+  if (eyebrow) {
+    slide.addText(eyebrow.toUpperCase(), { x: X, y: 0.35, w: CONTENT_WIDTH, h: 0.3, fontFace: FONT, fontSize: 10, bold: true, color: MUTED, charSpacing: 2 });
+  }
+  slide.addText(title, { x: X, y: 0.6, w: CONTENT_WIDTH, h: 0.7, fontFace: FONT, fontSize: 26, bold: true, color: INK });
+  slide.addText(BRAND, { x: X, y: 7.0, w: 4, h: 0.3, fontFace: FONT, fontSize: 8, color: MUTED });
+  return slide;
+}
+
+const header = (labels: string[]): PptxGenJSModule.TableRow =>
+  labels.map(text => ({ text, options: { bold: true, color: "FFFFFF", fill: { color: INK } } }));
+
+function levelCell(level: string): PptxGenJSModule.TableCell {
+  return { text: level, options: { bold: true, color: LEVEL_COLORS[level] ?? MUTED } };
+}
+
+function buildDeck(report: ExportReport): PptxGenJS {
+  const { result } = report;
+  const pptx = new PptxGenJS();
+  pptx.layout = "LAYOUT_WIDE";
+  pptx.author = BRAND;
+  pptx.title = reportTitle(report);
+
+  // Title
+  const cover = pptx.addSlide();
+  cover.background = { color: INK };
+  cover.addText(BRAND.toUpperCase(), { x: X, y: 1.6, w: CONTENT_WIDTH, h: 0.4, fontFace: FONT, fontSize: 12, bold: true, color: PALETTE[3], charSpacing: 3 });
+  cover.addText(reportTitle(report), { x: X, y: 2.1, w: CONTENT_WIDTH, h: 1.6, fontFace: FONT, fontSize: 36, bold: true, color: "FFFFFF", valign: "top" });
+  cover.addText(reportMeta(report).map(([label, value]) => `${label}: ${value}`).join("\n"), {
+    x: X, y: 4.2, w: CONTENT_WIDTH, h: 2, fontFace: FONT, fontSize: 12, color: PALETTE[4], valign: "top",
+  });
+
+  // Key metrics as KPI tiles
+  const metrics = (result.data_summary?.key_metrics || []).slice(0, 8);
+  if (metrics.length) {
+    const slide = titledSlide(pptx, "Key Metrics", "At a glance");
+    const columns = Math.min(4, metrics.length);
+    const gap = 0.25;
+    const tileWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns;
+    metrics.forEach((m, i) => {
+      const x = X + (i % columns) * (tileWidth + gap);
+      const y = 1.7 + Math.floor(i / columns) * 2.4;
+      slide.addShape(pptx.ShapeType.roundRect, { x, y, w: tileWidth, h: 2.1, fill: { color: "F5F5F4" }, line: { color: PALETTE[5] }, rectRadius: 0.1 });
+      slide.addText(m.name.toUpperCase(), { x: x + 0.2, y: y + 0.2, w: tileWidth - 0.4, h: 0.4, fontFace: FONT, fontSize: 10, bold: true, color: MUTED });
+      slide.addText(m.value, { x: x + 0.2, y: y + 0.7, w: tileWidth - 0.4, h: 0.8, fontFace: FONT, fontSize: 28, bold: true, color: INK, fit: "shrink" });
+      const trendColor = m.trend === "up" ? LEVEL_COLORS.Low : m.trend === "down" ? LEVEL_COLORS.High : MUTED;
+      slide.addText(`Trend: ${m.trend}`, { x: x + 0.2, y: y + 1.5, w: tileWidth - 0.4, h: 0.4, fontFace: FONT, fontSize: 11, color: trendColor });
+    });
+  }
+
+  // Insights: strongest first
+  if (result.insights?.length) {
+    const rank: Record<string, number> = { High: 0, Medium: 1, Low: 2 };
+    const top = [...result.insights].sort((a, b) => rank[a.impact_level] - rank[b.impact_level]).slice(0, 5);
+    const slide = titledSlide(pptx, "Key Insights", `${result.insights.length} findings`);
+    slide.addText(top.flatMap(insight => [
+      { text: `${insight.title}  `, options: { bold: true, color: INK, breakLine: false } },
+      { text: `[${insight.impact_level}]`, options: { bold: true, color: LEVEL_COLORS[insight.impact_level], breakLine: true } },
+      { text: insight.description, options: { color: MUTED, fontSize: 12, breakLine: true, paraSpaceAfter: 10 } },
+    ]), { x: X, y: 1.6, w: CONTENT_WIDTH, h: 5.2, fontFace: FONT, fontSize: 15, valign: "top" });
+  }
+
+  if (result.anomalies?.length) {
+    const slide = titledSlide(pptx, "Anomalies", `${result.anomalies.length} detected`);
+    slide.addTable([
+      header(["Severity", "Type", "Location", "Reasoning"]),
+      ...result.anomalies.slice(0, MAX_ROWS).map(a => [levelCell(a.severity), { text: a.type }, { text: a.location }, { text: a.reasoning }]),
+    ], { x: X, y: 1.6, w: CONTENT_WIDTH, colW: [1.3, 2.4, 2.4, CONTENT_WIDTH - 6.1], fontFace: FONT, fontSize: 11, color: INK, border: { type: "solid", color: PALETTE[5], pt: 0.5 }, autoPage: false });
+  }
+
+  // Model visualizations as native charts
+  const charts = (result.visualizations || []).filter(v => v.data?.length).slice(0, MAX_CHART_SLIDES);
+  for (const viz of charts) {
+    const slide = titledSlide(pptx, viz.title, "Visualization");
+    const type = viz.type === "pie" ? pptx.ChartType.doughnut
+      : viz.type === "line" ? pptx.ChartType.line
+      : viz.type === "area" ? pptx.ChartType.area
+      : pptx.ChartType.bar;
+    slide.addChart(type, [{ name: viz.title, labels: viz.data.map(d => d.name), values: viz.data.map(d => d.value) }], {
+      x: X, y: 1.5, w: CONTENT_WIDTH, h: viz.description ? 4.7 : 5.3,
+      chartColors: PALETTE.slice(0, 4), showLegend: viz.type === "pie", legendPos: "r",
+      catAxisLabelFontSize: 10, valAxisLabelFontSize: 10, dataLabelFontSize: 9,
+    });
+    if (viz.description) slide.addText(viz.description, { x: X, y: 6.3, w: CONTENT_WIDTH, h: 0.6, fontFace: FONT, fontSize: 11, color: MUTED });
+  }
+
+  if (result.forecast) {
+    const f = result.forecast;
+    const slide = titledSlide(pptx, "Forecast", f.time_horizon);
+    slide.addText([
+      { text: f.predicted_trend, options: { bold: true, color: INK, breakLine: true } },
+      { text: `Confidence: ${f.confidence_level}`, options: { color: MUTED, fontSize: 12 } },
+    ], { x: X, y: 1.5, w: CONTENT_WIDTH, h: 0.9, fontFace: FONT, fontSize: 16, valign: "top" });
+    if (f.projection_data?.length) {
+      slide.addChart(pptx.ChartType.line, [{
+        name: "Projection", labels: f.projection_data.map(p => p.period), values: f.projection_data.map(p => p.value),
+      }], { x: X, y: 2.5, w: CONTENT_WIDTH, h: 4.3, chartColors: [INK], lineSize: 2, lineDataSymbolSize: 6, showLegend: false });
+    }
+  }
+
+  if (result.risk_heatmap?.data?.length || result.risk_analysis?.length) {
+    const slide = titledSlide(pptx, "Risk Picture", result.risk_heatmap?.title || "Risks");
+    const risks = (result.risk_analysis || []).slice(0, 4);
+    const hasHeatmap = !!result.risk_heatmap?.data?.length;
+    if (hasHeatmap) {
+      const data = result.risk_heatmap!.data;
+      slide.addChart(pptx.ChartType.bar, [{ name: "Risk score", labels: data.map(r => r.category), values: data.map(r => r.risk_score) }], {
+        x: X, y: 1.5, w: risks.length ? CONTENT_WIDTH / 2 - 0.2 : CONTENT_WIDTH, h: 5.2,
+        barDir: "bar", chartColors: [LEVEL_COLORS.High], valAxisMaxVal: 100, valAxisMinVal: 0, showLegend: false,
+      });
+    }
+    if (risks.length) {
+      const x = hasHeatmap ? X + CONTENT_WIDTH / 2 + 0.2 : X;
+      slide.addText(risks.flatMap(r => [
+        { text: r.risk_type, options: { bold: true, color: INK, breakLine: true } },
+        { text: `Probability: ${r.probability} • Impact: ${r.business_impact}`, options: { color: MUTED, fontSize: 11, breakLine: true, paraSpaceAfter: 10 } },
+      ]), { x, y: 1.5, w: hasHeatmap ? CONTENT_WIDTH / 2 - 0.2 : CONTENT_WIDTH, h: 5.2, fontFace: FONT, fontSize: 14, valign: "top" });
+    }
+  }
+
+  if (result.recommendations?.length) {
+    const slide = titledSlide(pptx, "Recommendations", "Next steps");
+    slide.addTable([
+      header(["Action", "Expected Outcome", "Confidence"]),
+      ...result.recommendations.slice(0, MAX_ROWS).map(r => [
+        { text: r.action, options: { bold: true } },
+        { text: r.expected_outcome },
+        { text: `${Math.round(r.confidence_score * 100)}%`, options: { align: "center" as const } },
+      ]),
+    ], { x: X, y: 1.6, w: CONTENT_WIDTH, colW: [5, CONTENT_WIDTH - 6.5, 1.5], fontFace: FONT, fontSize: 12, color: INK, border: { type: "solid", color: PALETTE[5], pt: 0.5 }, autoPage: false });
+  }
+
+  return pptx;
+}
+
+export const pptxRenderer: ExportRenderer = {
+  contentType: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  extension: "pptx",
+  render: async report => (await buildDeck(report).write({ outputType: "nodebuffer" })) as Buffer,
+};
@@ -0,0 +1,20 @@
+import type { AnalysisResult } from "../schema";
+
+export type ExportFormat = "pdf" | "xlsx" | "md" | "pptx";
+
+// A saved report as stored in the reports table, plus its dataset label.
+export interface ExportReport {
+  id: string;
+  query: string;
+  context: string;
+  created_at: string;
+  dataset_name?: string | null;
+  dataset_version?: number | null;
+  result: AnalysisResult;
+}
+
+export interface ExportRenderer {
+  contentType: string;
+  extension: string;
+  render(report: ExportReport): Promise<Buffer>;
+}
@@ -0,0 +1,74 @@
+import * as XLSX from "xlsx";
+import type { ExportRenderer, ExportReport } from "./types";
+import { reportTitle, reportMeta } from "./common";
+
+type Sheet = { name: string; headers: string[]; rows: unknown[][] };
+
+function toWorksheet({ headers, rows }: Sheet): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  // Width from the longest value per column, within reason
+  sheet["!cols"] = headers.map((h, i) => ({
+    wch: Math.min(60, Math.max(h.length, ...rows.map(r => String(r[i] ?? "").length)) + 2),
+  }));
+  return sheet;
+}
+
+export function buildWorkbook(report: ExportReport): XLSX.WorkBook {
+  const { result } = report;
+  const sheets: Sheet[] = [
+    {
+      name: "Summary",
+      headers: ["Field", "Value"],
+      rows: [
+        ["Report", reportTitle(report)],
+        ...reportMeta(report),
+        [],
+        ["Metric", "Value", "Trend"],
+        ...(result.data_summary?.key_metrics || []).map(m => [m.name, m.value, m.trend]),
+      ],
+    },
+    {
+      name: "Insights",
+      headers: ["Title", "Impact", "Description", "Evidence", "Verification"],
+      rows: (result.insights || []).map(i => [i.title, i.impact_level, i.description, i.data_evidence, i.verification?.status ?? ""]),
+    },
+    {
+      name: "Anomalies",
+      headers: ["Severity", "Type", "Location", "Reasoning"],
+      rows: (result.anomalies || []).map(a => [a.severity, a.type, a.location, a.reasoning]),
+    },
+    {
+      name: "Risk Analysis",
+      headers: ["Risk", "Probability", "Business Impact", "Evidence", "Verification"],
+      rows: (result.risk_analysis || []).map(r => [r.risk_type, r.probability, r.business_impact, r.evidence, r.verification?.status ?? ""]),
+    },
+    {
+      name: "Recommendations",
+      headers: ["Action", "Justification", "Expected Outcome", "Confidence"],
+      rows: (result.recommendations || []).map(r => [r.action, r.justification, r.expected_outcome, r.confidence_score]),
+    },
+    {
+      name: "Projection",
+      headers: ["Period", "Value"],
+      rows: (result.forecast?.projection_data || []).map(p => [p.period, p.value]),
+    },
+  ];
+  if (result.risk_heatmap?.data?.length) {
+    sheets.push({
+      name: "Risk Heatmap",
+      headers: ["Category", "Risk Score", "Impact"],
+      rows: result.risk_heatmap.data.map(r => [r.category, r.risk_score, r.impact]),
+    });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  // Excel caps sheet names at 31 characters
+  for (const sheet of sheets) XLSX.utils.book_append_sheet(workbook, toWorksheet(sheet), sheet.name.slice(0, 31));
+  return workbook;
+}
+
+export const xlsxRenderer: ExportRenderer = {
+  contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  extension: "xlsx",
+  render: async report => XLSX.write(buildWorkbook(report), { type: "buffer", bookType: "xlsx" }),
+};
@@ -0,0 +1,350 @@
+// Statistical forecast of the primary measure over the digest's time rollup.
+// Candidate models (simple and Holt exponential smoothing, additive
+// Holt-Winters, seasonal naive) are backtested on a holdout at the end of the
+// series; the most accurate one is refit on the full history and projected
+// with 80/95% prediction intervals. The model's narrative forecast is then
+// reconciled against it rather than trusted on its own.
+
+import { DatasetProfile } from "./profile";
+import { DatasetDigest, TimeGranularity, bucketKey, pickMeasures } from "./digest";
+import type { Forecast } from "./schema";
+
+export type ForecastMethod = "ses" | "holt" | "holt_winters" | "seasonal_naive";
+export type Direction = "up" | "down" | "flat";
+
+export interface ForecastPoint {
+  period: string;
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface ForecastBacktest {
+  method: ForecastMethod;
+  rmse: number;
+  // Null when every held-out actual is zero
+  mape: number | null;
+}
+
+export interface ForecastReconciliation {
+  status: "consistent" | "diverges" | "no_projection";
+  model_direction: Direction | null;
+  statistical_direction: Direction;
+  // Share of the model's projected values inside the 95% band, matched by step
+  within_95: number | null;
+  note: string;
+}
+
+export interface StatisticalForecast {
+  date_column: string;
+  measure: string;
+  granularity: TimeGranularity;
+  method: ForecastMethod;
+  season_length: number | null;
+  history: { period: string; value: number }[];
+  points: ForecastPoint[];
+  // Every candidate that could be evaluated, most accurate first
+  backtests: ForecastBacktest[];
+  reconciliation?: ForecastReconciliation;
+}
+
+export const METHOD_LABELS: Record<ForecastMethod, string> = {
+  ses: "Simple exponential smoothing",
+  holt: "Holt linear trend",
+  holt_winters: "Holt-Winters (additive)",
+  seasonal_naive: "Seasonal naive",
+};
+
+const HORIZON: Record<TimeGranularity, number> = { day: 14, week: 8, month: 6, quarter: 4, year: 3 };
+const SEASON: Record<TimeGranularity, number | null> = { day: 7, week: 52, month: 12, quarter: 4, year: null };
+const MIN_POINTS = 6;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+// Relative change over the horizon below which a forecast counts as flat
+const FLAT_THRESHOLD = 0.02;
+const GRID = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const SEASONAL_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Fit {
+  // One-step-ahead in-sample errors
+  residuals: number[];
+  forecast: (h: number) => number;
+  // Forecast variance at step h as a multiple of the residual variance
+  varianceFactor: (h: number) => number;
+}
+
+type Model = { method: ForecastMethod; fit: (y: number[]) => Fit | null };
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const sse = (residuals: number[]) => residuals.reduce((a, e) => a + e * e, 0);
+
+function ses(y: number[], alpha: number): Fit {
+  let level = y[0];
+  const residuals: number[] = [];
+  for (let t = 1; t < y.length; t++) {
+    residuals.push(y[t] - level);
+    level = alpha * y[t] + (1 - alpha) * level;
+  }
+  return { residuals, forecast: () => level, varianceFactor: h => 1 + (h - 1) * alpha * alpha };
+}
+
+function holt(y: number[], alpha: number, beta: number): Fit {
+  let level = y[0];
+  let trend = y[1] - y[0];
+  const residuals: number[] = [];
+  for (let t = 1; t < y.length; t++) {
+    residuals.push(y[t] - (level + trend));
+    const previous = level;
+    level = alpha * y[t] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+  return {
+    residuals,
+    forecast: h => level + h * trend,
+    varianceFactor: h => {
+      let factor = 1;
+      for (let j = 1; j < h; j++) factor += (alpha * (1 + j * beta)) ** 2;
+      return factor;
+    },
+  };
+}
+
+function holtWinters(y: number[], m: number, alpha: number, beta: number, gamma: number): Fit {
+  // Initial level and trend from the first two seasons, seasonal indices from the first
+  const mean = (from: number) => y.slice(from, from + m).reduce((a, b) => a + b, 0) / m;
+  let level = mean(0);
+  let trend = (mean(m) - mean(0)) / m;
+  const season = y.slice(0, m).map(v => v - level);
+  const residuals: number[] = [];
+  for (let t = m; t < y.length; t++) {
+    const s = season[t % m];
+    residuals.push(y[t] - (level + trend + s));
+    const previous = level;
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+    season[t % m] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+  const n = y.length;
+  return {
+    residuals,
+    forecast: h => level + h * trend + season[(n + h - 1) % m],
+    varianceFactor: h => {
+      let factor = 1;
+      for (let j = 1; j < h; j++) factor += (alpha * (1 + j * beta) + (j % m === 0 ? gamma * (1 - alpha) : 0)) ** 2;
+      return factor;
+    },
+  };
+}
+
+function seasonalNaive(y: number[], m: number): Fit {
+  const residuals: number[] = [];
+  for (let t = m; t < y.length; t++) residuals.push(y[t] - y[t - m]);
+  const n = y.length;
+  return {
+    residuals,
+    forecast: h => y[n - m + ((h - 1) % m)],
+    varianceFactor: h => Math.floor((h - 1) / m) + 1,
+  };
+}
+
+// Smoothing parameters are picked by grid search on the one-step errors
+function best(fits: Fit[]): Fit {
+  return fits.reduce((a, b) => (sse(b.residuals) < sse(a.residuals) ? b : a));
+}
+
+function candidates(m: number | null): Model[] {
+  const models: Model[] = [
+    { method: "ses", fit: y => (y.length >= 3 ? best(GRID.map(a => ses(y, a))) : null) },
+    { method: "holt", fit: y => (y.length >= 4 ? best(GRID.flatMap(a => GRID.map(b => holt(y, a, b)))) : null) },
+  ];
+  if (m) {
+    models.push(
+      {
+        method: "holt_winters",
+        fit: y => (y.length >= 2 * m + 2
+          ? best(SEASONAL_GRID.flatMap(a => SEASONAL_GRID.flatMap(b => SEASONAL_GRID.map(g => holtWinters(y, m, a, b, g)))))
+          : null),
+      },
+      { method: "seasonal_naive", fit: y => (y.length >= m + 2 ? seasonalNaive(y, m) : null) },
+    );
+  }
+  return models;
+}
+
+function backtest(model: Model, y: number[], holdout: number): ForecastBacktest | null {
+  const fit = model.fit(y.slice(0, y.length - holdout));
+  if (!fit) return null;
+  const actual = y.slice(y.length - holdout);
+  const errors = actual.map((v, i) => v - fit.forecast(i + 1));
+  const scored = actual.map((v, i) => (v === 0 ? null : Math.abs(errors[i] / v))).filter((e): e is number => e !== null);
+  return {
+    method: model.method,
+    rmse: round(Math.sqrt(sse(errors) / holdout)),
+    mape: scored.length ? round((scored.reduce((a, b) => a + b, 0) / scored.length) * 100) : null,
+  };
+}
+
+function periodStart(period: string, granularity: TimeGranularity): Date {
+  switch (granularity) {
+    case "day":
+    case "week":
+      return new Date(`${period}T00:00:00Z`);
+    case "month":
+      return new Date(`${period}-01T00:00:00Z`);
+    case "quarter": {
+      const [year, quarter] = period.split("-Q");
+      return new Date(Date.UTC(Number(year), (Number(quarter) - 1) * 3, 1));
+    }
+    default:
+      return new Date(Date.UTC(Number(period), 0, 1));
+  }
+}
+
+function addPeriods(d: Date, granularity: TimeGranularity, n: number): Date {
+  switch (granularity) {
+    case "day": return new Date(d.getTime() + n * DAY_MS);
+    case "week": return new Date(d.getTime() + n * 7 * DAY_MS);
+    case "month": return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n, 1));
+    case "quarter": return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 3 * n, 1));
+    default: return new Date(Date.UTC(d.getUTCFullYear() + n, 0, 1));
+  }
+}
+
+// The rollup only has buckets that contain rows; a period without rows sums to zero
+function continuousSeries(buckets: { period: string; value: number }[], granularity: TimeGranularity): { period: string; value: number }[] {
+  const values = new Map(buckets.map(b => [b.period, b.value]));
+  const last = buckets[buckets.length - 1].period;
+  const series: { period: string; value: number }[] = [];
+  for (let d = periodStart(buckets[0].period, granularity); series.length <= 1000; d = addPeriods(d, granularity, 1)) {
+    const period = bucketKey(d, granularity);
+    series.push({ period, value: values.get(period) ?? 0 });
+    if (period >= last) break;
+  }
+  return series;
+}
+
+export function buildForecast(profile: DatasetProfile, digest: DatasetDigest): StatisticalForecast | undefined {
+  const rollup = digest.time_rollup;
+  const measure = pickMeasures(profile)[0];
+  if (!rollup || !measure || rollup.buckets.length < 2) return undefined;
+
+  const history = continuousSeries(
+    rollup.buckets.map(b => ({ period: b.period, value: b.sums[measure.name] ?? 0 })),
+    rollup.granularity,
+  );
+  if (history.length < MIN_POINTS) return undefined;
+  const y = history.map(h => h.value);
+  const horizon = HORIZON[rollup.granularity];
+  const m = SEASON[rollup.granularity];
+  const holdout = Math.max(1, Math.min(horizon, Math.floor(y.length / 4)));
+
+  const models = candidates(m);
+  const backtests = models
+    .map(model => backtest(model, y, holdout))
+    .filter((b): b is ForecastBacktest => b !== null)
+    .sort((a, b) => a.rmse - b.rmse);
+  const chosen = models.find(model => model.method === backtests[0]?.method) ?? models[0];
+  const fit = chosen.fit(y);
+  if (!fit || fit.residuals.length === 0) return undefined;
+
+  const sigma = Math.sqrt(sse(fit.residuals) / fit.residuals.length);
+  // A measure that has never gone negative (revenue, units) isn't projected below zero
+  const floor = y.every(v => v >= 0) ? 0 : -Infinity;
+  const bound = (n: number) => round(Math.max(floor, n));
+  const lastStart = periodStart(history[history.length - 1].period, rollup.granularity);
+  const points = Array.from({ length: horizon }, (_, i): ForecastPoint => {
+    const h = i + 1;
+    const value = fit.forecast(h);
+    const spread = sigma * Math.sqrt(fit.varianceFactor(h));
+    return {
+      period: bucketKey(addPeriods(lastStart, rollup.granularity, h), rollup.granularity),
+      value: bound(value),
+      lower80: bound(value - Z80 * spread),
+      upper80: bound(value + Z80 * spread),
+      lower95: bound(value - Z95 * spread),
+      upper95: bound(value + Z95 * spread),
+    };
+  });
+
+  return {
+    date_column: rollup.date_column,
+    measure: measure.name,
+    granularity: rollup.granularity,
+    method: chosen.method,
+    season_length: chosen.method === "holt_winters" || chosen.method === "seasonal_naive" ? m : null,
+    history: history.map(h => ({ period: h.period, value: round(h.value) })),
+    points,
+    backtests,
+  };
+}
+
+export function formatForecastForPrompt(forecast: StatisticalForecast): string {
+  const backtest = forecast.backtests.find(b => b.method === forecast.method);
+  const lines = forecast.points.map(p => `  ${p.period}: ${p.value} (80%: ${p.lower80}..${p.upper80}, 95%: ${p.lower95}..${p.upper95})`);
+  return [
+    `STATISTICAL FORECAST of ${forecast.measure} per ${forecast.granularity} (${METHOD_LABELS[forecast.method]}${backtest?.mape != null ? `, backtest MAPE ${backtest.mape}%` : ""}):`,
+    ...lines,
+  ].join("\n");
+}
+
+function directionOf(from: number, to: number): Direction {
+  const change = (to - from) / Math.max(Math.abs(from), 1e-9);
+  return change > FLAT_THRESHOLD ? "up" : change < -FLAT_THRESHOLD ? "down" : "flat";
+}
+
+// A stated change within the flat tolerance ("+1%", "up 0.5%") or an explicit
+// lack of change ("no significant growth") reads as flat before any trend word
+function narrativeDirection(text: string): Direction | null {
+  const percent = /(\d+(?:\.\d+)?)\s*%/.exec(text);
+  if (percent && Number(percent[1]) <= FLAT_THRESHOLD * 100) return "flat";
+  if (/\b(no|little|minimal|negligible)\s+(\w+\s+)?(growth|change|movement|increase|decline)\b/i.test(text)) return "flat";
+  if (/\b(up|upward|grow|growth|growing|increas\w*|ris\w*|expan\w*|positive)\b/i.test(text)) return "up";
+  if (/\b(down|downward|declin\w*|decreas\w*|fall\w*|drop\w*|contract\w*|negative)\b/i.test(text)) return "down";
+  if (/\b(flat|stable|steady|unchanged|plateau\w*)\b/i.test(text)) return "flat";
+  return null;
+}
+
+export function reconcileForecast(statistical: StatisticalForecast, narrative: Forecast): ForecastReconciliation {
+  // Means over a full horizon on each side, so a seasonal peak at either end doesn't decide
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const recent = statistical.history.slice(-statistical.points.length).map(h => h.value);
+  const statisticalDirection = directionOf(mean(recent), mean(statistical.points.map(p => p.value)));
+  const projection = narrative.projection_data ?? [];
+  const modelDirection = projection.length >= 2
+    ? directionOf(projection[0].value, projection[projection.length - 1].value)
+    : narrativeDirection(narrative.predicted_trend);
+
+  const compared = projection.slice(0, statistical.points.length);
+  const inside = compared.filter((p, i) => p.value >= statistical.points[i].lower95 && p.value <= statistical.points[i].upper95).length;
+  const within95 = compared.length ? round(inside / compared.length) : null;
+
+  const method = METHOD_LABELS[statistical.method];
+  if (modelDirection === null && within95 === null) {
+    return {
+      status: "no_projection",
+      model_direction: null,
+      statistical_direction: statisticalDirection,
+      within_95: null,
+      note: `The narrative forecast gives no direction or values to check; the ${method} forecast points ${statisticalDirection}.`,
+    };
+  }
+  const agrees = (modelDirection === null || modelDirection === statisticalDirection) && (within95 === null || within95 >= 0.5);
+  const parts = [
+    modelDirection === null
+      ? `The ${method} forecast points ${statisticalDirection}.`
+      : modelDirection === statisticalDirection
+        ? `The narrative and the ${method} forecast both point ${statisticalDirection}.`
+        : `The narrative points ${modelDirection} but the ${method} forecast points ${statisticalDirection}.`,
+  ];
+  if (within95 !== null) parts.push(`${inside} of ${compared.length} projected values fall inside the 95% band.`);
+  return {
+    status: agrees ? "consistent" : "diverges",
+    model_direction: modelDirection,
+    statistical_direction: statisticalDirection,
+    within_95: within95,
+    note: parts.join(" "),
+  };
+}
@@ -0,0 +1,190 @@
+// Format detection and one parser per upload format. Every parser ends in the
+// same shape the CSV path always produced, an array of flat records, so
+// profiling, storage and the engine never care where the rows came from.
+// Excel goes through ./workbook (it has sheets to pick) and SQLite is opened
+// server-side (see ./sqliteFile), but both are detected here.
+
+import Papa from 'papaparse';
+import { parquetReadObjects } from 'hyparquet';
+import { collectHeaders, toNumber } from './profile';
+
+export type Row = Record<string, unknown>;
+
+export type FileFormat = 'csv' | 'tsv' | 'excel' | 'json' | 'ndjson' | 'parquet' | 'sqlite';
+
+export interface ParsedFile {
+  headers: string[];
+  rows: Row[];
+  // Lines or records that could not be parsed and were left out
+  skipped: number;
+}
+
+export const FORMAT_EXTENSIONS: Record<FileFormat, string[]> = {
+  csv: ['.csv'],
+  tsv: ['.tsv', '.tab'],
+  excel: ['.xlsx', '.xls'],
+  json: ['.json'],
+  ndjson: ['.ndjson', '.jsonl'],
+  parquet: ['.parquet'],
+  sqlite: ['.sqlite', '.sqlite3', '.db'],
+};
+
+export const ACCEPTED_EXTENSIONS = Object.values(FORMAT_EXTENSIONS).flat();
+
+// SQLite files are parsed in server memory, so they get a tighter cap than the
+// other formats; a database holding the 500k rows a dataset keeps fits well under it
+export const MAX_SQLITE_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Nested objects deeper than this are kept as a JSON string in one column
+const MAX_FLATTEN_DEPTH = 4;
+
+const startsWith = (head: Uint8Array, signature: number[]) => signature.every((byte, i) => head[i] === byte);
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+const SIGNATURES: [FileFormat, number[]][] = [
+  ['parquet', ascii('PAR1')],
+  ['sqlite', [...ascii('SQLite format 3'), 0]],
+  ['excel', [0x50, 0x4b, 0x03, 0x04]],
+  ['excel', [0xd0, 0xcf, 0x11, 0xe0]],
+];
+
+// Binary signatures win over the extension, so a mislabelled export still
+// parses; text formats fall back to the extension and then to sniffing.
+export function detectFormat(fileName: string, head: Uint8Array): FileFormat | null {
+  for (const [format, signature] of SIGNATURES) {
+    if (startsWith(head, signature)) return format;
+  }
+  const name = fileName.toLowerCase();
+  for (const [format, extensions] of Object.entries(FORMAT_EXTENSIONS) as [FileFormat, string[]][]) {
+    if (format === 'parquet' || format === 'sqlite' || format === 'excel') continue;
+    if (extensions.some(ext => name.endsWith(ext))) return format;
+  }
+
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (text.startsWith('{')) return /\}\s*\r?\n\s*\{/.test(text) ? 'ndjson' : 'json';
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes('\t')) return 'tsv';
+  if (firstLine.includes(',') || firstLine.includes(';')) return 'csv';
+  return null;
+}
+
+export function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'bigint') return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof Uint8Array) return `[${value.length} bytes]`;
+  return value;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+
+// {"customer": {"address": {"city": "Oslo"}}} becomes {"customer.address.city": "Oslo"}.
+// Arrays of plain values are joined; arrays of objects are kept as JSON text.
+export function flattenRecord(value: unknown, prefix = '', out: Row = {}, depth = 0): Row {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (depth >= MAX_FLATTEN_DEPTH || entries.length === 0) {
+      out[prefix || 'value'] = entries.length === 0 ? null : JSON.stringify(value, (_, v) => normalizeValue(v));
+      return out;
+    }
+    for (const [key, child] of entries) flattenRecord(child, prefix ? `${prefix}.${key}` : key, out, depth + 1);
+    return out;
+  }
+  if (Array.isArray(value)) {
+    out[prefix || 'value'] = value.length === 0
+      ? null
+      : value.every(v => !isPlainObject(v) && !Array.isArray(v))
+        ? value.map(v => String(normalizeValue(v))).join(', ')
+        : JSON.stringify(value, (_, v) => normalizeValue(v));
+    return out;
+  }
+  out[prefix || 'value'] = normalizeValue(value);
+  return out;
+}
+
+function toParsed(records: unknown[], skipped = 0): ParsedFile {
+  const rows = records.map(record => flattenRecord(record));
+  return { headers: collectHeaders(rows), rows, skipped };
+}
+
+// API dumps usually wrap the records: {"data": [...], "meta": {...}}. Take the
+// largest array of objects within two levels, or the document itself.
+function findRecords(document: unknown, depth = 0): unknown[] | null {
+  if (Array.isArray(document)) return document;
+  if (!isPlainObject(document) || depth >= 2) return null;
+  let best: unknown[] | null = null;
+  for (const child of Object.values(document)) {
+    const records = Array.isArray(child) ? (child.some(isPlainObject) ? child : null) : findRecords(child, depth + 1);
+    if (records && (!best || records.length > best.length)) best = records;
+  }
+  return best;
+}
+
+// Papa's dynamicTyping turns ZIP codes like 02139 into 2139, so cells are
+// typed here instead: numbers with a leading zero stay text for the semantic
+// detector (./semantic) to recognise as codes.
+function typeCell(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  if (/^[-+]?0\d/.test(trimmed)) return value;
+  return toNumber(trimmed) ?? value;
+}
+
+export function parseDelimited(text: string, delimiter?: string): ParsedFile {
+  const result = Papa.parse<Row>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    delimiter,
+  });
+  const badRows = new Set(result.errors.map(e => e.row));
+  const rows = result.data.map(row => {
+    const typed: Row = {};
+    for (const [key, value] of Object.entries(row)) typed[key] = typeCell(value);
+    return typed;
+  });
+  return { headers: result.meta.fields || collectHeaders(rows), rows, skipped: badRows.size };
+}
+
+export function parseNdjson(text: string): ParsedFile {
+  const records: unknown[] = [];
+  let skipped = 0;
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      skipped++;
+    }
+  }
+  if (records.length === 0 && skipped > 0) throw new Error('No line of the file is valid JSON');
+  return toParsed(records, skipped);
+}
+
+export function parseJson(text: string): ParsedFile {
+  let document: unknown;
+  try {
+    document = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (err: any) {
+    // Log exports are often NDJSON saved with a .json extension
+    if (/\r?\n\s*\{/.test(text.trim())) return parseNdjson(text);
+    throw new Error(`Invalid JSON: ${err.message}`);
+  }
+  return toParsed(findRecords(document) ?? [document]);
+}
+
+export async function parseParquet(buffer: ArrayBuffer): Promise<ParsedFile> {
+  return toParsed(await parquetReadObjects({ file: buffer }));
+}
+
+export function parseTextFormat(format: 'csv' | 'tsv' | 'json' | 'ndjson', text: string): ParsedFile {
+  switch (format) {
+    case 'csv': return parseDelimited(text);
+    case 'tsv': return parseDelimited(text, '\t');
+    case 'json': return parseJson(text);
+    case 'ndjson': return parseNdjson(text);
+  }
+}
@@ -0,0 +1,362 @@
+// Spreadsheet-style formulas for computed columns and row filters, e.g.
+//   round([Net Revenue] / Units, 2)
+//   Region = "North" and Sales > 1000
+// Parsed into closures by a small recursive-descent parser: nothing is ever
+// handed to eval/Function, and only the functions listed below are callable.
+// Missing values propagate as null rather than turning into 0 or NaN.
+// Text results and nesting are bounded, so a formula applied to every row of
+// an upload cannot build runaway strings or exhaust the stack.
+
+import { isMissing, toDate } from './profile';
+import { parseNumeric } from './schema';
+
+export type Row = Record<string, unknown>;
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} at character ${position + 1}`);
+  }
+}
+
+export interface CompiledFormula {
+  source: string;
+  // Every column the formula reads, for "missing column" warnings
+  columns: string[];
+  evaluate: (row: Row) => unknown;
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'name'; value: string; pos: number; bracketed: boolean }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+type Evaluator = (row: Row) => unknown;
+
+const MAX_LENGTH = 1000;
+const MAX_DEPTH = 50;
+const MAX_TEXT_LENGTH = 10000;
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '=', '!', '(', ')', ','];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), pos: start });
+      i += number[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new FormulaError('Unterminated string', start);
+      i++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+    // [Column Name] refers to columns with spaces or symbols in their name
+    if (ch === '[') {
+      const end = source.indexOf(']', i);
+      if (end < 0) throw new FormulaError('Missing ] after column name', start);
+      tokens.push({ kind: 'name', value: source.slice(i + 1, end), pos: start, bracketed: true });
+      i = end + 1;
+      continue;
+    }
+    const name = /^[A-Za-z_][\w.]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: 'name', value: name[0], pos: start, bracketed: false });
+      i += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new FormulaError(`Unexpected "${ch}"`, start);
+    tokens.push({ kind: 'op', value: op, pos: start });
+    i += op.length;
+  }
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+function num(value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return parseNumeric(value);
+}
+
+const truthy = (value: unknown) => !isMissing(value) && value !== false && value !== 0;
+
+function compare(a: unknown, b: unknown): number | null {
+  if (isMissing(a) || isMissing(b)) return null;
+  const x = num(a);
+  const y = num(b);
+  if (x !== null && y !== null) return x - y;
+  const da = toDate(a);
+  const db = toDate(b);
+  if (da && db) return da.getTime() - db.getTime();
+  return String(a).localeCompare(String(b));
+}
+
+function dateOf(value: unknown): Date | null {
+  if (isMissing(value)) return null;
+  const iso = toDate(value);
+  if (iso) return iso;
+  if (typeof value === 'string') {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+const text = (value: unknown) => (isMissing(value) ? null : String(value));
+
+// Functions that build text (rather than only shorten it) check their result
+function bounded(value: string): string {
+  if (value.length > MAX_TEXT_LENGTH) throw new FormulaError(`Text result is longer than ${MAX_TEXT_LENGTH} characters`);
+  return value;
+}
+
+// Arithmetic over numbers, null if any argument is missing or non-numeric
+const numeric = (fn: (...xs: number[]) => number) => (...args: unknown[]) => {
+  const xs = args.map(num);
+  if (xs.some(x => x === null)) return null;
+  const result = fn(...(xs as number[]));
+  return Number.isFinite(result) ? result : null;
+};
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: unknown[]) => unknown }> = {
+  abs: { arity: [1, 1], fn: numeric(Math.abs) },
+  round: { arity: [1, 2], fn: numeric((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits) },
+  floor: { arity: [1, 1], fn: numeric(Math.floor) },
+  ceil: { arity: [1, 1], fn: numeric(Math.ceil) },
+  sqrt: { arity: [1, 1], fn: numeric(Math.sqrt) },
+  ln: { arity: [1, 1], fn: numeric(Math.log) },
+  log10: { arity: [1, 1], fn: numeric(Math.log10) },
+  exp: { arity: [1, 1], fn: numeric(Math.exp) },
+  pow: { arity: [2, 2], fn: numeric(Math.pow) },
+  min: { arity: [1, Infinity], fn: (...args) => { const xs = args.map(num).filter((x): x is number => x !== null); return xs.length ? Math.min(...xs) : null; } },
+  max: { arity: [1, Infinity], fn: (...args) => { const xs = args.map(num).filter((x): x is number => x !== null); return xs.length ? Math.max(...xs) : null; } },
+  if: { arity: [2, 3], fn: (cond, a, b = null) => (truthy(cond) ? a : b) },
+  coalesce: { arity: [1, Infinity], fn: (...args) => args.find(a => !isMissing(a)) ?? null },
+  isblank: { arity: [1, 1], fn: value => isMissing(value) },
+  number: { arity: [1, 1], fn: value => num(value) },
+  text: { arity: [1, 1], fn: text },
+  lower: { arity: [1, 1], fn: value => text(value)?.toLowerCase() ?? null },
+  upper: { arity: [1, 1], fn: value => text(value)?.toUpperCase() ?? null },
+  trim: { arity: [1, 1], fn: value => text(value)?.trim() ?? null },
+  len: { arity: [1, 1], fn: value => text(value)?.length ?? null },
+  left: { arity: [2, 2], fn: (value, n) => text(value)?.slice(0, num(n) ?? 0) ?? null },
+  right: { arity: [2, 2], fn: (value, n) => { const s = text(value); const k = num(n) ?? 0; return s === null ? null : k > 0 ? s.slice(-k) : ''; } },
+  concat: { arity: [1, Infinity], fn: (...args) => bounded(args.map(a => text(a) ?? '').join('')) },
+  contains: { arity: [2, 2], fn: (value, part) => { const s = text(value); const p = text(part); return s === null || p === null ? null : s.toLowerCase().includes(p.toLowerCase()); } },
+  replace: { arity: [3, 3], fn: (value, from, to) => { const s = text(value); return s === null ? null : bounded(s.split(text(from) ?? '').join(text(to) ?? '')); } },
+  year: { arity: [1, 1], fn: value => dateOf(value)?.getUTCFullYear() ?? null },
+  month: { arity: [1, 1], fn: value => { const d = dateOf(value); return d ? d.getUTCMonth() + 1 : null; } },
+  day: { arity: [1, 1], fn: value => dateOf(value)?.getUTCDate() ?? null },
+  datediff: { arity: [2, 2], fn: (a, b) => { const x = dateOf(a); const y = dateOf(b); return x && y ? Math.round((y.getTime() - x.getTime()) / DAY_MS) : null; } },
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+// Lookups must never reach Object.prototype ("constructor", "__proto__")
+const own = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+class Parser {
+  private i = 0;
+  private depth = 0;
+  readonly columns = new Set<string>();
+
+  constructor(private tokens: Token[]) {}
+
+  private peek() { return this.tokens[this.i]; }
+  private next() { return this.tokens[this.i++]; }
+
+  private isOp(...values: string[]) {
+    const t = this.peek();
+    return t.kind === 'op' && values.includes(t.value);
+  }
+
+  private isWord(word: string) {
+    const t = this.peek();
+    return t.kind === 'name' && !t.bracketed && t.value.toLowerCase() === word;
+  }
+
+  private expect(op: string) {
+    const t = this.next();
+    if (t.kind !== 'op' || t.value !== op) throw new FormulaError(`Expected "${op}"`, t.pos);
+  }
+
+  parse(): Evaluator {
+    const expr = this.or();
+    const t = this.peek();
+    if (t.kind !== 'end') throw new FormulaError('Unexpected input', t.pos);
+    return expr;
+  }
+
+  // Parentheses, call arguments and prefix operators all recurse; the depth is
+  // checked wherever they do
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new FormulaError(`Formula is nested more than ${MAX_DEPTH} levels deep`, this.peek().pos);
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private or(): Evaluator {
+    let left = this.and();
+    while (this.isOp('||') || this.isWord('or')) {
+      this.next();
+      const l = left;
+      const right = this.and();
+      left = row => truthy(l(row)) || truthy(right(row));
+    }
+    return left;
+  }
+
+  private and(): Evaluator {
+    let left = this.not();
+    while (this.isOp('&&') || this.isWord('and')) {
+      this.next();
+      const l = left;
+      const right = this.not();
+      left = row => truthy(l(row)) && truthy(right(row));
+    }
+    return left;
+  }
+
+  private not(): Evaluator {
+    if (this.isOp('!') || this.isWord('not')) {
+      this.next();
+      const operand = this.nested(() => this.not());
+      return row => !truthy(operand(row));
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Evaluator {
+    const left = this.additive();
+    if (!this.isOp('=', '==', '!=', '<>', '<', '<=', '>', '>=')) return left;
+    const op = (this.next() as { value: string }).value;
+    const right = this.additive();
+    return row => {
+      const a = left(row);
+      const b = right(row);
+      if (op === '=' || op === '==') return isMissing(a) || isMissing(b) ? isMissing(a) && isMissing(b) : compare(a, b) === 0;
+      if (op === '!=' || op === '<>') return isMissing(a) || isMissing(b) ? isMissing(a) !== isMissing(b) : compare(a, b) !== 0;
+      const c = compare(a, b);
+      if (c === null) return null;
+      return op === '<' ? c < 0 : op === '<=' ? c <= 0 : op === '>' ? c > 0 : c >= 0;
+    };
+  }
+
+  private additive(): Evaluator {
+    let left = this.multiplicative();
+    while (this.isOp('+', '-')) {
+      const op = (this.next() as { value: string }).value;
+      const l = left;
+      const right = this.multiplicative();
+      const fn = numeric(op === '+' ? (a, b) => a + b : (a, b) => a - b);
+      left = row => fn(l(row), right(row));
+    }
+    return left;
+  }
+
+  private multiplicative(): Evaluator {
+    let left = this.unary();
+    while (this.isOp('*', '/', '%')) {
+      const op = (this.next() as { value: string }).value;
+      const l = left;
+      const right = this.unary();
+      const fn = numeric(op === '*' ? (a, b) => a * b : op === '/' ? (a, b) => a / b : (a, b) => a % b);
+      left = row => fn(l(row), right(row));
+    }
+    return left;
+  }
+
+  private unary(): Evaluator {
+    if (this.isOp('-')) {
+      this.next();
+      const operand = this.nested(() => this.unary());
+      const negate = numeric(x => -x);
+      return row => negate(operand(row));
+    }
+    if (this.isOp('+')) this.next();
+    return this.power();
+  }
+
+  private power(): Evaluator {
+    const base = this.primary();
+    if (!this.isOp('^')) return base;
+    this.next();
+    const exponent = this.nested(() => this.unary());
+    const fn = numeric(Math.pow);
+    return row => fn(base(row), exponent(row));
+  }
+
+  private primary(): Evaluator {
+    const t = this.next();
+    if (t.kind === 'number' || t.kind === 'string') {
+      const value = t.value;
+      return () => value;
+    }
+    if (t.kind === 'op' && t.value === '(') {
+      const inner = this.nested(() => this.or());
+      this.expect(')');
+      return inner;
+    }
+    if (t.kind === 'name') {
+      if (!t.bracketed && this.isOp('(')) return this.call(t.value, t.pos);
+      const keyword = t.value.toLowerCase();
+      if (!t.bracketed && own(KEYWORDS, keyword)) {
+        const value = KEYWORDS[keyword];
+        return () => value;
+      }
+      const column = t.value;
+      this.columns.add(column);
+      return row => (own(row, column) ? row[column] ?? null : null);
+    }
+    throw new FormulaError(t.kind === 'end' ? 'Formula ends unexpectedly' : 'Expected a value', t.pos);
+  }
+
+  private call(name: string, pos: number): Evaluator {
+    const spec = own(FUNCTIONS, name.toLowerCase()) ? FUNCTIONS[name.toLowerCase()] : undefined;
+    if (!spec) throw new FormulaError(`Unknown function ${name}()`, pos);
+    this.expect('(');
+    const args: Evaluator[] = [];
+    if (!this.isOp(')')) {
+      do {
+        if (args.length > 0) this.next();
+        args.push(this.nested(() => this.or()));
+      } while (this.isOp(','));
+    }
+    this.expect(')');
+    const [min, max] = spec.arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+      throw new FormulaError(`${name}() takes ${expected} argument${max === 1 ? '' : 's'}`, pos);
+    }
+    return row => spec.fn(...args.map(arg => arg(row)));
+  }
+}
+
+export function compileFormula(source: string): CompiledFormula {
+  if (typeof source !== 'string' || !source.trim()) throw new FormulaError('Formula is empty');
+  if (source.length > MAX_LENGTH) throw new FormulaError(`Formula is longer than ${MAX_LENGTH} characters`);
+  const parser = new Parser(tokenize(source));
+  const evaluate = parser.parse();
+  return { source, columns: Array.from(parser.columns), evaluate };
+}
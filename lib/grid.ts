@@ -0,0 +1,225 @@
+// Sorting, filtering, grouping and pivoting for the data grid. Everything
+// works on row indices rather than copies so a few hundred thousand rows stay
+// cheap to re-slice on every keystroke. The same filters run server-side when
+// the user scopes an analysis to what the grid shows.
+
+import { isMissing } from './profile';
+import { parseNumeric } from './schema';
+
+export type Row = Record<string, unknown>;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface GridSort {
+  column: string;
+  direction: SortDirection;
+}
+
+// Filter text per column, e.g. {"Region": "north", "Sales": ">= 1000"}
+export type GridFilters = Record<string, string>;
+
+export type Aggregation = 'sum' | 'avg' | 'count';
+
+export interface PivotConfig {
+  rows: string;
+  // Null for a single column of aggregates
+  columns: string | null;
+  // Ignored for count
+  value: string | null;
+  aggregation: Aggregation;
+}
+
+export interface PivotTable {
+  row_keys: string[];
+  column_keys: string[];
+  // cells[row][column]; null where no row falls into the cell
+  cells: (number | null)[][];
+  row_totals: (number | null)[];
+  column_totals: (number | null)[];
+  total: number | null;
+  // Row or column keys beyond the display limits were folded into OTHER_KEY
+  truncated: boolean;
+}
+
+export const AGGREGATIONS: Aggregation[] = ['sum', 'avg', 'count'];
+export const BLANK_KEY = '(blank)';
+export const OTHER_KEY = '(other)';
+
+const MAX_PIVOT_ROWS = 500;
+const MAX_PIVOT_COLUMNS = 50;
+const MAX_FILTER_LENGTH = 200;
+
+const keyOf = (value: unknown) => (isMissing(value) ? BLANK_KEY : String(value));
+
+// Syntax: "north" (contains), "!north" (doesn't contain), "= North", "!= North",
+// "> 100", "<= 2024-06-30", "100..500" (inclusive) and "(blank)". Comparisons
+// are numeric when both sides are numbers and case-insensitive text otherwise,
+// which orders ISO dates correctly.
+export function compileFilter(text: string): ((value: unknown) => boolean) | null {
+  const source = text.trim();
+  if (!source) return null;
+  if (source.toLowerCase() === BLANK_KEY) return value => isMissing(value);
+
+  const compare = (value: unknown, operand: string): number | null => {
+    if (isMissing(value)) return null;
+    const x = typeof value === 'number' ? value : parseNumeric(value);
+    const y = parseNumeric(operand);
+    if (x !== null && y !== null) return x - y;
+    return String(value).trim().toLowerCase().localeCompare(operand.toLowerCase());
+  };
+
+  const range = /^(.+?)\s*\.\.\s*(.+)$/.exec(source);
+  if (range) {
+    const [, low, high] = range;
+    return value => {
+      const a = compare(value, low);
+      const b = compare(value, high);
+      return a !== null && b !== null && a >= 0 && b <= 0;
+    };
+  }
+  const comparison = /^(>=|<=|!=|<>|>|<|=)\s*(.+)$/.exec(source);
+  if (comparison) {
+    const [, op, operand] = comparison;
+    return value => {
+      const c = compare(value, operand.trim());
+      if (c === null) return op === '!=' || op === '<>';
+      switch (op) {
+        case '>': return c > 0;
+        case '>=': return c >= 0;
+        case '<': return c < 0;
+        case '<=': return c <= 0;
+        case '=': return c === 0;
+        default: return c !== 0;
+      }
+    };
+  }
+  const negate = source.startsWith('!');
+  const needle = (negate ? source.slice(1) : source).trim().toLowerCase();
+  return value => {
+    const found = !isMissing(value) && String(value).toLowerCase().includes(needle);
+    return negate ? !found : found;
+  };
+}
+
+export function activeFilters(filters: GridFilters): [string, string][] {
+  return Object.entries(filters).filter(([, text]) => text.trim() !== '');
+}
+
+export function filterIndices(rows: Row[], filters: GridFilters): number[] {
+  const predicates = activeFilters(filters).map(([column, text]) => [column, compileFilter(text)!] as const);
+  const indices: number[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (predicates.every(([column, test]) => test(row[column]))) indices.push(i);
+  }
+  return indices;
+}
+
+export function applyFilters(rows: Row[], filters: GridFilters): Row[] {
+  return filterIndices(rows, filters).map(i => rows[i]);
+}
+
+// Numbers before text, blanks always last whichever the direction
+export function sortIndices(rows: Row[], indices: number[], sort: GridSort | null): number[] {
+  if (!sort) return indices;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  // Sort keys are computed once per row, not once per comparison
+  const keys: (number | string | null)[] = new Array(rows.length);
+  for (const i of indices) {
+    const value = rows[i][sort.column];
+    keys[i] = isMissing(value) ? null : typeof value === 'number' ? value : parseNumeric(value) ?? String(value).toLowerCase();
+  }
+  return [...indices].sort((a, b) => {
+    const x = keys[a];
+    const y = keys[b];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    if (typeof x === 'number' && typeof y === 'number') return (x - y) * sign;
+    if (typeof x === 'number') return -sign;
+    if (typeof y === 'number') return sign;
+    return x.localeCompare(y as string) * sign;
+  });
+}
+
+export function groupIndices(rows: Row[], indices: number[], column: string): { key: string; indices: number[] }[] {
+  const groups = new Map<string, number[]>();
+  for (const i of indices) {
+    const key = keyOf(rows[i][column]);
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = []));
+    group.push(i);
+  }
+  return Array.from(groups, ([key, members]) => ({ key, indices: members }))
+    .sort((a, b) => b.indices.length - a.indices.length || a.key.localeCompare(b.key));
+}
+
+export function aggregate(rows: Row[], indices: number[], column: string | null, aggregation: Aggregation): number | null {
+  if (aggregation === 'count' || !column) return indices.length;
+  let sum = 0;
+  let count = 0;
+  for (const i of indices) {
+    const value = rows[i][column];
+    const n = typeof value === 'number' ? value : parseNumeric(value);
+    if (n === null) continue;
+    sum += n;
+    count++;
+  }
+  if (count === 0) return null;
+  return aggregation === 'sum' ? sum : sum / count;
+}
+
+function topKeys(rows: Row[], indices: number[], column: string, limit: number): { keys: string[]; truncated: boolean } {
+  const groups = groupIndices(rows, indices, column);
+  const ordered = (keys: string[]) => keys.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (groups.length <= limit) return { keys: ordered(groups.map(g => g.key)), truncated: false };
+  return { keys: [...ordered(groups.slice(0, limit - 1).map(g => g.key)), OTHER_KEY], truncated: true };
+}
+
+// Largest groups are kept when there are too many keys; the rest share one
+// "(other)" row or column so the totals still add up.
+export function pivotTable(rows: Row[], indices: number[], config: PivotConfig): PivotTable {
+  const rowAxis = topKeys(rows, indices, config.rows, MAX_PIVOT_ROWS);
+  const columnAxis = config.columns ? topKeys(rows, indices, config.columns, MAX_PIVOT_COLUMNS) : { keys: [config.aggregation], truncated: false };
+  const rowIndex = new Map(rowAxis.keys.map((k, i) => [k, i]));
+  const columnIndex = new Map(columnAxis.keys.map((k, i) => [k, i]));
+  const slot = (index: Map<string, number>, key: string) => index.get(key) ?? index.get(OTHER_KEY)!;
+
+  const buckets: number[][][] = rowAxis.keys.map(() => columnAxis.keys.map(() => []));
+  for (const i of indices) {
+    const r = slot(rowIndex, keyOf(rows[i][config.rows]));
+    const c = config.columns ? slot(columnIndex, keyOf(rows[i][config.columns])) : 0;
+    buckets[r][c].push(i);
+  }
+  const value = (members: number[]) => (members.length ? aggregate(rows, members, config.value, config.aggregation) : null);
+
+  return {
+    row_keys: rowAxis.keys,
+    column_keys: columnAxis.keys,
+    cells: buckets.map(row => row.map(value)),
+    row_totals: buckets.map(row => value(row.flat())),
+    column_totals: columnAxis.keys.map((_, c) => value(buckets.flatMap(row => row[c]))),
+    total: value(indices),
+    truncated: rowAxis.truncated || columnAxis.truncated,
+  };
+}
+
+export function describeFilters(filters: GridFilters): string {
+  return activeFilters(filters).map(([column, text]) => {
+    const source = text.trim();
+    if (/^(>=|<=|!=|<>|>|<|=)/.test(source)) return `${column} ${source}`;
+    if (source.includes('..')) return `${column} between ${source.replace(/\s*\.\.\s*/, ' and ')}`;
+    if (source.toLowerCase() === BLANK_KEY) return `${column} is blank`;
+    return source.startsWith('!') ? `${column} doesn't contain "${source.slice(1).trim()}"` : `${column} contains "${source}"`;
+  }).join('; ');
+}
+
+export function validateFilters(raw: unknown): { value: GridFilters } | { error: string } {
+  if (raw === undefined || raw === null) return { value: {} };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Filters must map column names to filter text' };
+  const filters: GridFilters = {};
+  for (const [column, text] of Object.entries(raw)) {
+    if (typeof text !== 'string') return { error: `Filter for ${column} must be text` };
+    if (text.length > MAX_FILTER_LENGTH) return { error: `Filter for ${column} is longer than ${MAX_FILTER_LENGTH} characters` };
+    if (text.trim()) filters[column] = text;
+  }
+  return { value: filters };
+}
@@ -0,0 +1,12 @@
+import crypto from "crypto";
+
+export function sha256(value: string | Buffer): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// Content hash of a row array; key order inside rows is part of the identity.
+export function hashRows(rows: unknown[]): string {
+  const hash = crypto.createHash("sha256");
+  for (const row of rows) hash.update(JSON.stringify(row)).update("\n");
+  return hash.digest("hex");
+}
@@ -0,0 +1,166 @@
+// Report history search: FTS5 over query, context and insight text, plus
+// date, tag, impact, severity and author filters, paged with an opaque cursor.
+// History is shared across a workspace, so every query is scoped to one.
+
+import type Database from "better-sqlite3";
+import { addColumnIfMissing } from "./db";
+
+export interface HistoryFilters {
+  q?: string;
+  from?: string;
+  to?: string;
+  tag?: string;
+  impact?: string;
+  severity?: string;
+  author?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface HistoryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_TAGS = 10;
+const LEVELS = ["Low", "Medium", "High"];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// One statement both backfills and indexes new reports
+const INDEX_SQL = `
+  INSERT INTO reports_fts (report_id, query, context, insights)
+  SELECT r.id, coalesce(r.query, ''), coalesce(r.context, ''),
+    coalesce((SELECT group_concat(
+      coalesce(json_extract(i.value, '$.title'), '') || ' ' ||
+      coalesce(json_extract(i.value, '$.description'), '') || ' ' ||
+      coalesce(json_extract(i.value, '$.data_evidence'), ''), ' ')
+    FROM json_each(r.result, '$.insights') i), '')
+  FROM reports r
+`;
+
+export function initHistory(db: Database.Database) {
+  addColumnIfMissing(db, "reports", "tags", "TEXT NOT NULL DEFAULT '[]'");
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_reports_user_created ON reports(user_id, created_at DESC, id DESC);
+    CREATE VIRTUAL TABLE IF NOT EXISTS reports_fts USING fts5(report_id UNINDEXED, query, context, insights);
+  `);
+  const indexed = db.prepare(`${INDEX_SQL} WHERE r.id NOT IN (SELECT report_id FROM reports_fts)`).run();
+  if (indexed.changes > 0) console.log(`Indexed ${indexed.changes} reports for search`);
+}
+
+export function indexReport(db: Database.Database, reportId: string) {
+  db.prepare("DELETE FROM reports_fts WHERE report_id = ?").run(reportId);
+  db.prepare(`${INDEX_SQL} WHERE r.id = ?`).run(reportId);
+}
+
+export function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const tags = raw
+    .filter((t): t is string => typeof t === "string")
+    .map(t => t.trim().toLowerCase().slice(0, 32))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+// Free text becomes an AND of quoted prefix terms so FTS syntax in user input
+// can't produce a query error.
+function toMatchExpression(q: string): string | null {
+  const terms = q.match(/[\p{L}\p{N}_]+/gu);
+  return terms ? terms.map(t => `"${t}"*`).join(" ") : null;
+}
+
+function encodeCursor(row: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Array.isArray(value) && value.length === 2 ? [String(value[0]), String(value[1])] : null;
+  } catch {
+    return null;
+  }
+}
+
+const REPORT_SELECT = `
+  SELECT r.*, d.name AS dataset_name, d.version AS dataset_version, u.name AS author_name
+  FROM reports r
+  LEFT JOIN datasets d ON d.id = r.dataset_id
+  LEFT JOIN users u ON u.id = r.user_id
+`;
+
+function toReport(row: any) {
+  return { ...row, result: JSON.parse(row.result), tags: JSON.parse(row.tags || "[]") };
+}
+
+export function getReport(db: Database.Database, workspaceId: string, id: string): any | null {
+  const row = db.prepare(`${REPORT_SELECT} WHERE r.id = ? AND r.workspace_id = ?`).get(id, workspaceId);
+  return row ? toReport(row) : null;
+}
+
+export function searchReports(db: Database.Database, workspaceId: string, filters: HistoryFilters): HistoryPage<any> {
+  const where = ["r.workspace_id = ?"];
+  const params: unknown[] = [workspaceId];
+
+  const match = filters.q ? toMatchExpression(filters.q) : null;
+  if (match) {
+    where.push("r.id IN (SELECT report_id FROM reports_fts WHERE reports_fts MATCH ?)");
+    params.push(match);
+  }
+  if (filters.from && DATE.test(filters.from)) {
+    where.push("r.created_at >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to && DATE.test(filters.to)) {
+    where.push("r.created_at < date(?, '+1 day')");
+    params.push(filters.to);
+  }
+  if (filters.tag) {
+    where.push("EXISTS (SELECT 1 FROM json_each(r.tags) t WHERE t.value = ?)");
+    params.push(filters.tag.trim().toLowerCase());
+  }
+  if (filters.impact && LEVELS.includes(filters.impact)) {
+    where.push("EXISTS (SELECT 1 FROM json_each(r.result, '$.insights') i WHERE json_extract(i.value, '$.impact_level') = ?)");
+    params.push(filters.impact);
+  }
+  if (filters.severity && LEVELS.includes(filters.severity)) {
+    where.push("EXISTS (SELECT 1 FROM json_each(r.result, '$.anomalies') a WHERE json_extract(a.value, '$.severity') = ?)");
+    params.push(filters.severity);
+  }
+  if (filters.author) {
+    where.push("r.user_id = ?");
+    params.push(filters.author);
+  }
+  const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
+  if (cursor) {
+    where.push("(r.created_at < ? OR (r.created_at = ? AND r.id < ?))");
+    params.push(cursor[0], cursor[0], cursor[1]);
+  }
+
+  const limit = Math.min(Math.max(Number(filters.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  // One extra row tells us whether another page exists
+  const rows = db.prepare(`
+    ${REPORT_SELECT}
+    WHERE ${where.join(" AND ")}
+    ORDER BY r.created_at DESC, r.id DESC
+    LIMIT ?
+  `).all(...params, limit + 1) as any[];
+
+  const page = rows.slice(0, limit);
+  return {
+    items: page.map(toReport),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+export function listTags(db: Database.Database, workspaceId: string): { tag: string; count: number }[] {
+  return db.prepare(`
+    SELECT t.value AS tag, count(*) AS count
+    FROM reports r, json_each(r.tags) t
+    WHERE r.workspace_id = ?
+    GROUP BY t.value
+    ORDER BY count DESC, tag
+  `).all(workspaceId) as { tag: string; count: number }[];
+}
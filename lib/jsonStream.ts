@@ -0,0 +1,78 @@
+// Incremental scanner over a streamed JSON object. Emits each top-level
+// property as soon as its value is complete so the UI can render report
+// sections before the model has finished the whole document.
+
+export interface JsonSection {
+  key: string;
+  value: unknown;
+}
+
+export class JsonSectionScanner {
+  private buffer = '';
+  private pos = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expectingKey = false;
+  private keyStart = -1;
+  private currentKey: string | null = null;
+  private valueStart = -1;
+
+  push(chunk: string): JsonSection[] {
+    const sections: JsonSection[] = [];
+    this.buffer += chunk;
+
+    for (; this.pos < this.buffer.length; this.pos++) {
+      const ch = this.buffer[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.keyStart >= 0) {
+            this.currentKey = JSON.parse(this.buffer.slice(this.keyStart, this.pos + 1));
+            this.keyStart = -1;
+          }
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+        if (this.depth === 1 && this.expectingKey) {
+          this.keyStart = this.pos;
+          this.expectingKey = false;
+        }
+      } else if (ch === ':' && this.depth === 1 && this.currentKey !== null && this.valueStart < 0) {
+        this.valueStart = this.pos + 1;
+      } else if (ch === '{' || ch === '[') {
+        this.depth++;
+        if (this.depth === 1) this.expectingKey = true;
+      } else if (ch === '}' || ch === ']') {
+        if (this.depth === 1) this.flush(sections);
+        this.depth--;
+      } else if (ch === ',' && this.depth === 1) {
+        this.flush(sections);
+        this.expectingKey = true;
+      }
+    }
+
+    return sections;
+  }
+
+  private flush(sections: JsonSection[]) {
+    if (this.currentKey !== null && this.valueStart >= 0) {
+      const raw = this.buffer.slice(this.valueStart, this.pos).trim();
+      try {
+        sections.push({ key: this.currentKey, value: JSON.parse(raw) });
+      } catch {
+        // Malformed fragment; the final full parse will surface the error.
+      }
+    }
+    this.currentKey = null;
+    this.valueStart = -1;
+  }
+}
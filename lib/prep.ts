@@ -0,0 +1,362 @@
+// Data preparation recipes: an ordered list of cleanup steps applied between
+// upload and analysis. The recipe is stored with the dataset (raw rows plus
+// steps), so re-running a report or a scheduled job replays the same cleanup
+// on new data. A step that names a column the data doesn't have is skipped
+// with a warning instead of failing the whole run.
+
+import { compileFormula, FormulaError, type CompiledFormula } from './formula';
+import { collectHeaders, isMissing, toDate } from './profile';
+import { parseNumeric } from './schema';
+
+export type Row = Record<string, unknown>;
+
+export type CoerceType = 'number' | 'date' | 'boolean' | 'string';
+export type MissingStrategy = 'drop' | 'fill' | 'mean' | 'median' | 'mode' | 'interpolate';
+
+export type PrepStep =
+  | { op: 'coerce'; column: string; to: CoerceType }
+  // An empty column list means every column
+  | { op: 'trim'; columns: string[] }
+  | { op: 'missing'; column: string; strategy: MissingStrategy; value?: string | number }
+  | { op: 'dedupe'; columns: string[] }
+  | { op: 'rename'; column: string; to: string }
+  | { op: 'drop'; columns: string[] }
+  | { op: 'filter'; formula: string }
+  | { op: 'compute'; column: string; formula: string };
+
+export type PrepOp = PrepStep['op'];
+
+export interface StepResult {
+  rows_before: number;
+  rows_after: number;
+  // Cells whose value the step changed
+  cells_changed: number;
+  warning?: string;
+}
+
+export interface PreparedData {
+  rows: Row[];
+  headers: string[];
+  results: StepResult[];
+}
+
+export const COERCE_TYPES: CoerceType[] = ['number', 'date', 'boolean', 'string'];
+export const MISSING_STRATEGIES: MissingStrategy[] = ['drop', 'fill', 'mean', 'median', 'mode', 'interpolate'];
+const OPS: PrepOp[] = ['coerce', 'trim', 'missing', 'dedupe', 'rename', 'drop', 'filter', 'compute'];
+
+const MAX_STEPS = 50;
+const MAX_NAME_LENGTH = 200;
+
+// Excel stores dates as days since 1899-12-30; only this range is plausibly a date
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const EXCEL_SERIAL_RANGE = [20000, 80000];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, yes: true, y: true, '1': true, false: false, no: false, n: false, '0': false };
+
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  // Accounting exports write negatives as (1,234.00)
+  const accounting = typeof value === 'string' && /^\s*\(.*\)\s*$/.test(value);
+  const n = parseNumeric(accounting ? (value as string).trim().slice(1, -1) : value);
+  return n === null ? null : accounting ? -n : n;
+}
+
+function coerceDate(value: unknown): string | null {
+  let date: Date | null = null;
+  if (typeof value === 'number' && value >= EXCEL_SERIAL_RANGE[0] && value <= EXCEL_SERIAL_RANGE[1]) {
+    date = new Date(EXCEL_EPOCH_MS + Math.round(value * DAY_MS));
+  } else if (typeof value === 'string') {
+    date = toDate(value) ?? new Date(value.trim());
+  } else if (value instanceof Date) {
+    date = value;
+  }
+  if (!date || isNaN(date.getTime())) return null;
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function coerceBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const word = String(value).trim().toLowerCase();
+  return word in BOOLEAN_WORDS ? BOOLEAN_WORDS[word] : null;
+}
+
+export function coerceValue(value: unknown, to: CoerceType): unknown {
+  if (isMissing(value)) return null;
+  switch (to) {
+    case 'number': return coerceNumber(value);
+    case 'date': return coerceDate(value);
+    case 'boolean': return coerceBoolean(value);
+    case 'string': return String(value);
+  }
+}
+
+const keyOf = (values: unknown[]) => JSON.stringify(values.map(v => (isMissing(v) ? null : typeof v === 'string' ? v.trim().toLowerCase() : v)));
+
+function fillValue(values: unknown[], strategy: 'mean' | 'median' | 'mode'): unknown {
+  if (strategy === 'mode') {
+    const counts = new Map<string, { value: unknown; count: number }>();
+    for (const v of values) {
+      if (isMissing(v)) continue;
+      const entry = counts.get(String(v)) ?? { value: v, count: 0 };
+      entry.count++;
+      counts.set(String(v), entry);
+    }
+    let best: { value: unknown; count: number } | null = null;
+    for (const entry of counts.values()) if (!best || entry.count > best.count) best = entry;
+    return best?.value ?? null;
+  }
+  const numbers = values.map(coerceNumber).filter((n): n is number => n !== null).sort((a, b) => a - b);
+  if (numbers.length === 0) return null;
+  if (strategy === 'mean') return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  const mid = Math.floor(numbers.length / 2);
+  return numbers.length % 2 ? numbers[mid] : (numbers[mid - 1] + numbers[mid]) / 2;
+}
+
+// Linear between the nearest known neighbours in row order; gaps at either
+// end take the nearest known value.
+function interpolate(rows: Row[], column: string): number {
+  const values = rows.map(row => coerceNumber(row[column]));
+  const known = values.flatMap((n, i) => (n === null ? [] : [i]));
+  if (known.length === 0) return 0;
+  let changed = 0;
+  // known[k] is the first known position at or after the current row
+  let k = 0;
+  rows.forEach((row, i) => {
+    while (k < known.length && known[k] < i) k++;
+    if (!isMissing(row[column])) return;
+    const prev = k > 0 ? known[k - 1] : null;
+    const next = k < known.length ? known[k] : null;
+    const value = prev === null ? values[next!]!
+      : next === null ? values[prev]!
+      : values[prev]! + ((values[next]! - values[prev]!) * (i - prev)) / (next - prev);
+    row[column] = Math.round(value * 1e6) / 1e6;
+    changed++;
+  });
+  return changed;
+}
+
+function applyStep(step: PrepStep, rows: Row[], headers: string[], formulas: Map<string, CompiledFormula>): { rows: Row[]; headers: string[]; changed: number; warning?: string } {
+  const missingColumns = (columns: string[]) => columns.filter(c => !headers.includes(c));
+  const notFound = (columns: string[]) => `Column${columns.length > 1 ? 's' : ''} ${columns.map(c => `"${c}"`).join(', ')} not found`;
+  const skip = (columns: string[]) => ({ rows, headers, changed: 0, warning: `${notFound(columns)}; step skipped` });
+
+  switch (step.op) {
+    case 'coerce': {
+      if (!headers.includes(step.column)) return skip([step.column]);
+      let changed = 0;
+      let failed = 0;
+      for (const row of rows) {
+        const before = row[step.column];
+        const after = coerceValue(before, step.to);
+        if (after === null && !isMissing(before)) failed++;
+        if (after !== before) changed++;
+        row[step.column] = after;
+      }
+      return { rows, headers, changed, warning: failed ? `${failed} value${failed > 1 ? 's' : ''} could not be read as ${step.to} and became empty` : undefined };
+    }
+    case 'trim': {
+      const columns = step.columns.length ? step.columns : headers;
+      const absent = missingColumns(columns);
+      let changed = 0;
+      for (const row of rows) {
+        for (const column of columns) {
+          const value = row[column];
+          if (typeof value !== 'string') continue;
+          const trimmed = value.replace(/\s+/g, ' ').trim();
+          if (trimmed !== value) {
+            row[column] = trimmed === '' ? null : trimmed;
+            changed++;
+          }
+        }
+      }
+      return { rows, headers, changed, warning: absent.length ? `${notFound(absent)}; ignored` : undefined };
+    }
+    case 'missing': {
+      if (!headers.includes(step.column)) return skip([step.column]);
+      if (step.strategy === 'drop') {
+        const kept = rows.filter(row => !isMissing(row[step.column]));
+        return { rows: kept, headers, changed: 0 };
+      }
+      if (step.strategy === 'interpolate') return { rows, headers, changed: interpolate(rows, step.column) };
+      const value = step.strategy === 'fill' ? (step.value ?? null) : fillValue(rows.map(r => r[step.column]), step.strategy);
+      let changed = 0;
+      for (const row of rows) {
+        if (isMissing(row[step.column])) {
+          row[step.column] = value;
+          changed++;
+        }
+      }
+      return { rows, headers, changed };
+    }
+    case 'dedupe': {
+      const columns = step.columns.length ? step.columns : headers;
+      const absent = missingColumns(columns);
+      if (absent.length) return skip(absent);
+      const seen = new Set<string>();
+      const kept = rows.filter(row => {
+        const key = keyOf(columns.map(c => row[c]));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      return { rows: kept, headers, changed: 0 };
+    }
+    case 'rename': {
+      if (!headers.includes(step.column)) return skip([step.column]);
+      if (step.column === step.to) return { rows, headers, changed: 0 };
+      if (headers.includes(step.to)) return { rows, headers, changed: 0, warning: `A column named "${step.to}" already exists; step skipped` };
+      const renamed = rows.map(row => {
+        const next: Row = {};
+        for (const [key, value] of Object.entries(row)) next[key === step.column ? step.to : key] = value;
+        return next;
+      });
+      return { rows: renamed, headers: headers.map(h => (h === step.column ? step.to : h)), changed: 0 };
+    }
+    case 'drop': {
+      const absent = missingColumns(step.columns);
+      for (const row of rows) for (const column of step.columns) delete row[column];
+      return { rows, headers: headers.filter(h => !step.columns.includes(h)), changed: 0, warning: absent.length ? `${notFound(absent)}; ignored` : undefined };
+    }
+    case 'filter':
+    case 'compute': {
+      const formula = formulas.get(step.formula) ?? compileFormula(step.formula);
+      formulas.set(step.formula, formula);
+      const absent = missingColumns(formula.columns);
+      const warning = absent.length ? `Formula refers to missing column${absent.length > 1 ? 's' : ''} ${absent.map(c => `"${c}"`).join(', ')}` : undefined;
+      // Values are worked out before any row changes, so a formula that fails
+      // part-way leaves the step's input intact
+      let values: unknown[];
+      try {
+        values = rows.map(row => formula.evaluate(row));
+      } catch (err) {
+        if (err instanceof FormulaError) return { rows, headers, changed: 0, warning: `${err.message}; step skipped` };
+        throw err;
+      }
+      if (step.op === 'filter') {
+        const kept = rows.filter((_, i) => !isMissing(values[i]) && values[i] !== false && values[i] !== 0);
+        return { rows: kept, headers, changed: 0, warning };
+      }
+      let changed = 0;
+      rows.forEach((row, i) => {
+        if (values[i] !== row[step.column]) changed++;
+        row[step.column] = values[i];
+      });
+      return { rows, headers: headers.includes(step.column) ? headers : [...headers, step.column], changed, warning };
+    }
+  }
+}
+
+// Never mutates the input rows, so the raw upload stays available for editing the recipe
+// Pass the parser's headers to keep the file's column order
+export function applyRecipe(input: Row[], steps: PrepStep[], inputHeaders?: string[]): PreparedData {
+  let rows = steps.length ? input.map(row => ({ ...row })) : input;
+  let headers = inputHeaders ?? collectHeaders(input);
+  const results: StepResult[] = [];
+  const formulas = new Map<string, CompiledFormula>();
+  for (const step of steps) {
+    const before = rows.length;
+    const out = applyStep(step, rows, headers, formulas);
+    rows = out.rows;
+    headers = out.headers;
+    results.push({ rows_before: before, rows_after: rows.length, cells_changed: out.changed, ...(out.warning ? { warning: out.warning } : {}) });
+  }
+  return { rows, headers, results };
+}
+
+const cleanName = (value: unknown) => (typeof value === 'string' ? value.trim().slice(0, MAX_NAME_LENGTH) : '');
+
+// Rows are plain objects, so these would reach Object.prototype instead of
+// becoming a column
+const RESERVED_NAMES = ['__proto__', 'constructor', 'prototype'];
+const reservedName = (name: string) => (RESERVED_NAMES.includes(name) ? `"${name}" cannot be used as a column name` : null);
+
+function columnList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const names = value.map(cleanName);
+  return names.every(Boolean) ? names : null;
+}
+
+function validateStep(raw: any): { value: PrepStep } | { error: string } {
+  if (!raw || typeof raw !== 'object' || !OPS.includes(raw.op)) return { error: `Unknown step type; expected one of ${OPS.join(', ')}` };
+  const column = cleanName(raw.column);
+  const formula = typeof raw.formula === 'string' ? raw.formula.trim() : '';
+  switch (raw.op as PrepOp) {
+    case 'coerce':
+      if (!column) return { error: 'Column is required' };
+      if (!COERCE_TYPES.includes(raw.to)) return { error: `Type must be one of ${COERCE_TYPES.join(', ')}` };
+      return { value: { op: 'coerce', column, to: raw.to } };
+    case 'trim':
+    case 'dedupe': {
+      const columns = columnList(raw.columns);
+      if (!columns) return { error: 'Columns must be a list of column names' };
+      return { value: { op: raw.op, columns } };
+    }
+    case 'drop': {
+      const columns = columnList(raw.columns);
+      if (!columns || columns.length === 0) return { error: 'Choose at least one column to drop' };
+      return { value: { op: 'drop', columns } };
+    }
+    case 'missing': {
+      if (!column) return { error: 'Column is required' };
+      if (!MISSING_STRATEGIES.includes(raw.strategy)) return { error: `Strategy must be one of ${MISSING_STRATEGIES.join(', ')}` };
+      if (raw.strategy !== 'fill') return { value: { op: 'missing', column, strategy: raw.strategy } };
+      if (typeof raw.value !== 'string' && typeof raw.value !== 'number') return { error: 'A fill value is required' };
+      return { value: { op: 'missing', column, strategy: 'fill', value: raw.value } };
+    }
+    case 'rename': {
+      const to = cleanName(raw.to);
+      if (!column || !to) return { error: 'Both the column and its new name are required' };
+      const reserved = reservedName(to);
+      if (reserved) return { error: reserved };
+      return { value: { op: 'rename', column, to } };
+    }
+    case 'filter':
+    case 'compute':
+      if (raw.op === 'compute') {
+        if (!column) return { error: 'Name the computed column' };
+        const reserved = reservedName(column);
+        if (reserved) return { error: reserved };
+      }
+      try {
+        compileFormula(formula);
+      } catch (err) {
+        if (err instanceof FormulaError) return { error: err.message };
+        throw err;
+      }
+      return { value: raw.op === 'filter' ? { op: 'filter', formula } : { op: 'compute', column, formula } };
+  }
+}
+
+export function validateRecipe(raw: unknown): { value: PrepStep[] } | { error: string } {
+  if (raw === undefined || raw === null) return { value: [] };
+  if (!Array.isArray(raw)) return { error: 'Recipe must be a list of steps' };
+  if (raw.length > MAX_STEPS) return { error: `A recipe can have at most ${MAX_STEPS} steps` };
+  const steps: PrepStep[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const result = validateStep(raw[i]);
+    if ('error' in result) return { error: `Step ${i + 1}: ${result.error}` };
+    steps.push(result.value);
+  }
+  return { value: steps };
+}
+
+export function describeStep(step: PrepStep): string {
+  const list = (columns: string[]) => (columns.length ? columns.join(', ') : 'all columns');
+  switch (step.op) {
+    case 'coerce': return `Convert ${step.column} to ${step.to}`;
+    case 'trim': return `Trim whitespace in ${list(step.columns)}`;
+    case 'missing':
+      return step.strategy === 'drop' ? `Drop rows with empty ${step.column}`
+        : step.strategy === 'fill' ? `Fill empty ${step.column} with "${step.value}"`
+        : step.strategy === 'interpolate' ? `Interpolate empty ${step.column}`
+        : `Fill empty ${step.column} with the ${step.strategy}`;
+    case 'dedupe': return `Remove duplicate rows by ${list(step.columns)}`;
+    case 'rename': return `Rename ${step.column} to ${step.to}`;
+    case 'drop': return `Drop ${step.columns.join(', ')}`;
+    case 'filter': return `Keep rows where ${step.formula}`;
+    case 'compute': return `${step.column} = ${step.formula}`;
+  }
+}
@@ -0,0 +1,202 @@
+// Deterministic column profiling. Runs over every row of the dataset so the
+// numbers shown to executives (and fed to the model) are ground truth rather
+// than whatever the LLM estimated from a sample.
+
+import type { ColumnSchema, SemanticType } from './semantic';
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'string' | 'empty';
+
+export interface CategoryCount {
+  value: string;
+  count: number;
+  share: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Confirmed meaning of the column (see ./semantic); `type` is what the values hold
+  semantic?: SemanticType;
+  count: number;
+  null_count: number;
+  null_rate: number;
+  distinct_count: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  std?: number;
+  sum?: number;
+  quantiles?: { p05: number; p25: number; p50: number; p75: number; p95: number };
+  top_categories?: CategoryCount[];
+}
+
+export interface DatasetProfile {
+  row_count: number;
+  column_count: number;
+  columns: ColumnProfile[];
+}
+
+const TOP_K = 5;
+// Codes, categories and places are text even when every value is digits
+const TEXT_SEMANTICS: SemanticType[] = ['identifier', 'category', 'geography', 'text'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '' || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(trimmed)) return null;
+    const n = Number(trimmed);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && ISO_DATE.test(value.trim())) {
+    const d = new Date(value.trim());
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+function classify(value: unknown): Exclude<ColumnType, 'empty'> {
+  if (typeof value === 'boolean') return 'boolean';
+  if (toNumber(value) !== null) return 'number';
+  if (toDate(value) !== null) return 'date';
+  if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return 'boolean';
+  return 'string';
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending.
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function round(n: number, digits = 4): number {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
+
+export function collectHeaders(rows: Record<string, unknown>[]): string[] {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    for (const key of Object.keys(row)) seen.add(key);
+  }
+  return Array.from(seen);
+}
+
+export function profileColumn(name: string, values: unknown[], semantic?: SemanticType): ColumnProfile {
+  const present = values.filter(v => !isMissing(v));
+  const nullCount = values.length - present.length;
+  const base: ColumnProfile = {
+    name,
+    type: 'empty',
+    count: values.length,
+    null_count: nullCount,
+    null_rate: values.length ? round(nullCount / values.length) : 0,
+    distinct_count: new Set(present.map(v => String(v))).size,
+    ...(semantic ? { semantic } : {}),
+  };
+  if (present.length === 0) return base;
+
+  // Majority vote so a handful of stray strings don't demote a numeric column.
+  const textual = semantic !== undefined && TEXT_SEMANTICS.includes(semantic);
+  const votes: Record<string, number> = {};
+  for (const v of present) {
+    const t = textual && typeof v !== 'boolean' ? 'string' : classify(v);
+    votes[t] = (votes[t] || 0) + 1;
+  }
+  const [type] = Object.entries(votes).sort((a, b) => b[1] - a[1])[0] as [Exclude<ColumnType, 'empty'>, number];
+  base.type = type;
+
+  if (type === 'number') {
+    const nums = present.map(toNumber).filter((n): n is number => n !== null);
+    let mean = 0;
+    let m2 = 0;
+    let sum = 0;
+    nums.forEach((x, i) => {
+      sum += x;
+      const delta = x - mean;
+      mean += delta / (i + 1);
+      m2 += delta * (x - mean);
+    });
+    const sorted = [...nums].sort((a, b) => a - b);
+    base.min = sorted[0];
+    base.max = sorted[sorted.length - 1];
+    base.sum = round(sum);
+    base.mean = round(mean);
+    base.std = round(nums.length > 1 ? Math.sqrt(m2 / (nums.length - 1)) : 0);
+    base.quantiles = {
+      p05: round(quantile(sorted, 0.05)),
+      p25: round(quantile(sorted, 0.25)),
+      p50: round(quantile(sorted, 0.5)),
+      p75: round(quantile(sorted, 0.75)),
+      p95: round(quantile(sorted, 0.95)),
+    };
+  } else if (type === 'date') {
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    for (const v of present) {
+      const d = toDate(v);
+      if (!d) continue;
+      minTime = Math.min(minTime, d.getTime());
+      maxTime = Math.max(maxTime, d.getTime());
+    }
+    base.min = new Date(minTime).toISOString();
+    base.max = new Date(maxTime).toISOString();
+  }
+
+  if (type !== 'number' || base.distinct_count <= TOP_K * 2) {
+    const counts = new Map<string, number>();
+    for (const v of present) {
+      const key = String(v);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    base.top_categories = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_K)
+      .map(([value, count]) => ({ value, count, share: round(count / present.length) }));
+  }
+
+  return base;
+}
+
+export function profileDataset(rows: Record<string, unknown>[], schema: ColumnSchema[] = []): DatasetProfile {
+  const headers = collectHeaders(rows);
+  const semantic = new Map(schema.map(c => [c.name, c.type]));
+  const columns = headers.map(h => profileColumn(h, rows.map(r => (r ? r[h] : undefined)), semantic.get(h)));
+  return {
+    row_count: rows.length,
+    column_count: headers.length,
+    columns,
+  };
+}
+
+// Compact, model-friendly rendering of the profile for prompt injection.
+export function formatProfileForPrompt(profile: DatasetProfile): string {
+  const lines = profile.columns.map(c => {
+    const parts = [`${c.name} (${c.semantic && c.semantic !== c.type ? `${c.type}, ${c.semantic}` : c.type})`, `nulls=${(c.null_rate * 100).toFixed(1)}%`, `distinct=${c.distinct_count}`];
+    if (c.type === 'number') {
+      parts.push(`min=${c.min}`, `max=${c.max}`, `mean=${c.mean}`, `std=${c.std}`, `sum=${c.sum}`);
+      if (c.quantiles) parts.push(`p25=${c.quantiles.p25}`, `median=${c.quantiles.p50}`, `p75=${c.quantiles.p75}`);
+    } else if (c.type === 'date') {
+      parts.push(`range=${c.min}..${c.max}`);
+    }
+    if (c.top_categories?.length) {
+      parts.push(`top=[${c.top_categories.map(t => `${t.value}:${t.count}`).join(', ')}]`);
+    }
+    return `- ${parts.join('; ')}`;
+  });
+  return `Rows: ${profile.row_count}, Columns: ${profile.column_count}\n${lines.join('\n')}`;
+}
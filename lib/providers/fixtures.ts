@@ -0,0 +1,124 @@
+// Record/replay of model calls. In record mode every provider response is
+// written to a fixture file; in replay mode responses are served from those
+// files without touching the network, optionally failing on a schedule so the
+// retry/backoff path can be exercised offline.
+//
+//   LLM_FIXTURE_MODE=record|replay
+//   LLM_FIXTURE_DIR=fixtures/llm
+//   LLM_REPLAY_FAILURES=429,503,ok    (consumed one entry per call)
+//   LLM_REPLAY_CHUNK_SIZE=256         (replayed responses are streamed in chunks)
+
+import fs from "fs";
+import path from "path";
+import { sha256 } from "../hash";
+import { LLMProvider, GenerateRequest, ProviderError, ProviderId } from "./types";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export interface Fixture {
+  key: string;
+  task: string;
+  provider: ProviderId;
+  model: string;
+  dataset_hash: string | null;
+  query: string;
+  context: string;
+  system: string;
+  prompt: string;
+  response: string;
+  recorded_at: string;
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.LLM_FIXTURE_MODE?.trim().toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.env.LLM_FIXTURE_DIR || path.join("fixtures", "llm"));
+}
+
+// Keyed by what the caller asked, not by the exact prompt text, so prompt
+// wording changes don't invalidate every recording.
+export function fixtureKey(request: GenerateRequest): string {
+  const a = request.analysis;
+  return sha256(JSON.stringify({
+    task: request.task,
+    dataset: a?.datasetHash ?? null,
+    query: a?.query ?? "",
+    context: a?.context ?? "",
+    // Tasks without a dataset (e.g. follow-up questions) fall back to the prompt
+    prompt: a?.datasetHash ? undefined : request.prompt,
+  })).slice(0, 32);
+}
+
+function fixturePath(key: string): string {
+  return path.join(getFixtureDir(), `${key}.json`);
+}
+
+// Shared across providers so a schedule like "429,429,ok" spans retries.
+let failureCursor = 0;
+
+function nextScheduledFailure(): number | null {
+  const schedule = (process.env.LLM_REPLAY_FAILURES || "").split(",").map(s => s.trim()).filter(Boolean);
+  if (failureCursor >= schedule.length) return null;
+  const entry = schedule[failureCursor++];
+  const status = Number(entry);
+  return Number.isFinite(status) && status >= 400 ? status : null;
+}
+
+export class RecordingProvider implements LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+
+  constructor(private inner: LLMProvider) {
+    this.id = inner.id;
+    this.model = inner.model;
+  }
+
+  async generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string> {
+    const response = await this.inner.generate(request, onChunk);
+    const key = fixtureKey(request);
+    const fixture: Fixture = {
+      key,
+      task: request.task,
+      provider: this.id,
+      model: this.model,
+      dataset_hash: request.analysis?.datasetHash ?? null,
+      query: request.analysis?.query ?? "",
+      context: request.analysis?.context ?? "",
+      system: request.system,
+      prompt: request.prompt,
+      response,
+      recorded_at: new Date().toISOString(),
+    };
+    fs.mkdirSync(getFixtureDir(), { recursive: true });
+    fs.writeFileSync(fixturePath(key), JSON.stringify(fixture, null, 2));
+    console.log(`Recorded ${request.task} fixture ${key}`);
+    return response;
+  }
+}
+
+export class ReplayProvider implements LLMProvider {
+  constructor(readonly id: ProviderId, readonly model: string) {}
+
+  async generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string> {
+    const failure = nextScheduledFailure();
+    if (failure !== null) {
+      console.warn(`Replay: injecting scheduled ${failure} failure`);
+      throw new ProviderError(`Injected failure ${failure} (replay schedule)`, failure);
+    }
+
+    const key = fixtureKey(request);
+    const file = fixturePath(key);
+    if (!fs.existsSync(file)) {
+      throw new ProviderError(`No ${request.task} fixture recorded for key ${key} in ${getFixtureDir()}. Run once with LLM_FIXTURE_MODE=record.`);
+    }
+    const fixture: Fixture = JSON.parse(fs.readFileSync(file, "utf8"));
+    const chunkSize = Number(process.env.LLM_REPLAY_CHUNK_SIZE) || 256;
+    for (let i = 0; i < fixture.response.length; i += chunkSize) {
+      onChunk?.(fixture.response.slice(i, i + chunkSize));
+    }
+    return fixture.response;
+  }
+}
@@ -0,0 +1,47 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMProvider, GenerateRequest, ProviderError } from "./types";
+
+export const GEMINI_DEFAULT_MODEL = "gemini-3-flash-preview";
+
+// Prioritize COGAPI3 as requested by user, fallback to GEMINI_API_KEY
+export function getGeminiKey(): string | null {
+  const key = process.env.COGAPI3 || process.env.GEMINI_API_KEY;
+  return key && key.trim() !== "" ? key.trim() : null;
+}
+
+export function getGeminiKeyName(): string {
+  return process.env.COGAPI3 ? "COGAPI3" : process.env.GEMINI_API_KEY ? "GEMINI_API_KEY" : "NONE";
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = "gemini" as const;
+  readonly model: string;
+  private ai: GoogleGenAI;
+
+  constructor(model = GEMINI_DEFAULT_MODEL) {
+    const apiKey = getGeminiKey();
+    if (!apiKey) {
+      throw new ProviderError("Gemini API key is not configured. Please set COGAPI3 or GEMINI_API_KEY in the environment variables.");
+    }
+    this.model = model;
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.system,
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+      },
+    });
+    let full = "";
+    for await (const chunk of stream) {
+      const piece = chunk.text || "";
+      full += piece;
+      onChunk?.(piece);
+    }
+    return full;
+  }
+}
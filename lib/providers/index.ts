@@ -0,0 +1,92 @@
+// Provider registry. The deployment default comes from LLM_PROVIDER/LLM_MODEL;
+// individual requests may override both.
+
+import { LLMProvider, ProviderId, ProviderStatus, ProviderError } from "./types";
+import { GeminiProvider, GEMINI_DEFAULT_MODEL, getGeminiKey, getGeminiKeyName } from "./gemini";
+import { OpenAICompatibleProvider, OPENAI_DEFAULT_MODEL, getOpenAIBaseUrl } from "./openai";
+import { OfflineProvider, OFFLINE_MODEL } from "./offline";
+import { getFixtureMode, RecordingProvider, ReplayProvider } from "./fixtures";
+
+export * from "./types";
+export { getGeminiKey, getGeminiKeyName } from "./gemini";
+export { getFixtureMode, getFixtureDir } from "./fixtures";
+
+export const PROVIDER_IDS: ProviderId[] = ["gemini", "openai", "offline"];
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && (PROVIDER_IDS as string[]).includes(value);
+}
+
+export function getDefaultProviderId(): ProviderId {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return isProviderId(configured) ? configured : "gemini";
+}
+
+export function listProviders(): ProviderStatus[] {
+  // Every provider can be served from fixtures in replay mode
+  const replay = getFixtureMode() === "replay";
+  return [
+    {
+      id: "gemini",
+      label: "Google Gemini",
+      configured: replay || !!getGeminiKey(),
+      defaultModel: GEMINI_DEFAULT_MODEL,
+      detail: `key: ${getGeminiKeyName()}`,
+    },
+    {
+      id: "openai",
+      label: "OpenAI-compatible",
+      // Local servers (llama.cpp, Ollama) usually need no key, so an explicit
+      // base URL counts as configuration.
+      configured: replay || !!process.env.OPENAI_BASE_URL || !!process.env.OPENAI_API_KEY,
+      defaultModel: process.env.OPENAI_MODEL || OPENAI_DEFAULT_MODEL,
+      detail: getOpenAIBaseUrl(),
+    },
+    {
+      id: "offline",
+      label: "Offline rules engine",
+      configured: true,
+      defaultModel: OFFLINE_MODEL,
+      detail: "local statistics only",
+    },
+  ];
+}
+
+export function getActiveProvider(): { id: ProviderId; model: string } {
+  const id = getDefaultProviderId();
+  const status = listProviders().find(p => p.id === id)!;
+  const model = process.env.LLM_MODEL?.trim() || status.defaultModel;
+  return { id, model };
+}
+
+export function createProvider(options: { provider?: unknown; model?: unknown } = {}): LLMProvider {
+  if (options.provider !== undefined && options.provider !== null && options.provider !== "" && !isProviderId(options.provider)) {
+    throw new ProviderError(`Unknown provider "${options.provider}". Expected one of: ${PROVIDER_IDS.join(", ")}`, 400);
+  }
+  const active = getActiveProvider();
+  const id: ProviderId = isProviderId(options.provider) ? options.provider : active.id;
+  const requestedModel = typeof options.model === "string" && options.model.trim() !== "" ? options.model.trim() : undefined;
+  // The deployment's LLM_MODEL only applies to the deployment's provider
+  const model = requestedModel || (id === active.id ? active.model : undefined);
+
+  const mode = getFixtureMode();
+  if (mode === "replay") {
+    // No live backend (and no API key) needed when serving fixtures
+    const status = listProviders().find(p => p.id === id)!;
+    return new ReplayProvider(id, model || status.defaultModel);
+  }
+
+  const provider = instantiate(id, model);
+  return mode === "record" ? new RecordingProvider(provider) : provider;
+}
+
+function instantiate(id: ProviderId, model?: string): LLMProvider {
+  switch (id) {
+    case "gemini":
+      return new GeminiProvider(model);
+    case "openai":
+      return new OpenAICompatibleProvider(model);
+    case "offline":
+      return new OfflineProvider();
+  }
+}
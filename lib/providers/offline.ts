@@ -0,0 +1,358 @@
+import { LLMProvider, GenerateRequest, ProviderError } from "./types";
+import type { ModelOutput, Insight, Anomaly, Risk, Recommendation, Visualization, Trend, AnalysisResult, ChatAnswer, ChatCitation } from "../schema";
+import type { DatasetProfile, ColumnProfile } from "../profile";
+import type { DatasetDigest, DimensionAggregate } from "../digest";
+
+// Deterministic rule-based "engine" that produces a full report from local
+// statistics alone. Used when no model is reachable and as a baseline that
+// never invents numbers.
+export const OFFLINE_MODEL = "rules-v1";
+
+const GEO_COLUMN = /(city|region|country|state|province|territory|location|market|area|zone)/i;
+
+function round(n: number, digits = 2): number {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
+
+function fmt(n: number): string {
+  if (Math.abs(n) >= 1e6) return `${round(n / 1e6, 2)}M`;
+  if (Math.abs(n) >= 1e3) return `${round(n / 1e3, 1)}k`;
+  return String(round(n, 2));
+}
+
+// Grid filter selecting one group's rows; values that read as a range are
+// left to the client's label matching
+function groupFilter(agg: DimensionAggregate, value: string): Record<string, string> | undefined {
+  if (value === "(missing)") return { [agg.dimension]: "(blank)" };
+  return value.includes("..") ? undefined : { [agg.dimension]: `= ${value}` };
+}
+
+function linearFit(values: number[]): { slope: number; intercept: number } {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  values.forEach((y, x) => {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) * (x - meanX);
+  });
+  const slope = den === 0 ? 0 : num / den;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+function trendOf(values: number[]): { trend: Trend; change: number } {
+  if (values.length < 2) return { trend: "stable", change: 0 };
+  const half = Math.floor(values.length / 2);
+  const first = values.slice(0, half).reduce((a, b) => a + b, 0) / half;
+  const second = values.slice(values.length - half).reduce((a, b) => a + b, 0) / half;
+  const change = first === 0 ? 0 : (second - first) / Math.abs(first);
+  return { trend: change > 0.03 ? "up" : change < -0.03 ? "down" : "stable", change };
+}
+
+// The digest keeps only the largest groups per dimension, so shares are taken
+// of the measure's dataset-wide sum rather than of the listed groups
+function groupTotal(agg: DimensionAggregate, measure: ColumnProfile): number {
+  return measure.sum ?? agg.groups.reduce((sum, g) => sum + (g.sums[measure.name] || 0), 0);
+}
+
+export function buildOfflineReport(profile: DatasetProfile, digest: DatasetDigest): ModelOutput {
+  const measures = profile.columns.filter(c => c.type === "number" && c.distinct_count > 1);
+  const primary: ColumnProfile | undefined = measures[0];
+  const rollup = digest.time_rollup;
+  const series = primary && rollup ? rollup.buckets.map(b => b.sums[primary.name] || 0) : [];
+  const overall = trendOf(series);
+  const mainDim = digest.dimension_aggregates[0];
+  const geoDim = digest.dimension_aggregates.find(a =>
+    profile.columns.find(c => c.name === a.dimension)?.semantic === "geography" || GEO_COLUMN.test(a.dimension));
+
+  const insights: Insight[] = [];
+  const anomalies: Anomaly[] = [];
+  const risks: Risk[] = [];
+  const recommendations: Recommendation[] = [];
+  const visualizations: Visualization[] = [];
+
+  // Trend over time
+  if (primary && series.length >= 2) {
+    insights.push({
+      title: `${primary.name} trend is ${overall.trend}`,
+      description: `Comparing the first and second half of the ${rollup!.granularity} rollup, ${primary.name} moved ${round(overall.change * 100, 1)}%.`,
+      data_evidence: `${primary.name} per ${rollup!.granularity}: ${rollup!.buckets[0].period}=${fmt(series[0])} → ${rollup!.buckets[series.length - 1].period}=${fmt(series[series.length - 1])}`,
+      impact_level: Math.abs(overall.change) > 0.2 ? "High" : Math.abs(overall.change) > 0.05 ? "Medium" : "Low",
+    });
+    visualizations.push({
+      type: "line",
+      title: `${primary.name} by ${rollup!.granularity}`,
+      data: rollup!.buckets.map(b => ({ name: b.period, value: round(b.sums[primary.name] || 0) })),
+      description: `Total ${primary.name} per ${rollup!.granularity} across all rows.`,
+    });
+
+    const mean = series.reduce((a, b) => a + b, 0) / series.length;
+    const std = Math.sqrt(series.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, series.length - 1));
+    rollup!.buckets.forEach((b, i) => {
+      const z = std === 0 ? 0 : (series[i] - mean) / std;
+      if (Math.abs(z) > 2) {
+        anomalies.push({
+          type: z > 0 ? `${primary.name} spike` : `${primary.name} drop`,
+          location: `${rollup!.date_column} ${b.period}`,
+          reasoning: `${primary.name} of ${fmt(series[i])} is ${round(Math.abs(z), 1)} standard deviations from the period mean of ${fmt(mean)}.`,
+          severity: Math.abs(z) > 3 ? "High" : "Medium",
+        });
+      }
+    });
+
+    if (overall.trend === "down") {
+      risks.push({
+        risk_type: `Declining ${primary.name}`,
+        probability: Math.abs(overall.change) > 0.2 ? "High" : "Medium",
+        business_impact: `${primary.name} fell ${round(Math.abs(overall.change) * 100, 1)}% between the first and second half of the period.`,
+        evidence: `Half-over-half change computed from ${series.length} ${rollup!.granularity} buckets.`,
+      });
+    }
+  }
+
+  // Concentration and dispersion by dimension
+  for (const agg of digest.dimension_aggregates.slice(0, 2)) {
+    if (!primary) break;
+    const total = groupTotal(agg, primary);
+    if (total === 0) continue;
+    const leader = agg.groups.reduce((best, g) => ((g.sums[primary.name] || 0) > (best.sums[primary.name] || 0) ? g : best));
+    const share = (leader.sums[primary.name] || 0) / total;
+    insights.push({
+      title: `${leader.value} leads ${primary.name} by ${agg.dimension}`,
+      description: `${leader.value} contributes ${round(share * 100, 1)}% of total ${primary.name} across ${agg.groups.length + agg.other_groups} ${agg.dimension} values.`,
+      data_evidence: `${agg.dimension}=${leader.value}: ${primary.name} sum ${fmt(leader.sums[primary.name] || 0)} of ${fmt(total)}`,
+      impact_level: share > 0.5 ? "High" : share > 0.3 ? "Medium" : "Low",
+    });
+    visualizations.push({
+      type: agg.groups.length <= 6 ? "pie" : "bar",
+      title: `${primary.name} by ${agg.dimension}`,
+      data: agg.groups.map(g => ({ name: g.value, value: round(g.sums[primary.name] || 0), filter: groupFilter(agg, g.value) })),
+      description: `Share of total ${primary.name} per ${agg.dimension}.`,
+    });
+    if (share > 0.4) {
+      risks.push({
+        risk_type: `Concentration in ${leader.value}`,
+        probability: share > 0.6 ? "High" : "Medium",
+        business_impact: `${round(share * 100, 1)}% of ${primary.name} depends on a single ${agg.dimension}.`,
+        evidence: `${leader.value}: ${fmt(leader.sums[primary.name] || 0)} of ${fmt(total)} total.`,
+      });
+      recommendations.push({
+        action: `Diversify ${primary.name} beyond ${leader.value}`,
+        justification: `A single ${agg.dimension} accounts for ${round(share * 100, 1)}% of the total.`,
+        expected_outcome: `Lower exposure to a downturn in ${leader.value}.`,
+        confidence_score: 0.7,
+      });
+    }
+
+    const means = agg.groups.map(g => g.means[primary.name]).filter((m): m is number => m !== undefined);
+    const avg = means.reduce((a, b) => a + b, 0) / Math.max(1, means.length);
+    const sd = Math.sqrt(means.reduce((a, b) => a + (b - avg) ** 2, 0) / Math.max(1, means.length - 1));
+    for (const g of agg.groups) {
+      const m = g.means[primary.name];
+      if (m === undefined || sd === 0) continue;
+      const z = (m - avg) / sd;
+      if (Math.abs(z) > 2) {
+        anomalies.push({
+          type: `Outlier ${agg.dimension}`,
+          location: `${agg.dimension}=${g.value}`,
+          reasoning: `Average ${primary.name} of ${fmt(m)} deviates ${round(Math.abs(z), 1)} standard deviations from the ${agg.dimension} average of ${fmt(avg)}.`,
+          severity: Math.abs(z) > 3 ? "High" : "Medium",
+        });
+      }
+    }
+    const laggard = agg.groups.reduce((worst, g) => ((g.means[primary.name] ?? Infinity) < (worst.means[primary.name] ?? Infinity) ? g : worst));
+    if (laggard !== leader && laggard.means[primary.name] !== undefined) {
+      recommendations.push({
+        action: `Investigate underperformance in ${laggard.value}`,
+        justification: `${laggard.value} has the lowest average ${primary.name} (${fmt(laggard.means[primary.name])}) among ${agg.dimension} values.`,
+        expected_outcome: `Closing half the gap to the average would add ${fmt(((avg - laggard.means[primary.name]) / 2) * laggard.count)} ${primary.name}.`,
+        confidence_score: 0.6,
+      });
+    }
+  }
+
+  // Data quality
+  const sparse = profile.columns.filter(c => c.null_rate > 0.2);
+  for (const c of sparse) {
+    anomalies.push({
+      type: "Missing data",
+      location: `column ${c.name}`,
+      reasoning: `${round(c.null_rate * 100, 1)}% of values are empty.`,
+      severity: c.null_rate > 0.5 ? "High" : "Low",
+    });
+  }
+  if (sparse.length > 0) {
+    risks.push({
+      risk_type: "Data completeness",
+      probability: sparse.some(c => c.null_rate > 0.5) ? "High" : "Low",
+      business_impact: `Conclusions involving ${sparse.map(c => c.name).join(", ")} rest on partial data.`,
+      evidence: sparse.map(c => `${c.name}: ${round(c.null_rate * 100, 1)}% null`).join("; "),
+    });
+  }
+
+  // Forecast: least-squares trend over the rollup
+  const fit = series.length >= 3 ? linearFit(series) : null;
+  const projection = fit
+    ? Array.from({ length: 6 }, (_, i) => ({ period: `+${i + 1} ${rollup!.granularity}`, value: round(Math.max(0, fit.intercept + fit.slope * (series.length + i))) }))
+    : undefined;
+  const growthRate = fit && series.length ? (fit.slope * 6) / Math.max(1, Math.abs(series[series.length - 1])) : 0;
+
+  const avgNull = profile.columns.reduce((a, c) => a + c.null_rate, 0) / Math.max(1, profile.columns.length);
+  const primaryTotal = primary?.sum ?? 0;
+
+  return {
+    data_summary: {
+      detected_entities: digest.dimension_aggregates.map(a => a.dimension),
+      key_metrics: [
+        { name: "Rows Analyzed", value: profile.row_count.toLocaleString("en-US"), trend: "stable" },
+        ...measures.slice(0, 3).map((c, i) => ({
+          name: `Total ${c.name}`,
+          value: fmt(c.sum ?? 0),
+          trend: i === 0 ? overall.trend : rollup ? trendOf(rollup.buckets.map(b => b.sums[c.name] || 0)).trend : "stable" as Trend,
+        })),
+      ],
+      relationships: digest.dimension_aggregates.flatMap(a => measures.slice(0, 2).map(m => `${m.name} aggregated by ${a.dimension}`)),
+    },
+    visualizations,
+    insights,
+    anomalies,
+    forecast: {
+      time_horizon: fit ? `Next 6 ${rollup!.granularity}s` : "Not available",
+      predicted_trend: fit ? (fit.slope > 0 ? "Upward" : fit.slope < 0 ? "Downward" : "Flat") : "No time dimension detected",
+      confidence_level: fit ? (series.length >= 12 ? "Medium" : "Low") : "N/A",
+      projection_data: projection,
+    },
+    strategic_growth: mainDim && primary ? {
+      title: `${primary.name} Growth Outlook by ${mainDim.dimension}`,
+      data: mainDim.groups.slice(0, 8).map(g => ({
+        label: g.value,
+        current: round(g.sums[primary.name] || 0),
+        projected: round((g.sums[primary.name] || 0) * (1 + growthRate)),
+        filter: groupFilter(mainDim, g.value),
+      })),
+    } : undefined,
+    market_expansion: mainDim && primary ? {
+      title: `${mainDim.dimension} Opportunity`,
+      data: (() => {
+        const maxMean = Math.max(...mainDim.groups.map(g => g.means[primary.name] || 0), 1);
+        return mainDim.groups.slice(0, 8).map(g => {
+          const score = round(((g.means[primary.name] || 0) / maxMean) * 100);
+          return { segment: g.value, opportunity_score: score, risk_factor: round(100 - score), filter: groupFilter(mainDim, g.value) };
+        });
+      })(),
+    } : undefined,
+    geographic_matrix: geoDim && primary ? {
+      title: `Geographic Opportunity Matrix (${geoDim.dimension})`,
+      data: (() => {
+        const total = groupTotal(geoDim, primary) || 1;
+        const maxMean = Math.max(...geoDim.groups.map(g => g.means[primary.name] || 0), 1);
+        return geoDim.groups.map(g => ({
+          city: g.value,
+          score: round(((g.sums[primary.name] || 0) / total) * 100),
+          risk: round(100 - ((g.means[primary.name] || 0) / maxMean) * 100),
+          filter: groupFilter(geoDim, g.value),
+        }));
+      })(),
+    } : undefined,
+    risk_heatmap: mainDim && primary ? {
+      title: "Risk Distribution",
+      data: (() => {
+        const total = groupTotal(mainDim, primary) || 1;
+        const maxMean = Math.max(...mainDim.groups.map(g => g.means[primary.name] || 0), 1);
+        return mainDim.groups.map(g => ({
+          category: g.value,
+          risk_score: round(100 - ((g.means[primary.name] || 0) / maxMean) * 100),
+          impact: round(((g.sums[primary.name] || 0) / total) * 100),
+          filter: groupFilter(mainDim, g.value),
+        }));
+      })(),
+    } : undefined,
+    operational_efficiency: {
+      title: "Data Operational Health",
+      metrics: [
+        { label: "Completeness", score: round((1 - avgNull) * 100) },
+        { label: "Coverage", score: round(digest.coverage.fraction * 100) },
+        { label: "Numeric Depth", score: round(Math.min(1, measures.length / 5) * 100) },
+        { label: "Dimensionality", score: round(Math.min(1, digest.dimension_aggregates.length / 4) * 100) },
+        { label: "Time Signal", score: rollup ? round(Math.min(1, rollup.buckets.length / 12) * 100) : 0 },
+      ],
+    },
+    risk_analysis: risks,
+    recommendations: recommendations.length > 0 ? recommendations : [{
+      action: primary ? `Track ${primary.name} (total ${fmt(primaryTotal)}) on a recurring schedule` : "Add numeric measures to the dataset",
+      justification: primary ? "No concentration or decline signals were detected; continued monitoring establishes a baseline." : "Without numeric columns only categorical distributions can be reported.",
+      expected_outcome: "Earlier detection of shifts in performance.",
+      confidence_score: 0.5,
+    }],
+  };
+}
+
+const STOPWORDS = new Set(["the", "and", "why", "what", "how", "is", "are", "was", "were", "does", "did", "this", "that", "with", "for", "from", "about", "which", "there", "their", "show", "me", "can", "you"]);
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length >= 3 && !STOPWORDS.has(t));
+}
+
+// Answers follow-up questions by keyword overlap with the report's findings;
+// it can only point at what the report already says.
+export function buildOfflineChatAnswer(report: AnalysisResult, question: string): ChatAnswer {
+  const asked = new Set(tokens(question));
+  const score = (text: string) => tokens(text).filter(t => asked.has(t)).length;
+
+  const candidates: { citation: ChatCitation; score: number; line: string }[] = [
+    ...(report.insights || []).map((insight, index) => ({
+      citation: { section: "insights" as const, index },
+      score: score(`${insight.title} ${insight.description} ${insight.data_evidence}`),
+      line: `${insight.title}: ${insight.description} (${insight.data_evidence})`,
+    })),
+    ...(report.anomalies || []).map((anomaly, index) => ({
+      citation: { section: "anomalies" as const, index },
+      score: score(`${anomaly.type} ${anomaly.location} ${anomaly.reasoning}`),
+      line: `${anomaly.type} at ${anomaly.location}: ${anomaly.reasoning}`,
+    })),
+  ];
+  const relevant = candidates.filter(c => c.score > 0).sort((a, b) => b.score - a.score).slice(0, 3);
+
+  const visualizations: Visualization[] = [];
+  const column = report.profile?.columns.find(c => c.top_categories?.length && asked.has(c.name.toLowerCase()));
+  if (column) {
+    visualizations.push({
+      type: "bar",
+      title: `Rows by ${column.name}`,
+      data: column.top_categories!.map(c => ({ name: c.value, value: c.count })),
+      description: `Most frequent ${column.name} values in the dataset`,
+    });
+  } else {
+    const chart = (report.visualizations || []).find(v => score(`${v.title} ${v.description}`) > 0);
+    if (chart) visualizations.push(chart);
+  }
+
+  const answer = relevant.length > 0
+    ? `From this report:\n${relevant.map(r => `- ${r.line}`).join("\n")}`
+    : `This report doesn't directly address that. Its main findings are: ${(report.insights || []).slice(0, 3).map(i => i.title).join("; ") || "none recorded"}.`;
+  return { answer, citations: relevant.map(r => r.citation), visualizations };
+}
+
+export class OfflineProvider implements LLMProvider {
+  readonly id = "offline" as const;
+  readonly model = OFFLINE_MODEL;
+
+  async generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string> {
+    let output: unknown;
+    if (request.task === "analysis") {
+      if (!request.analysis) throw new ProviderError("Offline engine requires a dataset profile", 400);
+      output = buildOfflineReport(request.analysis.profile, request.analysis.digest);
+    } else if (request.task === "chat") {
+      if (!request.chat) throw new ProviderError("Offline engine requires the report being discussed", 400);
+      output = buildOfflineChatAnswer(request.chat.report, request.chat.question);
+    } else {
+      // Offline output is schema-valid by construction; nothing to repair
+      output = {};
+    }
+    const text = JSON.stringify(output);
+    onChunk?.(text);
+    return text;
+  }
+}
@@ -0,0 +1,79 @@
+import { LLMProvider, GenerateRequest, ProviderError } from "./types";
+
+// Any server speaking the OpenAI chat completions protocol: OpenAI itself,
+// llama.cpp's server, Ollama, vLLM, LM Studio...
+export const OPENAI_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+export const OPENAI_DEFAULT_MODEL = "llama3.1";
+
+export function getOpenAIBaseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/$/, "");
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = "openai" as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(model = process.env.OPENAI_MODEL || OPENAI_DEFAULT_MODEL) {
+    this.model = model;
+    this.baseUrl = getOpenAIBaseUrl();
+    this.apiKey = process.env.OPENAI_API_KEY?.trim() || undefined;
+  }
+
+  async generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          stream: true,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+      });
+    } catch (error: any) {
+      // Local servers that are still starting up refuse connections; treat as busy
+      throw new ProviderError(`OpenAI-compatible endpoint ${this.baseUrl} unreachable: ${error.message}`, 503);
+    }
+
+    if (!response.ok || !response.body) {
+      const text = await response.text().catch(() => "");
+      throw new ProviderError(`OpenAI-compatible endpoint returned ${response.status}: ${text.slice(0, 200)}`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let full = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || data === "" || data === "[DONE]") continue;
+        try {
+          const piece = JSON.parse(data).choices?.[0]?.delta?.content || "";
+          if (piece) {
+            full += piece;
+            onChunk?.(piece);
+          }
+        } catch {
+          // Ignore keep-alive or malformed frames
+        }
+      }
+    }
+    return full;
+  }
+}
@@ -0,0 +1,53 @@
+import type { DatasetProfile } from "../profile";
+import type { DatasetDigest } from "../digest";
+import type { AnalysisResult, ChatMessage } from "../schema";
+
+export type ProviderId = "gemini" | "openai" | "offline";
+
+export type GenerateTask = "analysis" | "repair" | "chat";
+
+export interface GenerateRequest {
+  task: GenerateTask;
+  system: string;
+  prompt: string;
+  json: boolean;
+  // Structured inputs for providers that reason locally instead of reading the prompt
+  analysis?: {
+    datasetHash: string;
+    profile: DatasetProfile;
+    digest: DatasetDigest;
+    query?: string;
+    context?: string;
+  };
+  chat?: {
+    report: AnalysisResult;
+    history: ChatMessage[];
+    question: string;
+  };
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  generate(request: GenerateRequest, onChunk?: (piece: string) => void): Promise<string>;
+}
+
+export interface ProviderStatus {
+  id: ProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string;
+  detail?: string;
+}
+
+// Carries an HTTP-ish status so withRetry and describeAnalysisError can treat
+// every backend the same way.
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
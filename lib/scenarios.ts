@@ -0,0 +1,76 @@
+// Named what-if scenarios saved against a report. Only the drivers are stored;
+// outcomes are recomputed from the report's result wherever they are shown,
+// so a scenario always agrees with the model in lib/whatif.ts.
+
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { validateDrivers, type ScenarioDrivers } from "./whatif";
+
+export interface ReportScenario {
+  id: string;
+  report_id: string;
+  name: string;
+  drivers: ScenarioDrivers;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScenarioInput {
+  name: string;
+  drivers: ScenarioDrivers;
+}
+
+const MAX_NAME_LENGTH = 80;
+
+export function initScenarios(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS report_scenarios (
+      id TEXT PRIMARY KEY,
+      report_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      drivers TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(report_id, name),
+      FOREIGN KEY(report_id) REFERENCES reports(id) ON DELETE CASCADE,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_report_scenarios_report ON report_scenarios(report_id, created_at);
+  `);
+}
+
+export function validateScenario(body: any): { value: ScenarioInput } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) return { error: "Scenario name is required" };
+  if (name.length > MAX_NAME_LENGTH) return { error: `Scenario name must be at most ${MAX_NAME_LENGTH} characters` };
+  const drivers = validateDrivers(body.drivers);
+  if ("error" in drivers) return drivers;
+  return { value: { name, drivers: drivers.value } };
+}
+
+function toScenario(row: any): ReportScenario {
+  const { user_id, drivers, ...rest } = row;
+  return { ...rest, drivers: JSON.parse(drivers) };
+}
+
+// Saving under an existing name replaces that scenario's drivers
+export function saveScenario(db: Database.Database, userId: string, reportId: string, value: ScenarioInput): ReportScenario {
+  const id = `scn_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+  db.prepare(`
+    INSERT INTO report_scenarios (id, report_id, user_id, name, drivers) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(report_id, name) DO UPDATE SET drivers = excluded.drivers, user_id = excluded.user_id, updated_at = CURRENT_TIMESTAMP
+  `).run(id, reportId, userId, value.name, JSON.stringify(value.drivers));
+  const row = db.prepare("SELECT * FROM report_scenarios WHERE report_id = ? AND name = ?").get(reportId, value.name);
+  return toScenario(row);
+}
+
+export function listScenarios(db: Database.Database, reportId: string): ReportScenario[] {
+  return db.prepare(`
+    SELECT * FROM report_scenarios WHERE report_id = ? ORDER BY created_at, id
+  `).all(reportId).map(toScenario);
+}
+
+export function deleteScenario(db: Database.Database, reportId: string, id: string): boolean {
+  return db.prepare("DELETE FROM report_scenarios WHERE id = ? AND report_id = ?").run(id, reportId).changes > 0;
+}
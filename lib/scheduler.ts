@@ -0,0 +1,400 @@
+// Recurring analyses. Each job watches a folder under WATCH_ROOT, picks the
+// newest data file matching its pattern when its cron schedule fires, runs the
+// same pipeline as /api/analyze and saves the output as a report.
+//
+//   WATCH_ROOT=/srv/exports   (defaults to ./watched; job folders are relative to it)
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import * as XLSX from "xlsx";
+import type Database from "better-sqlite3";
+import { runAnalysis, describeAnalysisError } from "./engine";
+import { saveDataset, latestRecipe } from "./datasets";
+import { applyRecipe } from "./prep";
+import { normalizeTags } from "./history";
+import { parseCron, nextRun, CronError } from "./cron";
+import { dispatchAlerts } from "./alerts";
+import { getMembership, hasRole } from "./workspaces";
+import { readSheet } from "./workbook";
+import { ACCEPTED_EXTENSIONS, FORMAT_EXTENSIONS, detectFormat, parseParquet, parseTextFormat } from "./formats";
+
+export type RunStatus = "running" | "success" | "failed" | "skipped";
+export type RunTrigger = "schedule" | "manual";
+
+export interface Job {
+  id: string;
+  name: string;
+  cron: string;
+  folder: string;
+  pattern: string;
+  query: string;
+  context: string;
+  provider: string | null;
+  model: string | null;
+  tags: string[];
+  enabled: boolean;
+  next_run_at: string | null;
+  created_at: string;
+}
+
+export type JobInput = Omit<Job, "id" | "next_run_at" | "created_at">;
+
+export interface JobSummary extends Job {
+  running: boolean;
+  last_status: RunStatus | null;
+  last_run_at: string | null;
+  last_error: string | null;
+  last_report_id: string | null;
+  failures: number;
+}
+
+export interface JobRun {
+  id: number;
+  job_id: string;
+  trigger: RunTrigger;
+  status: RunStatus;
+  file: string | null;
+  file_mtime: string | null;
+  rows: number | null;
+  report_id: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export type SaveReport = (
+  id: string, userId: string, workspaceId: string, query: string, context: string, result: unknown, tags?: string[], datasetId?: string | null
+) => void;
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const MAX_FILE_BYTES = 200 * 1024 * 1024;
+// SQLite is left out: a scheduled run has nobody to pick the table
+const TABLE_EXTENSIONS = ACCEPTED_EXTENSIONS.filter(ext => !FORMAT_EXTENSIONS.sqlite.includes(ext));
+const RUN_HISTORY_LIMIT = 50;
+
+// Jobs currently executing in this process; a job never overlaps itself
+const running = new Set<string>();
+
+export function initScheduler(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      folder TEXT NOT NULL,
+      pattern TEXT NOT NULL,
+      query TEXT NOT NULL DEFAULT '',
+      context TEXT NOT NULL DEFAULT '',
+      provider TEXT,
+      model TEXT,
+      tags TEXT NOT NULL DEFAULT '[]',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      next_run_at TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      status TEXT NOT NULL,
+      file TEXT,
+      file_mtime TEXT,
+      rows INTEGER,
+      report_id TEXT,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      FOREIGN KEY(job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+      FOREIGN KEY(report_id) REFERENCES reports(id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_id, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(enabled, next_run_at);
+  `);
+  // Runs still marked running were cut off by the last shutdown
+  const interrupted = db.prepare(`
+    UPDATE job_runs SET status = 'failed', error = 'Interrupted by server restart', finished_at = ? WHERE status = 'running'
+  `).run(new Date().toISOString());
+  if (interrupted.changes > 0) console.warn(`Marked ${interrupted.changes} interrupted job runs as failed`);
+}
+
+export function getWatchRoot(): string {
+  return path.resolve(process.env.WATCH_ROOT || "watched");
+}
+
+// Job folders are relative to WATCH_ROOT and may not escape it, symlinks included.
+export function resolveWatchFolder(folder: string): string {
+  const root = getWatchRoot();
+  const target = path.resolve(root, folder);
+  const relative = path.relative(root, target);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error("Folder must be inside the watch root");
+  }
+  if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+    throw new Error(`Folder "${folder}" does not exist under the watch root`);
+  }
+  const real = fs.realpathSync(target);
+  const realRoot = fs.realpathSync(root);
+  if (real !== realRoot && !real.startsWith(realRoot + path.sep)) {
+    throw new Error("Folder must be inside the watch root");
+  }
+  return real;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function findNewestFile(dir: string, pattern: string): { path: string; name: string; mtime: Date } | null {
+  const matcher = patternToRegExp(pattern);
+  let newest: { path: string; name: string; mtime: Date } | null = null;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isFile() || !matcher.test(entry.name)) continue;
+    if (!TABLE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) continue;
+    const full = path.join(dir, entry.name);
+    const mtime = fs.statSync(full).mtime;
+    if (!newest || mtime > newest.mtime) newest = { path: full, name: entry.name, mtime };
+  }
+  return newest;
+}
+
+// Parses the same way the browser upload does, so scheduled and manual runs
+// of one export produce the same dataset.
+export async function readTableFile(file: string): Promise<Record<string, unknown>[]> {
+  const { size } = fs.statSync(file);
+  if (size > MAX_FILE_BYTES) throw new Error(`${path.basename(file)} is larger than ${MAX_FILE_BYTES / 1024 / 1024}MB`);
+
+  const buffer = fs.readFileSync(file);
+  const format = detectFormat(path.basename(file), buffer.subarray(0, 512));
+  switch (format) {
+    case "excel": {
+      const workbook = XLSX.read(buffer, { type: "buffer" });
+      const first = workbook.SheetNames[0];
+      return first ? readSheet(workbook.Sheets[first], first).rows : [];
+    }
+    case "parquet":
+      return (await parseParquet(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer)).rows;
+    case "csv":
+    case "tsv":
+    case "json":
+    case "ndjson":
+      return parseTextFormat(format, buffer.toString("utf8")).rows;
+    default:
+      throw new Error(`${path.basename(file)} is not a supported file type`);
+  }
+}
+
+function toJob(row: any): Job {
+  return { ...row, tags: JSON.parse(row.tags || "[]"), enabled: row.enabled === 1 };
+}
+
+function computeNextRun(cron: string, from = new Date()): string | null {
+  return nextRun(parseCron(cron), from)?.toISOString() ?? null;
+}
+
+// Validates a create/update body merged over the existing job, if any.
+export function validateJob(body: any, existing?: Job): { value: JobInput } | { error: string } {
+  const pick = (key: keyof Job) => (body[key] !== undefined ? body[key] : existing?.[key]);
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  const name = text(pick("name")).slice(0, 200);
+  if (!name) return { error: "Name is required" };
+  const cron = text(pick("cron"));
+  try {
+    if (!computeNextRun(cron)) return { error: "Schedule never fires" };
+  } catch (error: any) {
+    return { error: error instanceof CronError ? error.message : "Invalid schedule" };
+  }
+  const folder = text(pick("folder"));
+  try {
+    resolveWatchFolder(folder || ".");
+  } catch (error: any) {
+    return { error: error.message };
+  }
+  const pattern = text(pick("pattern")) || "*.csv";
+  if (/[\\/]/.test(pattern)) return { error: "File pattern must not contain path separators" };
+
+  return {
+    value: {
+      name,
+      cron,
+      folder: folder || ".",
+      pattern,
+      query: text(pick("query")),
+      context: text(pick("context")),
+      provider: text(pick("provider")) || null,
+      model: text(pick("model")) || null,
+      tags: normalizeTags(pick("tags")),
+      enabled: pick("enabled") !== false,
+    },
+  };
+}
+
+// Jobs belong to their creator and save into the workspace they were created in
+export function createJob(db: Database.Database, userId: string, workspaceId: string, value: JobInput): Job {
+  const id = `job_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+  db.prepare(`
+    INSERT INTO jobs (id, user_id, workspace_id, name, cron, folder, pattern, query, context, provider, model, tags, enabled, next_run_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, workspaceId, value.name, value.cron, value.folder, value.pattern, value.query, value.context,
+    value.provider, value.model, JSON.stringify(value.tags), value.enabled ? 1 : 0,
+    value.enabled ? computeNextRun(value.cron) : null
+  );
+  return getJob(db, userId, id)!;
+}
+
+export function updateJob(db: Database.Database, userId: string, id: string, value: JobInput): Job {
+  db.prepare(`
+    UPDATE jobs SET name = ?, cron = ?, folder = ?, pattern = ?, query = ?, context = ?, provider = ?, model = ?,
+      tags = ?, enabled = ?, next_run_at = ?
+    WHERE id = ? AND user_id = ?
+  `).run(
+    value.name, value.cron, value.folder, value.pattern, value.query, value.context, value.provider, value.model,
+    JSON.stringify(value.tags), value.enabled ? 1 : 0, value.enabled ? computeNextRun(value.cron) : null,
+    id, userId
+  );
+  return getJob(db, userId, id)!;
+}
+
+export function deleteJob(db: Database.Database, userId: string, id: string): boolean {
+  return db.prepare("DELETE FROM jobs WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function getJob(db: Database.Database, userId: string, id: string): Job | null {
+  const row = db.prepare("SELECT * FROM jobs WHERE id = ? AND user_id = ?").get(id, userId);
+  return row ? toJob(row) : null;
+}
+
+export function listJobs(db: Database.Database, userId: string, workspaceId: string): JobSummary[] {
+  const rows = db.prepare(`
+    SELECT j.*, r.status AS last_status, r.started_at AS last_run_at, r.error AS last_error, r.report_id AS last_report_id,
+      (SELECT count(*) FROM job_runs f WHERE f.job_id = j.id AND f.status = 'failed') AS failures
+    FROM jobs j
+    LEFT JOIN job_runs r ON r.id = (SELECT max(id) FROM job_runs WHERE job_id = j.id)
+    WHERE j.user_id = ? AND j.workspace_id = ?
+    ORDER BY j.created_at DESC, j.id DESC
+  `).all(userId, workspaceId);
+  return rows.map((row: any) => ({ ...toJob(row), running: running.has(row.id) }));
+}
+
+export function listRuns(db: Database.Database, jobId: string): JobRun[] {
+  return db.prepare("SELECT * FROM job_runs WHERE job_id = ? ORDER BY id DESC LIMIT ?").all(jobId, RUN_HISTORY_LIMIT) as JobRun[];
+}
+
+export function isJobRunning(id: string): boolean {
+  return running.has(id);
+}
+
+export async function runJob(db: Database.Database, jobId: string, saveReport: SaveReport, trigger: RunTrigger): Promise<JobRun> {
+  const row: any = db.prepare("SELECT * FROM jobs WHERE id = ?").get(jobId);
+  if (!row) throw new Error(`Job ${jobId} not found`);
+  const job = toJob(row);
+  const userId: string = row.user_id;
+  const workspaceId: string = row.workspace_id;
+
+  running.add(job.id);
+  const runId = Number(db.prepare(`
+    INSERT INTO job_runs (job_id, trigger, status, started_at) VALUES (?, ?, 'running', ?)
+  `).run(job.id, trigger, new Date().toISOString()).lastInsertRowid);
+  const finish = (fields: Partial<JobRun>) => {
+    const update = { file: null, file_mtime: null, rows: null, report_id: null, error: null, ...fields };
+    db.prepare(`
+      UPDATE job_runs SET status = ?, file = ?, file_mtime = ?, rows = ?, report_id = ?, error = ?, finished_at = ? WHERE id = ?
+    `).run(update.status, update.file, update.file_mtime, update.rows, update.report_id, update.error, new Date().toISOString(), runId);
+  };
+
+  try {
+    // Membership can change after the job was scheduled
+    const membership = getMembership(db, workspaceId, userId);
+    if (!membership || !hasRole(membership, "analyst")) {
+      throw new Error("Job owner no longer has analyst access to the workspace");
+    }
+    const dir = resolveWatchFolder(job.folder);
+    const file = findNewestFile(dir, job.pattern);
+    if (!file) {
+      finish({ status: "failed", error: `No file matching ${job.pattern} in ${job.folder}` });
+    } else {
+      const fileMtime = file.mtime.toISOString();
+      const previous: any = db.prepare(`
+        SELECT file, file_mtime FROM job_runs WHERE job_id = ? AND status = 'success' ORDER BY id DESC LIMIT 1
+      `).get(job.id);
+      // Nightly drops can be late; don't store the same export twice on schedule
+      if (trigger === "schedule" && previous?.file === file.name && previous?.file_mtime === fileMtime) {
+        finish({ status: "skipped", file: file.name, file_mtime: fileMtime, error: "No new file since the last successful run" });
+      } else {
+        const rows = await readTableFile(file.path);
+        if (rows.length === 0) throw new Error(`${file.name} contains no data`);
+
+        // Cleanup recorded on the job's dataset is replayed on every new file
+        const recipe = latestRecipe(db, workspaceId, job.name);
+        const prepared = applyRecipe(rows, recipe);
+        for (const step of prepared.results) {
+          if (step.warning) console.warn(`Job ${job.id}: ${step.warning}`);
+        }
+        if (prepared.rows.length === 0) throw new Error(`The preparation recipe removes every row of ${file.name}`);
+
+        console.log(`Job ${job.id}: analyzing ${file.name} (${prepared.rows.length} of ${rows.length} rows after preparation)`);
+        const { dataset } = saveDataset(db, workspaceId, userId, job.name, rows, recipe);
+        const result = await runAnalysis({
+          dataset: prepared.rows,
+          query: job.query,
+          context: job.context,
+          provider: job.provider || undefined,
+          model: job.model || undefined,
+        });
+        const reportId = `rep_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+        saveReport(reportId, userId, workspaceId, job.query, job.context, result, job.tags, dataset.id);
+        dispatchAlerts(db, userId, result, { reportId, query: job.query });
+        finish({ status: "success", file: file.name, file_mtime: fileMtime, rows: rows.length, report_id: reportId });
+      }
+    }
+  } catch (error: any) {
+    console.error(`Job ${job.id} failed:`, error);
+    finish({ status: "failed", error: describeAnalysisError(error).error });
+  } finally {
+    running.delete(job.id);
+  }
+  return db.prepare("SELECT * FROM job_runs WHERE id = ?").get(runId) as JobRun;
+}
+
+// Polls for due jobs and runs them one at a time. A job that was due while
+// the server was down runs once on the next tick, not once per missed slot.
+export function startScheduler(db: Database.Database, saveReport: SaveReport): () => void {
+  let ticking = false;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = new Date();
+      const due = db.prepare(`
+        SELECT id, cron FROM jobs WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at
+      `).all(now.toISOString()) as { id: string; cron: string }[];
+      for (const job of due) {
+        // Advance first so a slow or failing run doesn't fire again on the next tick
+        let next: string | null = null;
+        try {
+          next = computeNextRun(job.cron, now);
+        } catch (error) {
+          console.error(`Job ${job.id} has an invalid schedule; disabling`, error);
+        }
+        db.prepare("UPDATE jobs SET next_run_at = ?, enabled = ? WHERE id = ?").run(next, next ? 1 : 0, job.id);
+        if (running.has(job.id)) continue;
+        await runJob(db, job.id, saveReport, "schedule");
+      }
+    } catch (error) {
+      console.error("Scheduler tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_INTERVAL_MS);
+  timer.unref();
+  console.log(`Scheduler watching ${getWatchRoot()}`);
+  return () => clearInterval(timer);
+}
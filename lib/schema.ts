@@ -0,0 +1,446 @@
+// Runtime schema for the engine's report JSON, shared by the server (which
+// validates and repairs model output) and App.tsx (which renders it).
+// Parsers coerce recoverable values, clamp ranges, map enum synonyms and drop
+// anything that would otherwise reach the charts as garbage. Every change is
+// recorded as a ValidationIssue so the report can say what was touched.
+
+import type { DatasetProfile } from './profile';
+import type { Coverage } from './digest';
+import type { EvidenceVerification, VerificationSummary } from './evidence';
+import type { StatisticalForecast } from './forecast';
+
+// --- Report types ---
+
+export type Level = 'Low' | 'Medium' | 'High';
+export type Trend = 'up' | 'down' | 'stable';
+
+export interface KeyMetric {
+  name: string;
+  value: string;
+  trend: Trend;
+}
+
+export interface Insight {
+  title: string;
+  description: string;
+  data_evidence: string;
+  impact_level: Level;
+  // Attached by the server after checking the evidence against the rows
+  verification?: EvidenceVerification;
+}
+
+export interface Anomaly {
+  type: string;
+  location: string;
+  reasoning: string;
+  severity: Level;
+}
+
+export interface Risk {
+  risk_type: string;
+  probability: string;
+  business_impact: string;
+  evidence: string;
+  verification?: EvidenceVerification;
+}
+
+export interface Recommendation {
+  action: string;
+  justification: string;
+  expected_outcome: string;
+  confidence_score: number;
+}
+
+// Column → filter text in the data grid's syntax (see ./grid), naming the rows
+// a chart datum summarizes so it can be drilled into
+export type DatumFilter = Record<string, string>;
+
+export interface Visualization {
+  type: 'pie' | 'bar' | 'line' | 'area';
+  title: string;
+  data: { name: string; value: number; filter?: DatumFilter }[];
+  description: string;
+}
+
+export interface Forecast {
+  time_horizon: string;
+  predicted_trend: string;
+  confidence_level: string;
+  projection_data?: { period: string; value: number }[];
+}
+
+export interface ModelOutput {
+  data_summary: {
+    detected_entities: string[];
+    key_metrics: KeyMetric[];
+    relationships: string[];
+  };
+  visualizations: Visualization[];
+  insights: Insight[];
+  anomalies: Anomaly[];
+  forecast: Forecast;
+  strategic_growth?: {
+    title: string;
+    data: { label: string; current: number; projected: number; filter?: DatumFilter }[];
+  };
+  market_expansion?: {
+    title: string;
+    data: { segment: string; opportunity_score: number; risk_factor: number; filter?: DatumFilter }[];
+  };
+  geographic_matrix?: {
+    title: string;
+    data: { city: string; score: number; risk: number; filter?: DatumFilter }[];
+  };
+  risk_heatmap?: {
+    title: string;
+    data: { category: string; risk_score: number; impact: number; filter?: DatumFilter }[];
+  };
+  operational_efficiency?: {
+    title: string;
+    metrics: { label: string; score: number }[];
+  };
+  risk_analysis: Risk[];
+  recommendations: Recommendation[];
+}
+
+export type IssueAction = 'coerced' | 'clamped' | 'defaulted' | 'dropped' | 'repaired';
+
+export interface ValidationIssue {
+  path: string;
+  action: IssueAction;
+  detail: string;
+}
+
+export interface ValidationReport {
+  status: 'valid' | 'repaired' | 'partial';
+  repair_attempted: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface AnalysisResult extends ModelOutput {
+  profile?: DatasetProfile;
+  coverage?: Coverage;
+  validation?: ValidationReport;
+  evidence?: VerificationSummary;
+  // Computed locally from the time rollup; absent without a date column
+  statistical_forecast?: StatisticalForecast;
+  engine?: { provider: string; model: string };
+}
+
+// --- Follow-up chat ---
+
+export interface ChatCitation {
+  section: 'insights' | 'anomalies';
+  index: number;
+}
+
+export interface ChatAnswer {
+  answer: string;
+  citations: ChatCitation[];
+  visualizations: Visualization[];
+}
+
+export interface ChatMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: ChatCitation[];
+  visualizations: Visualization[];
+  created_at: string;
+}
+
+// --- Parser combinators ---
+
+const DROP = Symbol('drop');
+type Parsed<T> = T | typeof DROP;
+type Parser<T> = (value: unknown, path: string, issues: ValidationIssue[]) => Parsed<T>;
+
+const isMissing = (v: unknown) => v === undefined || v === null;
+const describe = (v: unknown) => (typeof v === 'string' ? `"${v.slice(0, 40)}"` : JSON.stringify(v)?.slice(0, 40) ?? String(v));
+
+// Accepts "1,200", "$3.4k", "35%", "2.1M" and similar model-isms.
+export function parseNumeric(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const m = value.trim().replace(/[,\s$€£¥]/g, '').match(/^([-+]?\d*\.?\d+(?:e[-+]?\d+)?)(%|k|m|bn|b)?$/i);
+  if (!m) return null;
+  const scale: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, bn: 1e9, '%': 1 };
+  const n = Number(m[1]) * (m[2] ? scale[m[2].toLowerCase()] : 1);
+  return Number.isFinite(n) ? n : null;
+}
+
+function string(fallback?: string): Parser<string> {
+  return (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      issues.push({ path, action: 'coerced', detail: `${typeof value} converted to string` });
+      return String(value);
+    }
+    if (isMissing(value) && fallback !== undefined) {
+      issues.push({ path, action: 'defaulted', detail: 'missing string' });
+      return fallback;
+    }
+    issues.push({ path, action: 'dropped', detail: `expected string, got ${describe(value)}` });
+    return DROP;
+  };
+}
+
+function number(opts: { min?: number; max?: number; fallback?: number; unitInterval?: boolean } = {}): Parser<number> {
+  return (value, path, issues) => {
+    let n = parseNumeric(value);
+    if (n === null) {
+      if (isMissing(value) && opts.fallback !== undefined) {
+        issues.push({ path, action: 'defaulted', detail: 'missing number' });
+        return opts.fallback;
+      }
+      issues.push({ path, action: 'dropped', detail: `expected number, got ${describe(value)}` });
+      return DROP;
+    }
+    if (typeof value !== 'number') {
+      issues.push({ path, action: 'coerced', detail: `${describe(value)} parsed as ${n}` });
+    }
+    // Models often report 0-1 scores as percentages
+    if (opts.unitInterval && n > 1 && n <= 100) {
+      issues.push({ path, action: 'coerced', detail: `${n} rescaled from percentage to ${n / 100}` });
+      n = n / 100;
+    }
+    if (opts.min !== undefined && n < opts.min) {
+      issues.push({ path, action: 'clamped', detail: `${n} raised to minimum ${opts.min}` });
+      n = opts.min;
+    }
+    if (opts.max !== undefined && n > opts.max) {
+      issues.push({ path, action: 'clamped', detail: `${n} lowered to maximum ${opts.max}` });
+      n = opts.max;
+    }
+    return n;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[], synonyms: Record<string, T> = {}, fallback?: T): Parser<T> {
+  return (value, path, issues) => {
+    if (typeof value === 'string') {
+      const key = value.trim().toLowerCase();
+      const exact = values.find(v => v === value);
+      if (exact) return exact;
+      const match = values.find(v => v.toLowerCase() === key) || synonyms[key];
+      if (match) {
+        issues.push({ path, action: 'coerced', detail: `"${value}" mapped to ${match}` });
+        return match;
+      }
+    }
+    if (fallback !== undefined) {
+      issues.push({ path, action: 'defaulted', detail: `${describe(value)} is not one of ${values.join('/')}; using ${fallback}` });
+      return fallback;
+    }
+    issues.push({ path, action: 'dropped', detail: `${describe(value)} is not one of ${values.join('/')}` });
+    return DROP;
+  };
+}
+
+function array<T>(item: Parser<T>): Parser<T[]> {
+  return (value, path, issues) => {
+    if (isMissing(value)) {
+      issues.push({ path, action: 'defaulted', detail: 'missing list' });
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      issues.push({ path, action: 'dropped', detail: `expected list, got ${describe(value)}` });
+      return [];
+    }
+    const out: T[] = [];
+    value.forEach((v, i) => {
+      const parsed = item(v, `${path}[${i}]`, issues);
+      if (parsed !== DROP) out.push(parsed);
+    });
+    return out;
+  };
+}
+
+function object<T>(shape: { [K in keyof T]-?: Parser<T[K]> }, fallback?: () => T): Parser<T> {
+  return (value, path, issues) => {
+    if (isMissing(value) && fallback) {
+      issues.push({ path, action: 'defaulted', detail: 'missing section' });
+      return fallback();
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, action: 'dropped', detail: `expected object, got ${describe(value)}` });
+      return fallback ? fallback() : DROP;
+    }
+    const src = value as Record<string, unknown>;
+    const out = {} as T;
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const parsed = shape[key](src[key as string], path ? `${path}.${String(key)}` : String(key), issues);
+      if (parsed === DROP) {
+        if (fallback) return fallback();
+        return DROP;
+      }
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return out;
+  };
+}
+
+function optional<T>(parser: Parser<T>): Parser<T | undefined> {
+  return (value, path, issues) => (isMissing(value) ? undefined : parser(value, path, issues));
+}
+
+// --- Report schema ---
+
+const LEVELS = ['Low', 'Medium', 'High'] as const;
+const LEVEL_SYNONYMS: Record<string, Level> = {
+  critical: 'High', severe: 'High', major: 'High', 'very high': 'High',
+  moderate: 'Medium', med: 'Medium', average: 'Medium',
+  minor: 'Low', minimal: 'Low', negligible: 'Low', 'very low': 'Low',
+};
+const TREND_SYNONYMS: Record<string, Trend> = {
+  increasing: 'up', rising: 'up', growth: 'up', positive: 'up', upward: 'up',
+  decreasing: 'down', declining: 'down', falling: 'down', negative: 'down', downward: 'down',
+  flat: 'stable', steady: 'stable', neutral: 'stable', unchanged: 'stable',
+};
+const level = oneOf<Level>(LEVELS, LEVEL_SYNONYMS, 'Medium');
+const score = number({ min: 0, max: 100 });
+// A malformed filter only loses the drill-down, so it is ignored rather than
+// dropped (which would send the whole section back for repair)
+const datumFilter: Parser<DatumFilter | undefined> = (value, path, issues) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, action: 'defaulted', detail: `filter ${describe(value)} ignored` });
+    return undefined;
+  }
+  const filter: DatumFilter = {};
+  for (const [column, text] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof text === 'string' || typeof text === 'number') filter[column] = String(text);
+    else issues.push({ path: `${path}.${column}`, action: 'defaulted', detail: `filter ${describe(text)} ignored` });
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+type Section<K extends keyof ModelOutput> = NonNullable<ModelOutput[K]>;
+
+export const SECTION_PARSERS: { [K in keyof ModelOutput]-?: Parser<ModelOutput[K]> } = {
+  data_summary: object<ModelOutput['data_summary']>({
+    detected_entities: array(string()),
+    key_metrics: array(object<KeyMetric>({
+      name: string(),
+      value: string(''),
+      trend: oneOf<Trend>(['up', 'down', 'stable'], TREND_SYNONYMS, 'stable'),
+    })),
+    relationships: array(string()),
+  }, () => ({ detected_entities: [], key_metrics: [], relationships: [] })),
+  visualizations: array(object<Visualization>({
+    type: oneOf(['pie', 'bar', 'line', 'area'] as const, { column: 'bar', donut: 'pie', doughnut: 'pie', histogram: 'bar', trend: 'line' }, 'bar'),
+    title: string('Untitled'),
+    data: array(object<Visualization['data'][number]>({ name: string(), value: number(), filter: datumFilter })),
+    description: string(''),
+  })),
+  insights: array(object<Omit<Insight, 'verification'>>({
+    title: string(),
+    description: string(''),
+    data_evidence: string(''),
+    impact_level: level,
+  })),
+  anomalies: array(object<Anomaly>({
+    type: string(),
+    location: string(''),
+    reasoning: string(''),
+    severity: level,
+  })),
+  forecast: object<Forecast>({
+    time_horizon: string(''),
+    predicted_trend: string(''),
+    confidence_level: string(''),
+    projection_data: optional(array(object<{ period: string; value: number }>({ period: string(), value: number() }))),
+  }, () => ({ time_horizon: '', predicted_trend: '', confidence_level: '' })),
+  strategic_growth: optional(object<Section<'strategic_growth'>>({
+    title: string('Strategic Growth'),
+    data: array(object<Section<'strategic_growth'>['data'][number]>({ label: string(), current: number(), projected: number(), filter: datumFilter })),
+  })),
+  market_expansion: optional(object<Section<'market_expansion'>>({
+    title: string('Market Expansion'),
+    data: array(object<Section<'market_expansion'>['data'][number]>({ segment: string(), opportunity_score: number(), risk_factor: number(), filter: datumFilter })),
+  })),
+  geographic_matrix: optional(object<Section<'geographic_matrix'>>({
+    title: string('Geographic Opportunity Matrix'),
+    data: array(object<Section<'geographic_matrix'>['data'][number]>({ city: string(), score: number(), risk: number(), filter: datumFilter })),
+  })),
+  risk_heatmap: optional(object<Section<'risk_heatmap'>>({
+    title: string('Risk Distribution'),
+    data: array(object<Section<'risk_heatmap'>['data'][number]>({ category: string(), risk_score: score, impact: score, filter: datumFilter })),
+  })),
+  operational_efficiency: optional(object<Section<'operational_efficiency'>>({
+    title: string('Operational Efficiency'),
+    metrics: array(object({ label: string(), score })),
+  })),
+  risk_analysis: array(object<Omit<Risk, 'verification'>>({
+    risk_type: string(),
+    probability: string('Unknown'),
+    business_impact: string(''),
+    evidence: string(''),
+  })),
+  recommendations: array(object<Recommendation>({
+    action: string(),
+    justification: string(''),
+    expected_outcome: string(''),
+    confidence_score: number({ min: 0, max: 1, fallback: 0.5, unitInterval: true }),
+  })),
+};
+
+const SECTION_DEFAULTS: Partial<ModelOutput> = {
+  risk_heatmap: { title: 'Risk Distribution', data: [] },
+  operational_efficiency: { title: 'Operational Efficiency', metrics: [] },
+  geographic_matrix: { title: 'Geographic Opportunity Matrix', data: [] },
+};
+
+export function validateSection<K extends keyof ModelOutput>(key: K, value: unknown, issues: ValidationIssue[] = []): ModelOutput[K] | undefined {
+  const parser = SECTION_PARSERS[key] as Parser<ModelOutput[K]>;
+  if (!parser) return undefined;
+  const parsed = parser(value, key, issues);
+  return parsed === DROP ? undefined : parsed;
+}
+
+export function validateModelOutput(raw: unknown): { value: ModelOutput; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const src = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const value = {} as ModelOutput;
+  for (const key of Object.keys(SECTION_PARSERS) as (keyof ModelOutput)[]) {
+    const parsed = validateSection(key, src[key], issues);
+    const resolved = parsed ?? SECTION_DEFAULTS[key];
+    if (resolved !== undefined) (value as any)[key] = resolved;
+  }
+  return { value, issues };
+}
+
+// Top-level sections whose problems are worth a targeted repair round-trip:
+// anything that lost data, plus required sections the model omitted entirely.
+export function sectionsNeedingRepair(issues: ValidationIssue[]): (keyof ModelOutput)[] {
+  const keys = new Set<keyof ModelOutput>();
+  for (const issue of issues) {
+    const key = issue.path.split(/[.[]/)[0] as keyof ModelOutput;
+    const isWholeSection = issue.path === key;
+    if (issue.action === 'dropped' || (issue.action === 'defaulted' && isWholeSection)) keys.add(key);
+  }
+  return Array.from(keys);
+}
+
+// --- Chat schema ---
+
+const CHAT_ANSWER_PARSER = object<ChatAnswer>({
+  answer: string(''),
+  citations: array(object<ChatCitation>({
+    section: oneOf(['insights', 'anomalies'] as const, { insight: 'insights', anomaly: 'anomalies' }),
+    index: number({ min: 0 }),
+  })),
+  visualizations: SECTION_PARSERS.visualizations,
+}, () => ({ answer: '', citations: [], visualizations: [] }));
+
+// Citations must point at items that exist in the report being discussed.
+export function validateChatAnswer(raw: unknown, report: ModelOutput): { value: ChatAnswer; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const value = CHAT_ANSWER_PARSER(raw, '', issues) as ChatAnswer;
+  value.citations = value.citations.filter((c, i) => {
+    const exists = Number.isInteger(c.index) && c.index < (report[c.section]?.length ?? 0);
+    if (!exists) issues.push({ path: `citations[${i}]`, action: 'dropped', detail: `${c.section}[${c.index}] is not in the report` });
+    return exists;
+  });
+  return { value, issues };
+}
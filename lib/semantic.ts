@@ -0,0 +1,143 @@
+// Semantic column types. Parsers only know "number or string" per cell, so
+// "$1,200" stays text, ISO dates stay strings and ZIP codes look like
+// measures. The detector classifies whole columns from their name and values;
+// the user can override the guess, and the confirmed schema is sent with the
+// analysis so the engine converts values before profiling.
+
+import { isMissing, toDate, toNumber } from './profile';
+import { coerceValue } from './prep';
+
+export type Row = Record<string, unknown>;
+
+export type SemanticType = 'date' | 'currency' | 'percentage' | 'number' | 'identifier' | 'category' | 'geography' | 'text';
+
+export interface ColumnSchema {
+  name: string;
+  type: SemanticType;
+}
+
+export const SEMANTIC_TYPES: SemanticType[] = ['date', 'currency', 'percentage', 'number', 'identifier', 'category', 'geography', 'text'];
+
+// Enough values to classify a column without scanning a million rows
+const SAMPLE_SIZE = 1000;
+// Share of sampled values that must match a value pattern
+const MATCH_THRESHOLD = 0.9;
+const MAX_SCHEMA_COLUMNS = 2000;
+
+const CURRENCY_VALUE = /^\(?\s*(?:[-+]?\s*(?:[$€£¥₹]|usd|eur|gbp)\s?-?[\d,]*\.?\d+|-?[\d,]*\.?\d+\s?(?:[$€£¥₹]|usd|eur|gbp))\s*\)?$/i;
+const PERCENT_VALUE = /^[-+]?(\d+\.?\d*|\.\d+)\s?%$/;
+const DATE_VALUE = /^(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}[/.]\d{1,2}[/.]\d{1,2}|(\d{1,2}\s+)?[a-z]{3,9}\.?\s+\d{1,2}(st|nd|rd|th)?,?\s+\d{4}|\d{1,2}\s+[a-z]{3,9}\.?\s+\d{4})(\s+\d{1,2}:\d{2}(:\d{2})?)?$/i;
+// Numbers written with a leading zero ("02139", "007") are codes, not quantities
+const LEADING_ZERO = /^0\d+$/;
+// Short tokens without spaces that mix letters and digits: INV-0042, A17B9
+const CODE_VALUE = /^(?=.*\d)[a-z0-9][a-z0-9_./:-]*$/i;
+
+const word = (names: string) => new RegExp(`(^|[\\s_.-])(${names})s?$`, 'i');
+const ID_NAME = word('id|uuid|guid|sku|code|key|ref|reference|phone|account|iban|isbn|ean|upc|serial');
+const GEO_NAME = word('country|state|province|region|city|county|district|zip|zipcode|postal|postcode|postal code|zip code|territory|continent|latitude|longitude|lat|lon|lng|location');
+const CURRENCY_NAME = word('price|revenue|cost|costs|amount|sales|spend|profit|income|budget|fee|salary|payment|balance|value|total|usd|eur|gbp');
+const PERCENT_NAME = /(pct|percent|percentage|rate|ratio|share|margin|growth|%)$/i;
+const EXPLICIT_PERCENT_NAME = /(pct|percent|percentage|%)$/i;
+
+// A column can only be a category if its values repeat; the same bound the
+// digest uses to pick dimensions.
+const categoryLimit = (rowCount: number) => Math.max(20, Math.floor(rowCount * 0.05));
+
+function share<T>(values: T[], test: (value: T) => boolean): number {
+  if (values.length === 0) return 0;
+  let hits = 0;
+  for (const v of values) if (test(v)) hits++;
+  return hits / values.length;
+}
+
+const isDateValue = (v: unknown) =>
+  v instanceof Date || (typeof v === 'string' && (toDate(v) !== null || (DATE_VALUE.test(v.trim()) && coerceValue(v, 'date') !== null)));
+
+export function detectColumnType(name: string, values: unknown[]): SemanticType {
+  const present: unknown[] = [];
+  for (const v of values) {
+    if (!isMissing(v)) present.push(v);
+    if (present.length >= SAMPLE_SIZE) break;
+  }
+  if (present.length === 0) return GEO_NAME.test(name) ? 'geography' : 'text';
+
+  const strings = present.map(v => String(v).trim());
+  const distinct = new Set(strings).size;
+  const repeats = distinct <= categoryLimit(values.length) && distinct < present.length;
+
+  if (share(present, isDateValue) >= MATCH_THRESHOLD) return 'date';
+  if (share(strings, s => LEADING_ZERO.test(s)) >= 0.2 && share(strings, s => /^\d+$/.test(s)) >= MATCH_THRESHOLD) {
+    return GEO_NAME.test(name) ? 'geography' : 'identifier';
+  }
+  if (GEO_NAME.test(name)) return 'geography';
+  if (share(strings, s => CURRENCY_VALUE.test(s)) >= MATCH_THRESHOLD && share(strings, s => /[$€£¥₹]|usd|eur|gbp/i.test(s)) > 0) return 'currency';
+  if (share(strings, s => PERCENT_VALUE.test(s)) >= MATCH_THRESHOLD) return 'percentage';
+
+  // A store_id with a dozen values groups rows; an order_id with one per row doesn't
+  if (ID_NAME.test(name)) return repeats ? 'category' : 'identifier';
+  const numbers = present.map(v => (typeof v === 'number' ? v : toNumber(v)));
+  if (share(numbers, n => n !== null) >= MATCH_THRESHOLD) {
+    // "Heart rate" is not a percentage; "rate" only counts for fractions
+    const fractions = numbers.every(n => n === null || Math.abs(n) <= 1);
+    if (EXPLICIT_PERCENT_NAME.test(name) || (PERCENT_NAME.test(name) && fractions)) return 'percentage';
+    if (CURRENCY_NAME.test(name)) return 'currency';
+    return 'number';
+  }
+  if (repeats || present.every(v => typeof v === 'boolean')) return 'category';
+  if (distinct === present.length && share(strings, s => CODE_VALUE.test(s)) >= MATCH_THRESHOLD) return 'identifier';
+  return 'text';
+}
+
+export function detectSchema(rows: Row[], headers: string[]): ColumnSchema[] {
+  return headers.map(name => ({ name, type: detectColumnType(name, rows.map(r => (r ? r[name] : undefined))) }));
+}
+
+function convert(value: unknown, type: SemanticType): unknown {
+  if (isMissing(value)) return null;
+  switch (type) {
+    case 'date':
+      return coerceValue(value, 'date') ?? value;
+    case 'percentage':
+      // "35%" is stored as 0.35, matching columns that already hold fractions
+      if (typeof value === 'string' && value.trim().endsWith('%')) {
+        const n = coerceValue(value.trim().slice(0, -1), 'number');
+        return typeof n === 'number' ? n / 100 : value;
+      }
+      return coerceValue(value, 'number') ?? value;
+    case 'currency':
+    case 'number':
+      return coerceValue(value, 'number') ?? value;
+    case 'category':
+      return typeof value === 'boolean' ? value : String(value);
+    default:
+      return String(value);
+  }
+}
+
+// Values that fail to convert are kept as they are, so nothing is lost; the
+// profile's majority vote keeps a few strays from changing the column type.
+export function applySchema(rows: Row[], schema: ColumnSchema[]): Row[] {
+  if (schema.length === 0) return rows;
+  return rows.map(row => {
+    const typed: Row = { ...row };
+    for (const { name, type } of schema) {
+      if (Object.prototype.hasOwnProperty.call(typed, name)) typed[name] = convert(typed[name], type);
+    }
+    return typed;
+  });
+}
+
+export function validateSchema(raw: unknown): { value: ColumnSchema[] | null } | { error: string } {
+  if (raw === undefined || raw === null) return { value: null };
+  if (!Array.isArray(raw)) return { error: 'Schema must be a list of columns' };
+  if (raw.length > MAX_SCHEMA_COLUMNS) return { error: `A schema can have at most ${MAX_SCHEMA_COLUMNS} columns` };
+  const schema: ColumnSchema[] = [];
+  for (const column of raw) {
+    if (!column || typeof column.name !== 'string' || !column.name) return { error: 'Every schema column needs a name' };
+    if (!SEMANTIC_TYPES.includes(column.type)) {
+      return { error: `Type of ${column.name} must be one of ${SEMANTIC_TYPES.join(', ')}` };
+    }
+    schema.push({ name: column.name, type: column.type });
+  }
+  return { value: schema };
+}
@@ -0,0 +1,183 @@
+// Server-side sessions. The browser only holds an HMAC-signed, HTTP-only
+// cookie naming a row in the `sessions` table; the user is always resolved
+// from that row, never from request parameters.
+//
+//   SESSION_SECRET=...   (required in production; a random per-process secret is used otherwise)
+
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import type { Request, Response, NextFunction } from "express";
+import { addColumnIfMissing } from "./db";
+
+export const SESSION_COOKIE = "cognitia_session";
+export const OAUTH_COOKIE = "cognitia_oauth";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const OAUTH_TTL_MS = 10 * 60 * 1000;
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  avatar: string;
+  // Google's email_verified claim from the latest sign-in; workspace
+  // invitations are matched by email, so only a verified address may answer them
+  email_verified: boolean;
+}
+
+let secret: string | null = null;
+
+function getSecret(): string {
+  if (!secret) {
+    secret = process.env.SESSION_SECRET?.trim() || null;
+    if (!secret) {
+      console.warn("SESSION_SECRET not set. Using a random secret; sessions will not survive a restart.");
+      secret = crypto.randomBytes(32).toString("hex");
+    }
+  }
+  return secret;
+}
+
+export function sign(value: string): string {
+  const mac = crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+  return `${value}.${mac}`;
+}
+
+export function unsign(signed: string): string | null {
+  const i = signed.lastIndexOf(".");
+  if (i <= 0) return null;
+  const value = signed.slice(0, i);
+  const expected = Buffer.from(sign(value));
+  const given = Buffer.from(signed);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given) ? value : null;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    const name = part.slice(0, eq).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      // Ignore cookies we didn't encode
+    }
+  }
+  return cookies;
+}
+
+// The app is often embedded (AI Studio preview), which needs SameSite=None;
+// that in turn requires Secure, so plain-http local runs fall back to Lax.
+function cookieOptions(maxAgeMs: number): string {
+  const secure = (process.env.APP_URL || "").startsWith("https://");
+  const parts = ["Path=/", "HttpOnly", `Max-Age=${Math.floor(maxAgeMs / 1000)}`];
+  parts.push(secure ? "SameSite=None; Secure" : "SameSite=Lax");
+  return parts.join("; ");
+}
+
+function appendCookie(res: Response, cookie: string) {
+  const existing = res.getHeader("Set-Cookie");
+  const list = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader("Set-Cookie", [...list, cookie]);
+}
+
+export function setSignedCookie(res: Response, name: string, value: string, maxAgeMs: number) {
+  appendCookie(res, `${name}=${encodeURIComponent(sign(value))}; ${cookieOptions(maxAgeMs)}`);
+}
+
+export function clearCookie(res: Response, name: string) {
+  appendCookie(res, `${name}=; ${cookieOptions(0)}`);
+}
+
+export function readSignedCookie(req: Request, name: string): string | null {
+  const raw = parseCookies(req.headers.cookie)[name];
+  return raw ? unsign(raw) : null;
+}
+
+// --- Sessions table ---
+
+export function initSessions(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+  addColumnIfMissing(db, "users", "email_verified", "INTEGER NOT NULL DEFAULT 0");
+  db.prepare("DELETE FROM sessions WHERE expires_at < ?").run(Date.now());
+}
+
+export function createSession(db: Database.Database, res: Response, userId: string) {
+  const id = crypto.randomBytes(32).toString("hex");
+  db.prepare("INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)").run(id, userId, Date.now() + SESSION_TTL_MS);
+  setSignedCookie(res, SESSION_COOKIE, id, SESSION_TTL_MS);
+}
+
+export function getSessionUser(db: Database.Database, req: Request): SessionUser | null {
+  const id = readSignedCookie(req, SESSION_COOKIE);
+  if (!id) return null;
+  const row = db.prepare(`
+    SELECT u.id, u.name, u.email, u.avatar, u.email_verified FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.id = ? AND s.expires_at > ?
+  `).get(id, Date.now()) as (Omit<SessionUser, "email_verified"> & { email_verified: number }) | undefined;
+  return row ? { ...row, email_verified: row.email_verified === 1 } : null;
+}
+
+export function destroySession(db: Database.Database, req: Request, res: Response) {
+  const id = readSignedCookie(req, SESSION_COOKIE);
+  if (id) db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+  clearCookie(res, SESSION_COOKIE);
+}
+
+// Resolves the session user into res.locals.user; rejects anonymous requests.
+export function requireUser(db: Database.Database) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = getSessionUser(db, req);
+    if (!user) return res.status(401).json({ error: "Sign in required" });
+    res.locals.user = user;
+    next();
+  };
+}
+
+// --- OAuth state ---
+
+// `state` ties the callback to the browser that started sign-in (CSRF);
+// `nonce` ties the returned ID token to this particular request (replay).
+export function beginOAuth(res: Response): { state: string; nonce: string } {
+  const state = crypto.randomBytes(16).toString("hex");
+  const nonce = crypto.randomBytes(16).toString("hex");
+  setSignedCookie(res, OAUTH_COOKIE, JSON.stringify({ state, nonce, at: Date.now() }), OAUTH_TTL_MS);
+  return { state, nonce };
+}
+
+export function completeOAuth(req: Request, res: Response, state: unknown): { nonce: string } | null {
+  const raw = readSignedCookie(req, OAUTH_COOKIE);
+  clearCookie(res, OAUTH_COOKIE);
+  if (!raw || typeof state !== "string") return null;
+  try {
+    const stored = JSON.parse(raw);
+    if (Date.now() - stored.at > OAUTH_TTL_MS) return null;
+    const a = Buffer.from(stored.state);
+    const b = Buffer.from(state);
+    return a.length === b.length && crypto.timingSafeEqual(a, b) ? { nonce: stored.nonce } : null;
+  } catch {
+    return null;
+  }
+}
+
+// The ID token comes straight from Google's token endpoint over TLS, so only
+// its claims need checking, not its signature.
+export function readIdTokenClaims(idToken: unknown): Record<string, any> | null {
+  if (typeof idToken !== "string") return null;
+  const payload = idToken.split(".")[1];
+  if (!payload) return null;
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,207 @@
+// Public read-only links to a single report. Each share is an unguessable
+// token with an optional expiry and password; revoking keeps the row so the
+// owner still sees how often the link was opened.
+
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import type { AnalysisResult } from "./schema";
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+export interface ReportShare {
+  id: string;
+  report_id: string;
+  token: string;
+  label: string;
+  has_password: boolean;
+  status: ShareStatus;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export interface ShareInput {
+  label: string;
+  expires_at: string | null;
+  password: string | null;
+}
+
+// What an anonymous viewer gets: the report itself, none of the owner's metadata
+export interface SharedReport {
+  query: string;
+  context: string;
+  created_at: string;
+  dataset_name: string | null;
+  result: AnalysisResult;
+}
+
+export type ShareAccess =
+  | { status: "ok"; report: SharedReport }
+  | { status: "not_found" | "expired" | "revoked" | "password_required" | "invalid_password" | "locked" };
+
+const MAX_EXPIRY_DAYS = 365;
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_FAILED_ATTEMPTS = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Wrong-password counters per share and client, keyed `${shareId}:${clientKey}`,
+// so guessing from one address cannot lock everyone else out of the link. A
+// restart resets them, which is fine for throttling.
+const failedAttempts = new Map<string, { count: number; since: number }>();
+const MAX_TRACKED_CLIENTS = 10000;
+
+export function initShares(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS report_shares (
+      id TEXT PRIMARY KEY,
+      report_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      label TEXT NOT NULL DEFAULT '',
+      password_hash TEXT,
+      expires_at TEXT,
+      revoked_at TEXT,
+      view_count INTEGER NOT NULL DEFAULT 0,
+      last_viewed_at TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(report_id) REFERENCES reports(id) ON DELETE CASCADE,
+      FOREIGN KEY(user_id) REFERENCES users(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_report_shares_report ON report_shares(report_id, created_at DESC);
+  `);
+}
+
+export function validateShare(body: any): { value: ShareInput } | { error: string } {
+  const label = typeof body.label === "string" ? body.label.trim().slice(0, 100) : "";
+
+  let expiresAt: string | null = null;
+  if (body.expires_in_days !== undefined && body.expires_in_days !== null) {
+    const days = Number(body.expires_in_days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return { error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` };
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  let password: string | null = null;
+  if (body.password !== undefined && body.password !== null && body.password !== "") {
+    if (typeof body.password !== "string" || body.password.length < MIN_PASSWORD_LENGTH) {
+      return { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+    password = body.password;
+  }
+
+  return { value: { label, expires_at: expiresAt, password } };
+}
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  return `scrypt$${salt.toString("hex")}$${crypto.scryptSync(password, salt, 32).toString("hex")}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const given = crypto.scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return crypto.timingSafeEqual(expected, given);
+}
+
+function shareStatus(row: { revoked_at: string | null; expires_at: string | null }): ShareStatus {
+  if (row.revoked_at) return "revoked";
+  if (row.expires_at && Date.parse(row.expires_at) <= Date.now()) return "expired";
+  return "active";
+}
+
+function toShare(row: any): ReportShare {
+  const { password_hash, user_id, ...rest } = row;
+  return { ...rest, has_password: !!password_hash, status: shareStatus(row) };
+}
+
+export function createShare(db: Database.Database, userId: string, reportId: string, value: ShareInput): ReportShare {
+  const id = `shr_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+  const token = crypto.randomBytes(24).toString("base64url");
+  db.prepare(`
+    INSERT INTO report_shares (id, report_id, user_id, token, label, password_hash, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, reportId, userId, token, value.label, value.password ? hashPassword(value.password) : null, value.expires_at);
+  return getShare(db, reportId, id)!;
+}
+
+// Shares are managed per report, so any analyst with access to the report can see and revoke them
+export function getShare(db: Database.Database, reportId: string, id: string): ReportShare | null {
+  const row = db.prepare("SELECT * FROM report_shares WHERE id = ? AND report_id = ?").get(id, reportId);
+  return row ? toShare(row) : null;
+}
+
+export function listShares(db: Database.Database, reportId: string): ReportShare[] {
+  return db.prepare(`
+    SELECT * FROM report_shares WHERE report_id = ? ORDER BY created_at DESC, id DESC
+  `).all(reportId).map(toShare);
+}
+
+// Idempotent: revoking twice keeps the original revocation time
+export function revokeShare(db: Database.Database, reportId: string, id: string): ReportShare | null {
+  db.prepare("UPDATE report_shares SET revoked_at = ? WHERE id = ? AND report_id = ? AND revoked_at IS NULL")
+    .run(new Date().toISOString(), id, reportId);
+  for (const key of failedAttempts.keys()) if (key.startsWith(`${id}:`)) failedAttempts.delete(key);
+  return getShare(db, reportId, id);
+}
+
+function isLocked(key: string): boolean {
+  const entry = failedAttempts.get(key);
+  if (!entry) return false;
+  if (Date.now() - entry.since > LOCKOUT_MS) {
+    failedAttempts.delete(key);
+    return false;
+  }
+  return entry.count >= MAX_FAILED_ATTEMPTS;
+}
+
+function recordFailure(key: string) {
+  const entry = failedAttempts.get(key);
+  if (entry && Date.now() - entry.since <= LOCKOUT_MS) {
+    entry.count++;
+    return;
+  }
+  // Many rotating clients must not grow the map without bound
+  if (failedAttempts.size >= MAX_TRACKED_CLIENTS) {
+    for (const [k, e] of failedAttempts) if (Date.now() - e.since > LOCKOUT_MS) failedAttempts.delete(k);
+  }
+  failedAttempts.set(key, { count: 1, since: Date.now() });
+}
+
+// Resolves a public token to its report, counting the view on success.
+// `clientKey` identifies the caller (its IP) for wrong-password throttling.
+export function openShare(db: Database.Database, token: string, clientKey: string, password?: string): ShareAccess {
+  const share: any = db.prepare("SELECT * FROM report_shares WHERE token = ?").get(token);
+  if (!share) return { status: "not_found" };
+  const status = shareStatus(share);
+  if (status !== "active") return { status };
+
+  if (share.password_hash) {
+    const attemptKey = `${share.id}:${clientKey}`;
+    if (isLocked(attemptKey)) return { status: "locked" };
+    if (!password) return { status: "password_required" };
+    if (!verifyPassword(password, share.password_hash)) {
+      recordFailure(attemptKey);
+      return { status: "invalid_password" };
+    }
+    failedAttempts.delete(attemptKey);
+  }
+
+  const row: any = db.prepare(`
+    SELECT r.query, r.context, r.created_at, r.result, d.name AS dataset_name
+    FROM reports r LEFT JOIN datasets d ON d.id = r.dataset_id
+    WHERE r.id = ?
+  `).get(share.report_id);
+  if (!row) return { status: "not_found" };
+
+  db.prepare("UPDATE report_shares SET view_count = view_count + 1, last_viewed_at = ? WHERE id = ?")
+    .run(new Date().toISOString(), share.id);
+  return {
+    status: "ok",
+    report: { query: row.query || "", context: row.context || "", created_at: row.created_at, dataset_name: row.dataset_name, result: JSON.parse(row.result) },
+  };
+}
@@ -0,0 +1,85 @@
+// Uploaded SQLite databases. The browser has no SQLite engine, so the file is
+// posted here and opened read-only in memory; nothing is written to disk and
+// the upload is dropped as soon as the response is sent. The client posts the
+// file once to list tables and again with the table the user picked.
+//
+// Only tables are offered. A view runs SQL chosen by whoever built the file,
+// and better-sqlite3 has no way to interrupt a synchronous query, so a
+// cross-join view would stall the whole server. Schema functions are untrusted
+// for the same reason.
+
+import Database from "better-sqlite3";
+import { normalizeValue, type Row } from "./formats";
+
+export interface SqliteTableInfo {
+  name: string;
+  columns: string[];
+  row_count: number;
+}
+
+export class SqliteFileError extends Error {}
+
+const MAX_ROWS = 500_000;
+const SQLITE_HEADER = Buffer.from("SQLite format 3\0", "latin1");
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+function openUpload(buffer: Buffer): Database.Database {
+  if (buffer.length < SQLITE_HEADER.length || !buffer.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER)) {
+    throw new SqliteFileError("The file is not a SQLite database");
+  }
+  // An in-memory copy has no -wal file next to it, so open WAL databases in rollback mode
+  if (buffer[18] === 2 || buffer[19] === 2) {
+    buffer = Buffer.from(buffer);
+    buffer[18] = buffer[19] = 1;
+  }
+  let db: Database.Database;
+  try {
+    db = new Database(buffer, { readonly: true });
+  } catch (error: any) {
+    throw new SqliteFileError(`The database could not be opened: ${error.message}`);
+  }
+  db.pragma("trusted_schema = OFF");
+  return db;
+}
+
+// Virtual tables are left out too: their module, not stored rows, produces the data
+function tables(db: Database.Database): string[] {
+  return (db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND sql NOT LIKE 'CREATE VIRTUAL TABLE%'
+    ORDER BY name
+  `).all() as { name: string }[]).map(t => t.name);
+}
+
+export function listSqliteTables(buffer: Buffer): SqliteTableInfo[] {
+  const db = openUpload(buffer);
+  try {
+    return tables(db).map(name => {
+      const columns = (db.prepare(`PRAGMA table_info(${quoteIdentifier(name)})`).all() as { name: string }[]).map(c => c.name);
+      const row_count = (db.prepare(`SELECT COUNT(*) AS n FROM ${quoteIdentifier(name)}`).get() as { n: number }).n;
+      return { name, columns, row_count };
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function readSqliteTable(buffer: Buffer, table: string): { headers: string[]; rows: Row[]; truncated: boolean } {
+  const db = openUpload(buffer);
+  try {
+    // Only names read back from the schema are ever interpolated into SQL
+    if (!tables(db).includes(table)) throw new SqliteFileError(`Table "${table}" not found`);
+    const stmt = db.prepare(`SELECT * FROM ${quoteIdentifier(table)} LIMIT ?`);
+    const headers = stmt.columns().map(c => c.name);
+    const raw = stmt.all(MAX_ROWS + 1) as Row[];
+    const rows = raw.slice(0, MAX_ROWS).map(row => {
+      const record: Row = {};
+      for (const h of headers) record[h] = normalizeValue(row[h]);
+      return record;
+    });
+    return { headers, rows, truncated: raw.length > MAX_ROWS };
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,150 @@
+// What-if model behind the scenario workspace. The report's strategic_growth
+// segments are the baseline: each segment's own growth is read off its
+// current → projected pair, and the user's drivers are applied on top.
+// Revenue moves with price and volume, cost with volume and unit cost, and
+// adopted recommendations add their confidence-weighted uplift. Pure and
+// shared, so the sliders recompute in the browser and the server validates
+// the same drivers it stores.
+
+import type { AnalysisResult } from './schema';
+
+export interface ScenarioDrivers {
+  // Percentage changes applied to every segment
+  price: number;
+  volume: number;
+  cost: number;
+  // Cost as a percentage of current revenue before any change
+  cost_share: number;
+  // Growth per segment label in percent; segments left out keep the report's own
+  growth: Record<string, number>;
+  // Revenue uplift in percent per adopted recommendation, keyed by its index
+  uplift: Record<string, number>;
+}
+
+export interface BaselineSegment {
+  label: string;
+  current: number;
+  projected: number;
+  // The report's implied growth in percent
+  growth: number;
+}
+
+export interface ScenarioBaseline {
+  segments: BaselineSegment[];
+  recommendations: { key: string; action: string; expected_outcome: string; confidence: number }[];
+}
+
+export interface SegmentOutcome {
+  label: string;
+  current: number;
+  baseline: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+export interface ScenarioOutcome {
+  segments: SegmentOutcome[];
+  totals: { current: number; baseline: number; revenue: number; cost: number; profit: number; margin: number | null };
+}
+
+export const DEFAULT_DRIVERS: ScenarioDrivers = { price: 0, volume: 0, cost: 0, cost_share: 60, growth: {}, uplift: {} };
+
+export const DRIVER_RANGES = {
+  price: [-50, 50],
+  volume: [-50, 50],
+  cost: [-50, 50],
+  cost_share: [0, 100],
+  growth: [-100, 200],
+  uplift: [0, 50],
+} as const;
+
+const DRIVER_LABELS = { price: 'Price', volume: 'Volume', cost: 'Unit cost', cost_share: 'Cost share' } as const;
+
+const MAX_KEYED_DRIVERS = 200;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function scenarioBaseline(result: AnalysisResult): ScenarioBaseline | null {
+  const segments = result.strategic_growth?.data ?? [];
+  if (segments.length === 0) return null;
+  return {
+    segments: segments.map(s => ({
+      label: s.label,
+      current: s.current,
+      projected: s.projected,
+      growth: s.current === 0 ? 0 : round((s.projected / s.current - 1) * 100),
+    })),
+    recommendations: result.recommendations.map((r, i) => ({
+      key: String(i),
+      action: r.action,
+      expected_outcome: r.expected_outcome,
+      confidence: r.confidence_score,
+    })),
+  };
+}
+
+export function simulate(baseline: ScenarioBaseline, drivers: ScenarioDrivers): ScenarioOutcome {
+  const adoption = 1 + baseline.recommendations.reduce((sum, r) => sum + ((drivers.uplift[r.key] ?? 0) / 100) * r.confidence, 0);
+  const segments = baseline.segments.map((s): SegmentOutcome => {
+    // Untouched segments start from the report's own projection, which also
+    // covers segments with no current value to grow from
+    const override = drivers.growth[s.label];
+    const grown = override === undefined ? s.projected : s.current * (1 + override / 100);
+    const units = grown * (1 + drivers.volume / 100) * adoption;
+    const revenue = units * (1 + drivers.price / 100);
+    const cost = units * (drivers.cost_share / 100) * (1 + drivers.cost / 100);
+    return { label: s.label, current: s.current, baseline: s.projected, revenue: round(revenue), cost: round(cost), profit: round(revenue - cost) };
+  });
+  const sum = (pick: (s: SegmentOutcome) => number) => round(segments.reduce((total, s) => total + pick(s), 0));
+  const revenue = sum(s => s.revenue);
+  const profit = sum(s => s.profit);
+  return {
+    segments,
+    totals: {
+      current: sum(s => s.current),
+      baseline: sum(s => s.baseline),
+      revenue,
+      cost: sum(s => s.cost),
+      profit,
+      margin: revenue === 0 ? null : round((profit / revenue) * 100),
+    },
+  };
+}
+
+function percent(value: unknown, [min, max]: readonly [number, number], name: string): { value: number } | { error: string } {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    return { error: `${name} must be a number between ${min} and ${max}` };
+  }
+  return { value };
+}
+
+function keyed(raw: unknown, range: readonly [number, number], name: string): { value: Record<string, number> } | { error: string } {
+  if (raw === undefined || raw === null) return { value: {} };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: `${name} must map names to percentages` };
+  const entries = Object.entries(raw);
+  if (entries.length > MAX_KEYED_DRIVERS) return { error: `${name} can have at most ${MAX_KEYED_DRIVERS} entries` };
+  const value: Record<string, number> = {};
+  for (const [key, v] of entries) {
+    const parsed = percent(v, range, `${name} for ${key}`);
+    if ('error' in parsed) return parsed;
+    value[key] = parsed.value;
+  }
+  return { value };
+}
+
+export function validateDrivers(raw: any): { value: ScenarioDrivers } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Drivers are required' };
+  const drivers = { ...DEFAULT_DRIVERS };
+  for (const key of ['price', 'volume', 'cost', 'cost_share'] as const) {
+    if (raw[key] === undefined) continue;
+    const parsed = percent(raw[key], DRIVER_RANGES[key], DRIVER_LABELS[key]);
+    if ('error' in parsed) return parsed;
+    drivers[key] = parsed.value;
+  }
+  const growth = keyed(raw.growth, DRIVER_RANGES.growth, 'Growth');
+  if ('error' in growth) return growth;
+  const uplift = keyed(raw.uplift, DRIVER_RANGES.uplift, 'Uplift');
+  if ('error' in uplift) return uplift;
+  return { value: { ...drivers, growth: growth.value, uplift: uplift.value } };
+}
@@ -0,0 +1,214 @@
+// Spreadsheet ingestion shared by the browser upload and scheduled runs.
+// Finance workbooks rarely start with a header on row 1: there is usually a
+// merged title, a "prepared by" line or a blank spacer first, so each sheet's
+// header row is detected rather than assumed.
+
+import * as XLSX from 'xlsx';
+import { isMissing } from './profile';
+
+export type Row = Record<string, unknown>;
+
+export interface SheetTable {
+  name: string;
+  headers: string[];
+  rows: Row[];
+  // 1-based spreadsheet row the headers were read from
+  header_row: number;
+}
+
+export interface Table {
+  headers: string[];
+  rows: Row[];
+}
+
+export type JoinKind = 'left' | 'inner';
+
+export interface SheetJoin {
+  sheet: string;
+  left_key: string;
+  right_key: string;
+  kind: JoinKind;
+}
+
+// Column added when sheets are stacked so rows stay attributable
+export const SHEET_COLUMN = 'Sheet';
+
+const HEADER_SCAN_ROWS = 20;
+const MAX_JOINED_ROWS = 500_000;
+const KEY_SAMPLE_ROWS = 2000;
+
+const filledCount = (row: unknown[]) => row.filter(cell => !isMissing(cell)).length;
+
+// Rows whose every value is the anchor of a horizontal merge are titles or
+// group banners ("FY25 Budget", "Q1 | Q2"), never column headers.
+function mergedTitleRows(sheet: XLSX.WorkSheet, firstRow: number, firstCol: number, matrix: unknown[][]): Set<number> {
+  const anchors = new Map<number, Set<number>>();
+  for (const merge of sheet['!merges'] || []) {
+    if (merge.e.c <= merge.s.c) continue;
+    const r = merge.s.r - firstRow;
+    if (!anchors.has(r)) anchors.set(r, new Set());
+    anchors.get(r)!.add(merge.s.c - firstCol);
+  }
+  const titles = new Set<number>();
+  for (const [r, cols] of anchors) {
+    const row = matrix[r];
+    if (!row) continue;
+    const filled = row.map((cell, c) => (isMissing(cell) ? -1 : c)).filter(c => c >= 0);
+    if (filled.length > 0 && filled.every(c => cols.has(c))) titles.add(r);
+  }
+  return titles;
+}
+
+// Index into `matrix` of the header row: the first row, among the top few, that
+// spans at least half the table's width and is mostly text labels.
+export function detectHeaderRow(matrix: unknown[][], skip: Set<number> = new Set()): number {
+  const scan = matrix.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...scan.map(filledCount));
+  const minFilled = width <= 1 ? 1 : Math.max(2, Math.ceil(width / 2));
+  let firstNonEmpty = -1;
+
+  for (let i = 0; i < scan.length; i++) {
+    const filled = filledCount(scan[i]);
+    if (filled === 0) continue;
+    if (firstNonEmpty < 0) firstNonEmpty = i;
+    if (skip.has(i) || filled < minFilled) continue;
+    const labels = scan[i].filter(cell => typeof cell === 'string' && cell.trim() !== '').length;
+    if (labels * 2 >= filled) return i;
+  }
+  return Math.max(firstNonEmpty, 0);
+}
+
+// Blank header cells get positional names; repeated ones get a numeric suffix
+function uniqueHeaders(cells: unknown[], width: number): string[] {
+  const seen = new Map<string, number>();
+  const headers: string[] = [];
+  for (let c = 0; c < width; c++) {
+    const base = isMissing(cells[c]) ? `Column ${c + 1}` : String(cells[c]).replace(/\s+/g, ' ').trim();
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    headers.push(n === 1 ? base : `${base} ${n}`);
+  }
+  return headers;
+}
+
+export function readSheet(sheet: XLSX.WorkSheet, name: string): SheetTable {
+  if (!sheet || !sheet['!ref']) return { name, headers: [], rows: [], header_row: 1 };
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, blankrows: true });
+
+  const headerIndex = detectHeaderRow(matrix, mergedTitleRows(sheet, range.s.r, range.s.c, matrix));
+  const body = matrix.slice(headerIndex + 1).filter(row => filledCount(row) > 0);
+  const width = body.reduce((max, row) => Math.max(max, row.length), matrix[headerIndex]?.length ?? 0);
+  const headers = uniqueHeaders(matrix[headerIndex] || [], width);
+
+  // Trailing columns with neither a header nor any value are formatting residue
+  let used = width;
+  while (used > 0 && isMissing(matrix[headerIndex]?.[used - 1]) && body.every(row => isMissing(row[used - 1]))) used--;
+
+  const rows = body.map(row => {
+    const record: Row = {};
+    for (let c = 0; c < used; c++) record[headers[c]] = row[c] ?? null;
+    return record;
+  });
+  return { name, headers: headers.slice(0, used), rows, header_row: range.s.r + headerIndex + 1 };
+}
+
+export function readWorkbook(workbook: XLSX.WorkBook): SheetTable[] {
+  return workbook.SheetNames.map(name => readSheet(workbook.Sheets[name], name));
+}
+
+// Appends sheets with the same layout (e.g. one per month) into one table
+export function stackSheets(sheets: SheetTable[]): Table {
+  const headers = [SHEET_COLUMN];
+  for (const sheet of sheets) {
+    for (const h of sheet.headers) if (!headers.includes(h)) headers.push(h);
+  }
+  const rows = sheets.flatMap(sheet => sheet.rows.map(row => ({ [SHEET_COLUMN]: sheet.name, ...row })));
+  return { headers, rows };
+}
+
+const keyOf = (value: unknown) => (isMissing(value) ? null : String(value).trim().toLowerCase());
+
+// Joins each sheet onto the base sheet in order, so later joins can key on
+// columns brought in by earlier ones. Right-side columns that collide with an
+// existing name are suffixed with their sheet name.
+export function joinSheets(sheets: SheetTable[], base: string, joins: SheetJoin[]): Table {
+  const byName = new Map(sheets.map(s => [s.name, s]));
+  const start = byName.get(base);
+  if (!start) throw new Error(`Sheet "${base}" not found`);
+  let headers = [...start.headers];
+  let rows = start.rows;
+
+  for (const join of joins) {
+    const right = byName.get(join.sheet);
+    if (!right) throw new Error(`Sheet "${join.sheet}" not found`);
+    if (!headers.includes(join.left_key)) throw new Error(`Column "${join.left_key}" is not available to join ${join.sheet}`);
+    if (!right.headers.includes(join.right_key)) throw new Error(`Column "${join.right_key}" not found in ${join.sheet}`);
+
+    const incoming = right.headers.filter(h => h !== join.right_key);
+    const renamed = new Map(incoming.map(h => [h, headers.includes(h) ? `${h} (${right.name})` : h]));
+    const index = new Map<string, Row[]>();
+    for (const row of right.rows) {
+      const key = keyOf(row[join.right_key]);
+      if (key === null) continue;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(row);
+    }
+
+    const next: Row[] = [];
+    for (const row of rows) {
+      const key = keyOf(row[join.left_key]);
+      const matches = key === null ? undefined : index.get(key);
+      if (!matches) {
+        if (join.kind === 'left') {
+          const record = { ...row };
+          for (const h of incoming) record[renamed.get(h)!] = null;
+          next.push(record);
+        }
+        continue;
+      }
+      for (const match of matches) {
+        const record = { ...row };
+        for (const h of incoming) record[renamed.get(h)!] = match[h] ?? null;
+        next.push(record);
+      }
+      if (next.length > MAX_JOINED_ROWS) {
+        throw new Error(`Joining ${right.name} produces more than ${MAX_JOINED_ROWS.toLocaleString()} rows; check that its key column is unique`);
+      }
+    }
+    headers = [...headers, ...incoming.map(h => renamed.get(h)!)];
+    rows = next;
+  }
+  return { headers, rows };
+}
+
+function distinctKeys(rows: Row[], column: string): Set<string> {
+  const keys = new Set<string>();
+  for (const row of rows.slice(0, KEY_SAMPLE_ROWS)) {
+    const key = keyOf(row[column]);
+    if (key !== null) keys.add(key);
+  }
+  return keys;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Best guess at the key pair for joining `right` onto `left`: same-named
+// columns first, then whichever pair shares the most values.
+export function suggestJoinKeys(left: Table, right: SheetTable): { left_key: string; right_key: string } | null {
+  let best: { left_key: string; right_key: string; score: number } | null = null;
+  const leftColumns = left.headers.map(h => [h, distinctKeys(left.rows, h)] as const);
+  for (const rightKey of right.headers) {
+    const rightValues = distinctKeys(right.rows, rightKey);
+    if (rightValues.size === 0) continue;
+    for (const [leftKey, leftValues] of leftColumns) {
+      let shared = 0;
+      for (const value of rightValues) if (leftValues.has(value)) shared++;
+      const overlap = shared / rightValues.size;
+      if (overlap === 0) continue;
+      const score = overlap + (normalizeName(leftKey) === normalizeName(rightKey) ? 1 : 0);
+      if (!best || score > best.score) best = { left_key: leftKey, right_key: rightKey, score };
+    }
+  }
+  return best && best.score >= 0.5 ? { left_key: best.left_key, right_key: best.right_key } : null;
+}
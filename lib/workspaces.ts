@@ -0,0 +1,311 @@
+// Team workspaces. Reports and datasets belong to a workspace rather than a
+// single user; members see everything in it according to their role:
+//
+//   viewer   browse history, open and export reports, download datasets
+//   analyst  + run and save analyses, upload datasets, tag, chat, share
+//   admin    + rename the workspace, invite, change roles, remove members
+//
+// Every user gets a personal workspace on first sign-in. The active workspace
+// is remembered per session.
+
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import type { Request, Response, NextFunction } from "express";
+import { addColumnIfMissing } from "./db";
+import { readSignedCookie, SESSION_COOKIE, type SessionUser } from "./session";
+
+export type WorkspaceRole = "viewer" | "analyst" | "admin";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["viewer", "analyst", "admin"];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, analyst: 1, admin: 2 };
+
+export interface ActiveWorkspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface Workspace extends ActiveWorkspace {
+  member_count: number;
+  created_at: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  name: string;
+  email: string;
+  avatar: string;
+  role: WorkspaceRole;
+  joined_at: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by_name: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export class WorkspaceError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 100;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${crypto.randomBytes(3).toString("hex")}`;
+
+export function initWorkspaces(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY(created_by) REFERENCES users(id)
+    );
+    CREATE TABLE IF NOT EXISTS workspace_members (
+      workspace_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      role TEXT NOT NULL,
+      joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY(workspace_id, user_id),
+      FOREIGN KEY(workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+    CREATE TABLE IF NOT EXISTS workspace_invitations (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      email TEXT NOT NULL COLLATE NOCASE,
+      role TEXT NOT NULL,
+      invited_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at TEXT NOT NULL,
+      FOREIGN KEY(workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+      FOREIGN KEY(invited_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_invitations_email ON workspace_invitations(workspace_id, email);
+  `);
+  addColumnIfMissing(db, "reports", "workspace_id", "TEXT REFERENCES workspaces(id)");
+  addColumnIfMissing(db, "jobs", "workspace_id", "TEXT REFERENCES workspaces(id)");
+  addColumnIfMissing(db, "sessions", "workspace_id", "TEXT");
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_reports_workspace_created ON reports(workspace_id, created_at DESC, id DESC);
+  `);
+
+  // Existing accounts move into personal workspaces along with everything they own
+  const users = db.prepare(`
+    SELECT u.id, u.name FROM users u
+    WHERE NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.user_id = u.id)
+  `).all() as { id: string; name: string | null }[];
+  for (const user of users) ensurePersonalWorkspace(db, user);
+  if (users.length > 0) console.log(`Created personal workspaces for ${users.length} users`);
+}
+
+// Returns the user's first workspace, creating a personal one if they have none.
+// Anything the user created before workspaces existed is adopted into it.
+export function ensurePersonalWorkspace(db: Database.Database, user: { id: string; name: string | null }): string {
+  const existing = db.prepare(`
+    SELECT workspace_id FROM workspace_members WHERE user_id = ? ORDER BY joined_at, workspace_id LIMIT 1
+  `).get(user.id) as { workspace_id: string } | undefined;
+  if (existing) return existing.workspace_id;
+
+  const id = newId("ws");
+  const firstName = (user.name || "").trim().split(/\s+/)[0];
+  db.transaction(() => {
+    db.prepare("INSERT INTO workspaces (id, name, created_by) VALUES (?, ?, ?)")
+      .run(id, firstName ? `${firstName}'s workspace` : "Personal workspace", user.id);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'admin')").run(id, user.id);
+    for (const table of ["reports", "datasets", "jobs"]) {
+      db.prepare(`UPDATE ${table} SET workspace_id = ? WHERE user_id = ? AND workspace_id IS NULL`).run(id, user.id);
+    }
+  })();
+  return id;
+}
+
+export function getMembership(db: Database.Database, workspaceId: string, userId: string): ActiveWorkspace | null {
+  const row = db.prepare(`
+    SELECT w.id, w.name, m.role FROM workspaces w JOIN workspace_members m ON m.workspace_id = w.id
+    WHERE w.id = ? AND m.user_id = ?
+  `).get(workspaceId, userId) as ActiveWorkspace | undefined;
+  return row || null;
+}
+
+export const hasRole = (workspace: ActiveWorkspace, role: WorkspaceRole) => ROLE_RANK[workspace.role] >= ROLE_RANK[role];
+
+// The session's chosen workspace if the user still belongs to it, else their first one.
+export function resolveWorkspace(db: Database.Database, req: Request, user: SessionUser): ActiveWorkspace {
+  const sessionId = readSignedCookie(req, SESSION_COOKIE);
+  const session = sessionId
+    ? db.prepare("SELECT workspace_id FROM sessions WHERE id = ?").get(sessionId) as { workspace_id: string | null } | undefined
+    : undefined;
+  const chosen = session?.workspace_id ? getMembership(db, session.workspace_id, user.id) : null;
+  return chosen || getMembership(db, ensurePersonalWorkspace(db, user), user.id)!;
+}
+
+// Runs after requireUser; resolves res.locals.workspace.
+export function requireWorkspace(db: Database.Database) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.locals.workspace = resolveWorkspace(db, req, res.locals.user);
+    next();
+  };
+}
+
+export function requireRole(role: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!hasRole(workspace, role)) {
+      return res.status(403).json({ error: `This action needs the ${role} role in ${workspace.name}` });
+    }
+    next();
+  };
+}
+
+export function switchWorkspace(db: Database.Database, req: Request, userId: string, workspaceId: string): ActiveWorkspace | null {
+  const membership = getMembership(db, workspaceId, userId);
+  const sessionId = readSignedCookie(req, SESSION_COOKIE);
+  if (!membership || !sessionId) return null;
+  db.prepare("UPDATE sessions SET workspace_id = ? WHERE id = ?").run(workspaceId, sessionId);
+  return membership;
+}
+
+export function listWorkspaces(db: Database.Database, userId: string): Workspace[] {
+  return db.prepare(`
+    SELECT w.id, w.name, m.role, w.created_at,
+      (SELECT count(*) FROM workspace_members c WHERE c.workspace_id = w.id) AS member_count
+    FROM workspaces w JOIN workspace_members m ON m.workspace_id = w.id
+    WHERE m.user_id = ?
+    ORDER BY m.joined_at, w.id
+  `).all(userId) as Workspace[];
+}
+
+export function parseWorkspaceName(value: unknown): string | null {
+  const name = typeof value === "string" ? value.trim().slice(0, MAX_NAME_LENGTH) : "";
+  return name || null;
+}
+
+export function createWorkspace(db: Database.Database, userId: string, name: string): ActiveWorkspace {
+  const id = newId("ws");
+  db.transaction(() => {
+    db.prepare("INSERT INTO workspaces (id, name, created_by) VALUES (?, ?, ?)").run(id, name, userId);
+    db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'admin')").run(id, userId);
+  })();
+  return { id, name, role: "admin" };
+}
+
+export function renameWorkspace(db: Database.Database, workspaceId: string, name: string) {
+  db.prepare("UPDATE workspaces SET name = ? WHERE id = ?").run(name, workspaceId);
+}
+
+export function listMembers(db: Database.Database, workspaceId: string): WorkspaceMember[] {
+  return db.prepare(`
+    SELECT u.id AS user_id, u.name, u.email, u.avatar, m.role, m.joined_at
+    FROM workspace_members m JOIN users u ON u.id = m.user_id
+    WHERE m.workspace_id = ?
+    ORDER BY m.joined_at, u.name
+  `).all(workspaceId) as WorkspaceMember[];
+}
+
+function assertNotLastAdmin(db: Database.Database, workspaceId: string, userId: string) {
+  const member = db.prepare("SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?")
+    .get(workspaceId, userId) as { role: WorkspaceRole } | undefined;
+  if (!member) throw new WorkspaceError("Member not found", 404);
+  if (member.role !== "admin") return;
+  const { admins } = db.prepare("SELECT count(*) AS admins FROM workspace_members WHERE workspace_id = ? AND role = 'admin'")
+    .get(workspaceId) as { admins: number };
+  if (admins <= 1) throw new WorkspaceError("A workspace needs at least one admin", 409);
+}
+
+export function setMemberRole(db: Database.Database, workspaceId: string, userId: string, role: WorkspaceRole) {
+  if (role !== "admin") assertNotLastAdmin(db, workspaceId, userId);
+  const info = db.prepare("UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?").run(role, workspaceId, userId);
+  if (info.changes === 0) throw new WorkspaceError("Member not found", 404);
+}
+
+// Removing a member keeps the reports and datasets they created in the workspace.
+export function removeMember(db: Database.Database, workspaceId: string, userId: string) {
+  assertNotLastAdmin(db, workspaceId, userId);
+  db.prepare("DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?").run(workspaceId, userId);
+  db.prepare("UPDATE sessions SET workspace_id = NULL WHERE user_id = ? AND workspace_id = ?").run(userId, workspaceId);
+}
+
+export function parseRole(value: unknown): WorkspaceRole | null {
+  return WORKSPACE_ROLES.includes(value as WorkspaceRole) ? (value as WorkspaceRole) : null;
+}
+
+const INVITATION_SELECT = `
+  SELECT i.id, i.workspace_id, w.name AS workspace_name, i.email, i.role, u.name AS invited_by_name, i.created_at, i.expires_at
+  FROM workspace_invitations i
+  JOIN workspaces w ON w.id = i.workspace_id
+  LEFT JOIN users u ON u.id = i.invited_by
+`;
+
+// Inviting an address again refreshes the pending invitation instead of duplicating it.
+export function inviteMember(
+  db: Database.Database,
+  workspaceId: string,
+  invitedBy: string,
+  body: any
+): WorkspaceInvitation {
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!EMAIL.test(email)) throw new WorkspaceError("A valid email address is required");
+  const role = parseRole(body.role ?? "analyst");
+  if (!role) throw new WorkspaceError("Role must be viewer, analyst or admin");
+  const member = db.prepare(`
+    SELECT 1 FROM workspace_members m JOIN users u ON u.id = m.user_id WHERE m.workspace_id = ? AND lower(u.email) = ?
+  `).get(workspaceId, email);
+  if (member) throw new WorkspaceError(`${email} is already a member`, 409);
+
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+  db.prepare(`
+    INSERT INTO workspace_invitations (id, workspace_id, email, role, invited_by, expires_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(workspace_id, email) DO UPDATE SET role = excluded.role, invited_by = excluded.invited_by,
+      created_at = CURRENT_TIMESTAMP, expires_at = excluded.expires_at
+  `).run(newId("inv"), workspaceId, email, role, invitedBy, expiresAt);
+  return db.prepare(`${INVITATION_SELECT} WHERE i.workspace_id = ? AND i.email = ?`).get(workspaceId, email) as WorkspaceInvitation;
+}
+
+export function listInvitations(db: Database.Database, workspaceId: string): WorkspaceInvitation[] {
+  return db.prepare(`${INVITATION_SELECT} WHERE i.workspace_id = ? AND i.expires_at > ? ORDER BY i.created_at DESC`)
+    .all(workspaceId, new Date().toISOString()) as WorkspaceInvitation[];
+}
+
+// Invitations addressed to the signed-in user's email
+// Invitations are addressed by email, so only a Google-verified address sees or answers them
+export function listPendingInvitations(db: Database.Database, user: SessionUser): WorkspaceInvitation[] {
+  if (!user.email || !user.email_verified) return [];
+  return db.prepare(`${INVITATION_SELECT} WHERE i.email = ? AND i.expires_at > ? ORDER BY i.created_at DESC`)
+    .all(user.email.toLowerCase(), new Date().toISOString()) as WorkspaceInvitation[];
+}
+
+export function revokeInvitation(db: Database.Database, workspaceId: string, id: string): boolean {
+  return db.prepare("DELETE FROM workspace_invitations WHERE id = ? AND workspace_id = ?").run(id, workspaceId).changes > 0;
+}
+
+export function respondToInvitation(db: Database.Database, user: SessionUser, id: string, accept: boolean): ActiveWorkspace | null {
+  if (!user.email_verified) throw new WorkspaceError("Sign in again with a verified Google email address to answer invitations", 403);
+  const invitation = db.prepare(`${INVITATION_SELECT} WHERE i.id = ? AND i.email = ? AND i.expires_at > ?`)
+    .get(id, (user.email || "").toLowerCase(), new Date().toISOString()) as WorkspaceInvitation | undefined;
+  if (!invitation) throw new WorkspaceError("Invitation not found or expired", 404);
+
+  db.transaction(() => {
+    db.prepare("DELETE FROM workspace_invitations WHERE id = ?").run(id);
+    if (accept) {
+      db.prepare(`
+        INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, ?)
+        ON CONFLICT(workspace_id, user_id) DO NOTHING
+      `).run(invitation.workspace_id, user.id, invitation.role);
+    }
+  })();
+  return accept ? getMembership(db, invitation.workspace_id, user.id) : null;
+}
@@ -1,10 +1,40 @@
 import express from "express";
-import { GoogleGenAI } from "@google/genai";
 import dotenv from "dotenv";
 import Database from "better-sqlite3";
 import path from "path";
 import axios from "axios";
+import Papa from "papaparse";
 import admin from "firebase-admin";
+import { runAnalysis, describeAnalysisError } from "./lib/engine";
+import { answerQuestion } from "./lib/chat";
+import type { AnalysisResult, ChatMessage } from "./lib/schema";
+import {
+  initSessions, createSession, getSessionUser, destroySession, requireUser,
+  beginOAuth, completeOAuth, readIdTokenClaims, SessionUser,
+} from "./lib/session";
+import { initHistory, indexReport, normalizeTags, searchReports, listTags, getReport } from "./lib/history";
+import { initDatasets, saveDataset, listDatasets, getDataset, loadDatasetRows } from "./lib/datasets";
+import { listSqliteTables, readSqliteTable, SqliteFileError } from "./lib/sqliteFile";
+import { MAX_SQLITE_UPLOAD_BYTES } from "./lib/formats";
+import { applyRecipe, validateRecipe, type PrepStep } from "./lib/prep";
+import { validateSchema } from "./lib/semantic";
+import { applyFilters, describeFilters, validateFilters, type GridFilters } from "./lib/grid";
+import {
+  initScheduler, startScheduler, validateJob, createJob, updateJob, deleteJob, getJob, listJobs, listRuns,
+  runJob, isJobRunning, getWatchRoot,
+} from "./lib/scheduler";
+import {
+  initAlerts, validateRule, createRule, updateRule, deleteRule, getRule, listRules, listDeliveries, dispatchAlerts, testRule,
+} from "./lib/alerts";
+import { EXPORT_FORMATS, EXPORT_RENDERERS, exportFilename } from "./lib/export";
+import { initShares, validateShare, createShare, listShares, revokeShare, openShare } from "./lib/shares";
+import { initScenarios, validateScenario, saveScenario, listScenarios, deleteScenario } from "./lib/scenarios";
+import {
+  initWorkspaces, requireWorkspace, requireRole, resolveWorkspace, hasRole, switchWorkspace, listWorkspaces, createWorkspace,
+  renameWorkspace, parseWorkspaceName, listMembers, setMemberRole, removeMember, parseRole, inviteMember, listInvitations,
+  listPendingInvitations, revokeInvitation, respondToInvitation, WorkspaceError, ActiveWorkspace,
+} from "./lib/workspaces";
+import { getActiveProvider, listProviders, getGeminiKey, getGeminiKeyName, getFixtureMode, getFixtureDir } from "./lib/providers";
 
 dotenv.config();
 
@@ -45,36 +75,6 @@ function getFirebaseAdmin() {
   return firebaseAdmin;
 }
 
-// Helper for exponential backoff
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 5, baseDelay = 2000): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      // Retry on 503 (Service Unavailable) or 429 (Too Many Requests)
-      const status = error.status || (error.response && error.response.status);
-      const message = error.message?.toLowerCase() || "";
-      
-      if (status === 503 || status === 429 || 
-          message.includes("503") || 
-          message.includes("429") || 
-          message.includes("demand") || 
-          message.includes("rate exceeded") ||
-          message.includes("quota")) {
-        
-        const delay = baseDelay * Math.pow(2, i);
-        console.warn(`Gemini API busy or rate limited (attempt ${i + 1}/${maxRetries}). Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError;
-}
-
 // Initialize DB
 db.exec(`
   CREATE TABLE IF NOT EXISTS users (
@@ -92,12 +92,132 @@ db.exec(`
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(user_id) REFERENCES users(id)
   );
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    report_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    citations TEXT,
+    visualizations TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(report_id) REFERENCES reports(id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_chat_messages_report ON chat_messages(report_id, id);
 `);
+initSessions(db);
+initHistory(db);
+initDatasets(db);
+initScheduler(db);
+initAlerts(db);
+initShares(db);
+initScenarios(db);
+initWorkspaces(db);
+
+function saveReport(id: string, userId: string, workspaceId: string, query: string, context: string, result: unknown, tags: string[] = [], datasetId: string | null = null) {
+  const stmt = db.prepare("INSERT INTO reports (id, user_id, workspace_id, query, context, result, tags, dataset_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)");
+  stmt.run(id, userId, workspaceId, query, context, JSON.stringify(result), JSON.stringify(tags), datasetId);
+  indexReport(db, id);
+}
+
+interface ResolvedDataset {
+  // Rows as uploaded; the analysis runs on applyRecipe(rows, recipe)
+  rows: Record<string, unknown>[];
+  recipe: PrepStep[];
+  // Null when the rows still have to be stored, including a stored dataset
+  // whose recipe was edited (saved as a new version under datasetName)
+  datasetId: string | null;
+  datasetName: string | null;
+  // Grid filters that scope this analysis; not stored with the dataset
+  filters: GridFilters;
+}
+
+// Analysis requests carry either inline rows or the id of a stored dataset,
+// and optionally a preparation recipe. A stored dataset replays its own
+// recipe unless the request sends one.
+function resolveDataset(body: any, workspace: ActiveWorkspace | null): ResolvedDataset | { status: number; error: string } {
+  const filters = validateFilters(body.filters);
+  if ("error" in filters) return { status: 400, error: filters.error };
+  let recipe: PrepStep[] = [];
+  if (body.recipe !== undefined) {
+    const validated = validateRecipe(body.recipe);
+    if ("error" in validated) return { status: 400, error: validated.error };
+    recipe = validated.value;
+  }
+  if (typeof body.datasetId === "string") {
+    if (!workspace) return { status: 401, error: "Sign in required to use stored datasets" };
+    const meta = getDataset(db, workspace.id, body.datasetId);
+    const rows = meta && loadDatasetRows(db, workspace.id, meta.id);
+    if (!meta || !rows) return { status: 404, error: "Dataset not found" };
+    if (body.recipe === undefined) recipe = meta.recipe;
+    const unchanged = JSON.stringify(recipe) === JSON.stringify(meta.recipe);
+    return { rows, recipe, datasetId: unchanged ? meta.id : null, datasetName: meta.name, filters: filters.value };
+  }
+  if (!Array.isArray(body.dataset) || body.dataset.length === 0) {
+    return { status: 400, error: "Dataset is required" };
+  }
+  return { rows: body.dataset, recipe, datasetId: null, datasetName: null, filters: filters.value };
+}
+
+function prepareRows(resolved: ResolvedDataset): Record<string, unknown>[] | { status: number; error: string } {
+  const prepared = applyRecipe(resolved.rows, resolved.recipe);
+  if (prepared.rows.length === 0) return { status: 400, error: "The preparation recipe removes every row of the dataset" };
+  const scoped = applyFilters(prepared.rows, resolved.filters);
+  if (scoped.length === 0) return { status: 400, error: "The grid filters match no rows" };
+  return scoped;
+}
+
+// The model is told when it only sees a filtered slice of the dataset
+function scopedContext(context: unknown, filters: GridFilters): string {
+  const base = typeof context === "string" ? context : "";
+  const scope = describeFilters(filters);
+  return scope ? `${base}${base ? " " : ""}(limited to rows where ${scope})` : base;
+}
+
+function getChatThread(reportId: string): ChatMessage[] {
+  const rows = db.prepare("SELECT * FROM chat_messages WHERE report_id = ? ORDER BY id").all(reportId);
+  return rows.map((m: any) => ({
+    ...m,
+    citations: m.citations ? JSON.parse(m.citations) : [],
+    visualizations: m.visualizations ? JSON.parse(m.visualizations) : [],
+  }));
+}
+
+function addChatMessage(reportId: string, message: Pick<ChatMessage, "role" | "content"> & Partial<ChatMessage>): ChatMessage {
+  const stmt = db.prepare("INSERT INTO chat_messages (report_id, role, content, citations, visualizations) VALUES (?, ?, ?, ?, ?)");
+  const info = stmt.run(reportId, message.role, message.content, JSON.stringify(message.citations || []), JSON.stringify(message.visualizations || []));
+  const row: any = db.prepare("SELECT * FROM chat_messages WHERE id = ?").get(info.lastInsertRowid);
+  return { ...row, citations: message.citations || [], visualizations: message.visualizations || [] };
+}
 
 // Initialize Firebase Admin
 getFirebaseAdmin();
 
-app.use(express.json({ limit: '50mb' }));
+// Clients upload the full dataset gzip-compressed; body-parser inflates it and
+// applies the limit to the decompressed size.
+app.use(express.json({ limit: '200mb' }));
+
+// Session cookies are SameSite=None when embedded, so state-changing API
+// calls must come from the app's own origin.
+app.use("/api", (req, res, next) => {
+  if (req.method === "GET" || req.method === "HEAD") return next();
+  const origin = req.headers.origin;
+  const appUrl = process.env.APP_URL?.replace(/\/$/, "");
+  const allowed = [appUrl && new URL(appUrl).origin, `${req.protocol}://${req.get("host")}`];
+  if (origin && !allowed.includes(origin)) {
+    return res.status(403).json({ error: "Cross-origin request rejected" });
+  }
+  next();
+});
+
+const authenticated = [requireUser(db), requireWorkspace(db)];
+const analystOnly = requireRole("analyst");
+const adminOnly = requireRole("admin");
+
+// Handlers for workspace management throw WorkspaceError for expected failures
+function sendWorkspaceError(res: express.Response, error: unknown) {
+  if (error instanceof WorkspaceError) return res.status(error.status).json({ error: error.message });
+  throw error;
+}
 
 // Auth Routes (Real Google OAuth)
 app.get("/api/auth/google/url", (req, res) => {
@@ -116,13 +236,17 @@ app.get("/api/auth/google/url", (req, res) => {
       return res.status(500).json({ error: "GOOGLE_CLIENT_ID environment variable is not set." });
     }
 
+    const { state, nonce } = beginOAuth(res);
     const options = {
       redirect_uri: redirectUri,
       client_id: process.env.GOOGLE_CLIENT_ID,
       access_type: "offline",
       response_type: "code",
       prompt: "consent",
+      state,
+      nonce,
       scope: [
+        "openid",
         "https://www.googleapis.com/auth/userinfo.profile",
         "https://www.googleapis.com/auth/userinfo.email",
       ].join(" "),
@@ -140,6 +264,11 @@ app.get("/api/auth/google/url", (req, res) => {
       return res.status(400).send("No code provided");
     }
 
+    const pending = completeOAuth(req, res, req.query.state);
+    if (!pending) {
+      return res.status(400).send("Sign-in request expired or did not originate from this browser. Please try again.");
+    }
+
     try {
       // Exchange code for tokens
       const tokenResponse = await axios.post("https://oauth2.googleapis.com/token", {
@@ -150,7 +279,13 @@ app.get("/api/auth/google/url", (req, res) => {
         grant_type: "authorization_code",
       });
 
-      const { access_token } = tokenResponse.data;
+      const { access_token, id_token } = tokenResponse.data;
+
+      const claims = readIdTokenClaims(id_token);
+      if (!claims || claims.nonce !== pending.nonce || claims.aud !== process.env.GOOGLE_CLIENT_ID) {
+        console.error("Google Auth Error: ID token nonce or audience mismatch");
+        return res.status(400).send("Authentication failed");
+      }
 
       // Get user info
       const userResponse = await axios.get("https://www.googleapis.com/oauth2/v2/userinfo", {
@@ -159,25 +294,25 @@ app.get("/api/auth/google/url", (req, res) => {
 
       const googleUser = userResponse.data;
 
-      // Save/Update user in DB
-      const stmt = db.prepare("INSERT OR REPLACE INTO users (id, name, email, avatar) VALUES (?, ?, ?, ?)");
-      stmt.run(googleUser.id, googleUser.name, googleUser.email, googleUser.picture);
+      // Save/Update user in DB. An upsert, not INSERT OR REPLACE: replacing the
+      // row would cascade-delete the user's workspace memberships.
+      // The verification flag is re-read on every sign-in, since the address may have changed.
+      const stmt = db.prepare(`
+        INSERT INTO users (id, name, email, avatar, email_verified) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET name = excluded.name, email = excluded.email, avatar = excluded.avatar, email_verified = excluded.email_verified
+      `);
+      const emailVerified = (claims.email_verified === true || claims.email_verified === "true") && claims.email === googleUser.email;
+      stmt.run(googleUser.id, googleUser.name, googleUser.email, googleUser.picture, emailVerified ? 1 : 0);
+      createSession(db, res, googleUser.id);
 
-      // Send success message and close popup
+      // Send success message and close popup. The opener reads the user from
+      // /api/auth/me; nothing sensitive goes through postMessage.
       res.send(`
         <html>
           <body>
             <script>
               if (window.opener) {
-                window.opener.postMessage({ 
-                  type: 'OAUTH_AUTH_SUCCESS', 
-                  user: ${JSON.stringify({
-                    id: googleUser.id,
-                    name: googleUser.name,
-                    email: googleUser.email,
-                    avatar: googleUser.picture
-                  })} 
-                }, '*');
+                window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS' }, ${JSON.stringify(new URL(appUrl!).origin)});
                 window.close();
               } else {
                 window.location.href = '/';
@@ -193,42 +328,440 @@ app.get("/api/auth/google/url", (req, res) => {
     }
   });
 
+  app.get("/api/auth/me", (req, res) => {
+    const user = getSessionUser(db, req);
+    if (!user) return res.status(401).json({ error: "Not signed in" });
+    res.json(user);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    destroySession(db, req, res);
+    res.json({ success: true });
+  });
+
   app.post("/api/auth/signin", (req, res) => {
     // This was the mock route, keeping it for compatibility or removing if not needed
     // But we'll use the real one above.
     res.status(405).json({ error: "Use /api/auth/google/url instead" });
   });
 
+  // Workspaces, members and invitations
+  app.get("/api/workspaces", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    res.json({
+      active: res.locals.workspace,
+      workspaces: listWorkspaces(db, user.id),
+      invitations: listPendingInvitations(db, user),
+    });
+  });
+
+  app.post("/api/workspaces", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const name = parseWorkspaceName(req.body.name);
+    if (!name) return res.status(400).json({ error: "Workspace name is required" });
+    const workspace = createWorkspace(db, user.id, name);
+    switchWorkspace(db, req, user.id, workspace.id);
+    res.status(201).json(workspace);
+  });
+
+  app.post("/api/workspaces/:id/switch", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace = switchWorkspace(db, req, user.id, req.params.id);
+    if (!workspace) return res.status(404).json({ error: "Workspace not found" });
+    res.json(workspace);
+  });
+
+  // Management routes act on the active workspace
+  app.patch("/api/workspace", authenticated, adminOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const name = parseWorkspaceName(req.body.name);
+    if (!name) return res.status(400).json({ error: "Workspace name is required" });
+    renameWorkspace(db, workspace.id, name);
+    res.json({ ...workspace, name });
+  });
+
+  app.get("/api/workspace/members", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    res.json({
+      members: listMembers(db, workspace.id),
+      invitations: hasRole(workspace, "admin") ? listInvitations(db, workspace.id) : [],
+    });
+  });
+
+  app.patch("/api/workspace/members/:userId", authenticated, adminOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const role = parseRole(req.body.role);
+    if (!role) return res.status(400).json({ error: "Role must be viewer, analyst or admin" });
+    try {
+      setMemberRole(db, workspace.id, req.params.userId, role);
+      res.json({ success: true });
+    } catch (error) {
+      sendWorkspaceError(res, error);
+    }
+  });
+
+  // Admins remove anyone; everyone else may only remove themselves (leave)
+  app.delete("/api/workspace/members/:userId", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (req.params.userId !== user.id && !hasRole(workspace, "admin")) {
+      return res.status(403).json({ error: `This action needs the admin role in ${workspace.name}` });
+    }
+    try {
+      removeMember(db, workspace.id, req.params.userId);
+      res.json({ success: true });
+    } catch (error) {
+      sendWorkspaceError(res, error);
+    }
+  });
+
+  app.post("/api/workspace/invitations", authenticated, adminOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    try {
+      res.status(201).json(inviteMember(db, workspace.id, user.id, req.body));
+    } catch (error) {
+      sendWorkspaceError(res, error);
+    }
+  });
+
+  app.delete("/api/workspace/invitations/:id", authenticated, adminOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!revokeInvitation(db, workspace.id, req.params.id)) return res.status(404).json({ error: "Invitation not found" });
+    res.json({ success: true });
+  });
+
+  // The invitee answers; accepting also switches to the new workspace
+  app.post("/api/invitations/:id/:answer(accept|decline)", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    try {
+      const workspace = respondToInvitation(db, user, req.params.id, req.params.answer === "accept");
+      if (workspace) switchWorkspace(db, req, user.id, workspace.id);
+      res.json({ workspace });
+    } catch (error) {
+      sendWorkspaceError(res, error);
+    }
+  });
+
   // Report Routes
-  app.get("/api/reports", (req, res) => {
-    const userId = req.query.userId as string;
-    if (!userId) return res.status(400).json({ error: "userId required" });
-    const stmt = db.prepare("SELECT * FROM reports WHERE user_id = ? ORDER BY created_at DESC LIMIT 10");
-    const reports = stmt.all(userId);
-    res.json(reports.map((r: any) => ({ ...r, result: JSON.parse(r.result) })));
-  });
-
-  app.post("/api/reports", (req, res) => {
-    const { id, userId, query, context, result } = req.body;
-    const stmt = db.prepare("INSERT INTO reports (id, user_id, query, context, result) VALUES (?, ?, ?, ?, ?)");
-    stmt.run(id, userId, query, context, JSON.stringify(result));
+  app.get("/api/reports", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+    res.json(searchReports(db, workspace.id, {
+      q: param("q"),
+      from: param("from"),
+      to: param("to"),
+      tag: param("tag"),
+      impact: param("impact"),
+      severity: param("severity"),
+      author: param("author"),
+      cursor: param("cursor"),
+      limit: Number(param("limit")) || undefined,
+    }));
+  });
+
+  app.get("/api/reports/tags", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    res.json(listTags(db, workspace.id));
+  });
+
+  app.patch("/api/reports/:id/tags", authenticated, analystOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const tags = normalizeTags(req.body.tags);
+    const info = db.prepare("UPDATE reports SET tags = ? WHERE id = ? AND workspace_id = ?").run(JSON.stringify(tags), req.params.id, workspace.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Report not found" });
+    res.json({ tags });
+  });
+
+  app.post("/api/reports", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const { id, query, context, result, tags } = req.body;
+    if (typeof id !== "string" || !result) return res.status(400).json({ error: "id and result are required" });
+    const existing: any = db.prepare("SELECT user_id FROM reports WHERE id = ?").get(id);
+    if (existing) return res.status(409).json({ error: "Report already exists" });
+    saveReport(id, user.id, workspace.id, query, context, result, normalizeTags(tags));
     res.json({ success: true });
   });
 
+  // Server-rendered downloads, one endpoint per format
+  for (const format of EXPORT_FORMATS) {
+    app.get(`/api/reports/:id/export/${format}`, authenticated, async (req, res) => {
+      const workspace: ActiveWorkspace = res.locals.workspace;
+      const report = getReport(db, workspace.id, req.params.id);
+      if (!report) return res.status(404).json({ error: "Report not found" });
+      const renderer = EXPORT_RENDERERS[format];
+      try {
+        const body = await renderer.render(report);
+        res.setHeader("Content-Type", renderer.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${exportFilename(report, renderer.extension)}"`);
+        res.send(body);
+      } catch (error) {
+        console.error(`Export of ${report.id} to ${format} failed:`, error);
+        res.status(500).json({ error: `Failed to export report as ${format.toUpperCase()}` });
+      }
+    });
+  }
+
+  // Share links: owners manage them per report, anyone with the token can read
+  app.get("/api/reports/:id/shares", authenticated, analystOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!getReport(db, workspace.id, req.params.id)) return res.status(404).json({ error: "Report not found" });
+    res.json(listShares(db, req.params.id));
+  });
+
+  app.post("/api/reports/:id/shares", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!getReport(db, workspace.id, req.params.id)) return res.status(404).json({ error: "Report not found" });
+    const parsed = validateShare(req.body);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    res.status(201).json(createShare(db, user.id, req.params.id, parsed.value));
+  });
+
+  app.delete("/api/reports/:id/shares/:shareId", authenticated, analystOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const share = getReport(db, workspace.id, req.params.id) && revokeShare(db, req.params.id, req.params.shareId);
+    if (!share) return res.status(404).json({ error: "Share link not found" });
+    res.json(share);
+  });
+
+  // What-if scenarios: anyone in the workspace can compare them, analysts save them
+  app.get("/api/reports/:id/scenarios", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!getReport(db, workspace.id, req.params.id)) return res.status(404).json({ error: "Report not found" });
+    res.json(listScenarios(db, req.params.id));
+  });
+
+  app.post("/api/reports/:id/scenarios", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    if (!getReport(db, workspace.id, req.params.id)) return res.status(404).json({ error: "Report not found" });
+    const parsed = validateScenario(req.body);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    res.json(saveScenario(db, user.id, req.params.id, parsed.value));
+  });
+
+  app.delete("/api/reports/:id/scenarios/:scenarioId", authenticated, analystOnly, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const deleted = getReport(db, workspace.id, req.params.id) && deleteScenario(db, req.params.id, req.params.scenarioId);
+    if (!deleted) return res.status(404).json({ error: "Scenario not found" });
+    res.json({ success: true });
+  });
+
+  const SHARE_ERRORS = {
+    not_found: [404, "This link does not exist"],
+    expired: [410, "This link has expired"],
+    revoked: [410, "This link has been revoked"],
+    password_required: [401, "This report is password protected"],
+    invalid_password: [401, "Incorrect password"],
+    locked: [429, "Too many incorrect passwords. Try again later."],
+  } as const;
+
+  // GET opens unprotected links; POST carries the password for protected ones
+  const openSharedReport = (req: express.Request, res: express.Response) => {
+    const password = typeof req.body?.password === "string" ? req.body.password : undefined;
+    const access = openShare(db, req.params.token, req.ip ?? req.socket.remoteAddress ?? "unknown", password);
+    res.setHeader("Cache-Control", "no-store");
+    if (access.status === "ok") return res.json(access.report);
+    const [status, error] = SHARE_ERRORS[access.status];
+    res.status(status).json({ error, reason: access.status });
+  };
+  app.get("/api/shared/:token", openSharedReport);
+  app.post("/api/shared/:token", openSharedReport);
+
+  // Datasets
+  app.post("/api/datasets", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const { name, rows } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) return res.status(400).json({ error: "rows are required" });
+    const recipe = validateRecipe(req.body.recipe);
+    if ("error" in recipe) return res.status(400).json({ error: recipe.error });
+    const { dataset, created } = saveDataset(db, workspace.id, user.id, typeof name === "string" ? name : "", rows, recipe.value);
+    res.status(created ? 201 : 200).json(dataset);
+  });
+
+  app.get("/api/datasets", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    res.json(listDatasets(db, workspace.id));
+  });
+
+  app.get("/api/datasets/:id", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const meta = getDataset(db, workspace.id, req.params.id);
+    if (!meta) return res.status(404).json({ error: "Dataset not found" });
+    res.json(meta);
+  });
+
+  app.get("/api/datasets/:id/download", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const meta = getDataset(db, workspace.id, req.params.id);
+    const rows = meta && loadDatasetRows(db, workspace.id, meta.id);
+    if (!meta || !rows) return res.status(404).json({ error: "Dataset not found" });
+
+    const format = req.query.format === "csv" ? "csv" : "json";
+    const filename = `${meta.name.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_")}-v${meta.version}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      res.type("text/csv").send(Papa.unparse(rows, { columns: meta.columns }));
+    } else {
+      res.json(rows);
+    }
+  });
+
+  // SQLite uploads can't be parsed in the browser. Without ?table= the tables
+  // are listed so the user can pick one; with it, that table's rows come back.
+  app.post("/api/files/sqlite", authenticated, analystOnly, express.raw({ type: "application/octet-stream", limit: MAX_SQLITE_UPLOAD_BYTES }), (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: "Upload the database file as application/octet-stream" });
+    const table = typeof req.query.table === "string" ? req.query.table : "";
+    try {
+      res.json(table ? readSqliteTable(req.body, table) : { tables: listSqliteTables(req.body) });
+    } catch (error) {
+      if (error instanceof SqliteFileError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  // Scheduled jobs
+  app.get("/api/jobs", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    res.json({ watchRoot: getWatchRoot(), jobs: listJobs(db, user.id, workspace.id) });
+  });
+
+  app.post("/api/jobs", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const validated = validateJob(req.body);
+    if ("error" in validated) return res.status(400).json({ error: validated.error });
+    res.status(201).json(createJob(db, user.id, workspace.id, validated.value));
+  });
+
+  app.patch("/api/jobs/:id", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const job = getJob(db, user.id, req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    const validated = validateJob(req.body, job);
+    if ("error" in validated) return res.status(400).json({ error: validated.error });
+    res.json(updateJob(db, user.id, job.id, validated.value));
+  });
+
+  app.delete("/api/jobs/:id", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    if (isJobRunning(req.params.id)) return res.status(409).json({ error: "Job is running" });
+    if (!deleteJob(db, user.id, req.params.id)) return res.status(404).json({ error: "Job not found" });
+    res.json({ success: true });
+  });
+
+  app.get("/api/jobs/:id/runs", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    if (!getJob(db, user.id, req.params.id)) return res.status(404).json({ error: "Job not found" });
+    res.json(listRuns(db, req.params.id));
+  });
+
+  // Runs in the background; clients poll the job list for the outcome
+  app.post("/api/jobs/:id/run", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const job = getJob(db, user.id, req.params.id);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    if (isJobRunning(job.id)) return res.status(409).json({ error: "Job is already running" });
+    runJob(db, job.id, saveReport, "manual").catch(error => console.error(`Manual run of ${job.id} failed:`, error));
+    res.status(202).json({ running: true });
+  });
+
+  // Alert rules and their webhook delivery log
+  app.get("/api/alerts", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    res.json(listRules(db, user.id));
+  });
+
+  app.post("/api/alerts", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const validated = validateRule(req.body);
+    if ("error" in validated) return res.status(400).json({ error: validated.error });
+    res.status(201).json(createRule(db, user.id, validated.value));
+  });
+
+  app.get("/api/alerts/deliveries", authenticated, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const ruleId = typeof req.query.rule === "string" ? req.query.rule : undefined;
+    res.json(listDeliveries(db, user.id, ruleId));
+  });
+
+  app.patch("/api/alerts/:id", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const rule = getRule(db, user.id, req.params.id);
+    if (!rule) return res.status(404).json({ error: "Alert rule not found" });
+    const validated = validateRule(req.body, rule);
+    if ("error" in validated) return res.status(400).json({ error: validated.error });
+    res.json(updateRule(db, user.id, rule.id, validated.value));
+  });
+
+  app.delete("/api/alerts/:id", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    if (!deleteRule(db, user.id, req.params.id)) return res.status(404).json({ error: "Alert rule not found" });
+    res.json({ success: true });
+  });
+
+  app.post("/api/alerts/:id/test", authenticated, analystOnly, (req, res) => {
+    const user: SessionUser = res.locals.user;
+    const rule = getRule(db, user.id, req.params.id);
+    if (!rule) return res.status(404).json({ error: "Alert rule not found" });
+    res.status(202).json({ deliveryId: testRule(db, rule) });
+  });
+
+  // Follow-up chat: one thread per saved report
+  app.get("/api/reports/:id/chat", authenticated, (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const report: any = db.prepare("SELECT workspace_id FROM reports WHERE id = ?").get(req.params.id);
+    if (!report || report.workspace_id !== workspace.id) return res.status(404).json({ error: "Report not found" });
+    res.json(getChatThread(req.params.id));
+  });
+
+  app.post("/api/reports/:id/chat", authenticated, analystOnly, async (req, res) => {
+    const workspace: ActiveWorkspace = res.locals.workspace;
+    const { question, provider, model } = req.body;
+    if (typeof question !== "string" || question.trim() === "") {
+      return res.status(400).json({ error: "Question is required" });
+    }
+    const row: any = db.prepare("SELECT workspace_id, result FROM reports WHERE id = ?").get(req.params.id);
+    if (!row || row.workspace_id !== workspace.id) return res.status(404).json({ error: "Report not found" });
+
+    try {
+      const report: AnalysisResult = JSON.parse(row.result);
+      const history = getChatThread(req.params.id);
+      const answer = await answerQuestion({ report, history, question: question.trim(), provider, model });
+      // Only persist the turn once it has an answer, so a failed call can be retried cleanly
+      const asked = addChatMessage(req.params.id, { role: "user", content: question.trim() });
+      const reply = addChatMessage(req.params.id, { role: "assistant", content: answer.answer, citations: answer.citations, visualizations: answer.visualizations });
+      res.json({ messages: [asked, reply] });
+    } catch (error: any) {
+      console.error("Chat Error:", error);
+      const { status, error: message } = describeAnalysisError(error);
+      res.status(status).json({ error: message });
+    }
+  });
+
   // API routes
   app.get("/api/health", (req, res) => {
     const appUrl = process.env.APP_URL?.replace(/\/$/, "");
-    // Prioritize COGAPI3 as requested by user
-    const geminiKey = process.env.COGAPI3 || process.env.GEMINI_API_KEY;
-    const isGeminiKeyConfigured = !!geminiKey && geminiKey.trim() !== "";
+    const providers = listProviders();
+    const active = getActiveProvider();
 
     res.json({ 
       status: "ok",
       firebase: !!firebaseAdmin,
       appUrl: appUrl || "NOT_SET",
       googleClientId: !!process.env.GOOGLE_CLIENT_ID,
-      geminiKeyConfigured: isGeminiKeyConfigured,
-      geminiKeyName: process.env.COGAPI3 ? "COGAPI3" : process.env.GEMINI_API_KEY ? "GEMINI_API_KEY" : "NONE",
+      geminiKeyConfigured: !!getGeminiKey(),
+      geminiKeyName: getGeminiKeyName(),
+      provider: {
+        ...active,
+        configured: providers.find(p => p.id === active.id)?.configured ?? false,
+      },
+      providers,
+      fixtures: { mode: getFixtureMode(), dir: getFixtureMode() === "off" ? null : getFixtureDir() },
       redirectUri: appUrl ? `${appUrl}/auth/google/callback` : "APP_URL_MISSING",
       origin: appUrl || "APP_URL_MISSING"
     });
@@ -236,199 +769,97 @@ app.get("/api/auth/google/url", (req, res) => {
 
   app.post("/api/analyze", async (req, res) => {
     try {
-      const { dataset, query, context } = req.body;
+      const { query, context, provider, model, dropUnsupported } = req.body;
 
-      if (!dataset) {
-        return res.status(400).json({ error: "Dataset is required" });
+      const user = getSessionUser(db, req);
+      const resolved = resolveDataset(req.body, user && resolveWorkspace(db, req, user));
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
+      }
+      const dataset = prepareRows(resolved);
+      if ("error" in dataset) {
+        return res.status(dataset.status).json({ error: dataset.error });
+      }
+      const schema = validateSchema(req.body.schema);
+      if ("error" in schema) {
+        return res.status(400).json({ error: schema.error });
       }
 
       console.log("Intelligence Engine v2.6 starting analysis...");
-      // Prioritize COGAPI3 as requested by user, fallback to GEMINI_API_KEY
-      const apiKey = process.env.COGAPI3 || process.env.GEMINI_API_KEY;
-      
-      if (!apiKey || apiKey.trim() === "") {
-        return res.status(500).json({ 
-          error: "Gemini API key is not configured. Please set COGAPI3 or GEMINI_API_KEY in the environment variables." 
-        });
-      }
+      const result = await runAnalysis({ dataset, query, context: scopedContext(context, resolved.filters), provider, model, dropUnsupported: dropUnsupported === true, schema: schema.value ?? undefined });
+      if (user) dispatchAlerts(db, user.id, result, { reportId: null, query });
+      res.json(result);
+    } catch (error: any) {
+      console.error("Analysis Error:", error);
+      const { status, error: message } = describeAnalysisError(error);
+      res.status(status).json({ error: message });
+    }
+  });
+
+  // Streaming variant: Server-Sent Events for each pipeline phase, partial
+  // report sections as the model emits them, then the final result.
+  app.post("/api/analyze/stream", async (req, res) => {
+    const { query, context, provider, model, dropUnsupported, save } = req.body;
 
-      const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
-      
-      const systemInstruction = `
-SYSTEM ROLE:
-You are an AI Data Intelligence Engine designed to replace spreadsheets, dashboards, and BI tools. You do not generate generic responses. You perform structured reasoning over data and produce autonomous insights, forecasts, risk analysis, and decision intelligence.
-You behave like a persistent enterprise intelligence system, not a chatbot.
-
-OBJECTIVE:
-Given a structured dataset (CSV or tabular data), you must:
-1. Understand schema automatically
-2. Detect relationships
-3. Identify key metrics
-4. Generate contextual insights
-5. Detect anomalies
-6. Forecast trends
-7. Identify risks
-8. Suggest decisions
-9. Provide explainability with evidence
-10. Provide confidence score
-
-REASONING RULES:
-- Always infer KPIs from data automatically.
-- If time-series data exists → generate forecast.
-- If numeric variance > 2 standard deviations → flag anomaly.
-- Detect correlations.
-- Detect trend direction.
-- Always explain WHY.
-- Never say “insufficient data” unless truly impossible.
-- Be analytical, not conversational.
-- Use structured business reasoning.
-- Assume enterprise-level decision making.
-
-OUTPUT FORMAT (STRICT JSON):
-{
-  "data_summary": {
-    "detected_entities": ["string"],
-    "key_metrics": [{"name": "string", "value": "string", "trend": "up/down/stable"}],
-    "relationships": ["string"]
-  },
-  "visualizations": [
-    {
-      "type": "pie | bar | line | area",
-      "title": "string",
-      "data": [{"name": "string", "value": "number"}],
-      "description": "string"
+    const user = getSessionUser(db, req);
+    const workspace = user && resolveWorkspace(db, req, user);
+    const resolved = resolveDataset(req.body, workspace);
+    if ("error" in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
     }
-  ],
-  "insights": [
-    {
-      "title": "string",
-      "description": "string",
-      "data_evidence": "string",
-      "impact_level": "Low/Medium/High"
+    const dataset = prepareRows(resolved);
+    if ("error" in dataset) {
+      return res.status(dataset.status).json({ error: dataset.error });
     }
-  ],
-  "anomalies": [
-    {
-      "type": "string",
-      "location": "string",
-      "reasoning": "string",
-      "severity": "Low/Medium/High"
+    const schema = validateSchema(req.body.schema);
+    if ("error" in schema) {
+      return res.status(400).json({ error: schema.error });
     }
-  ],
-  "forecast": {
-    "time_horizon": "string",
-    "predicted_trend": "string",
-    "confidence_level": "string",
-    "projection_data": [{"period": "string", "value": "number"}]
-  },
-  "strategic_growth": {
-    "title": "string",
-    "data": [{"label": "string", "current": "number", "projected": "number"}]
-  },
-  "market_expansion": {
-    "title": "string",
-    "data": [{"segment": "string", "opportunity_score": "number", "risk_factor": "number"}]
-  },
-  "geographic_matrix": {
-    "title": "string",
-    "data": [{"city": "string", "score": "number", "risk": "number"}]
-  },
-  "risk_heatmap": {
-    "title": "string",
-    "data": [{"category": "string", "risk_score": "number", "impact": "number"}]
-  },
-  "operational_efficiency": {
-    "title": "string",
-    "metrics": [{"label": "string", "score": "number"}]
-  },
-  "risk_analysis": [
-    {
-      "risk_type": "string",
-      "probability": "string",
-      "business_impact": "string",
-      "evidence": "string"
+    // Saving is only possible for the signed-in user, whatever the body says
+    const owner = save ? user : null;
+    if (save && (!owner || !workspace || typeof save.id !== "string")) {
+      return res.status(401).json({ error: "Sign in required to save reports" });
     }
-  ],
-  "recommendations": [
-    {
-      "action": "string",
-      "justification": "string",
-      "expected_outcome": "string",
-      "confidence_score": "number (0-1)"
+    if (save && !hasRole(workspace!, "analyst")) {
+      return res.status(403).json({ error: `Saving reports needs the analyst role in ${workspace!.name}` });
     }
-  ]
-}
-`;
-
-      const prompt = `
-Dataset Context: ${context || 'General Business Data'}
-User Intent: ${query || 'Analyze this data for executive insights'}
-
-DATASET (First 100 rows):
-${dataset.slice(0, 100).map((row: any) => JSON.stringify(row)).join('\n')}
-
-Perform full intelligence analysis and return the results in the specified JSON format.
-- For "geographic_matrix", provide a comprehensive "Geographic Opportunity Matrix" covering ALL major cities or regions identified in the dataset. Do not limit to just 3; include as many as are relevant to show a complete geographic spread.
-- For "forecast.projection_data", provide at least 6-8 data points representing a logical progression.
-- For "strategic_growth", provide a comparison of current vs projected performance across key segments.
-- For "risk_heatmap", provide data points that can be visualized as a scatter or bubble chart (risk vs impact).
-- For "operational_efficiency", provide scores (0-100) for different operational areas.
-- Ensure all JSON is valid and strictly follows the schema.
-`;
-
-      console.log("Sending request to Gemini (Flash)...");
-      const response = await withRetry(() => ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: {
-          systemInstruction: systemInstruction,
-          responseMimeType: "application/json",
-        },
-      }));
-
-      if (!response.text) {
-        throw new Error("Model returned empty response");
-      }
 
-      const result = JSON.parse(response.text);
-      
-      // Basic validation/fallback
-      if (!result.data_summary) {
-        result.data_summary = {
-          detected_entities: [],
-          key_metrics: [],
-          relationships: []
-        };
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    let closed = false;
+    res.on("close", () => { closed = true; });
+    const send = (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      console.log("Intelligence Engine v2.6 starting streamed analysis...");
+      const result = await runAnalysis({ dataset, query, context: scopedContext(context, resolved.filters), provider, model, dropUnsupported: dropUnsupported === true, schema: schema.value ?? undefined }, {
+        onProgress: event => send("progress", { ...event, at: Date.now() }),
+        onSection: (key, value) => send("section", { key, value }),
+      });
+
+      if (owner) {
+        send("progress", { phase: "saving", message: "Saving report to history", at: Date.now() });
+        // Inline uploads are stored too, so every saved report can be re-run
+        const datasetName = resolved.datasetName ?? (typeof save.datasetName === "string" ? save.datasetName : "");
+        const datasetId = resolved.datasetId
+          ?? saveDataset(db, workspace!.id, owner.id, datasetName, resolved.rows, resolved.recipe).dataset.id;
+        saveReport(save.id, owner.id, workspace!.id, query, context, result, normalizeTags(save.tags), datasetId);
       }
-      if (!result.insights) result.insights = [];
-      if (!result.anomalies) result.anomalies = [];
-      if (!result.risk_analysis) result.risk_analysis = [];
-      if (!result.recommendations) result.recommendations = [];
-      if (!result.risk_heatmap) result.risk_heatmap = { title: "Risk Distribution", data: [] };
-      if (!result.operational_efficiency) result.operational_efficiency = { title: "Operational Efficiency", metrics: [] };
-      if (!result.geographic_matrix) result.geographic_matrix = { title: "Geographic Opportunity Matrix", data: [] };
-
-      console.log("Analysis successful");
-      res.json(result);
+      if (user) dispatchAlerts(db, user.id, result, { reportId: owner ? save.id : null, query });
+
+      send("progress", { phase: "complete", message: "Analysis complete", at: Date.now() });
+      send("result", result);
     } catch (error: any) {
       console.error("Analysis Error:", error);
-      const status = error.status || (error.response && error.response.status) || 500;
-      const message = error.message?.toLowerCase() || "";
-      
-      if (status === 400 && message.includes("api key not valid")) {
-        const keySource = process.env.COGAPI3 ? 'COGAPI3' : process.env.GEMINI_API_KEY ? 'GEMINI_API_KEY' : 'Unknown';
-        return res.status(400).json({ 
-          error: `The Gemini API key is invalid. Current key source: ${keySource}. Please update your environment variables in AI Studio.` 
-        });
-      }
-
-      if (status === 429 || message.includes("rate exceeded") || message.includes("quota")) {
-        return res.status(429).json({ 
-          error: "Gemini API rate limit exceeded. The system is currently under high load. Please wait a few moments and try again." 
-        });
-      }
-      
-      res.status(status).json({ error: error.message || "Failed to analyze data" });
+      send("error", describeAnalysisError(error));
+    } finally {
+      res.end();
     }
   });
 
@@ -455,6 +886,8 @@ Perform full intelligence analysis and return the results in the specified JSON
     app.listen(PORT, "0.0.0.0", () => {
       console.log(`Server running on http://localhost:${PORT}`);
     });
+    // Serverless instances don't live long enough to keep a schedule
+    startScheduler(db, saveReport);
   }
 
 export default app;
@@ -3,8 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback, useMemo } from 'react';
-import Papa from 'papaparse';
+import React, { useState, useCallback, useMemo, useDeferredValue } from 'react';
 import * as XLSX from 'xlsx';
 import { 
   Upload, 
@@ -13,93 +12,69 @@ import {
   AlertTriangle, 
   Zap, 
   ShieldAlert, 
-  CheckCircle2, 
   ChevronRight,
-  BarChart3,
   Search,
   FileText,
   Loader2,
-  ArrowUpRight,
-  ArrowDownRight,
-  Minus,
-  Globe,
   History,
   Download,
   LogOut,
   User as UserIcon,
-  Clock,
   Printer,
-  ChevronDown
+  ChevronDown,
+  CalendarClock,
+  Bell,
+  Share2,
+  SlidersHorizontal,
+  Layers,
+  Wand2,
+  Table2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { 
-  LineChart, 
-  Line, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  ResponsiveContainer,
-  AreaChart,
-  Area,
-  PieChart,
-  Pie,
-  Cell,
-  BarChart,
-  Bar,
-  Legend,
-  ScatterChart,
-  Scatter,
-  ZAxis,
-  RadarChart,
-  PolarGrid,
-  PolarAngleAxis,
-  PolarRadiusAxis,
-  Radar
-} from 'recharts';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
+import type { ColumnProfile } from '@/lib/profile';
+import type { AnalysisResult } from '@/lib/schema';
+import type { ProviderStatus } from '@/lib/providers/types';
+import { cn } from './lib/utils';
+import { readEventStream } from './lib/sse';
+import { AnalysisTimeline, type TimelineEvent } from './components/AnalysisTimeline';
+import { ReportChat } from './components/ReportChat';
+import { HistoryDrawer, type ReportHistory } from './components/HistoryDrawer';
+import { CompareView } from './components/CompareView';
+import { SchedulerDrawer } from './components/SchedulerDrawer';
+import { AlertsDrawer } from './components/AlertsDrawer';
+import { ReportView } from './components/ReportView';
+import { ShareDrawer } from './components/ShareDrawer';
+import { ScenarioDrawer } from './components/ScenarioDrawer';
+import { WorkspaceSwitcher, type WorkspaceState } from './components/WorkspaceSwitcher';
+import { WorkspaceDrawer } from './components/WorkspaceDrawer';
+import { SheetPicker, planLabel, type SheetPlan } from './components/SheetPicker';
+import { readWorkbook, type SheetTable, type Table } from '@/lib/workbook';
+import { ACCEPTED_EXTENSIONS, MAX_SQLITE_UPLOAD_BYTES, detectFormat, parseParquet, parseTextFormat } from '@/lib/formats';
+import type { SqliteTableInfo } from '@/lib/sqliteFile';
+import { SqliteTablePicker } from './components/SqliteTablePicker';
+import { PrepDrawer } from './components/PrepDrawer';
+import { applyRecipe, type PrepStep } from '@/lib/prep';
+import { applySchema, detectSchema, type ColumnSchema, type SemanticType } from '@/lib/semantic';
+import { SchemaPanel } from './components/SchemaPanel';
+import { DataGrid, EMPTY_GRID_VIEW, type GridView } from './components/DataGrid';
+import { activeFilters, applyFilters, filterIndices, type Row } from '@/lib/grid';
+import { DrillDownDrawer, type DrillSource } from './components/DrillDownDrawer';
+import type { DrillTarget } from '@/lib/drilldown';
+
+// Gzip a JSON payload so full datasets fit through the upload limit.
+// Falls back to plain JSON on browsers without CompressionStream.
+async function encodeJsonBody(payload: unknown): Promise<{ body: BodyInit; headers: Record<string, string> }> {
+  const json = JSON.stringify(payload);
+  if (typeof CompressionStream === 'undefined') {
+    return { body: json, headers: { 'Content-Type': 'application/json' } };
+  }
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  const body = await new Response(stream).blob();
+  return { body, headers: { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' } };
 }
 
 // --- Types ---
 
-interface KeyMetric {
-  name: string;
-  value: string;
-  trend: 'up' | 'down' | 'stable';
-}
-
-interface Insight {
-  title: string;
-  description: string;
-  data_evidence: string;
-  impact_level: 'Low' | 'Medium' | 'High';
-}
-
-interface Anomaly {
-  type: string;
-  location: string;
-  reasoning: string;
-  severity: 'Low' | 'Medium' | 'High';
-}
-
-interface Risk {
-  risk_type: string;
-  probability: string;
-  business_impact: string;
-  evidence: string;
-}
-
-interface Recommendation {
-  action: string;
-  justification: string;
-  expected_outcome: string;
-  confidence_score: number;
-}
-
 interface SystemHealth {
   status: string;
   firebase: boolean;
@@ -107,17 +82,13 @@ interface SystemHealth {
   googleClientId: boolean;
   geminiKeyConfigured: boolean;
   geminiKeyName: string;
+  provider: { id: string; model: string; configured: boolean };
+  providers: ProviderStatus[];
+  fixtures: { mode: 'off' | 'record' | 'replay'; dir: string | null };
   redirectUri: string;
   origin: string;
 }
 
-interface Visualization {
-  type: 'pie' | 'bar' | 'line' | 'area';
-  title: string;
-  data: { name: string; value: number }[];
-  description: string;
-}
-
 interface User {
   id: string;
   name: string;
@@ -125,181 +96,174 @@ interface User {
   avatar: string;
 }
 
-interface ReportHistory {
-  id: string;
-  query: string;
-  context: string;
-  result: AnalysisResult;
-  created_at: string;
-}
-
-interface AnalysisResult {
-  data_summary: {
-    detected_entities: string[];
-    key_metrics: KeyMetric[];
-    relationships: string[];
-  };
-  visualizations: Visualization[];
-  insights: Insight[];
-  anomalies: Anomaly[];
-  forecast: {
-    time_horizon: string;
-    predicted_trend: string;
-    confidence_level: string;
-    projection_data?: { period: string; value: number }[];
-  };
-  strategic_growth?: {
-    title: string;
-    data: { label: string; current: number; projected: number }[];
-  };
-  market_expansion?: {
-    title: string;
-    data: { segment: string; opportunity_score: number; risk_factor: number }[];
-  };
-  geographic_matrix?: {
-    title: string;
-    data: { city: string; score: number; risk: number }[];
-  };
-  risk_heatmap?: {
-    title: string;
-    data: { category: string; risk_score: number; impact: number }[];
-  };
-  operational_efficiency?: {
-    title: string;
-    metrics: { label: string; score: number }[];
-  };
-  risk_analysis: Risk[];
-  recommendations: Recommendation[];
-}
-
 // --- Components ---
 
-const ImpactBadge = ({ level }: { level: 'Low' | 'Medium' | 'High' }) => {
-  const styles = {
-    High: "bg-red-50 text-red-700 border-red-100",
-    Medium: "bg-amber-50 text-amber-700 border-amber-100",
-    Low: "bg-emerald-50 text-emerald-700 border-emerald-100",
-  };
-  return (
-    <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border", styles[level])}>
-      {level}
-    </span>
-  );
+const formatStat = (value: number | string | undefined) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value.slice(0, 10);
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 0 }) : String(Number(value.toFixed(2)));
 };
 
-const CHART_COLORS = ['#1C1917', '#44403C', '#78716C', '#A8A29E', '#D6D3D1', '#E7E5E4'];
-
-const VisualCard = ({ viz }: { viz: Visualization }) => {
-  return (
-    <motion.div 
-      whileHover={{ y: -4 }}
-      className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm transition-shadow hover:shadow-md"
-    >
-      <div className="mb-4">
-        <h4 className="text-sm font-bold text-stone-900">{viz.title}</h4>
-        <p className="text-[10px] text-stone-500">{viz.description}</p>
-      </div>
-      <div className="h-64 w-full">
-        <ResponsiveContainer width="100%" height="100%">
-          {viz.type === 'pie' ? (
-            <PieChart>
-              <Pie
-                data={viz.data}
-                cx="50%"
-                cy="50%"
-                innerRadius={60}
-                outerRadius={80}
-                paddingAngle={5}
-                dataKey="value"
-              >
-                {viz.data.map((_, index) => (
-                  <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
-                ))}
-              </Pie>
-              <Tooltip 
-                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
-              />
-              <Legend verticalAlign="bottom" height={36} iconType="circle" wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }} />
-            </PieChart>
-          ) : viz.type === 'bar' ? (
-            <BarChart data={viz.data}>
-              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
-              <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} />
-              <YAxis fontSize={10} axisLine={false} tickLine={false} />
-              <Tooltip cursor={{ fill: '#F5F5F4' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
-              <Bar dataKey="value" fill="#1C1917" radius={[4, 4, 0, 0]} />
-            </BarChart>
-          ) : (
-            <LineChart data={viz.data}>
-              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
-              <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} />
-              <YAxis fontSize={10} axisLine={false} tickLine={false} />
-              <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
-              <Line type="monotone" dataKey="value" stroke="#1C1917" strokeWidth={2} dot={{ r: 4, fill: '#1C1917' }} />
-            </LineChart>
-          )}
-        </ResponsiveContainer>
+const ColumnProfileRow = ({ column }: { column: ColumnProfile }) => (
+  <div className="bg-white/5 p-2 rounded border border-white/5 space-y-1">
+    <div className="flex justify-between items-center gap-2">
+      <span className="text-[10px] font-mono truncate">{column.name}</span>
+      <span className="text-[8px] font-bold uppercase tracking-widest text-stone-500 shrink-0">{column.semantic ?? column.type}</span>
+    </div>
+    <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[9px] font-mono opacity-60">
+      <span>null {(column.null_rate * 100).toFixed(1)}%</span>
+      <span>distinct {column.distinct_count}</span>
+      {column.type === 'number' && (
+        <>
+          <span>min {formatStat(column.min)}</span>
+          <span>max {formatStat(column.max)}</span>
+          <span>mean {formatStat(column.mean)}</span>
+          <span>std {formatStat(column.std)}</span>
+          {column.quantiles && <span>p25/p50/p75 {formatStat(column.quantiles.p25)}/{formatStat(column.quantiles.p50)}/{formatStat(column.quantiles.p75)}</span>}
+        </>
+      )}
+      {column.type === 'date' && <span>{formatStat(column.min)} → {formatStat(column.max)}</span>}
+    </div>
+    {column.type !== 'number' && column.top_categories && column.top_categories.length > 0 && (
+      <div className="text-[9px] font-mono opacity-40 truncate">
+        {column.top_categories.map(t => `${t.value} (${(t.share * 100).toFixed(0)}%)`).join(' · ')}
       </div>
-    </motion.div>
-  );
-};
-const MetricCard = ({ metric }: { metric: KeyMetric }) => {
-  const TrendIcon = metric.trend === 'up' ? ArrowUpRight : metric.trend === 'down' ? ArrowDownRight : Minus;
-  const trendColor = metric.trend === 'up' ? 'text-emerald-600' : metric.trend === 'down' ? 'text-red-600' : 'text-stone-400';
+    )}
+  </div>
+);
+
+const EXPORT_OPTIONS = [
+  { format: 'pdf', label: 'PDF report' },
+  { format: 'xlsx', label: 'Excel workbook' },
+  { format: 'md', label: 'Markdown brief' },
+  { format: 'pptx', label: 'PowerPoint deck' },
+];
+
+// Server-side exports need a saved report; printing works for anything on screen
+const ExportMenu = ({ reportId, onPrint }: { reportId: string | null; onPrint: () => void }) => {
+  const [open, setOpen] = useState(false);
 
   return (
-    <motion.div 
-      whileHover={{ scale: 1.02, y: -2 }}
-      className="bg-white p-5 rounded-2xl border border-stone-200 shadow-sm transition-shadow hover:shadow-md"
-    >
-      <div className="flex justify-between items-start mb-2">
-        <span className="text-stone-500 text-xs font-medium uppercase tracking-tight">{metric.name}</span>
-        <TrendIcon size={16} className={trendColor} />
-      </div>
-      <div className="text-2xl font-semibold tracking-tight text-stone-900">{metric.value}</div>
-    </motion.div>
+    <div className="relative">
+      <button 
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-900 rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-stone-200 transition-all"
+      >
+        <Download size={14} />
+        Export Report
+        <ChevronDown size={12} className={cn("transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-white border border-stone-200 rounded-xl shadow-lg z-20 py-1" onMouseLeave={() => setOpen(false)}>
+          {EXPORT_OPTIONS.map(option => reportId ? (
+            <a
+              key={option.format}
+              href={`/api/reports/${reportId}/export/${option.format}`}
+              onClick={() => setOpen(false)}
+              className="flex items-center justify-between px-4 py-2 text-xs text-stone-700 hover:bg-stone-50"
+            >
+              {option.label}
+              <span className="font-mono text-[10px] text-stone-400">.{option.format}</span>
+            </a>
+          ) : (
+            <div key={option.format} className="flex items-center justify-between px-4 py-2 text-xs text-stone-300 cursor-not-allowed" title="Sign in and save the report to export">
+              {option.label}
+              <span className="font-mono text-[10px]">.{option.format}</span>
+            </div>
+          ))}
+          <div className="border-t border-stone-100 my-1" />
+          <button
+            onClick={() => { setOpen(false); onPrint(); }}
+            className="w-full flex items-center gap-2 px-4 py-2 text-xs text-stone-700 hover:bg-stone-50"
+          >
+            <Printer size={12} />
+            Print view
+          </button>
+        </div>
+      )}
+    </div>
   );
 };
 
 export default function App() {
   const [data, setData] = useState<any[]>([]);
   const [headers, setHeaders] = useState<string[]>([]);
+  // Name of the loaded file, and the stored dataset id when the rows came from the server
+  const [datasetName, setDatasetName] = useState('');
+  const [datasetId, setDatasetId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [query, setQuery] = useState('');
   const [context, setContext] = useState('');
+  const [providerId, setProviderId] = useState('');
+  const [modelName, setModelName] = useState('');
+  // Set once the displayed result is saved, so follow-up chat has a thread to attach to
+  const [currentReportId, setCurrentReportId] = useState<string | null>(null);
 
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TimelineEvent[]>([]);
+  const [analysisStartedAt, setAnalysisStartedAt] = useState(0);
+  const [streamedSections, setStreamedSections] = useState(0);
 
   const [isDragging, setIsDragging] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [history, setHistory] = useState<ReportHistory[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [tags, setTags] = useState('');
   const [showHistory, setShowHistory] = useState(false);
+  const [showScheduler, setShowScheduler] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [workspaceState, setWorkspaceState] = useState<WorkspaceState | null>(null);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  // Multi-sheet workbook behind the current data, kept so the sheet choice can be revised
+  const [workbook, setWorkbook] = useState<{ fileName: string; sheets: SheetTable[]; plan?: SheetPlan } | null>(null);
+  // SQLite uploads are read server-side one table at a time, so the file is kept for re-picking
+  const [sqliteUpload, setSqliteUpload] = useState<{ file: File; tables: SqliteTableInfo[]; table?: string } | null>(null);
+  const [showSheetPicker, setShowSheetPicker] = useState(false);
+  // Cleanup steps applied to the rows before analysis, stored with the dataset
+  const [recipe, setRecipe] = useState<PrepStep[]>([]);
+  const [showPrep, setShowPrep] = useState(false);
+  // Semantic types the user corrected in the schema panel, by column name
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, SemanticType>>({});
+  const [gridView, setGridView] = useState<GridView>(EMPTY_GRID_VIEW);
+  const [showGrid, setShowGrid] = useState(false);
+  // Whether the grid filters also limit the rows sent for analysis
+  const [scopeToGrid, setScopeToGrid] = useState(false);
+  // Rows behind the report on screen: the analyzed rows for a fresh run, the
+  // stored dataset (fetched on first drill-down) for one opened from history
+  const [reportData, setReportData] = useState<{ rows: Row[]; headers: string[]; schema: ColumnSchema[] } | { datasetId: string } | null>(null);
+  const [drillSource, setDrillSource] = useState<DrillSource | null>(null);
+  const [drillTarget, setDrillTarget] = useState<DrillTarget | null>(null);
+  const [drillError, setDrillError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<[ReportHistory, ReportHistory] | null>(null);
   const [currentView, setCurrentView] = useState<'app' | 'terms' | 'privacy' | 'docs' | 'security'>('app');
   const [health, setHealth] = useState<SystemHealth | null>(null);
   const [showHealthDebug, setShowHealthDebug] = useState(false);
 
+  // Viewers can browse and export the workspace's reports but not add to them
+  const canAnalyze = workspaceState?.active.role !== 'viewer';
+  const prepared = useMemo(() => applyRecipe(data, recipe, headers), [data, recipe, headers]);
+  const detectedSchema = useMemo(() => detectSchema(prepared.rows, prepared.headers), [prepared]);
+  // Filtering a few hundred thousand rows per keystroke is deferred so typing stays responsive
+  const gridFilters = useDeferredValue(gridView.filters);
+  const gridIndices = useMemo(() => filterIndices(prepared.rows, gridFilters), [prepared, gridFilters]);
+  const isGridScoped = scopeToGrid && activeFilters(gridView.filters).length > 0;
+
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   React.useEffect(() => {
-    const savedUser = localStorage.getItem('cognitia_user');
-    if (savedUser) {
-      const u = JSON.parse(savedUser);
-      setUser(u);
-      fetchHistory(u.id);
-    }
+    // The session lives in an HTTP-only cookie; ask the server who we are
+    loadSession();
 
     const handleMessage = (event: MessageEvent) => {
-      // Validate origin is from AI Studio preview or localhost
-      const origin = event.origin;
-      if (!origin.endsWith('.run.app') && !origin.includes('localhost')) {
+      // The OAuth callback is served from our own origin
+      if (event.origin !== window.location.origin) {
         return;
       }
       if (event.data?.type === 'OAUTH_AUTH_SUCCESS') {
-        const u = event.data.user;
-        setUser(u);
-        localStorage.setItem('cognitia_user', JSON.stringify(u));
-        fetchHistory(u.id);
+        loadSession();
       }
     };
     window.addEventListener('message', handleMessage);
@@ -324,14 +288,77 @@ export default function App() {
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
-  const fetchHistory = async (userId: string) => {
+  const loadSession = async () => {
+    try {
+      const res = await fetch('/api/auth/me');
+      if (!res.ok) return;
+      setUser(await res.json());
+      fetchWorkspaces();
+      fetchHistory();
+    } catch (e) {
+      console.error("Session check failed", e);
+    }
+  };
+
+  const fetchWorkspaces = async () => {
     try {
-      const res = await fetch(`/api/reports?userId=${userId}`);
+      const res = await fetch('/api/workspaces');
+      if (res.ok) setWorkspaceState(await res.json());
+    } catch (e) {
+      console.error("Fetch workspaces failed", e);
+    }
+  };
+
+  // Reports on screen belong to the previous workspace, so start from a clean slate
+  const enterWorkspace = () => {
+    setResult(null);
+    setCurrentReportId(null);
+    setComparison(null);
+    setDatasetId(null);
+    fetchWorkspaces();
+    fetchHistory();
+  };
+
+  const switchWorkspace = async (id: string) => {
+    try {
+      const res = await fetch(`/api/workspaces/${id}/switch`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Switch failed');
+    } catch (e: any) {
+      setError(e.message);
+    }
+    enterWorkspace();
+  };
+
+  const createWorkspace = async (name: string) => {
+    const res = await fetch('/api/workspaces', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Could not create workspace');
+    enterWorkspace();
+  };
+
+  const respondToInvitation = async (invitation: { id: string }, accept: boolean) => {
+    try {
+      const res = await fetch(`/api/invitations/${invitation.id}/${accept ? 'accept' : 'decline'}`, { method: 'POST' });
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Invitation could not be answered');
+    } catch (e: any) {
+      setError(e.message);
+    }
+    if (accept) enterWorkspace();
+    else fetchWorkspaces();
+  };
+
+  const fetchHistory = async () => {
+    try {
+      const res = await fetch('/api/reports?limit=10');
       if (res.ok) {
         const contentType = res.headers.get("content-type");
         if (contentType && contentType.includes("application/json")) {
           const data = await res.json();
-          setHistory(data);
+          setHistory(data.items);
+          setHistoryVersion(v => v + 1);
         }
       }
     } catch (e) {
@@ -360,13 +387,25 @@ export default function App() {
     }
   };
 
-  const handleSignOut = () => {
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (e) {
+      console.error("Sign out failed", e);
+    }
     setUser(null);
-    localStorage.removeItem('cognitia_user');
+    setWorkspaceState(null);
+    setShowWorkspace(false);
     setHistory([]);
     setShowHistory(false);
     setData([]);
+    setRecipe([]);
+    setTypeOverrides({});
+    setGridView(EMPTY_GRID_VIEW);
+    setWorkbook(null);
+    setSqliteUpload(null);
     setResult(null);
+    setCurrentReportId(null);
     setQuery('');
     setContext('');
     setError(null);
@@ -376,10 +415,50 @@ export default function App() {
     window.print();
   };
 
+  // Loads the stored dataset behind a report so it can be run with a new query
+  const reanalyzeFromHistory = async (h: ReportHistory) => {
+    if (!h.dataset_id) return;
+    try {
+      const res = await fetch(`/api/datasets/${h.dataset_id}/download?format=json`);
+      if (!res.ok) throw new Error('The stored dataset could not be loaded.');
+      const rows = await res.json();
+      // The recipe saved with the dataset is replayed so the re-run sees the same cleanup
+      const meta = await fetch(`/api/datasets/${h.dataset_id}`);
+      setRecipe(meta.ok ? (await meta.json()).recipe : []);
+      setTypeOverrides({});
+      setGridView(EMPTY_GRID_VIEW);
+      setData(rows);
+      setHeaders(rows.length > 0 ? Object.keys(rows[0]) : []);
+      setDatasetName(h.dataset_name || '');
+      setDatasetId(h.dataset_id);
+      setWorkbook(null);
+      setSqliteUpload(null);
+      setComparison(null);
+      setResult(null);
+      setCurrentReportId(null);
+      setContext(h.context);
+      setQuery('');
+      setError(null);
+      setShowHistory(false);
+    } catch (err: any) {
+      setError(err.message);
+      setShowHistory(false);
+    }
+  };
+
   const loadFromHistory = (h: ReportHistory) => {
     setResult(h.result);
+    setReportData(h.dataset_id ? { datasetId: h.dataset_id } : null);
+    setDrillSource(null);
+    setCurrentReportId(h.id);
     setQuery(h.query);
     setContext(h.context);
+    setComparison(null);
+    setShowHistory(false);
+  };
+
+  const compareFromHistory = (before: ReportHistory, after: ReportHistory) => {
+    setComparison([before, after]);
     setShowHistory(false);
   };
 
@@ -394,90 +473,116 @@ export default function App() {
       { Date: '2025-01-07', Region: 'East', Product: 'Alpha', Sales: 13400, Growth: 0.10, Risk: 'Low' },
     ];
     setData(sample);
+    setRecipe([]);
+    setTypeOverrides({});
+    setGridView(EMPTY_GRID_VIEW);
     setHeaders(Object.keys(sample[0]));
+    setDatasetName('Sample dataset');
+    setWorkbook(null);
+    setSqliteUpload(null);
+    setDatasetId(null);
     setContext("Enterprise Sales Performance Q1");
     setQuery("Analyze growth trends and identify high-risk segments.");
   };
 
-  const processFile = (file: File) => {
+  const applySheetPlan = (table: Table, plan: SheetPlan) => {
+    if (!workbook) return;
+    setData(table.rows);
+    setHeaders(table.headers);
+    setGridView(EMPTY_GRID_VIEW);
+    setDatasetName(`${workbook.fileName} · ${planLabel(plan)}`);
+    setDatasetId(null);
+    setWorkbook({ ...workbook, plan });
+    setShowSheetPicker(false);
+  };
+
+  const loadSqliteTable = async (upload: { file: File; tables: SqliteTableInfo[] }, table: string) => {
+    const res = await fetch(`/api/files/sqlite?table=${encodeURIComponent(table)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: upload.file,
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || 'The table could not be read');
+    if (body.rows.length === 0) throw new Error(`${table} has no rows`);
+    setData(body.rows);
+    setHeaders(body.headers);
+    setGridView(EMPTY_GRID_VIEW);
+    setDatasetName(`${upload.file.name} · ${table}`);
+    setDatasetId(null);
+    setSqliteUpload({ ...upload, table });
+    setShowSheetPicker(false);
+    setError(body.truncated ? `Only the first ${body.rows.length.toLocaleString()} rows of ${table} were loaded.` : null);
+  };
+
+  const processFile = async (file: File) => {
     console.log("Processing file:", file.name, file.size);
-    const fileName = file.name.toLowerCase();
-    const isCsv = fileName.endsWith('.csv');
-    const isExcel = fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
+    const format = detectFormat(file.name, new Uint8Array(await file.slice(0, 512).arrayBuffer()));
 
-    if (!isCsv && !isExcel) {
-      setError("Invalid file type. Please upload a CSV or Excel file.");
+    if (!format) {
+      setError("Unsupported file type. Upload a CSV, TSV, Excel, JSON, NDJSON, Parquet or SQLite file.");
       return;
     }
 
     setIsAnalyzing(true);
     setError(null);
+    setDatasetName(file.name);
+    setDatasetId(null);
+    setRecipe([]);
+    setTypeOverrides({});
+    setGridView(EMPTY_GRID_VIEW);
+    setWorkbook(null);
+    setSqliteUpload(null);
 
-    if (isCsv) {
-      Papa.parse(file, {
-        header: true,
-        dynamicTyping: true,
-        skipEmptyLines: 'greedy',
-        worker: false,
-        complete: (results) => {
-          console.log("Parse complete. Rows:", results.data.length);
-          setIsAnalyzing(false);
-          if (results.errors.length > 0) {
-            console.error("PapaParse Errors:", results.errors);
-            setError("Failed to parse CSV file. Some rows may be malformed.");
-            if (results.data.length > 0) {
-              setData(results.data);
-              if (results.meta.fields) setHeaders(results.meta.fields);
-            }
-            return;
-          }
-          if (!results.data || results.data.length === 0) {
-            setError("The uploaded CSV file contains no data.");
-            return;
-          }
-          setData(results.data);
-          if (results.meta.fields) {
-            setHeaders(results.meta.fields);
-          }
-        },
-        error: (err) => {
-          console.error("PapaParse Global Error:", err);
-          setIsAnalyzing(false);
-          setError("Error reading file: " + err.message);
+    try {
+      if (format === 'excel') {
+        const sheets = readWorkbook(XLSX.read(await file.arrayBuffer(), { type: 'array' })).filter(s => s.rows.length > 0);
+        console.log("Excel Parse complete. Sheets:", sheets.map(s => `${s.name} (${s.rows.length})`).join(', '));
+        if (sheets.length === 0) {
+          setError("The uploaded Excel file contains no data.");
+        } else if (sheets.length === 1) {
+          setData(sheets[0].rows);
+          setHeaders(sheets[0].headers);
+        } else {
+          setWorkbook({ fileName: file.name, sheets });
+          setShowSheetPicker(true);
         }
-      });
-    } else if (isExcel) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          const json = XLSX.utils.sheet_to_json(worksheet);
-          
-          console.log("Excel Parse complete. Rows:", json.length);
-          setIsAnalyzing(false);
-          
-          if (!json || json.length === 0) {
-            setError("The uploaded Excel file contains no data.");
-            return;
-          }
-          
-          setData(json);
-          setHeaders(Object.keys(json[0] as object));
-        } catch (err: any) {
-          console.error("Excel Parse Error:", err);
-          setIsAnalyzing(false);
-          setError("Error reading Excel file: " + err.message);
+      } else if (format === 'sqlite') {
+        if (file.size > MAX_SQLITE_UPLOAD_BYTES) {
+          throw new Error(`SQLite files are limited to ${MAX_SQLITE_UPLOAD_BYTES / 1024 / 1024}MB; export the table to CSV or Parquet instead`);
+        }
+        const res = await fetch('/api/files/sqlite', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: file,
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'The database could not be opened');
+        const upload = { file, tables: body.tables as SqliteTableInfo[] };
+        if (upload.tables.length === 1) {
+          await loadSqliteTable(upload, upload.tables[0].name);
+        } else {
+          setSqliteUpload(upload);
+          setShowSheetPicker(true);
+        }
+      } else {
+        const parsed = format === 'parquet'
+          ? await parseParquet(await file.arrayBuffer())
+          : parseTextFormat(format, await file.text());
+        console.log(`${format} parse complete. Rows:`, parsed.rows.length);
+        if (parsed.rows.length === 0) {
+          setError("The uploaded file contains no data.");
+        } else {
+          setData(parsed.rows);
+          setHeaders(parsed.headers);
+          if (parsed.skipped > 0) setError(`${parsed.skipped.toLocaleString()} malformed rows could not be parsed and were skipped.`);
         }
-      };
-      reader.onerror = (err) => {
-        console.error("FileReader Error:", err);
-        setIsAnalyzing(false);
-        setError("Error reading file.");
-      };
-      reader.readAsBinaryString(file);
+      }
+    } catch (err: any) {
+      console.error("File parse error:", err);
+      setError(`Error reading ${file.name}: ${err.message}`);
+    } finally {
+      setIsAnalyzing(false);
     }
   };
 
@@ -509,57 +614,78 @@ export default function App() {
     if (data.length === 0) return;
     setIsAnalyzing(true);
     setError(null);
+    setResult(null);
+    setCurrentReportId(null);
+    setProgress([]);
+    setStreamedSections(0);
+    setAnalysisStartedAt(Date.now());
+    setReportData(null);
+    setDrillSource(null);
+    // The schema as confirmed in the panel, so the engine types columns the same way
+    const schema = detectedSchema.map(c => ({ name: c.name, type: typeOverrides[c.name] ?? c.type }));
+    const analyzedRows = isGridScoped ? applyFilters(prepared.rows, gridView.filters) : prepared.rows;
     try {
-      const response = await fetch('/api/analyze', {
+      // The full dataset is sent compressed; the server profiles every row and
+      // builds a digest for the model instead of truncating.
+      const save = user && canAnalyze ? { id: 'rep_' + Date.now(), tags: tags.split(',').map(t => t.trim()).filter(Boolean), datasetName } : undefined;
+      // Stored datasets are referenced by id instead of being uploaded again
+      const { body, headers: requestHeaders } = await encodeJsonBody({
+        ...(datasetId ? { datasetId } : { dataset: data }),
+        recipe,
+        schema,
+        ...(isGridScoped ? { filters: gridView.filters } : {}),
+        query,
+        context,
+        provider: providerId || undefined,
+        model: modelName || undefined,
+        save,
+      });
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        // Only send a representative sample to the server to avoid payload size limits
-        // The server only needs a sample to understand the schema and provide insights
-        body: JSON.stringify({ 
-          dataset: data.slice(0, 500), 
-          query, 
-          context,
-          totalRows: data.length 
-        }),
+        headers: requestHeaders,
+        body,
       });
       
-      let json: any = {};
       const contentType = response.headers.get("content-type");
-      
-      if (contentType && contentType.includes("application/json")) {
-        json = await response.json();
-      } else {
-        const text = await response.text();
-        json = { error: text || "An unexpected error occurred." };
-      }
-      
-      if (!response.ok) {
-        if (response.status === 429 || json.error?.toLowerCase().includes("rate exceeded")) {
-          throw new Error("The Intelligence Engine is currently experiencing high demand. Please wait 30-60 seconds and try again.");
+      if (!response.ok || !response.body || !contentType?.includes("text/event-stream")) {
+        let json: any = {};
+        if (contentType && contentType.includes("application/json")) {
+          json = await response.json();
+        } else {
+          const text = await response.text();
+          json = { error: text || "An unexpected error occurred." };
         }
         throw new Error(json.error || "Intelligence Engine failed to process data.");
       }
-      
-      setResult(json);
-      
-      if (user) {
-        try {
-          await fetch('/api/reports', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              id: 'rep_' + Date.now(),
-              userId: user.id,
-              query,
-              context,
-              result: json
-            })
-          });
-          fetchHistory(user.id);
-        } catch (e) {
-          console.error("Failed to save report", e);
+
+      let finalResult: AnalysisResult | null = null;
+      let streamError: { status: number; error: string } | null = null;
+      await readEventStream(response.body, (event, payload) => {
+        if (event === 'progress') {
+          setProgress(prev => [...prev, payload]);
+        } else if (event === 'section') {
+          // Render sections as soon as the model finishes each one
+          setResult(prev => ({ ...(prev || {}), [payload.key]: payload.value } as AnalysisResult));
+          setStreamedSections(n => n + 1);
+        } else if (event === 'result') {
+          finalResult = payload;
+        } else if (event === 'error') {
+          streamError = payload;
+        }
+      });
+
+      if (streamError || !finalResult) {
+        const { status, error: message } = streamError || { status: 500, error: "The analysis stream ended unexpectedly." };
+        if (status === 429 || message.toLowerCase().includes("rate exceeded")) {
+          throw new Error("The Intelligence Engine is currently experiencing high demand. Please wait 30-60 seconds and try again.");
         }
+        throw new Error(message || "Intelligence Engine failed to process data.");
       }
+      
+      setResult(finalResult);
+      setReportData({ rows: analyzedRows, headers: prepared.headers, schema });
+      if (save) setCurrentReportId(save.id);
+      if (user) fetchHistory();
     } catch (err: any) {
       console.error(err);
       setError(err.message || "An unexpected error occurred during analysis.");
@@ -568,9 +694,37 @@ export default function App() {
     }
   };
 
+  const openDrill = async (target: DrillTarget) => {
+    setDrillTarget(target);
+    setDrillError(null);
+    if (drillSource || !reportData) return;
+    if ('rows' in reportData) {
+      setDrillSource({ rows: applySchema(reportData.rows, reportData.schema), headers: reportData.headers, schema: reportData.schema });
+      return;
+    }
+    try {
+      const res = await fetch(`/api/datasets/${reportData.datasetId}/download?format=json`);
+      if (!res.ok) throw new Error('The dataset behind this report could not be loaded.');
+      const rows = await res.json();
+      // Replays the stored cleanup; the types are re-detected since overrides aren't stored
+      const meta = await fetch(`/api/datasets/${reportData.datasetId}`);
+      const stored = applyRecipe(rows, meta.ok ? (await meta.json()).recipe : []);
+      const schema = detectSchema(stored.rows, stored.headers);
+      setDrillSource({ rows: applySchema(stored.rows, schema), headers: stored.headers, schema });
+    } catch (err: any) {
+      setDrillError(err.message);
+    }
+  };
+
   const reset = () => {
     setData([]);
+    setRecipe([]);
+    setTypeOverrides({});
+    setGridView(EMPTY_GRID_VIEW);
+    setWorkbook(null);
+    setSqliteUpload(null);
     setResult(null);
+    setCurrentReportId(null);
     setQuery('');
   };
 
@@ -618,6 +772,29 @@ export default function App() {
                     <span className="absolute top-1 right-1 w-2 h-2 bg-stone-900 rounded-full border border-white" />
                   )}
                 </button>
+                <button 
+                  onClick={() => setShowScheduler(true)}
+                  className="p-2 text-stone-500 hover:text-stone-900 transition-colors"
+                  title="Scheduled Analyses"
+                >
+                  <CalendarClock size={20} />
+                </button>
+                <button 
+                  onClick={() => setShowAlerts(true)}
+                  className="p-2 text-stone-500 hover:text-stone-900 transition-colors"
+                  title="Alert Rules"
+                >
+                  <Bell size={20} />
+                </button>
+                {workspaceState && (
+                  <WorkspaceSwitcher
+                    state={workspaceState}
+                    onSwitch={switchWorkspace}
+                    onCreate={createWorkspace}
+                    onRespond={respondToInvitation}
+                    onManage={() => setShowWorkspace(true)}
+                  />
+                )}
                 <div className="h-4 w-px bg-stone-200" />
                 <div className="flex items-center gap-3">
                   <img src={user.avatar} alt={user.name} className="w-8 h-8 rounded-full border border-stone-200" />
@@ -901,6 +1078,16 @@ export default function App() {
                                   </span>
                                 </div>
                               </div>
+                              <div className="p-4 bg-white border border-stone-200 rounded-xl flex flex-col gap-2">
+                                <div className="text-[9px] font-bold text-stone-400 uppercase">LLM Provider</div>
+                                <div className="flex items-center gap-2">
+                                  <div className={cn("w-2 h-2 rounded-full", health?.provider?.configured ? "bg-emerald-500" : "bg-red-500")} />
+                                  <span className="text-xs font-bold text-stone-900 truncate">
+                                    {health?.provider ? `${health.provider.id} (${health.provider.model})` : "Unknown"}
+                                    {health?.fixtures && health.fixtures.mode !== 'off' && ` • ${health.fixtures.mode}`}
+                                  </span>
+                                </div>
+                              </div>
                               <div className="p-4 bg-white border border-stone-200 rounded-xl flex flex-col gap-2">
                                 <div className="text-[9px] font-bold text-stone-400 uppercase">Environment URL</div>
                                 <div className="flex items-center gap-2">
@@ -925,6 +1112,8 @@ export default function App() {
               </div>
             </motion.div>
           </div>
+        ) : comparison ? (
+          <CompareView before={comparison[0]} after={comparison[1]} onClose={() => setComparison(null)} />
         ) : !data.length ? (
           <div className="min-h-[60vh] flex flex-col items-center justify-center py-12">
             <motion.div 
@@ -940,7 +1129,7 @@ export default function App() {
               <input 
                 type="file" 
                 ref={fileInputRef}
-                accept=".csv, .xlsx, .xls" 
+                accept={ACCEPTED_EXTENSIONS.join(', ')} 
                 onChange={handleFileUpload} 
                 className="hidden" 
               />
@@ -971,7 +1160,7 @@ export default function App() {
                     )}
                   </div>
                   <div className="text-sm font-medium text-stone-600">
-                    {isAnalyzing ? "Parsing Intelligence..." : isDragging ? "Release to Analyze" : "Drop CSV or Excel file or click to browse"}
+                    {isAnalyzing ? "Parsing Intelligence..." : isDragging ? "Release to Analyze" : "Drop a CSV, Excel, JSON, Parquet or SQLite file or click to browse"}
                   </div>
                   <div className="text-xs text-stone-400">Supports up to 50MB datasets</div>
                 </div>
@@ -999,10 +1188,57 @@ export default function App() {
                   <div className="flex items-center gap-3 p-3 bg-stone-50 rounded-xl border border-stone-100">
                     <FileText className="text-stone-400" size={20} />
                     <div>
-                      <div className="text-sm font-semibold text-stone-900">{data.length} Rows Detected</div>
-                      <div className="text-[10px] text-stone-500 uppercase tracking-tight">{headers.length} Columns</div>
+                      <div className="text-sm font-semibold text-stone-900">
+                        {recipe.length > 0 && prepared.rows.length !== data.length
+                          ? `${prepared.rows.length} of ${data.length} Rows`
+                          : `${data.length} Rows Detected`}
+                      </div>
+                      <div className="text-[10px] text-stone-500 uppercase tracking-tight">{prepared.headers.length} Columns</div>
                     </div>
+                    <button
+                      onClick={() => setShowPrep(true)}
+                      className={cn(
+                        "ml-auto flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest transition-colors",
+                        recipe.length > 0 ? "text-stone-900" : "text-stone-400 hover:text-stone-900"
+                      )}
+                      title={prepared.results.some(r => r.warning) ? 'Some preparation steps were skipped' : undefined}
+                    >
+                      <Wand2 size={12} />
+                      Prepare{recipe.length > 0 && ` (${recipe.length})`}
+                      {prepared.results.some(r => r.warning) && <AlertTriangle size={11} className="text-amber-500" />}
+                    </button>
+                    <button
+                      onClick={() => setShowGrid(true)}
+                      className={cn(
+                        "flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest transition-colors",
+                        activeFilters(gridView.filters).length > 0 ? "text-stone-900" : "text-stone-400 hover:text-stone-900"
+                      )}
+                    >
+                      <Table2 size={12} />
+                      Grid
+                    </button>
+                    {(workbook || sqliteUpload) && (
+                      <button
+                        onClick={() => setShowSheetPicker(true)}
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-stone-900 transition-colors"
+                        title={workbook?.plan ? planLabel(workbook.plan) : sqliteUpload?.table}
+                      >
+                        <Layers size={12} />
+                        {workbook ? 'Sheets' : 'Tables'}
+                      </button>
+                    )}
                   </div>
+                  {activeFilters(gridView.filters).length > 0 && (
+                    <label className="mt-2 flex items-center gap-2 text-[11px] text-stone-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={scopeToGrid}
+                        onChange={e => setScopeToGrid(e.target.checked)}
+                        className="accent-stone-900"
+                      />
+                      Analyze only the {gridIndices.length.toLocaleString()} rows matching the grid filters
+                    </label>
+                  )}
                 </div>
 
                 <div>
@@ -1027,6 +1263,45 @@ export default function App() {
                   />
                 </div>
 
+                {user && (
+                  <div>
+                    <label className="block text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-2">Tags</label>
+                    <input
+                      type="text"
+                      placeholder="e.g. quarterly, emea"
+                      value={tags}
+                      onChange={(e) => setTags(e.target.value)}
+                      className="w-full px-4 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:ring-2 focus:ring-stone-900/5 focus:border-stone-900 transition-all"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-2">Reasoning Engine</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={providerId}
+                      onChange={(e) => { setProviderId(e.target.value); setModelName(''); }}
+                      className="w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900 transition-all"
+                    >
+                      <option value="">Default{health?.provider ? ` (${health.provider.id})` : ''}</option>
+                      {health?.providers?.map(p => (
+                        <option key={p.id} value={p.id} disabled={!p.configured}>
+                          {p.label}{p.configured ? '' : ' — not configured'}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      placeholder={health?.providers?.find(p => p.id === (providerId || health?.provider?.id))?.defaultModel || 'Model'}
+                      value={modelName}
+                      disabled={providerId === 'offline'}
+                      onChange={(e) => setModelName(e.target.value)}
+                      className="w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs font-mono focus:outline-none focus:border-stone-900 transition-all disabled:opacity-50"
+                    />
+                  </div>
+                </div>
+
                 <button 
                   onClick={runAnalysis}
                   disabled={isAnalyzing}
@@ -1061,19 +1336,32 @@ export default function App() {
                 <div className="relative z-10">
                   <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-4">Schema & Data Preview</div>
                   <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-2">
-                      {headers.slice(0, 6).map(h => (
-                        <div key={h} className="flex items-center gap-2 text-[10px] font-mono opacity-80 truncate">
-                          <div className="w-1 h-1 bg-stone-500 rounded-full shrink-0" />
-                          {h}
-                        </div>
-                      ))}
-                    </div>
+                    <SchemaPanel
+                      detected={detectedSchema}
+                      overrides={typeOverrides}
+                      onChange={(name, type) => setTypeOverrides(prev => {
+                        const { [name]: _, ...rest } = prev;
+                        return type ? { ...rest, [name]: type } : rest;
+                      })}
+                    />
                     
+                    {result?.profile && (
+                      <div className="border-t border-white/10 pt-4">
+                        <div className="text-[9px] font-bold uppercase tracking-widest text-stone-500 mb-2">
+                          Column Profile • {result.profile.row_count.toLocaleString()} rows
+                        </div>
+                        <div className="space-y-1.5 max-h-72 overflow-y-auto pr-1">
+                          {result.profile.columns.map(c => (
+                            <ColumnProfileRow key={c.name} column={c} />
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="border-t border-white/10 pt-4">
                       <div className="text-[9px] font-bold uppercase tracking-widest text-stone-500 mb-2">Sample Rows</div>
                       <div className="space-y-1.5">
-                        {data.slice(0, 3).map((row, i) => (
+                        {prepared.rows.slice(0, 3).map((row, i) => (
                           <div key={i} className="text-[9px] font-mono opacity-60 truncate bg-white/5 p-1.5 rounded border border-white/5">
                             {JSON.stringify(row)}
                           </div>
@@ -1097,7 +1385,11 @@ export default function App() {
                 </div>
               )}
 
-              {isAnalyzing && (
+              {(isAnalyzing || (error && progress.length > 0)) && (
+                <AnalysisTimeline events={progress} startedAt={analysisStartedAt} sections={streamedSections} failed={!isAnalyzing && !!error} />
+              )}
+
+              {isAnalyzing && !result && (
                 <div className="space-y-6 animate-pulse">
                   <div className="h-32 bg-stone-200 rounded-2xl" />
                   <div className="grid grid-cols-3 gap-4">
@@ -1128,460 +1420,40 @@ export default function App() {
                         </button>
                       )}
                     </div>
-                    <button 
-                      onClick={handleExport}
-                      className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-900 rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-stone-200 transition-all"
-                    >
-                      <Printer size={14} />
-                      Export Report
-                    </button>
-                  </div>
-
-                  {result.risk_analysis?.some(r => r.probability.toLowerCase().includes('high')) && (
-                    <motion.div 
-                      initial={{ scale: 0.95, opacity: 0 }}
-                      animate={{ scale: 1, opacity: 1 }}
-                      className="bg-red-600 text-white p-4 rounded-2xl flex items-center justify-between shadow-xl shadow-red-200"
-                    >
-                      <div className="flex items-center gap-4">
-                        <div className="bg-white/20 p-2 rounded-lg">
-                          <AlertTriangle size={24} />
-                        </div>
-                        <div>
-                          <div className="text-sm font-bold uppercase tracking-widest">Critical Risks Detected</div>
-                          <p className="text-[10px] text-red-100">Immediate strategic intervention recommended for high-probability threats.</p>
-                        </div>
-                      </div>
-                      <button 
-                        onClick={() => document.getElementById('risk-analysis')?.scrollIntoView({ behavior: 'smooth' })}
-                        className="px-3 py-1 bg-white text-red-600 rounded-full text-[10px] font-bold uppercase tracking-widest hover:bg-red-50 transition-colors cursor-pointer"
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setShowScenarios(true)}
+                        disabled={!result.strategic_growth?.data.length}
+                        title={result.strategic_growth?.data.length ? 'Simulate what-if scenarios on the growth projection' : 'This report has no growth projection to simulate'}
+                        className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-900 rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-stone-200 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
                       >
-                        Action Required
+                        <SlidersHorizontal size={14} />
+                        Scenarios
                       </button>
-                    </motion.div>
-                  )}
-
-                  {/* Key Metrics Row */}
-                  {result.data_summary?.key_metrics && (
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print-break-inside-avoid">
-                      {result.data_summary.key_metrics.map((m, i) => (
-                        <MetricCard key={i} metric={m} />
-                      ))}
+                      <button
+                        onClick={() => setShowShare(true)}
+                        disabled={!currentReportId || !user || !canAnalyze}
+                        title={!canAnalyze ? 'Viewers cannot share reports' : currentReportId && user ? 'Share a read-only link' : 'Sign in and save the report to share it'}
+                        className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-900 rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-stone-200 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        <Share2 size={14} />
+                        Share
+                      </button>
+                      <ExportMenu reportId={currentReportId} onPrint={handleExport} />
                     </div>
-                  )}
-
-                  {/* Visualizations Section */}
-                  {result.visualizations && result.visualizations.length > 0 && (
-                    <section className="print-break-inside-avoid">
-                      <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
-                        <BarChart3 size={16} />
-                        Intelligence Visualizations
-                      </h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        {result.visualizations.map((viz, i) => (
-                          <VisualCard key={i} viz={viz} />
-                        ))}
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Insights Section */}
-                  {result.insights && result.insights.length > 0 && (
-                    <section className="print-break-inside-avoid">
-                      <div className="flex items-center justify-between mb-4">
-                        <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2">
-                          <TrendingUp size={16} />
-                          Strategic Insights
-                        </h3>
-                      </div>
-                      <div className="grid grid-cols-1 gap-4">
-                        {result.insights.map((insight, i) => (
-                          <div key={i} className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm hover:border-stone-400 transition-colors group">
-                            <div className="flex justify-between items-start mb-3">
-                              <h4 className="text-lg font-bold text-stone-900 group-hover:text-stone-700 transition-colors">{insight.title}</h4>
-                              <ImpactBadge level={insight.impact_level} />
-                            </div>
-                            <p className="text-stone-600 text-sm leading-relaxed mb-4">{insight.description}</p>
-                            <div className="flex items-start gap-2 p-3 bg-stone-50 rounded-xl border border-stone-100">
-                              <CheckCircle2 className="text-stone-400 shrink-0 mt-0.5" size={14} />
-                              <div className="text-[11px] font-mono text-stone-500">
-                                <span className="font-bold text-stone-700 uppercase tracking-tighter mr-2">Evidence:</span>
-                                {insight.data_evidence}
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Anomalies & Risks Grid */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print-break-inside-avoid">
-                    {result.anomalies && result.anomalies.length > 0 && (
-                      <section>
-                        <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
-                          <AlertTriangle size={16} />
-                          Anomalies Detected
-                        </h3>
-                        <div className="space-y-3">
-                          {result.anomalies.map((anomaly, i) => (
-                            <div key={i} className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
-                              <div className="flex justify-between items-center mb-2">
-                                <span className="text-xs font-bold text-stone-900">{anomaly.type}</span>
-                                <span className={cn(
-                                  "text-[10px] font-bold px-2 py-0.5 rounded uppercase",
-                                  anomaly.severity === 'High' ? 'bg-red-100 text-red-700' : 'bg-stone-100 text-stone-600'
-                                )}>
-                                  {anomaly.severity}
-                                </span>
-                              </div>
-                              <div className="text-[11px] text-stone-500 mb-1">Location: {anomaly.location}</div>
-                              <p className="text-xs text-stone-600 italic">"{anomaly.reasoning}"</p>
-                            </div>
-                          ))}
-                        </div>
-                      </section>
-                    )}
-
-                    {result.risk_analysis && result.risk_analysis.length > 0 && (
-                      <section id="risk-analysis">
-                        <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
-                          <ShieldAlert size={16} />
-                          Risk Analysis
-                        </h3>
-                        <div className="space-y-3">
-                          {result.risk_analysis.map((risk, i) => {
-                            const isHighRisk = risk.probability.toLowerCase().includes('high');
-                            return (
-                              <motion.div 
-                                key={i} 
-                                whileHover={{ scale: 1.02 }}
-                                className={cn(
-                                  "p-6 rounded-2xl border transition-all relative overflow-hidden",
-                                  isHighRisk 
-                                    ? "bg-red-50 border-red-200 shadow-lg shadow-red-100/50" 
-                                    : "bg-white border-stone-200 shadow-sm"
-                                )}
-                              >
-                                {isHighRisk && (
-                                  <div className="absolute top-0 right-0 p-2">
-                                    <div className="w-2 h-2 bg-red-500 rounded-full animate-ping" />
-                                  </div>
-                                )}
-                                <div className="flex justify-between items-start mb-4">
-                                  <h4 className={cn(
-                                    "text-sm font-bold max-w-[70%]",
-                                    isHighRisk ? "text-red-900" : "text-stone-900"
-                                  )}>{risk.risk_type}</h4>
-                                  <div className={cn(
-                                    "text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider border",
-                                    isHighRisk 
-                                      ? "bg-red-600 text-white border-red-700" 
-                                      : "bg-stone-50 text-stone-600 border-stone-100"
-                                  )}>
-                                    {risk.probability}
-                                  </div>
-                                </div>
-                                
-                                <div className="grid grid-cols-2 gap-4 mb-4">
-                                  <div className="flex flex-col">
-                                    <span className={cn(
-                                      "text-[9px] font-bold uppercase tracking-widest mb-1",
-                                      isHighRisk ? "text-red-400" : "text-stone-400"
-                                    )}>Probability</span>
-                                    <span className={cn(
-                                      "text-xs font-bold uppercase",
-                                      isHighRisk ? "text-red-700" : "text-stone-600"
-                                    )}>{risk.probability}</span>
-                                  </div>
-                                  <div className="flex flex-col">
-                                    <span className={cn(
-                                      "text-[9px] font-bold uppercase tracking-widest mb-1",
-                                      isHighRisk ? "text-red-400" : "text-stone-400"
-                                    )}>Impact Level</span>
-                                    <span className={cn(
-                                      "text-xs font-bold",
-                                      isHighRisk ? "text-red-900" : "text-stone-900"
-                                    )}>{risk.business_impact}</span>
-                                  </div>
-                                </div>
-
-                                <div className={cn(
-                                  "p-4 rounded-xl border",
-                                  isHighRisk ? "bg-red-100/50 border-red-200" : "bg-stone-50 border-stone-100"
-                                )}>
-                                  <p className={cn(
-                                    "text-xs leading-relaxed italic",
-                                    isHighRisk ? "text-red-800" : "text-stone-600"
-                                  )}>
-                                    "{risk.evidence}"
-                                  </p>
-                                </div>
-                              </motion.div>
-                            );
-                          })}
-                        </div>
-                      </section>
-                    )}
                   </div>
 
-                  {/* Risk Heatmap & Operational Efficiency */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print-break-inside-avoid">
-                    {result.risk_heatmap && result.risk_heatmap.data.length > 0 && (
-                      <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm">
-                        <div className="flex items-center justify-between mb-8">
-                          <div>
-                            <h3 className="text-lg font-bold text-stone-900">{result.risk_heatmap.title}</h3>
-                            <p className="text-xs text-stone-500">Risk Score vs Business Impact distribution.</p>
-                          </div>
-                          <AlertTriangle className="text-red-500" size={24} />
-                        </div>
-                        <div className="h-64 w-full">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                              <CartesianGrid strokeDasharray="3 3" stroke="#F5F5F4" />
-                              <XAxis type="number" dataKey="risk_score" name="Risk Score" unit="" fontSize={10} axisLine={false} tickLine={false} />
-                              <YAxis type="number" dataKey="impact" name="Impact" unit="" fontSize={10} axisLine={false} tickLine={false} />
-                              <ZAxis type="number" range={[100, 1000]} />
-                              <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
-                              <Legend verticalAlign="top" height={36}/>
-                              <Scatter name="Risk Categories" data={result.risk_heatmap.data} fill="#EF4444" />
-                            </ScatterChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </section>
-                    )}
-
-                    {result.operational_efficiency && result.operational_efficiency.metrics.length > 0 && (
-                      <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm">
-                        <div className="flex items-center justify-between mb-8">
-                          <div>
-                            <h3 className="text-lg font-bold text-stone-900">{result.operational_efficiency.title}</h3>
-                            <p className="text-xs text-stone-500">Operational performance across key dimensions.</p>
-                          </div>
-                          <Zap className="text-amber-500" size={24} />
-                        </div>
-                        <div className="h-64 w-full">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <RadarChart cx="50%" cy="50%" outerRadius="80%" data={result.operational_efficiency.metrics}>
-                              <PolarGrid stroke="#F5F5F4" />
-                              <PolarAngleAxis dataKey="label" fontSize={10} />
-                              <PolarRadiusAxis angle={30} domain={[0, 100]} fontSize={8} />
-                              <Radar name="Efficiency" dataKey="score" stroke="#1C1917" fill="#1C1917" fillOpacity={0.6} />
-                              <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
-                            </RadarChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </section>
-                    )}
-                  </div>
-
-                  {/* Forecast Section */}
-                  {result.forecast && (
-                    <section className="bg-stone-900 text-white p-8 rounded-3xl shadow-2xl relative overflow-hidden print-break-inside-avoid">
-                      <div className="absolute top-0 right-0 p-8 opacity-10">
-                        <TrendingUp size={160} />
-                      </div>
-                      <div className="relative z-10">
-                        <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-6">
-                          <BarChart3 size={16} />
-                          Predictive Forecast
-                        </h3>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
-                          <div>
-                            <div className="text-4xl font-serif italic mb-4">{result.forecast.predicted_trend}</div>
-                            <div className="space-y-4">
-                              <div className="flex items-center gap-4">
-                                <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500">Horizon</div>
-                                <div className="text-sm font-medium">{result.forecast.time_horizon}</div>
-                              </div>
-                              <div className="flex items-center gap-4">
-                                <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500">Confidence</div>
-                                <div className="px-3 py-1 bg-white/10 rounded-full text-xs font-bold">{result.forecast.confidence_level}</div>
-                              </div>
-                            </div>
-                          </div>
-                          <div className="h-64 bg-white/5 rounded-2xl flex items-center justify-center border border-white/10 p-6">
-                             {result.forecast.projection_data ? (
-                               <ResponsiveContainer width="100%" height="100%">
-                                 <AreaChart data={result.forecast.projection_data}>
-                                   <defs>
-                                     <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
-                                       <stop offset="5%" stopColor="#FFFFFF" stopOpacity={0.3}/>
-                                       <stop offset="95%" stopColor="#FFFFFF" stopOpacity={0}/>
-                                     </linearGradient>
-                                   </defs>
-                                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
-                                   <XAxis 
-                                     dataKey="period" 
-                                     fontSize={10} 
-                                     axisLine={false} 
-                                     tickLine={false} 
-                                     stroke="rgba(255,255,255,0.4)" 
-                                     dy={10}
-                                   />
-                                   <YAxis 
-                                     fontSize={10} 
-                                     axisLine={false} 
-                                     tickLine={false} 
-                                     stroke="rgba(255,255,255,0.4)"
-                                     tickFormatter={(val) => `${(val/1000).toFixed(0)}k`}
-                                   />
-                                   <Tooltip 
-                                     contentStyle={{ backgroundColor: '#1C1917', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: '12px' }}
-                                     itemStyle={{ color: '#FFFFFF' }}
-                                     cursor={{ stroke: 'rgba(255,255,255,0.2)', strokeWidth: 1 }}
-                                   />
-                                   <Area 
-                                     type="monotone" 
-                                     dataKey="value" 
-                                     stroke="#FFFFFF" 
-                                     fillOpacity={1} 
-                                     fill="url(#colorValue)" 
-                                     strokeWidth={3}
-                                     animationDuration={1500}
-                                   />
-                                 </AreaChart>
-                               </ResponsiveContainer>
-                             ) : (
-                               <div className="text-stone-500 text-xs italic">Visual projection generated from intelligence core</div>
-                             )}
-                          </div>
-                        </div>
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Recommendations */}
-                  {result.recommendations && result.recommendations.length > 0 && (
-                    <section className="print-break-inside-avoid">
-                      <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
-                        <CheckCircle2 size={16} />
-                        Decision Intelligence
-                      </h3>
-                      <div className="grid grid-cols-1 gap-4">
-                        {result.recommendations.map((rec, i) => (
-                          <div key={i} className="bg-white p-6 rounded-2xl border-l-4 border-l-stone-900 border border-stone-200 shadow-sm">
-                            <div className="flex justify-between items-start mb-4">
-                              <h4 className="text-lg font-bold text-stone-900">{rec.action}</h4>
-                              <div className="flex flex-col items-end">
-                                <span className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-1">Confidence</span>
-                                <div className="text-xl font-mono font-bold text-stone-900">{(rec.confidence_score * 100).toFixed(0)}%</div>
-                              </div>
-                            </div>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                              <div>
-                                <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Justification</div>
-                                <p className="text-sm text-stone-600">{rec.justification}</p>
-                              </div>
-                              <div>
-                                <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Expected Outcome</div>
-                                <p className="text-sm text-stone-600">{rec.expected_outcome}</p>
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Strategic Growth Projection */}
-                  {result.strategic_growth && (
-                    <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm print-break-inside-avoid">
-                      <div className="flex items-center justify-between mb-8">
-                        <div>
-                          <h3 className="text-lg font-bold text-stone-900">{result.strategic_growth.title}</h3>
-                          <p className="text-xs text-stone-500">Comparative analysis of current vs projected performance benchmarks.</p>
-                        </div>
-                        <TrendingUp className="text-stone-900" size={24} />
-                      </div>
-                      <div className="h-80 w-full">
-                        <ResponsiveContainer width="100%" height="100%">
-                          <BarChart data={result.strategic_growth.data} layout="vertical" margin={{ left: 40, right: 40 }}>
-                            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#F5F5F4" />
-                            <XAxis type="number" hide />
-                            <YAxis dataKey="label" type="category" fontSize={10} axisLine={false} tickLine={false} width={100} />
-                            <Tooltip 
-                              cursor={{ fill: '#F5F5F4' }}
-                              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
-                            />
-                            <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
-                            <Bar dataKey="current" name="Current Performance" fill="#D6D3D1" radius={[0, 4, 4, 0]} barSize={12} />
-                            <Bar dataKey="projected" name="Projected Growth" fill="#1C1917" radius={[0, 4, 4, 0]} barSize={12} />
-                          </BarChart>
-                        </ResponsiveContainer>
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Geographic Opportunity Matrix */}
-                  {result.geographic_matrix && result.geographic_matrix.data.length > 0 && (
-                    <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm print-break-inside-avoid">
-                      <div className="flex items-center justify-between mb-8">
-                        <div>
-                          <h3 className="text-lg font-bold text-stone-900">{result.geographic_matrix.title}</h3>
-                          <p className="text-xs text-stone-500">Comprehensive opportunity vs risk analysis across all identified cities.</p>
-                        </div>
-                        <Globe className="text-stone-900" size={24} />
-                      </div>
-                      <div className="h-[400px] w-full">
-                        <ResponsiveContainer width="100%" height="100%">
-                          <BarChart data={result.geographic_matrix.data} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
-                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
-                            <XAxis 
-                              dataKey="city" 
-                              fontSize={10} 
-                              axisLine={false} 
-                              tickLine={false} 
-                              angle={-45} 
-                              textAnchor="end" 
-                              interval={0}
-                            />
-                            <YAxis fontSize={10} axisLine={false} tickLine={false} />
-                            <Tooltip 
-                              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
-                            />
-                            <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
-                            <Bar dataKey="score" name="Opportunity Score" fill="#1C1917" radius={[4, 4, 0, 0]} />
-                            <Bar dataKey="risk" name="Risk Level" fill="#EF4444" radius={[4, 4, 0, 0]} />
-                          </BarChart>
-                        </ResponsiveContainer>
-                      </div>
-                    </section>
-                  )}
-
-                  {/* Market Expansion Intelligence */}
-                  {result.market_expansion && (
-                    <section className="bg-stone-900 text-white p-8 rounded-3xl shadow-2xl relative overflow-hidden print-break-inside-avoid">
-                      <div className="absolute top-0 left-0 p-8 opacity-5">
-                        <Globe size={160} />
-                      </div>
-                      <div className="relative z-10">
-                        <div className="flex items-center justify-between mb-8">
-                          <div>
-                            <h3 className="text-lg font-bold">{result.market_expansion.title}</h3>
-                            <p className="text-xs text-stone-400">Opportunity vs Risk analysis across key market segments.</p>
-                          </div>
-                          <div className="px-3 py-1 bg-white/10 rounded-full text-[10px] font-bold uppercase tracking-widest">Expansion Intelligence</div>
-                        </div>
-                        <div className="h-80 w-full">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={result.market_expansion.data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
-                              <XAxis dataKey="segment" fontSize={10} axisLine={false} tickLine={false} stroke="rgba(255,255,255,0.5)" />
-                              <YAxis fontSize={10} axisLine={false} tickLine={false} stroke="rgba(255,255,255,0.5)" />
-                              <Tooltip 
-                                contentStyle={{ backgroundColor: '#1C1917', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
-                                itemStyle={{ color: '#FFFFFF' }}
-                              />
-                              <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
-                              <Bar dataKey="opportunity_score" name="Opportunity Score" fill="#FFFFFF" radius={[4, 4, 0, 0]} />
-                              <Bar dataKey="risk_factor" name="Risk Factor" fill="rgba(255,255,255,0.2)" radius={[4, 4, 0, 0]} />
-                            </BarChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </div>
-                    </section>
+                  <ReportView result={result} onDrill={reportData ? openDrill : undefined} />
+
+                  {/* Follow-up Questions */}
+                  {currentReportId && user && canAnalyze && !isAnalyzing && (
+                    <ReportChat
+                      reportId={currentReportId}
+                      report={result}
+                      provider={providerId || undefined}
+                      model={modelName || undefined}
+                      onDrill={reportData ? openDrill : undefined}
+                    />
                   )}
                 </motion.div>
               )}
@@ -1593,67 +1465,106 @@ export default function App() {
   </main>
 
       <AnimatePresence>
-        {showHistory && (
-          <>
-            <motion.div 
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              onClick={() => setShowHistory(false)}
-              className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
-            />
-            <motion.aside
-              initial={{ x: '100%' }}
-              animate={{ x: 0 }}
-              exit={{ x: '100%' }}
-              transition={{ type: 'spring', damping: 25, stiffness: 200 }}
-              className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
-            >
-              <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
-                    <History className="text-white" size={20} />
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-bold text-stone-900">Recent Reports</h3>
-                    <p className="text-xs text-stone-500">Access your previously generated intelligence.</p>
-                  </div>
-                </div>
-                <button 
-                  onClick={() => setShowHistory(false)}
-                  className="p-2 hover:bg-stone-200 rounded-full transition-colors"
-                >
-                  <ChevronRight size={24} className="text-stone-400" />
-                </button>
-              </div>
-              
-              <div className="flex-1 overflow-y-auto p-6 space-y-4">
-                {history.length === 0 ? (
-                  <div className="h-full flex flex-col items-center justify-center text-center opacity-40">
-                    <Clock size={48} className="mb-4" />
-                    <p className="text-sm font-medium">No reports generated yet.</p>
-                  </div>
-                ) : (
-                  history.map((h) => (
-                    <button
-                      key={h.id}
-                      onClick={() => loadFromHistory(h)}
-                      className="w-full text-left p-4 rounded-2xl border border-stone-100 hover:border-stone-300 hover:bg-stone-50 transition-all group"
-                    >
-                      <div className="flex justify-between items-start mb-2">
-                        <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400">
-                          {new Date(h.created_at).toLocaleDateString()} • {new Date(h.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                        </div>
-                        <ChevronRight size={14} className="text-stone-300 group-hover:text-stone-900 transition-colors" />
-                      </div>
-                      <div className="text-sm font-bold text-stone-900 mb-1 line-clamp-1">{h.query || "General Analysis"}</div>
-                      <div className="text-[11px] text-stone-500 line-clamp-2 italic">"{h.context || "No context provided"}"</div>
-                    </button>
-                  ))
-                )}
-              </div>
-            </motion.aside>
-          </>
+        {showHistory && user && (
+          <HistoryDrawer
+            userId={user.id}
+            canEdit={canAnalyze}
+            onClose={() => setShowHistory(false)}
+            onSelect={loadFromHistory}
+            onReanalyze={reanalyzeFromHistory}
+            onCompare={compareFromHistory}
+            refreshKey={historyVersion}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showScheduler && (
+          <SchedulerDrawer
+            onClose={() => setShowScheduler(false)}
+            onReportsChanged={fetchHistory}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showAlerts && <AlertsDrawer onClose={() => setShowAlerts(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showShare && currentReportId && <ShareDrawer reportId={currentReportId} onClose={() => setShowShare(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showScenarios && result && (
+          <ScenarioDrawer
+            result={result}
+            reportId={user ? currentReportId : null}
+            canEdit={canAnalyze}
+            onClose={() => setShowScenarios(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showSheetPicker && workbook && (
+          <SheetPicker
+            fileName={workbook.fileName}
+            sheets={workbook.sheets}
+            initial={workbook.plan}
+            onConfirm={applySheetPlan}
+            onClose={() => setShowSheetPicker(false)}
+          />
+        )}
+        {showGrid && data.length > 0 && (
+          <DataGrid
+            rows={prepared.rows}
+            headers={prepared.headers}
+            indices={gridIndices}
+            total={prepared.rows.length}
+            view={gridView}
+            onViewChange={setGridView}
+            onClose={() => setShowGrid(false)}
+          />
+        )}
+        {drillTarget && (
+          <DrillDownDrawer
+            target={drillTarget}
+            source={drillSource}
+            error={drillError}
+            onClose={() => setDrillTarget(null)}
+          />
+        )}
+        {showPrep && data.length > 0 && (
+          <PrepDrawer
+            datasetName={datasetName}
+            rows={data}
+            headers={headers}
+            recipe={recipe}
+            onApply={steps => { setRecipe(steps); setShowPrep(false); }}
+            onClose={() => setShowPrep(false)}
+          />
+        )}
+        {showSheetPicker && sqliteUpload && (
+          <SqliteTablePicker
+            fileName={sqliteUpload.file.name}
+            tables={sqliteUpload.tables}
+            current={sqliteUpload.table}
+            onPick={table => loadSqliteTable(sqliteUpload, table)}
+            onClose={() => setShowSheetPicker(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showWorkspace && user && workspaceState && (
+          <WorkspaceDrawer
+            workspace={workspaceState.active}
+            userId={user.id}
+            onClose={() => setShowWorkspace(false)}
+            onChanged={fetchWorkspaces}
+            onLeft={enterWorkspace}
+          />
         )}
       </AnimatePresence>
 
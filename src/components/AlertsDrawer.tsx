@@ -0,0 +1,289 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Bell, ChevronRight, Plus, Send, Trash2, Loader2, Copy, Eye, EyeOff, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import type { AlertCondition, AlertDelivery, AlertRule, CreatedAlertRule, DeliveryStatus } from '@/lib/alerts';
+import { parseTimestamp } from './HistoryDrawer';
+import { cn } from '../lib/utils';
+
+type Kind = AlertCondition['kind'];
+
+const EMPTY_FORM = {
+  name: '',
+  kind: 'anomaly' as Kind,
+  severity: 'High',
+  metric: '',
+  trend: 'down',
+  op: '>',
+  value: '80',
+  category: '',
+  webhook_url: '',
+};
+
+// Poll while deliveries are still retrying
+const POLL_INTERVAL_MS = 3000;
+
+const toCondition = (form: typeof EMPTY_FORM) => {
+  switch (form.kind) {
+    case 'anomaly': return { kind: form.kind, severity: form.severity };
+    case 'metric_trend': return { kind: form.kind, metric: form.metric, trend: form.trend };
+    case 'risk_score': return { kind: form.kind, op: form.op, value: Number(form.value), category: form.category };
+  }
+};
+
+const DeliveryBadge = ({ status }: { status: DeliveryStatus }) => {
+  const styles = {
+    pending: { className: 'bg-blue-50 text-blue-700 border-blue-100', icon: Clock },
+    delivered: { className: 'bg-emerald-50 text-emerald-700 border-emerald-100', icon: CheckCircle2 },
+    failed: { className: 'bg-red-50 text-red-700 border-red-100', icon: AlertCircle },
+  }[status];
+  return (
+    <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest border", styles.className)}>
+      <styles.icon size={10} />
+      {status}
+    </span>
+  );
+};
+
+// The server hands out the full secret only in the create response, so it is
+// shown for the rule just created and as a hint everywhere else
+const SecretField = ({ hint, secret }: { hint: string; secret?: string }) => {
+  const [visible, setVisible] = React.useState(false);
+  if (!secret) return <div className="text-[10px] font-mono text-stone-400 truncate">{hint}</div>;
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-1.5 text-[10px] font-mono text-stone-400">
+        <span className="truncate">{visible ? secret : `${secret.slice(0, 10)}••••••••`}</span>
+        <button onClick={() => setVisible(v => !v)} className="hover:text-stone-900" title={visible ? 'Hide secret' : 'Show secret'}>
+          {visible ? <EyeOff size={10} /> : <Eye size={10} />}
+        </button>
+        <button onClick={() => navigator.clipboard.writeText(secret)} className="hover:text-stone-900" title="Copy signing secret">
+          <Copy size={10} />
+        </button>
+      </div>
+      <p className="text-[10px] text-amber-700">Copy the signing secret now; it won't be shown again.</p>
+    </div>
+  );
+};
+
+export const AlertsDrawer = ({ onClose }: { onClose: () => void }) => {
+  const [rules, setRules] = React.useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = React.useState<AlertDelivery[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [showForm, setShowForm] = React.useState(false);
+  const [form, setForm] = React.useState(EMPTY_FORM);
+  const [formError, setFormError] = React.useState<string | null>(null);
+  const [created, setCreated] = React.useState<CreatedAlertRule | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const [rulesRes, deliveriesRes] = await Promise.all([fetch('/api/alerts'), fetch('/api/alerts/deliveries')]);
+      if (rulesRes.ok) setRules(await rulesRes.json());
+      if (deliveriesRes.ok) setDeliveries(await deliveriesRes.json());
+    } catch (e) {
+      console.error("Fetch alerts failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  const anyPending = deliveries.some(d => d.status === 'pending');
+  React.useEffect(() => {
+    if (!anyPending) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [anyPending, load]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      setCreated(await request('/api/alerts', 'POST', { name: form.name, condition: toCondition(form), webhook_url: form.webhook_url }));
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      load();
+    } catch (err: any) {
+      setFormError(err.message);
+    }
+  };
+
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message);
+    }
+    load();
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <Bell className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">Alert Rules</h3>
+              <p className="text-xs text-stone-500">Signed webhooks when an analysis matches.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {showForm ? (
+            <form onSubmit={createRule} className="p-4 rounded-2xl border border-stone-200 space-y-3">
+              <input required placeholder="Rule name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+              <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as Kind })} className={inputClass}>
+                <option value="anomaly">Anomaly severity</option>
+                <option value="metric_trend">Metric trend</option>
+                <option value="risk_score">Risk score threshold</option>
+              </select>
+              {form.kind === 'anomaly' && (
+                <select value={form.severity} onChange={e => setForm({ ...form, severity: e.target.value })} className={inputClass}>
+                  <option value="High">Any High anomaly</option>
+                  <option value="Medium">Any Medium or High anomaly</option>
+                  <option value="Low">Any anomaly</option>
+                </select>
+              )}
+              {form.kind === 'metric_trend' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <input required placeholder="Metric name, e.g. Sales" value={form.metric} onChange={e => setForm({ ...form, metric: e.target.value })} className={inputClass} />
+                  <select value={form.trend} onChange={e => setForm({ ...form, trend: e.target.value })} className={inputClass}>
+                    <option value="down">trend down</option>
+                    <option value="up">trend up</option>
+                    <option value="stable">trend stable</option>
+                  </select>
+                </div>
+              )}
+              {form.kind === 'risk_score' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <input placeholder="Any category" value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClass} />
+                  <select value={form.op} onChange={e => setForm({ ...form, op: e.target.value })} className={cn(inputClass, "font-mono")}>
+                    {['>', '>=', '<', '<='].map(op => <option key={op} value={op}>{op}</option>)}
+                  </select>
+                  <input required type="number" min={0} max={100} value={form.value} onChange={e => setForm({ ...form, value: e.target.value })} className={cn(inputClass, "font-mono")} />
+                </div>
+              )}
+              <input required type="url" placeholder="https://hooks.example.com/cognitia" value={form.webhook_url} onChange={e => setForm({ ...form, webhook_url: e.target.value })} className={cn(inputClass, "font-mono")} />
+              {formError && <p className="text-[11px] text-red-600">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => { setShowForm(false); setFormError(null); }} className="px-3 py-2 text-xs font-bold text-stone-500 hover:text-stone-900">
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold">
+                  Create Rule
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full p-3 rounded-2xl border border-dashed border-stone-300 text-xs font-bold text-stone-500 hover:text-stone-900 hover:border-stone-900 transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New alert rule
+            </button>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-stone-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          ) : rules.length === 0 && !showForm ? (
+            <div className="py-16 flex flex-col items-center justify-center text-center opacity-40">
+              <Bell size={48} className="mb-4" />
+              <p className="text-sm font-medium">No alert rules yet.</p>
+            </div>
+          ) : (
+            rules.map(rule => (
+              <div key={rule.id} className={cn("p-4 rounded-2xl border border-stone-100", !rule.enabled && "opacity-60")}>
+                <div className="text-sm font-bold text-stone-900 truncate">{rule.name}</div>
+                <div className="text-xs text-stone-600 mb-1">{rule.description}</div>
+                <div className="text-[10px] font-mono text-stone-400 truncate">{rule.webhook_url}</div>
+                <SecretField hint={rule.secret_hint} secret={created?.id === rule.id ? created.secret : undefined} />
+                <div className="flex items-center gap-2 mt-3">
+                  <button
+                    onClick={() => act(() => request(`/api/alerts/${rule.id}/test`, 'POST'))}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest"
+                  >
+                    <Send size={10} /> Test fire
+                  </button>
+                  <button
+                    onClick={() => act(() => request(`/api/alerts/${rule.id}`, 'PATCH', { enabled: !rule.enabled }))}
+                    className="px-3 py-1.5 border border-stone-200 rounded-lg text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-900"
+                  >
+                    {rule.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => confirm(`Delete "${rule.name}" and its delivery log?`) && act(() => request(`/api/alerts/${rule.id}`, 'DELETE'))}
+                    className="ml-auto p-1.5 text-stone-400 hover:text-red-600"
+                    title="Delete rule"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {deliveries.length > 0 && (
+            <div className="pt-4">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Delivery Log</h4>
+              <ul className="divide-y divide-stone-100">
+                {deliveries.map(d => (
+                  <li key={d.id} className="py-2 text-[11px]">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-bold text-stone-900 truncate">{d.rule_name}</span>
+                      <DeliveryBadge status={d.status} />
+                    </div>
+                    <div className="font-mono text-[10px] text-stone-400">
+                      {parseTimestamp(d.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                      {' • '}{d.event} • {d.attempts} attempt{d.attempts === 1 ? '' : 's'}
+                      {d.response_status !== null && ` • HTTP ${d.response_status}`}
+                    </div>
+                    {d.matches.slice(0, 3).map((m, i) => <div key={i} className="text-stone-500 truncate">{m}</div>)}
+                    {d.error && <div className={d.status === 'failed' ? 'text-red-600' : 'text-stone-400'}>{d.error}</div>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </motion.aside>
+    </>
+  );
+};
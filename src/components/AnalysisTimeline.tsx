@@ -0,0 +1,94 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2, Loader2, RotateCcw, AlertTriangle, Circle } from 'lucide-react';
+import type { AnalysisPhase, ProgressEvent } from '@/lib/engine';
+import { cn } from '../lib/utils';
+
+export interface TimelineEvent extends ProgressEvent {
+  at: number;
+}
+
+const PHASES: { phase: AnalysisPhase; label: string }[] = [
+  { phase: 'parsing', label: 'Parsing Dataset' },
+  { phase: 'profiling', label: 'Profiling Columns' },
+  { phase: 'model', label: 'Model Reasoning' },
+  { phase: 'validating', label: 'Validating Output' },
+  { phase: 'verifying', label: 'Verifying Evidence' },
+  { phase: 'saving', label: 'Saving Report' },
+];
+
+const formatElapsed = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export const AnalysisTimeline = ({ events, startedAt, sections, failed }: {
+  events: TimelineEvent[];
+  startedAt: number;
+  sections: number;
+  failed?: boolean;
+}) => {
+  const [now, setNow] = React.useState(Date.now());
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const reached = new Map<AnalysisPhase, TimelineEvent>();
+  for (const e of events) if (!reached.has(e.phase)) reached.set(e.phase, e);
+  const retries = events.filter(e => e.phase === 'retry');
+  const current = events[events.length - 1];
+  const activeIndex = !current ? -1
+    : current.phase === 'complete' ? PHASES.length
+    : PHASES.findIndex(p => p.phase === (current.phase === 'retry' ? 'model' : current.phase));
+  const pendingRetry = current?.phase === 'retry' && current.delay ? Math.max(0, current.at + current.delay - now) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm no-print"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400">Engine Progress</h3>
+        <div className="text-[10px] font-mono text-stone-500">
+          {formatElapsed(now - startedAt)}{sections > 0 && ` • ${sections} sections received`}
+        </div>
+      </div>
+      <ol className="space-y-4">
+        {PHASES.map((p, i) => {
+          const event = reached.get(p.phase);
+          const isActive = !failed && i === activeIndex;
+          const isDone = !!event && i < activeIndex;
+          return (
+            <li key={p.phase} className="flex items-start gap-3">
+              <div className="mt-0.5 shrink-0">
+                {isActive ? (
+                  <Loader2 size={16} className="animate-spin text-stone-900" />
+                ) : isDone ? (
+                  <CheckCircle2 size={16} className="text-emerald-600" />
+                ) : failed && i === activeIndex ? (
+                  <AlertTriangle size={16} className="text-red-600" />
+                ) : (
+                  <Circle size={16} className="text-stone-200" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between items-center">
+                  <span className={cn('text-xs font-bold uppercase tracking-wider', event ? 'text-stone-900' : 'text-stone-400')}>{p.label}</span>
+                  {event && <span className="text-[10px] font-mono text-stone-400">+{formatElapsed(event.at - startedAt)}</span>}
+                </div>
+                {event && <div className="text-[11px] text-stone-500 truncate">{event.message}</div>}
+                {p.phase === 'model' && retries.map((r, j) => (
+                  <div key={j} className="mt-1 flex items-center gap-2 text-[10px] text-amber-700">
+                    <RotateCcw size={10} />
+                    Retry attempt {r.attempt} • backing off {formatElapsed(r.delay || 0)}
+                    {j === retries.length - 1 && pendingRetry > 0 && ` (${formatElapsed(pendingRetry)} left)`}
+                  </div>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </motion.div>
+  );
+};
@@ -0,0 +1,187 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, ArrowUpRight, ArrowDownRight, Minus, Plus, TrendingUp, AlertTriangle, ShieldAlert, BarChart3 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { compareReports, LEVEL_RANK, type ItemChange } from '@/lib/compare';
+import type { Level } from '@/lib/schema';
+import { parseTimestamp, type ReportHistory } from './HistoryDrawer';
+import { cn } from '../lib/utils';
+
+const formatDelta = (value: number | null, suffix = '') => {
+  if (value === null) return '—';
+  const rounded = Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : Number(value.toFixed(2)).toString();
+  return `${value > 0 ? '+' : ''}${rounded}${suffix}`;
+};
+
+const deltaColor = (value: number | null, higherIsWorse = false) => {
+  if (value === null || value === 0) return 'text-stone-400';
+  return (value > 0) !== higherIsWorse ? 'text-emerald-600' : 'text-red-600';
+};
+
+const reportLabel = (r: ReportHistory) => `${r.query || 'General Analysis'} • ${parseTimestamp(r.created_at).toLocaleDateString()}`;
+
+const SectionTitle = ({ icon: Icon, children }: { icon: React.ElementType; children: React.ReactNode }) => (
+  <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+    <Icon size={16} />
+    {children}
+  </h3>
+);
+
+function ChangeColumns<T>({ change, title, describe, level }: {
+  change: ItemChange<T>;
+  title: (item: T) => string;
+  describe: (item: T) => string;
+  level: (item: T) => Level;
+}) {
+  const escalated = change.persisted.filter(p => level(p.before) !== level(p.after));
+  const columns = [
+    { label: 'Appeared', items: change.appeared, tone: 'border-emerald-100 bg-emerald-50/50', icon: Plus },
+    { label: 'Disappeared', items: change.disappeared, tone: 'border-stone-200 bg-stone-50', icon: Minus },
+  ];
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {columns.map(col => (
+        <div key={col.label} className={cn("p-4 rounded-2xl border", col.tone)}>
+          <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500 mb-3 flex items-center gap-1">
+            <col.icon size={10} /> {col.label} ({col.items.length})
+          </div>
+          <ul className="space-y-2">
+            {col.items.map((item, i) => (
+              <li key={i} className="text-xs">
+                <div className="font-bold text-stone-900">{title(item)}</div>
+                <div className="text-stone-500 line-clamp-2">{describe(item)}</div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      <div className="p-4 rounded-2xl border border-amber-100 bg-amber-50/50">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500 mb-3">
+          Level Changed ({escalated.length}) • Unchanged ({change.persisted.length - escalated.length})
+        </div>
+        <ul className="space-y-2">
+          {escalated.map((p, i) => {
+            const up = LEVEL_RANK[level(p.after)] > LEVEL_RANK[level(p.before)];
+            return (
+              <li key={i} className="text-xs">
+                <div className="font-bold text-stone-900">{title(p.after)}</div>
+                <div className={cn("font-mono text-[10px]", up ? "text-red-600" : "text-emerald-600")}>
+                  {level(p.before)} → {level(p.after)}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export const CompareView = ({ before, after, onClose }: {
+  before: ReportHistory;
+  after: ReportHistory;
+  onClose: () => void;
+}) => {
+  const diff = React.useMemo(() => compareReports(before.result, after.result), [before, after]);
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8 py-4">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={onClose}
+          className="text-stone-500 hover:text-stone-900 text-xs font-bold uppercase tracking-widest transition-colors flex items-center gap-2"
+        >
+          <ArrowLeft size={14} />
+          Back
+        </button>
+        <div className="flex items-center gap-3 text-xs min-w-0">
+          <span className="px-3 py-1.5 rounded-full bg-stone-100 text-stone-600 truncate">{reportLabel(before)}</span>
+          <span className="text-stone-300">→</span>
+          <span className="px-3 py-1.5 rounded-full bg-stone-900 text-white truncate">{reportLabel(after)}</span>
+        </div>
+      </div>
+
+      <section className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm">
+        <SectionTitle icon={BarChart3}>Key Metrics</SectionTitle>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-widest text-stone-400 text-left">
+              <th className="pb-2 font-bold">Metric</th>
+              <th className="pb-2 font-bold text-right">Before</th>
+              <th className="pb-2 font-bold text-right">After</th>
+              <th className="pb-2 font-bold text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.metrics.map(m => {
+              const Trend = m.delta === null ? Minus : m.delta > 0 ? ArrowUpRight : m.delta < 0 ? ArrowDownRight : Minus;
+              return (
+                <tr key={m.name} className="border-t border-stone-100">
+                  <td className="py-2 font-medium text-stone-900">{m.name}</td>
+                  <td className="py-2 text-right font-mono text-stone-500">{m.before ?? '—'}</td>
+                  <td className="py-2 text-right font-mono text-stone-900">{m.after ?? '—'}</td>
+                  <td className={cn("py-2 text-right font-mono", deltaColor(m.delta))}>
+                    <span className="inline-flex items-center gap-1 justify-end">
+                      <Trend size={12} />
+                      {formatDelta(m.delta)}{m.delta_pct !== null && ` (${formatDelta(m.delta_pct, '%')})`}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <SectionTitle icon={TrendingUp}>Insights</SectionTitle>
+        <ChangeColumns change={diff.insights} title={i => i.title} describe={i => i.description} level={i => i.impact_level} />
+      </section>
+
+      <section>
+        <SectionTitle icon={AlertTriangle}>Anomalies</SectionTitle>
+        <ChangeColumns change={diff.anomalies} title={a => `${a.type} • ${a.location}`} describe={a => a.reasoning} level={a => a.severity} />
+      </section>
+
+      {diff.risks.length > 0 && (
+        <section className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm">
+          <SectionTitle icon={ShieldAlert}>Risk Score Changes</SectionTitle>
+          <div className="space-y-3">
+            {diff.risks.map(r => (
+              <div key={r.category} className="grid grid-cols-12 items-center gap-3 text-xs">
+                <span className="col-span-4 font-medium text-stone-900 truncate">{r.category}</span>
+                <div className="col-span-5 relative h-2 bg-stone-100 rounded-full">
+                  {r.before !== null && <div className="absolute h-2 rounded-full bg-stone-300" style={{ width: `${r.before}%` }} />}
+                  {r.after !== null && <div className="absolute h-2 w-1 rounded-full bg-stone-900" style={{ left: `calc(${r.after}% - 2px)` }} />}
+                </div>
+                <span className="col-span-1 text-right font-mono text-stone-500">{r.after ?? '—'}</span>
+                <span className={cn("col-span-2 text-right font-mono", deltaColor(r.delta, true))}>
+                  {r.before === null ? 'new' : r.after === null ? 'gone' : formatDelta(r.delta)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {diff.forecast.length > 0 && (
+        <section className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm">
+          <SectionTitle icon={TrendingUp}>Forecast Overlay</SectionTitle>
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={diff.forecast}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
+                <XAxis dataKey="period" fontSize={10} axisLine={false} tickLine={false} />
+                <YAxis fontSize={10} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+                <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '10px' }} />
+                <Line type="monotone" dataKey="before" name="Before" stroke="#A8A29E" strokeWidth={2} strokeDasharray="5 5" dot={{ r: 3 }} connectNulls />
+                <Line type="monotone" dataKey="after" name="After" stroke="#1C1917" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,371 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Table2, ChevronRight, ChevronDown, ArrowUp, ArrowDown, ArrowUpDown, X, AlertCircle } from 'lucide-react';
+import {
+  AGGREGATIONS,
+  aggregate,
+  groupIndices,
+  pivotTable,
+  sortIndices,
+  type Aggregation,
+  type GridFilters,
+  type GridSort,
+  type PivotConfig,
+  type Row,
+} from '@/lib/grid';
+import { cn } from '../lib/utils';
+
+export type GridMode = 'rows' | 'group' | 'pivot';
+
+export interface GridView {
+  mode: GridMode;
+  sort: GridSort | null;
+  filters: GridFilters;
+  group_by: string | null;
+  pivot: PivotConfig;
+}
+
+// Columns left empty here fall back to the dataset's first column
+export const EMPTY_GRID_VIEW: GridView = {
+  mode: 'rows',
+  sort: null,
+  filters: {},
+  group_by: null,
+  pivot: { rows: '', columns: null, value: null, aggregation: 'count' },
+};
+
+const MODES: { mode: GridMode; label: string }[] = [
+  { mode: 'rows', label: 'Rows' },
+  { mode: 'group', label: 'Group' },
+  { mode: 'pivot', label: 'Pivot' },
+];
+
+const ROW_HEIGHT = 28;
+const OVERSCAN = 12;
+const COLUMN_WIDTH = 160;
+const INDEX_WIDTH = 72;
+
+type GridItem = { kind: 'row'; index: number } | { kind: 'group'; key: string; count: number; sums: Record<string, number | null> };
+
+const formatNumber = (n: number | null) => (n === null ? '—' : n.toLocaleString(undefined, { maximumFractionDigits: 2 }));
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined || value === '') return <span className="text-stone-300">—</span>;
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 6 }) : String(value);
+}
+
+// Columns whose first values are all numbers get sums on group rows
+function numericColumns(rows: Row[], headers: string[]): string[] {
+  const sample = rows.slice(0, 200);
+  return headers.filter(h => {
+    const present = sample.map(r => r[h]).filter(v => v !== null && v !== undefined && v !== '');
+    return present.length > 0 && present.every(v => typeof v === 'number');
+  });
+}
+
+export const DataGrid = ({ rows, headers, indices, total, view, onViewChange, onClose }: {
+  rows: Row[];
+  headers: string[];
+  // Rows passing the filters, in data order
+  indices: number[];
+  total: number;
+  view: GridView;
+  onViewChange: (view: GridView) => void;
+  onClose: () => void;
+}) => {
+  const bodyRef = React.useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewport, setViewport] = React.useState(600);
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
+
+  React.useEffect(() => {
+    const el = bodyRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [view.mode]);
+
+  const groupBy = view.group_by && headers.includes(view.group_by) ? view.group_by : headers[0] ?? null;
+  const pivotConfig = React.useMemo(
+    (): PivotConfig => (headers.includes(view.pivot.rows) ? view.pivot : { ...view.pivot, rows: headers[0] ?? '' }),
+    [view.pivot, headers]
+  );
+
+  const update = (patch: Partial<GridView>) => onViewChange({ ...view, ...patch });
+  const setFilter = (column: string, text: string) => update({ filters: { ...view.filters, [column]: text } });
+  const toggleSort = (column: string) => {
+    const sort = view.sort?.column !== column ? { column, direction: 'asc' as const }
+      : view.sort.direction === 'asc' ? { column, direction: 'desc' as const }
+      : null;
+    update({ sort });
+  };
+
+  const sorted = React.useMemo(() => sortIndices(rows, indices, view.sort), [rows, indices, view.sort]);
+  const measures = React.useMemo(() => numericColumns(rows, headers), [rows, headers]);
+
+  const groups = React.useMemo(() => {
+    if (view.mode !== 'group' || !groupBy) return null;
+    return groupIndices(rows, sorted, groupBy).map(g => ({
+      ...g,
+      sums: Object.fromEntries(measures.map(m => [m, aggregate(rows, g.indices, m, 'sum')])),
+    }));
+  }, [view.mode, groupBy, rows, sorted, measures]);
+
+  const items = React.useMemo((): GridItem[] => {
+    if (!groups) return sorted.map(index => ({ kind: 'row', index }));
+    return groups.flatMap((g): GridItem[] => [
+      { kind: 'group', key: g.key, count: g.indices.length, sums: g.sums },
+      ...(expanded.has(g.key) ? g.indices.map((index): GridItem => ({ kind: 'row', index })) : []),
+    ]);
+  }, [groups, sorted, expanded]);
+
+  const pivot = React.useMemo(() => {
+    if (view.mode !== 'pivot' || !pivotConfig.rows) return null;
+    return pivotTable(rows, indices, pivotConfig);
+  }, [view.mode, pivotConfig, rows, indices]);
+
+  const toggleGroup = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setExpanded(next);
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(items.length, Math.ceil((scrollTop + viewport) / ROW_HEIGHT) + OVERSCAN);
+  const width = INDEX_WIDTH + headers.length * COLUMN_WIDTH;
+  const filterCount = Object.values(view.filters).filter(text => text.trim()).length;
+
+  const selectClass = "px-2 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-900 min-w-0";
+  const setPivot = (patch: Partial<PivotConfig>) => update({ pivot: { ...pivotConfig, ...patch } });
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-6xl bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <Table2 className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-stone-900">Data Grid</h3>
+              <p className="text-xs text-stone-500">
+                {indices.length === total ? `${total.toLocaleString()} rows` : `${indices.length.toLocaleString()} of ${total.toLocaleString()} rows match the filters`}
+                {' '}× {headers.length} columns
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-stone-100 flex flex-wrap items-center gap-2">
+          <div className="flex gap-1">
+            {MODES.map(m => (
+              <button
+                key={m.mode}
+                onClick={() => update({ mode: m.mode })}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors",
+                  view.mode === m.mode ? "bg-stone-900 text-white border-stone-900" : "border-stone-200 text-stone-500 hover:text-stone-900"
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          {view.mode === 'group' && (
+            <label className="flex items-center gap-2 text-xs text-stone-500">
+              by
+              <select value={groupBy ?? ''} onChange={e => { update({ group_by: e.target.value }); setExpanded(new Set()); }} className={selectClass}>
+                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </label>
+          )}
+          {view.mode === 'pivot' && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-stone-500">
+              <select value={pivotConfig.aggregation} onChange={e => setPivot({ aggregation: e.target.value as Aggregation })} className={selectClass}>
+                {AGGREGATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+              </select>
+              {pivotConfig.aggregation !== 'count' && (
+                <>
+                  of
+                  <select value={pivotConfig.value ?? ''} onChange={e => setPivot({ value: e.target.value || null })} className={selectClass}>
+                    <option value="">Choose a column</option>
+                    {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </>
+              )}
+              by
+              <select value={pivotConfig.rows} onChange={e => setPivot({ rows: e.target.value })} className={selectClass}>
+                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+              across
+              <select value={pivotConfig.columns ?? ''} onChange={e => setPivot({ columns: e.target.value || null })} className={selectClass}>
+                <option value="">Nothing</option>
+                {headers.filter(h => h !== pivotConfig.rows).map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </div>
+          )}
+          {filterCount > 0 && (
+            <button
+              onClick={() => update({ filters: {} })}
+              className="ml-auto flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-stone-900 transition-colors"
+            >
+              <X size={12} />
+              Clear {filterCount} {filterCount === 1 ? 'filter' : 'filters'}
+            </button>
+          )}
+        </div>
+
+        {view.mode === 'pivot' ? (
+          <div className="flex-1 overflow-auto p-6">
+            {!pivot ? null : pivotConfig.aggregation !== 'count' && !pivotConfig.value ? (
+              <p className="text-xs text-stone-400">Choose the column to {pivotConfig.aggregation === 'sum' ? 'sum' : 'average'}.</p>
+            ) : (
+              <>
+                {pivot.truncated && (
+                  <div className="mb-3 p-2 bg-amber-50 border border-amber-100 rounded-xl text-[11px] text-amber-700 flex items-center gap-2">
+                    <AlertCircle size={12} className="shrink-0" />
+                    Only the largest groups are shown; the rest are combined under (other).
+                  </div>
+                )}
+                <table className="text-[11px] border border-stone-100">
+                  <thead className="bg-stone-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-bold text-stone-600 whitespace-nowrap">{pivotConfig.rows}</th>
+                      {pivot.column_keys.map(k => (
+                        <th key={k} className="px-3 py-2 text-right font-bold text-stone-600 whitespace-nowrap">{k}</th>
+                      ))}
+                      {pivotConfig.columns && <th className="px-3 py-2 text-right font-bold text-stone-900 whitespace-nowrap">Total</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pivot.row_keys.map((k, r) => (
+                      <tr key={k} className="border-t border-stone-100">
+                        <td className="px-3 py-1.5 font-medium text-stone-900 whitespace-nowrap">{k}</td>
+                        {pivot.cells[r].map((cell, c) => (
+                          <td key={c} className="px-3 py-1.5 text-right font-mono text-stone-700">{formatNumber(cell)}</td>
+                        ))}
+                        {pivotConfig.columns && <td className="px-3 py-1.5 text-right font-mono font-bold text-stone-900">{formatNumber(pivot.row_totals[r])}</td>}
+                      </tr>
+                    ))}
+                    <tr className="border-t-2 border-stone-200 bg-stone-50">
+                      <td className="px-3 py-1.5 font-bold text-stone-900">Total</td>
+                      {pivot.column_totals.map((cell, c) => (
+                        <td key={c} className="px-3 py-1.5 text-right font-mono font-bold text-stone-900">{formatNumber(cell)}</td>
+                      ))}
+                      {pivotConfig.columns && <td className="px-3 py-1.5 text-right font-mono font-bold text-stone-900">{formatNumber(pivot.total)}</td>}
+                    </tr>
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        ) : (
+          <div ref={bodyRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 overflow-auto text-[11px]">
+            <div style={{ width }} className="sticky top-0 z-10 bg-stone-50 border-b border-stone-200">
+              <div className="flex">
+                <div style={{ width: INDEX_WIDTH }} className="shrink-0 px-2 py-2 text-stone-400 font-mono">#</div>
+                {headers.map(h => (
+                  <button
+                    key={h}
+                    onClick={() => toggleSort(h)}
+                    style={{ width: COLUMN_WIDTH }}
+                    className="shrink-0 px-2 py-2 text-left font-bold text-stone-600 flex items-center gap-1 hover:text-stone-900"
+                    title={h}
+                  >
+                    <span className="truncate">{h}</span>
+                    {view.sort?.column === h
+                      ? view.sort.direction === 'asc' ? <ArrowUp size={11} className="shrink-0" /> : <ArrowDown size={11} className="shrink-0" />
+                      : <ArrowUpDown size={11} className="shrink-0 text-stone-300" />}
+                  </button>
+                ))}
+              </div>
+              <div className="flex pb-1.5">
+                <div style={{ width: INDEX_WIDTH }} className="shrink-0" />
+                {headers.map(h => (
+                  <div key={h} style={{ width: COLUMN_WIDTH }} className="shrink-0 px-1">
+                    <input
+                      type="text"
+                      value={view.filters[h] ?? ''}
+                      onChange={e => setFilter(h, e.target.value)}
+                      placeholder="Filter"
+                      title='Text contains; "!x" excludes; "> 100", "= North", "10..20" or "(blank)"'
+                      className={cn(
+                        "w-full px-1.5 py-1 bg-white border rounded text-[10px] focus:outline-none focus:border-stone-900",
+                        view.filters[h]?.trim() ? "border-stone-900" : "border-stone-200"
+                      )}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {items.length === 0 ? (
+              <p className="p-6 text-xs text-stone-400">No rows match the filters.</p>
+            ) : (
+              <div style={{ height: items.length * ROW_HEIGHT, width }} className="relative">
+                {items.slice(first, last).map((item, offset) => {
+                  const position = first + offset;
+                  if (item.kind === 'group') {
+                    return (
+                      <button
+                        key={`g:${item.key}`}
+                        onClick={() => toggleGroup(item.key)}
+                        style={{ top: position * ROW_HEIGHT, height: ROW_HEIGHT, width }}
+                        className="absolute left-0 flex items-center bg-stone-100 border-b border-stone-200 text-left hover:bg-stone-200"
+                      >
+                        <div style={{ width: INDEX_WIDTH }} className="shrink-0 px-2 flex items-center gap-1 font-mono text-stone-500">
+                          {expanded.has(item.key) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                          {item.count.toLocaleString()}
+                        </div>
+                        {headers.map(h => (
+                          <div key={h} style={{ width: COLUMN_WIDTH }} className="shrink-0 px-2 truncate font-bold text-stone-900">
+                            {h === groupBy ? item.key : h in item.sums ? <span className="font-mono text-stone-600">Σ {formatNumber(item.sums[h])}</span> : null}
+                          </div>
+                        ))}
+                      </button>
+                    );
+                  }
+                  const row = rows[item.index];
+                  return (
+                    <div
+                      key={item.index}
+                      style={{ top: position * ROW_HEIGHT, height: ROW_HEIGHT, width }}
+                      className="absolute left-0 flex items-center border-b border-stone-100 hover:bg-stone-50"
+                    >
+                      <div style={{ width: INDEX_WIDTH }} className="shrink-0 px-2 font-mono text-stone-400">{item.index + 1}</div>
+                      {headers.map(h => (
+                        <div key={h} style={{ width: COLUMN_WIDTH }} className="shrink-0 px-2 truncate text-stone-700" title={row[h] == null ? undefined : String(row[h])}>
+                          {formatCell(row[h])}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </motion.aside>
+    </>
+  );
+};
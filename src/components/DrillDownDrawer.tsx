@@ -0,0 +1,177 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Crosshair, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
+import { resolveDrill, type DrillTarget } from '@/lib/drilldown';
+import { profileDataset, type ColumnProfile } from '@/lib/profile';
+import type { ColumnSchema } from '@/lib/semantic';
+import type { Row } from '@/lib/grid';
+
+// Rows the report was computed from, typed with the schema it was run with
+export interface DrillSource {
+  rows: Row[];
+  headers: string[];
+  schema: ColumnSchema[];
+}
+
+const MAX_LISTED_ROWS = 200;
+
+const formatNumber = (n: number | string | undefined) =>
+  n === undefined ? '—' : typeof n === 'number' ? n.toLocaleString(undefined, { maximumFractionDigits: 2 }) : n;
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined || value === '') return <span className="text-stone-300">—</span>;
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 6 }) : String(value);
+}
+
+const isMeasure = (c: ColumnProfile) => c.type === 'number' && c.semantic !== 'identifier';
+
+export const DrillDownDrawer = ({ target, source, error, onClose }: {
+  target: DrillTarget;
+  // Null while the report's dataset is still loading
+  source: DrillSource | null;
+  error: string | null;
+  onClose: () => void;
+}) => {
+  const match = React.useMemo(() => (source ? resolveDrill(source.rows, source.headers, target) : null), [source, target]);
+  const matched = React.useMemo(() => (source && match ? match.indices.map(i => source.rows[i]) : []), [source, match]);
+  const profile = React.useMemo(() => (source && matched.length > 0 ? profileDataset(matched, source.schema) : null), [source, matched]);
+
+  const measures = profile?.columns.filter(isMeasure) ?? [];
+  const dimensions = profile?.columns.filter(c => !isMeasure(c) && c.top_categories && c.top_categories.length > 1).slice(0, 6) ?? [];
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-4xl bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <Crosshair className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-stone-900 truncate">{target.label}</h3>
+              <p className="text-xs text-stone-500 truncate">{target.chart}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error ? (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700 flex items-center gap-2">
+              <AlertCircle size={14} className="shrink-0" />
+              {error}
+            </div>
+          ) : !source ? (
+            <div className="flex items-center gap-2 text-xs text-stone-500">
+              <Loader2 size={14} className="animate-spin" />
+              Loading the report's dataset…
+            </div>
+          ) : !match ? (
+            <p className="text-sm text-stone-500">
+              No rows match "{target.label}". The point may be a projection or an aggregate the engine derived
+              rather than a subset of the dataset.
+            </p>
+          ) : (
+            <>
+              <div className="p-4 bg-stone-50 rounded-2xl border border-stone-100 space-y-1">
+                <div className="text-sm font-semibold text-stone-900">
+                  {match.indices.length.toLocaleString()} of {source.rows.length.toLocaleString()} rows
+                  <span className="text-stone-400 font-normal"> • {((match.indices.length / source.rows.length) * 100).toFixed(1)}%</span>
+                </div>
+                <div className="text-xs text-stone-500">
+                  <span className="font-mono">{match.description}</span>
+                  {' '}· {match.source === 'engine' ? 'filter returned by the engine' : 'matched from the chart label'}
+                </div>
+              </div>
+
+              {measures.length > 0 && (
+                <section>
+                  <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Summary</h4>
+                  <table className="w-full text-[11px]">
+                    <thead>
+                      <tr className="text-left text-stone-400">
+                        <th className="py-1 font-bold">Column</th>
+                        <th className="py-1 font-bold text-right">Sum</th>
+                        <th className="py-1 font-bold text-right">Mean</th>
+                        <th className="py-1 font-bold text-right">Min</th>
+                        <th className="py-1 font-bold text-right">Max</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {measures.map(c => (
+                        <tr key={c.name} className="border-t border-stone-100">
+                          <td className="py-1.5 font-medium text-stone-900">{c.name}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(c.sum)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(c.mean)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(c.min)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(c.max)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              {dimensions.length > 0 && (
+                <section className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {dimensions.map(c => (
+                    <div key={c.name} className="p-3 border border-stone-100 rounded-xl">
+                      <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">{c.name}</div>
+                      <div className="text-[11px] text-stone-600 truncate">
+                        {c.top_categories!.map(t => `${t.value} (${(t.share * 100).toFixed(0)}%)`).join(' · ')}
+                      </div>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              <section>
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">
+                  Rows{matched.length > MAX_LISTED_ROWS && ` • first ${MAX_LISTED_ROWS} of ${matched.length.toLocaleString()}`}
+                </h4>
+                <div className="overflow-x-auto border border-stone-100 rounded-xl">
+                  <table className="text-[11px]">
+                    <thead className="bg-stone-50">
+                      <tr>
+                        {source.headers.map(h => (
+                          <th key={h} className="px-3 py-2 text-left font-bold text-stone-600 whitespace-nowrap">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {matched.slice(0, MAX_LISTED_ROWS).map((row, i) => (
+                        <tr key={i} className="border-t border-stone-100">
+                          {source.headers.map(h => (
+                            <td key={h} className="px-3 py-1.5 text-stone-700 whitespace-nowrap max-w-[16rem] truncate">{formatCell(row[h])}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </motion.aside>
+    </>
+  );
+};
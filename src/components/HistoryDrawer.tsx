@@ -0,0 +1,364 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { History, ChevronRight, Clock, Search, Loader2, Tag, X, RotateCcw, Database, GitCompare, Check } from 'lucide-react';
+import type { AnalysisResult, Level } from '@/lib/schema';
+import { cn } from '../lib/utils';
+
+export interface ReportHistory {
+  id: string;
+  query: string;
+  context: string;
+  result: AnalysisResult;
+  tags: string[];
+  dataset_id?: string | null;
+  dataset_name?: string | null;
+  dataset_version?: number | null;
+  user_id?: string;
+  author_name?: string | null;
+  created_at: string;
+}
+
+interface Filters {
+  q: string;
+  from: string;
+  to: string;
+  tag: string;
+  impact: '' | Level;
+  severity: '' | Level;
+  author: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: '', from: '', to: '', tag: '', impact: '', severity: '', author: '' };
+const LEVELS: Level[] = ['High', 'Medium', 'Low'];
+
+// SQLite stores CURRENT_TIMESTAMP as UTC without a zone marker
+export const parseTimestamp = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+const TagEditor = ({ report, onSaved }: { report: ReportHistory; onSaved: (tags: string[]) => void }) => {
+  const [value, setValue] = React.useState('');
+
+  const save = async (tags: string[]) => {
+    const res = await fetch(`/api/reports/${report.id}/tags`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tags }),
+    });
+    if (res.ok) onSaved((await res.json()).tags);
+  };
+
+  return (
+    <input
+      value={value}
+      autoFocus
+      placeholder="Add tag, press Enter"
+      onClick={e => e.stopPropagation()}
+      onChange={e => setValue(e.target.value)}
+      onKeyDown={e => {
+        if (e.key === 'Enter' && value.trim()) {
+          save([...report.tags, value.trim()]);
+          setValue('');
+        }
+      }}
+      className="px-2 py-0.5 text-[10px] border border-stone-200 rounded-full w-32 focus:outline-none focus:border-stone-900"
+    />
+  );
+};
+
+// History covers the whole active workspace; viewers can browse but not tag.
+export const HistoryDrawer = ({ onClose, onSelect, onReanalyze, onCompare, refreshKey, userId, canEdit }: {
+  onClose: () => void;
+  onSelect: (report: ReportHistory) => void;
+  onReanalyze: (report: ReportHistory) => void;
+  onCompare: (before: ReportHistory, after: ReportHistory) => void;
+  refreshKey: number;
+  userId: string;
+  canEdit: boolean;
+}) => {
+  const [filters, setFilters] = React.useState<Filters>(EMPTY_FILTERS);
+  const [search, setSearch] = React.useState('');
+  const [items, setItems] = React.useState<ReportHistory[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [tags, setTags] = React.useState<{ tag: string; count: number }[]>([]);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [tagsVersion, setTagsVersion] = React.useState(0);
+  const [compareMode, setCompareMode] = React.useState(false);
+  const [selected, setSelected] = React.useState<ReportHistory[]>([]);
+  const requestRef = React.useRef(0);
+
+  // Debounce typing into the search box
+  React.useEffect(() => {
+    const timer = setTimeout(() => setFilters(f => (f.q === search ? f : { ...f, q: search })), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const load = React.useCallback(async (cursor: string | null) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) if (value) params.set(key, value);
+      if (cursor) params.set('cursor', cursor);
+      const res = await fetch(`/api/reports?${params}`);
+      if (!res.ok) return;
+      const page = await res.json();
+      // A newer filter change supersedes this response
+      if (request !== requestRef.current) return;
+      setItems(prev => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error("Fetch history failed", e);
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }, [filters]);
+
+  React.useEffect(() => { load(null); }, [load, refreshKey]);
+
+  React.useEffect(() => {
+    fetch('/api/reports/tags')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setTags)
+      .catch(() => setTags([]));
+  }, [refreshKey, tagsVersion]);
+
+  const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    if (nextCursor && !isLoading && el.scrollTop + el.clientHeight >= el.scrollHeight - 200) {
+      load(nextCursor);
+    }
+  };
+
+  // Keep at most two selections, dropping the oldest pick
+  const toggleSelected = (report: ReportHistory) => setSelected(prev =>
+    prev.some(p => p.id === report.id) ? prev.filter(p => p.id !== report.id) : [...prev, report].slice(-2)
+  );
+
+  const compareSelected = () => {
+    const [a, b] = [...selected].sort((x, y) => parseTimestamp(x.created_at).getTime() - parseTimestamp(y.created_at).getTime());
+    onCompare(a, b);
+  };
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => setFilters(f => ({ ...f, [key]: value }));
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const selectClass = "px-2 py-1.5 bg-white border border-stone-200 rounded-lg text-[11px] focus:outline-none focus:border-stone-900";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <History className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">Report History</h3>
+              <p className="text-xs text-stone-500">Search intelligence generated across your workspace.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => { setCompareMode(m => !m); setSelected([]); }}
+              title="Compare two reports"
+              className={cn(
+                "p-2 rounded-full transition-colors",
+                compareMode ? "bg-stone-900 text-white" : "text-stone-400 hover:bg-stone-200"
+              )}
+            >
+              <GitCompare size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+            >
+              <ChevronRight size={24} className="text-stone-400" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 border-b border-stone-100 space-y-3">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search queries, context and insights"
+              className="w-full pl-9 pr-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm focus:outline-none focus:border-stone-900"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={filters.from} onChange={e => setFilter('from', e.target.value)} className={selectClass} title="From" />
+            <input type="date" value={filters.to} onChange={e => setFilter('to', e.target.value)} className={selectClass} title="To" />
+            <select value={filters.impact} onChange={e => setFilter('impact', e.target.value as Filters['impact'])} className={selectClass}>
+              <option value="">Any insight impact</option>
+              {LEVELS.map(l => <option key={l} value={l}>{l} impact insight</option>)}
+            </select>
+            <select value={filters.severity} onChange={e => setFilter('severity', e.target.value as Filters['severity'])} className={selectClass}>
+              <option value="">Any anomaly severity</option>
+              {LEVELS.map(l => <option key={l} value={l}>{l} severity anomaly</option>)}
+            </select>
+            <select value={filters.author} onChange={e => setFilter('author', e.target.value)} className={cn(selectClass, "col-span-2")}>
+              <option value="">Everyone in the workspace</option>
+              <option value={userId}>Only my reports</option>
+            </select>
+          </div>
+          {(tags.length > 0 || hasFilters) && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              {tags.map(t => (
+                <button
+                  key={t.tag}
+                  onClick={() => setFilter('tag', filters.tag === t.tag ? '' : t.tag)}
+                  className={cn(
+                    "px-2 py-0.5 rounded-full text-[10px] font-bold border transition-colors",
+                    filters.tag === t.tag ? "bg-stone-900 text-white border-stone-900" : "bg-white text-stone-500 border-stone-200 hover:border-stone-400"
+                  )}
+                >
+                  #{t.tag} <span className="opacity-50">{t.count}</span>
+                </button>
+              ))}
+              {hasFilters && (
+                <button
+                  onClick={() => { setSearch(''); setFilters(EMPTY_FILTERS); }}
+                  className="ml-auto text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-stone-900"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4" onScroll={onScroll}>
+          {items.length === 0 && !isLoading ? (
+            <div className="h-full flex flex-col items-center justify-center text-center opacity-40">
+              <Clock size={48} className="mb-4" />
+              <p className="text-sm font-medium">{hasFilters ? 'No reports match these filters.' : 'No reports generated yet.'}</p>
+            </div>
+          ) : (
+            items.map((h) => (
+              <div
+                key={h.id}
+                role="button"
+                onClick={() => (compareMode ? toggleSelected(h) : onSelect(h))}
+                className={cn(
+                  "w-full text-left p-4 rounded-2xl border hover:border-stone-300 hover:bg-stone-50 transition-all group cursor-pointer",
+                  selected.some(p => p.id === h.id) ? "border-stone-900 bg-stone-50" : "border-stone-100"
+                )}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-stone-400">
+                    {compareMode && (
+                      <span className={cn(
+                        "w-4 h-4 rounded border flex items-center justify-center",
+                        selected.some(p => p.id === h.id) ? "bg-stone-900 border-stone-900 text-white" : "border-stone-300 bg-white"
+                      )}>
+                        {selected.some(p => p.id === h.id) && <Check size={10} />}
+                      </span>
+                    )}
+                    {parseTimestamp(h.created_at).toLocaleDateString()} • {parseTimestamp(h.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                  <ChevronRight size={14} className="text-stone-300 group-hover:text-stone-900 transition-colors" />
+                </div>
+                <div className="text-sm font-bold text-stone-900 mb-1 line-clamp-1">{h.query || "General Analysis"}</div>
+                {h.author_name && (
+                  <div className="text-[10px] text-stone-400 mb-1">by {h.user_id === userId ? 'you' : h.author_name}</div>
+                )}
+                <div className="text-[11px] text-stone-500 line-clamp-2 italic">"{h.context || "No context provided"}"</div>
+                {h.dataset_id && (
+                  <div className="flex items-center justify-between gap-2 mt-3 p-2 bg-stone-50 rounded-lg border border-stone-100">
+                    <span className="flex items-center gap-1.5 text-[10px] font-mono text-stone-500 truncate">
+                      <Database size={10} className="shrink-0" />
+                      {h.dataset_name || 'Dataset'} v{h.dataset_version}
+                    </span>
+                    <button
+                      onClick={e => { e.stopPropagation(); onReanalyze(h); }}
+                      className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-900 shrink-0"
+                    >
+                      <RotateCcw size={10} />
+                      Re-analyze
+                    </button>
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                  {h.tags.map(tag => (
+                    <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold bg-stone-100 text-stone-600">
+                      #{tag}
+                      {canEdit && <X
+                        size={10}
+                        className="cursor-pointer hover:text-red-600"
+                        onClick={async e => {
+                          e.stopPropagation();
+                          const res = await fetch(`/api/reports/${h.id}/tags`, {
+                            method: 'PATCH',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({ tags: h.tags.filter(t => t !== tag) }),
+                          });
+                          if (res.ok) {
+                            const updated = (await res.json()).tags;
+                            setItems(prev => prev.map(p => (p.id === h.id ? { ...p, tags: updated } : p)));
+                            setTagsVersion(v => v + 1);
+                          }
+                        }}
+                      />}
+                    </span>
+                  ))}
+                  {!canEdit ? null : editingId === h.id ? (
+                    <TagEditor
+                      report={h}
+                      onSaved={updated => {
+                        setItems(prev => prev.map(p => (p.id === h.id ? { ...p, tags: updated } : p)));
+                        setEditingId(null);
+                        setTagsVersion(v => v + 1);
+                      }}
+                    />
+                  ) : (
+                    <button
+                      onClick={e => { e.stopPropagation(); setEditingId(h.id); }}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold text-stone-400 border border-dashed border-stone-200 hover:text-stone-900 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Tag size={10} /> Tag
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+          {isLoading && (
+            <div className="flex justify-center py-4 text-stone-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          )}
+        </div>
+
+        {compareMode && (
+          <div className="p-4 border-t border-stone-100 bg-stone-50 flex items-center justify-between gap-3">
+            <span className="text-[11px] text-stone-500">
+              {selected.length < 2 ? `Select ${2 - selected.length} more report${selected.length ? '' : 's'} to compare` : 'Older report is used as the baseline'}
+            </span>
+            <button
+              onClick={compareSelected}
+              disabled={selected.length < 2}
+              className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold disabled:opacity-30 transition-opacity"
+            >
+              Compare
+            </button>
+          </div>
+        )}
+      </motion.aside>
+    </>
+  );
+};
@@ -0,0 +1,331 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Wand2, ChevronRight, ChevronUp, ChevronDown, Trash2, Plus, AlertCircle, AlertTriangle } from 'lucide-react';
+import {
+  applyRecipe,
+  describeStep,
+  validateRecipe,
+  COERCE_TYPES,
+  MISSING_STRATEGIES,
+  type CoerceType,
+  type MissingStrategy,
+  type PrepOp,
+  type PrepStep,
+  type Row,
+} from '@/lib/prep';
+import { FORMULA_FUNCTIONS } from '@/lib/formula';
+import { cn } from '../lib/utils';
+
+const OPS: { op: PrepOp; label: string; hint: string }[] = [
+  { op: 'coerce', label: 'Convert type', hint: 'Parse a column as numbers, dates or booleans. Values that fail become empty.' },
+  { op: 'trim', label: 'Trim', hint: 'Remove leading and trailing whitespace. No columns selected means every column.' },
+  { op: 'missing', label: 'Missing values', hint: 'Drop rows with an empty value, or fill it with a constant, a statistic or by interpolation.' },
+  { op: 'dedupe', label: 'De-duplicate', hint: 'Keep the first of rows that match on the selected columns (all columns if none selected). Text compares case-insensitively.' },
+  { op: 'rename', label: 'Rename', hint: 'Give a column a new name.' },
+  { op: 'drop', label: 'Drop columns', hint: 'Remove columns from the analysis.' },
+  { op: 'filter', label: 'Filter rows', hint: 'Keep rows where the formula is true, e.g. Region = "North" and Sales > 1000.' },
+  { op: 'compute', label: 'Formula column', hint: 'Add or overwrite a column with a formula, e.g. round([Net Revenue] / Units, 2).' },
+];
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 8;
+
+interface StepForm {
+  op: PrepOp;
+  column: string;
+  to: string;
+  columns: string[];
+  strategy: MissingStrategy;
+  value: string;
+  formula: string;
+}
+
+const emptyForm = (op: PrepOp, column = ''): StepForm => ({
+  op, column, to: op === 'coerce' ? 'number' : '', columns: [], strategy: 'drop', value: '', formula: '',
+});
+
+function formToStep(form: StepForm): unknown {
+  switch (form.op) {
+    case 'coerce': return { op: 'coerce', column: form.column, to: form.to as CoerceType };
+    case 'trim':
+    case 'dedupe':
+    case 'drop': return { op: form.op, columns: form.columns };
+    case 'missing': {
+      // Fill values that look numeric are stored as numbers so they match the column
+      const value = form.value.trim() !== '' && !isNaN(Number(form.value)) ? Number(form.value) : form.value;
+      return { op: 'missing', column: form.column, strategy: form.strategy, ...(form.strategy === 'fill' ? { value } : {}) };
+    }
+    case 'rename': return { op: 'rename', column: form.column, to: form.to };
+    case 'filter': return { op: 'filter', formula: form.formula };
+    case 'compute': return { op: 'compute', column: form.column, formula: form.formula };
+  }
+}
+
+export const PrepDrawer = ({ datasetName, rows, headers, recipe, onApply, onClose }: {
+  datasetName: string;
+  rows: Row[];
+  headers: string[];
+  recipe: PrepStep[];
+  onApply: (recipe: PrepStep[]) => void;
+  onClose: () => void;
+}) => {
+  const [steps, setSteps] = React.useState<PrepStep[]>(recipe);
+  const prepared = React.useMemo(() => applyRecipe(rows, steps, headers), [rows, headers, steps]);
+  const [form, setForm] = React.useState<StepForm>(() => emptyForm('coerce', prepared.headers[0]));
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  const changeOp = (op: PrepOp) => {
+    setForm(emptyForm(op, op === 'compute' ? '' : prepared.headers[0]));
+    setFormError(null);
+  };
+
+  const toggleColumn = (column: string) => {
+    setForm({ ...form, columns: form.columns.includes(column) ? form.columns.filter(c => c !== column) : [...form.columns, column] });
+  };
+
+  const addStep = () => {
+    const validated = validateRecipe([formToStep(form)]);
+    if ('error' in validated) {
+      setFormError(validated.error.replace(/^Step 1: /, ''));
+      return;
+    }
+    setSteps([...steps, validated.value[0]]);
+    setForm(emptyForm(form.op, form.op === 'compute' ? '' : prepared.headers[0]));
+    setFormError(null);
+  };
+
+  const move = (index: number, delta: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + delta, 0, step);
+    setSteps(next);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900 transition-all";
+  const columnSelect = (
+    <select value={form.column} onChange={e => setForm({ ...form, column: e.target.value })} className={inputClass}>
+      {prepared.headers.map(h => <option key={h} value={h}>{h}</option>)}
+    </select>
+  );
+  const unchanged = JSON.stringify(steps) === JSON.stringify(recipe);
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-2xl bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <Wand2 className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-stone-900 truncate">Prepare {datasetName || 'dataset'}</h3>
+              <p className="text-xs text-stone-500">Steps run in order before analysis and are replayed on re-runs.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Recipe</h4>
+            {steps.length === 0 && (
+              <p className="text-xs text-stone-400">No steps yet. The data is analyzed exactly as uploaded.</p>
+            )}
+            {steps.map((step, i) => {
+              const result = prepared.results[i];
+              return (
+                <div key={i} className="p-3 rounded-2xl border border-stone-200 flex items-start gap-3">
+                  <span className="w-5 h-5 mt-0.5 shrink-0 rounded-md bg-stone-900 text-white text-[10px] font-bold flex items-center justify-center">{i + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold text-stone-900 break-words">{describeStep(step)}</div>
+                    <div className="text-[10px] font-mono text-stone-400 mt-0.5">
+                      {result.rows_after !== result.rows_before
+                        ? `${result.rows_before.toLocaleString()} → ${result.rows_after.toLocaleString()} rows`
+                        : `${result.rows_after.toLocaleString()} rows`}
+                      {result.cells_changed > 0 && ` · ${result.cells_changed.toLocaleString()} cells changed`}
+                    </div>
+                    {result.warning && (
+                      <div className="text-[10px] text-amber-600 mt-1 flex items-start gap-1">
+                        <AlertTriangle size={11} className="shrink-0 mt-px" />
+                        {result.warning}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-stone-400 hover:text-stone-900 disabled:opacity-30" title="Move up">
+                      <ChevronUp size={14} />
+                    </button>
+                    <button onClick={() => move(i, 1)} disabled={i === steps.length - 1} className="p-1 text-stone-400 hover:text-stone-900 disabled:opacity-30" title="Move down">
+                      <ChevronDown size={14} />
+                    </button>
+                    <button onClick={() => setSteps(steps.filter((_, j) => j !== i))} className="p-1 text-stone-400 hover:text-red-600" title="Remove step">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-4 rounded-2xl border border-stone-200 space-y-3">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 flex items-center gap-1.5">
+              <Plus size={12} /> Add step
+            </h4>
+            <div className="flex flex-wrap gap-1.5">
+              {OPS.map(o => (
+                <button
+                  key={o.op}
+                  onClick={() => changeOp(o.op)}
+                  className={cn(
+                    "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors",
+                    form.op === o.op ? "bg-stone-900 text-white border-stone-900" : "border-stone-200 text-stone-500 hover:text-stone-900"
+                  )}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-stone-400">{OPS.find(o => o.op === form.op)!.hint}</p>
+
+            {form.op === 'coerce' && (
+              <div className="grid grid-cols-2 gap-2">
+                {columnSelect}
+                <select value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className={inputClass}>
+                  {COERCE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+            )}
+            {form.op === 'missing' && (
+              <div className="grid grid-cols-2 gap-2">
+                {columnSelect}
+                <select value={form.strategy} onChange={e => setForm({ ...form, strategy: e.target.value as MissingStrategy })} className={inputClass}>
+                  {MISSING_STRATEGIES.map(s => <option key={s} value={s}>{s === 'drop' ? 'drop row' : s === 'fill' ? 'fill with value' : s}</option>)}
+                </select>
+                {form.strategy === 'fill' && (
+                  <input
+                    type="text"
+                    placeholder="Fill value"
+                    value={form.value}
+                    onChange={e => setForm({ ...form, value: e.target.value })}
+                    className={cn(inputClass, "col-span-2")}
+                  />
+                )}
+              </div>
+            )}
+            {form.op === 'rename' && (
+              <div className="grid grid-cols-2 gap-2">
+                {columnSelect}
+                <input type="text" placeholder="New name" value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className={inputClass} />
+              </div>
+            )}
+            {(form.op === 'trim' || form.op === 'dedupe' || form.op === 'drop') && (
+              <div className="flex flex-wrap gap-1">
+                {prepared.headers.map(h => (
+                  <button
+                    key={h}
+                    onClick={() => toggleColumn(h)}
+                    className={cn(
+                      "px-1.5 py-0.5 rounded border text-[10px] transition-colors",
+                      form.columns.includes(h) ? "bg-stone-900 border-stone-900 text-white" : "bg-white border-stone-200 text-stone-500 hover:border-stone-400"
+                    )}
+                  >
+                    {h}
+                  </button>
+                ))}
+              </div>
+            )}
+            {(form.op === 'filter' || form.op === 'compute') && (
+              <div className="space-y-2">
+                {form.op === 'compute' && (
+                  <input type="text" placeholder="Column name" value={form.column} onChange={e => setForm({ ...form, column: e.target.value })} className={inputClass} />
+                )}
+                <input
+                  type="text"
+                  placeholder={form.op === 'filter' ? 'Region = "North" and Sales > 1000' : 'round([Net Revenue] / Units, 2)'}
+                  value={form.formula}
+                  onChange={e => setForm({ ...form, formula: e.target.value })}
+                  className={cn(inputClass, "font-mono")}
+                />
+                <p className="text-[10px] text-stone-400 leading-relaxed">
+                  Wrap names with spaces in brackets: [Unit Price]. Functions: {FORMULA_FUNCTIONS.join(', ')}.
+                </p>
+              </div>
+            )}
+
+            {formError && (
+              <div className="p-2 bg-red-50 border border-red-100 rounded-xl text-[11px] text-red-700 flex items-center gap-2">
+                <AlertCircle size={12} className="shrink-0" />
+                {formError}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button onClick={addStep} className="px-3 py-1.5 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest">
+                Add step
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Preview</h4>
+            <p className="text-xs text-stone-500 mb-2">
+              {prepared.rows.length.toLocaleString()} of {rows.length.toLocaleString()} rows × {prepared.headers.length} columns
+            </p>
+            <div className="overflow-x-auto border border-stone-100 rounded-xl">
+              <table className="w-full text-[11px]">
+                <thead className="bg-stone-50">
+                  <tr>
+                    {prepared.headers.slice(0, PREVIEW_COLUMNS).map(h => (
+                      <th key={h} className="px-2 py-1.5 text-left font-bold text-stone-600 whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {prepared.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t border-stone-100">
+                      {prepared.headers.slice(0, PREVIEW_COLUMNS).map(h => (
+                        <td key={h} className="px-2 py-1.5 text-stone-700 whitespace-nowrap max-w-[160px] truncate">
+                          {row[h] === null || row[h] === undefined ? <span className="text-stone-300">—</span> : String(row[h])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-stone-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold text-stone-500 hover:text-stone-900">
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(steps)}
+            disabled={unchanged || prepared.rows.length === 0}
+            className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Apply {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+          </button>
+        </div>
+      </motion.aside>
+    </>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { MessageSquare, Send, Loader2, TrendingUp, AlertTriangle } from 'lucide-react';
+import type { AnalysisResult, ChatCitation, ChatMessage } from '@/lib/schema';
+import { VisualCard } from './VisualCard';
+import type { DrillTarget } from '@/lib/drilldown';
+import { cn } from '../lib/utils';
+
+const CitationChip = ({ citation, report }: { citation: ChatCitation; report: AnalysisResult }) => {
+  const item = citation.section === 'insights' ? report.insights?.[citation.index] : report.anomalies?.[citation.index];
+  if (!item) return null;
+  const label = 'title' in item ? item.title : `${item.type} • ${item.location}`;
+  const Icon = citation.section === 'insights' ? TrendingUp : AlertTriangle;
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold bg-stone-100 text-stone-600 border border-stone-200 max-w-full">
+      <Icon size={10} className="shrink-0" />
+      <span className="truncate">{label}</span>
+    </span>
+  );
+};
+
+export const ReportChat = ({ reportId, report, provider, model, onDrill }: {
+  reportId: string;
+  report: AnalysisResult;
+  provider?: string;
+  model?: string;
+  onDrill?: (target: DrillTarget) => void;
+}) => {
+  const [messages, setMessages] = React.useState<ChatMessage[]>([]);
+  const [question, setQuestion] = React.useState('');
+  const [isSending, setIsSending] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    setError(null);
+    fetch(`/api/reports/${reportId}/chat`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(thread => { if (!cancelled) setMessages(thread); })
+      .catch(e => console.error("Fetch chat failed", e));
+    return () => { cancelled = true; };
+  }, [reportId]);
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isSending) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/reports/${reportId}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: text, provider, model }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || 'The engine could not answer that question.');
+      setMessages(prev => [...prev, ...json.messages]);
+      setQuestion('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm no-print">
+      <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+        <MessageSquare size={16} />
+        Ask About This Report
+      </h3>
+
+      {messages.length > 0 && (
+        <div className="space-y-4 mb-4 max-h-[32rem] overflow-y-auto pr-1">
+          {messages.map(m => (
+            <div key={m.id} className={cn("flex", m.role === 'user' ? "justify-end" : "justify-start")}>
+              <div className={cn(
+                "rounded-2xl px-4 py-3 text-sm space-y-3",
+                m.role === 'user' ? "bg-stone-900 text-white max-w-[80%]" : "bg-stone-50 border border-stone-100 text-stone-700 w-full"
+              )}>
+                <p className="whitespace-pre-line leading-relaxed">{m.content}</p>
+                {m.citations.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {m.citations.map((c, i) => <CitationChip key={i} citation={c} report={report} />)}
+                  </div>
+                )}
+                {m.visualizations.map((viz, i) => <VisualCard key={i} viz={viz} onDrill={onDrill} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="mb-3 text-xs text-red-600">{error}</div>}
+
+      <form onSubmit={ask} className="flex gap-2">
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="e.g. Why is East declining?"
+          className="flex-1 bg-stone-50 border border-stone-200 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-stone-900/10"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !question.trim()}
+          className="px-4 py-2.5 bg-stone-900 text-white rounded-xl text-sm font-bold flex items-center gap-2 disabled:opacity-40"
+        >
+          {isSending ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+          Ask
+        </button>
+      </form>
+    </section>
+  );
+};
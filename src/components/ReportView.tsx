@@ -0,0 +1,723 @@
+import { useState } from 'react';
+import {
+  Database,
+  TrendingUp,
+  AlertTriangle,
+  Zap,
+  ShieldAlert,
+  CheckCircle2,
+  BarChart3,
+  ArrowUpRight,
+  ArrowDownRight,
+  Minus,
+  Globe,
+  ChevronDown
+} from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  Legend,
+  ScatterChart,
+  Scatter,
+  ZAxis,
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  Radar
+} from 'recharts';
+import type { AnalysisResult, Forecast, KeyMetric, Level, ValidationReport } from '@/lib/schema';
+import { METHOD_LABELS, type StatisticalForecast } from '@/lib/forecast';
+import type { EvidenceVerification } from '@/lib/evidence';
+import { cn } from '../lib/utils';
+import { VisualCard, drillHandler } from './VisualCard';
+import type { DrillTarget } from '@/lib/drilldown';
+
+const ImpactBadge = ({ level }: { level: Level }) => {
+  const styles = {
+    High: "bg-red-50 text-red-700 border-red-100",
+    Medium: "bg-amber-50 text-amber-700 border-amber-100",
+    Low: "bg-emerald-50 text-emerald-700 border-emerald-100",
+  };
+  return (
+    <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border", styles[level])}>
+      {level}
+    </span>
+  );
+};
+
+const EvidenceChip = ({ verification }: { verification?: EvidenceVerification }) => {
+  if (!verification) return null;
+  const styles = {
+    verified: "bg-emerald-50 text-emerald-700 border-emerald-100",
+    approximate: "bg-amber-50 text-amber-700 border-amber-100",
+    unsupported: "bg-red-50 text-red-700 border-red-100",
+    qualitative: "bg-stone-50 text-stone-500 border-stone-100",
+  };
+  const detail = verification.claims
+    .map(c => `${c.text}: ${c.status}${c.matched ? ` (${c.matched.label} = ${c.matched.value.toLocaleString()})` : ''}`)
+    .join('\n');
+  return (
+    <span
+      title={detail || 'No numeric claims to check'}
+      className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider border cursor-help", styles[verification.status])}
+    >
+      {verification.status}
+    </span>
+  );
+};
+
+const ValidationNotice = ({ validation }: { validation: ValidationReport }) => {
+  const [open, setOpen] = useState(false);
+  const count = (action: string) => validation.issues.filter(i => i.action === action).length;
+  const repaired = count('repaired');
+  const dropped = count('dropped');
+  const adjusted = validation.issues.length - repaired - dropped;
+  if (validation.status === 'valid') return null;
+
+  return (
+    <div className={cn(
+      "px-4 py-2 rounded-xl border text-[10px] no-print",
+      validation.status === 'partial' ? "bg-amber-50 border-amber-100 text-amber-800" : "bg-stone-50 border-stone-100 text-stone-500"
+    )}>
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between gap-3 font-bold uppercase tracking-widest">
+        <span className="flex items-center gap-2">
+          <ShieldAlert size={12} className="shrink-0" />
+          Output Validation: {repaired} repaired • {adjusted} adjusted • {dropped} dropped
+          {validation.repair_attempted && validation.status === 'partial' && ' • repair incomplete'}
+        </span>
+        <ChevronDown size={12} className={cn("transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-1 font-mono max-h-48 overflow-y-auto">
+          {validation.issues.map((issue, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="uppercase font-bold shrink-0 w-16">{issue.action}</span>
+              <span className="shrink-0">{issue.path}</span>
+              <span className="opacity-70 truncate">{issue.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const MetricCard = ({ metric }: { metric: KeyMetric }) => {
+  const TrendIcon = metric.trend === 'up' ? ArrowUpRight : metric.trend === 'down' ? ArrowDownRight : Minus;
+  const trendColor = metric.trend === 'up' ? 'text-emerald-600' : metric.trend === 'down' ? 'text-red-600' : 'text-stone-400';
+
+  return (
+    <motion.div 
+      whileHover={{ scale: 1.02, y: -2 }}
+      className="bg-white p-5 rounded-2xl border border-stone-200 shadow-sm transition-shadow hover:shadow-md"
+    >
+      <div className="flex justify-between items-start mb-2">
+        <span className="text-stone-500 text-xs font-medium uppercase tracking-tight">{metric.name}</span>
+        <TrendIcon size={16} className={trendColor} />
+      </div>
+      <div className="text-2xl font-semibold tracking-tight text-stone-900">{metric.value}</div>
+    </motion.div>
+  );
+};
+
+// Recent history, then the statistical forecast with its bands and the model's
+// projection matched by step. The last actual starts every forecast series so
+// the lines join up.
+function forecastChartData(forecast: StatisticalForecast, projection: Forecast['projection_data']) {
+  const history = forecast.history.slice(-forecast.points.length * 3);
+  const last = history[history.length - 1];
+  return [
+    ...history.slice(0, -1).map(h => ({ period: h.period, actual: h.value })),
+    { period: last.period, actual: last.value, forecast: last.value, model: projection?.length ? last.value : undefined, band80: [last.value, last.value], band95: [last.value, last.value] },
+    ...forecast.points.map((p, i) => ({
+      period: p.period,
+      forecast: p.value,
+      model: projection?.[i]?.value,
+      band80: [p.lower80, p.upper80],
+      band95: [p.lower95, p.upper95],
+    })),
+  ];
+}
+
+const ForecastMethodNote = ({ forecast }: { forecast: StatisticalForecast }) => {
+  const backtest = forecast.backtests.find(b => b.method === forecast.method);
+  const reconciliation = forecast.reconciliation;
+  return (
+    <div className="pt-4 border-t border-white/10 space-y-2">
+      <div className="flex items-center gap-4">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500">Method</div>
+        <div className="text-sm font-medium">
+          {METHOD_LABELS[forecast.method]} on {forecast.measure} per {forecast.granularity}
+          {backtest?.mape != null && <span className="text-stone-400"> • backtest error {backtest.mape}%</span>}
+        </div>
+      </div>
+      {reconciliation && (
+        <div className="flex items-start gap-2 text-xs text-stone-300">
+          <span className={cn(
+            "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider shrink-0",
+            reconciliation.status === 'consistent' ? "bg-emerald-500/20 text-emerald-300"
+              : reconciliation.status === 'diverges' ? "bg-amber-500/20 text-amber-300"
+              : "bg-white/10 text-stone-400"
+          )}>
+            {reconciliation.status === 'no_projection' ? 'unchecked' : reconciliation.status}
+          </span>
+          <span>{reconciliation.note}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ForecastChart = ({ forecast, projection }: { forecast: StatisticalForecast; projection: Forecast['projection_data'] }) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <AreaChart data={forecastChartData(forecast, projection)}>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
+      <XAxis dataKey="period" fontSize={10} axisLine={false} tickLine={false} stroke="rgba(255,255,255,0.4)" dy={10} />
+      <YAxis
+        fontSize={10}
+        axisLine={false}
+        tickLine={false}
+        stroke="rgba(255,255,255,0.4)"
+        tickFormatter={(val) => Math.abs(val) >= 1000 ? `${(val / 1000).toFixed(0)}k` : String(Math.round(val))}
+      />
+      <Tooltip
+        contentStyle={{ backgroundColor: '#1C1917', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: '12px' }}
+        itemStyle={{ color: '#FFFFFF' }}
+        cursor={{ stroke: 'rgba(255,255,255,0.2)', strokeWidth: 1 }}
+        formatter={(value: unknown) => Array.isArray(value) ? value.map(v => Number(v).toLocaleString()).join(' – ') : Number(value).toLocaleString()}
+      />
+      <Legend verticalAlign="top" height={28} iconType="plainline" wrapperStyle={{ fontSize: '10px' }} />
+      <Area type="monotone" dataKey="band95" name="95% band" stroke="none" fill="#FFFFFF" fillOpacity={0.08} isAnimationActive={false} />
+      <Area type="monotone" dataKey="band80" name="80% band" stroke="none" fill="#FFFFFF" fillOpacity={0.15} isAnimationActive={false} />
+      <Area type="monotone" dataKey="actual" name={forecast.measure} stroke="#FFFFFF" strokeWidth={2} fill="none" dot={false} />
+      <Area type="monotone" dataKey="forecast" name={METHOD_LABELS[forecast.method]} stroke="#FFFFFF" strokeWidth={2} strokeDasharray="5 4" fill="none" dot={false} />
+      {projection && projection.length > 0 && (
+        <Area type="monotone" dataKey="model" name="Model projection" stroke="#FBBF24" strokeWidth={2} strokeDasharray="2 3" fill="none" dot={false} />
+      )}
+    </AreaChart>
+  </ResponsiveContainer>
+);
+
+// The read-only body of a report: every result section, no app chrome.
+// Shared by the workspace and the public share page; only the workspace has
+// the rows to drill into, so only it passes onDrill.
+export const ReportView = ({ result, onDrill }: { result: AnalysisResult; onDrill?: (target: DrillTarget) => void }) => {
+  const [hideUnsupported, setHideUnsupported] = useState(false);
+
+  return (
+    <>
+      {result.coverage && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-stone-50 border border-stone-100 rounded-xl text-[10px] font-bold uppercase tracking-widest text-stone-500">
+          <Database size={12} className="shrink-0" />
+          <span>
+            Data Coverage: {(result.coverage.fraction * 100).toFixed(1)}% of {result.coverage.total_rows.toLocaleString()} rows aggregated
+            {' • '}{result.coverage.sampled_rows.toLocaleString()} rows sampled
+            {result.coverage.strata_column ? ` by ${result.coverage.strata_column}` : ''}
+            {result.engine && ` • Engine: ${result.engine.provider}/${result.engine.model}`}
+          </span>
+        </div>
+      )}
+
+      {result.validation && <ValidationNotice validation={result.validation} />}
+
+      {result.risk_analysis?.some(r => r.probability.toLowerCase().includes('high')) && (
+        <motion.div 
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="bg-red-600 text-white p-4 rounded-2xl flex items-center justify-between shadow-xl shadow-red-200"
+        >
+          <div className="flex items-center gap-4">
+            <div className="bg-white/20 p-2 rounded-lg">
+              <AlertTriangle size={24} />
+            </div>
+            <div>
+              <div className="text-sm font-bold uppercase tracking-widest">Critical Risks Detected</div>
+              <p className="text-[10px] text-red-100">Immediate strategic intervention recommended for high-probability threats.</p>
+            </div>
+          </div>
+          <button 
+            onClick={() => document.getElementById('risk-analysis')?.scrollIntoView({ behavior: 'smooth' })}
+            className="px-3 py-1 bg-white text-red-600 rounded-full text-[10px] font-bold uppercase tracking-widest hover:bg-red-50 transition-colors cursor-pointer"
+          >
+            Action Required
+          </button>
+        </motion.div>
+      )}
+
+      {/* Key Metrics Row */}
+      {result.data_summary?.key_metrics && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print-break-inside-avoid">
+          {result.data_summary.key_metrics.map((m, i) => (
+            <MetricCard key={i} metric={m} />
+          ))}
+        </div>
+      )}
+
+      {/* Visualizations Section */}
+      {result.visualizations && result.visualizations.length > 0 && (
+        <section className="print-break-inside-avoid">
+          <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+            <BarChart3 size={16} />
+            Intelligence Visualizations
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {result.visualizations.map((viz, i) => (
+              <VisualCard key={i} viz={viz} onDrill={onDrill} />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Insights Section */}
+      {result.insights && result.insights.length > 0 && (
+        <section className="print-break-inside-avoid">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2">
+              <TrendingUp size={16} />
+              Strategic Insights
+            </h3>
+            {result.evidence && (
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-stone-400 cursor-pointer no-print">
+                <input
+                  type="checkbox"
+                  checked={hideUnsupported}
+                  onChange={e => setHideUnsupported(e.target.checked)}
+                  className="accent-stone-900"
+                />
+                Hide unsupported ({result.evidence.unsupported})
+              </label>
+            )}
+          </div>
+          <div className="grid grid-cols-1 gap-4">
+            {result.insights.filter(insight => !hideUnsupported || insight.verification?.status !== 'unsupported').map((insight, i) => (
+              <div key={i} className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm hover:border-stone-400 transition-colors group">
+                <div className="flex justify-between items-start mb-3">
+                  <h4 className="text-lg font-bold text-stone-900 group-hover:text-stone-700 transition-colors">{insight.title}</h4>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <EvidenceChip verification={insight.verification} />
+                    <ImpactBadge level={insight.impact_level} />
+                  </div>
+                </div>
+                <p className="text-stone-600 text-sm leading-relaxed mb-4">{insight.description}</p>
+                <div className="flex items-start gap-2 p-3 bg-stone-50 rounded-xl border border-stone-100">
+                  <CheckCircle2 className="text-stone-400 shrink-0 mt-0.5" size={14} />
+                  <div className="text-[11px] font-mono text-stone-500">
+                    <span className="font-bold text-stone-700 uppercase tracking-tighter mr-2">Evidence:</span>
+                    {insight.data_evidence}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Anomalies & Risks Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print-break-inside-avoid">
+        {result.anomalies && result.anomalies.length > 0 && (
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+              <AlertTriangle size={16} />
+              Anomalies Detected
+            </h3>
+            <div className="space-y-3">
+              {result.anomalies.map((anomaly, i) => (
+                <div key={i} className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs font-bold text-stone-900">{anomaly.type}</span>
+                    <span className={cn(
+                      "text-[10px] font-bold px-2 py-0.5 rounded uppercase",
+                      anomaly.severity === 'High' ? 'bg-red-100 text-red-700' : 'bg-stone-100 text-stone-600'
+                    )}>
+                      {anomaly.severity}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-stone-500 mb-1">Location: {anomaly.location}</div>
+                  <p className="text-xs text-stone-600 italic">"{anomaly.reasoning}"</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {result.risk_analysis && result.risk_analysis.length > 0 && (
+          <section id="risk-analysis">
+            <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+              <ShieldAlert size={16} />
+              Risk Analysis
+            </h3>
+            <div className="space-y-3">
+              {result.risk_analysis.filter(risk => !hideUnsupported || risk.verification?.status !== 'unsupported').map((risk, i) => {
+                const isHighRisk = risk.probability.toLowerCase().includes('high');
+                return (
+                  <motion.div 
+                    key={i} 
+                    whileHover={{ scale: 1.02 }}
+                    className={cn(
+                      "p-6 rounded-2xl border transition-all relative overflow-hidden",
+                      isHighRisk 
+                        ? "bg-red-50 border-red-200 shadow-lg shadow-red-100/50" 
+                        : "bg-white border-stone-200 shadow-sm"
+                    )}
+                  >
+                    {isHighRisk && (
+                      <div className="absolute top-0 right-0 p-2">
+                        <div className="w-2 h-2 bg-red-500 rounded-full animate-ping" />
+                      </div>
+                    )}
+                    <div className="flex justify-between items-start mb-4">
+                      <h4 className={cn(
+                        "text-sm font-bold max-w-[70%]",
+                        isHighRisk ? "text-red-900" : "text-stone-900"
+                      )}>{risk.risk_type}</h4>
+                      <div className={cn(
+                        "text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider border",
+                        isHighRisk 
+                          ? "bg-red-600 text-white border-red-700" 
+                          : "bg-stone-50 text-stone-600 border-stone-100"
+                      )}>
+                        {risk.probability}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div className="flex flex-col">
+                        <span className={cn(
+                          "text-[9px] font-bold uppercase tracking-widest mb-1",
+                          isHighRisk ? "text-red-400" : "text-stone-400"
+                        )}>Probability</span>
+                        <span className={cn(
+                          "text-xs font-bold uppercase",
+                          isHighRisk ? "text-red-700" : "text-stone-600"
+                        )}>{risk.probability}</span>
+                      </div>
+                      <div className="flex flex-col">
+                        <span className={cn(
+                          "text-[9px] font-bold uppercase tracking-widest mb-1",
+                          isHighRisk ? "text-red-400" : "text-stone-400"
+                        )}>Impact Level</span>
+                        <span className={cn(
+                          "text-xs font-bold",
+                          isHighRisk ? "text-red-900" : "text-stone-900"
+                        )}>{risk.business_impact}</span>
+                      </div>
+                    </div>
+
+                    <div className={cn(
+                      "p-4 rounded-xl border",
+                      isHighRisk ? "bg-red-100/50 border-red-200" : "bg-stone-50 border-stone-100"
+                    )}>
+                      <p className={cn(
+                        "text-xs leading-relaxed italic",
+                        isHighRisk ? "text-red-800" : "text-stone-600"
+                      )}>
+                        "{risk.evidence}"
+                      </p>
+                      {risk.verification && (
+                        <div className="mt-2">
+                          <EvidenceChip verification={risk.verification} />
+                        </div>
+                      )}
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </div>
+
+      {/* Risk Heatmap & Operational Efficiency */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print-break-inside-avoid">
+        {result.risk_heatmap && result.risk_heatmap.data.length > 0 && (
+          <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm">
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h3 className="text-lg font-bold text-stone-900">{result.risk_heatmap.title}</h3>
+                <p className="text-xs text-stone-500">Risk Score vs Business Impact distribution.</p>
+              </div>
+              <AlertTriangle className="text-red-500" size={24} />
+            </div>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }} className={cn(onDrill && "cursor-pointer")}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#F5F5F4" />
+                  <XAxis type="number" dataKey="risk_score" name="Risk Score" unit="" fontSize={10} axisLine={false} tickLine={false} />
+                  <YAxis type="number" dataKey="impact" name="Impact" unit="" fontSize={10} axisLine={false} tickLine={false} />
+                  <ZAxis type="number" range={[100, 1000]} />
+                  <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+                  <Legend verticalAlign="top" height={36}/>
+                  <Scatter
+                    name="Risk Categories"
+                    data={result.risk_heatmap.data}
+                    fill="#EF4444"
+                    onClick={(_, index) => drillHandler(onDrill, result.risk_heatmap!.title, result.risk_heatmap!.data, d => d.category)(index)}
+                  />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+        )}
+
+        {result.operational_efficiency && result.operational_efficiency.metrics.length > 0 && (
+          <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm">
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h3 className="text-lg font-bold text-stone-900">{result.operational_efficiency.title}</h3>
+                <p className="text-xs text-stone-500">Operational performance across key dimensions.</p>
+              </div>
+              <Zap className="text-amber-500" size={24} />
+            </div>
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart cx="50%" cy="50%" outerRadius="80%" data={result.operational_efficiency.metrics}>
+                  <PolarGrid stroke="#F5F5F4" />
+                  <PolarAngleAxis dataKey="label" fontSize={10} />
+                  <PolarRadiusAxis angle={30} domain={[0, 100]} fontSize={8} />
+                  <Radar name="Efficiency" dataKey="score" stroke="#1C1917" fill="#1C1917" fillOpacity={0.6} />
+                  <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+                </RadarChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+        )}
+      </div>
+
+      {/* Forecast Section */}
+      {result.forecast && (
+        <section className="bg-stone-900 text-white p-8 rounded-3xl shadow-2xl relative overflow-hidden print-break-inside-avoid">
+          <div className="absolute top-0 right-0 p-8 opacity-10">
+            <TrendingUp size={160} />
+          </div>
+          <div className="relative z-10">
+            <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-6">
+              <BarChart3 size={16} />
+              Predictive Forecast
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
+              <div>
+                <div className="text-4xl font-serif italic mb-4">{result.forecast.predicted_trend}</div>
+                <div className="space-y-4">
+                  <div className="flex items-center gap-4">
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500">Horizon</div>
+                    <div className="text-sm font-medium">{result.forecast.time_horizon}</div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-stone-500">Confidence</div>
+                    <div className="px-3 py-1 bg-white/10 rounded-full text-xs font-bold">{result.forecast.confidence_level}</div>
+                  </div>
+                  {result.statistical_forecast && <ForecastMethodNote forecast={result.statistical_forecast} />}
+                </div>
+              </div>
+              <div className="h-64 bg-white/5 rounded-2xl flex items-center justify-center border border-white/10 p-6">
+                 {result.statistical_forecast ? (
+                   <ForecastChart forecast={result.statistical_forecast} projection={result.forecast.projection_data} />
+                 ) : result.forecast.projection_data ? (
+                   <ResponsiveContainer width="100%" height="100%">
+                     <AreaChart data={result.forecast.projection_data}>
+                       <defs>
+                         <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
+                           <stop offset="5%" stopColor="#FFFFFF" stopOpacity={0.3}/>
+                           <stop offset="95%" stopColor="#FFFFFF" stopOpacity={0}/>
+                         </linearGradient>
+                       </defs>
+                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
+                       <XAxis 
+                         dataKey="period" 
+                         fontSize={10} 
+                         axisLine={false} 
+                         tickLine={false} 
+                         stroke="rgba(255,255,255,0.4)" 
+                         dy={10}
+                       />
+                       <YAxis 
+                         fontSize={10} 
+                         axisLine={false} 
+                         tickLine={false} 
+                         stroke="rgba(255,255,255,0.4)"
+                         tickFormatter={(val) => `${(val/1000).toFixed(0)}k`}
+                       />
+                       <Tooltip 
+                         contentStyle={{ backgroundColor: '#1C1917', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px', fontSize: '12px' }}
+                         itemStyle={{ color: '#FFFFFF' }}
+                         cursor={{ stroke: 'rgba(255,255,255,0.2)', strokeWidth: 1 }}
+                       />
+                       <Area 
+                         type="monotone" 
+                         dataKey="value" 
+                         stroke="#FFFFFF" 
+                         fillOpacity={1} 
+                         fill="url(#colorValue)" 
+                         strokeWidth={3}
+                         animationDuration={1500}
+                       />
+                     </AreaChart>
+                   </ResponsiveContainer>
+                 ) : (
+                   <div className="text-stone-500 text-xs italic">Visual projection generated from intelligence core</div>
+                 )}
+              </div>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Recommendations */}
+      {result.recommendations && result.recommendations.length > 0 && (
+        <section className="print-break-inside-avoid">
+          <h3 className="text-sm font-bold uppercase tracking-widest text-stone-400 flex items-center gap-2 mb-4">
+            <CheckCircle2 size={16} />
+            Decision Intelligence
+          </h3>
+          <div className="grid grid-cols-1 gap-4">
+            {result.recommendations.map((rec, i) => (
+              <div key={i} className="bg-white p-6 rounded-2xl border-l-4 border-l-stone-900 border border-stone-200 shadow-sm">
+                <div className="flex justify-between items-start mb-4">
+                  <h4 className="text-lg font-bold text-stone-900">{rec.action}</h4>
+                  <div className="flex flex-col items-end">
+                    <span className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-1">Confidence</span>
+                    <div className="text-xl font-mono font-bold text-stone-900">{(rec.confidence_score * 100).toFixed(0)}%</div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Justification</div>
+                    <p className="text-sm text-stone-600">{rec.justification}</p>
+                  </div>
+                  <div>
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Expected Outcome</div>
+                    <p className="text-sm text-stone-600">{rec.expected_outcome}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Strategic Growth Projection */}
+      {result.strategic_growth && (
+        <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm print-break-inside-avoid">
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">{result.strategic_growth.title}</h3>
+              <p className="text-xs text-stone-500">Comparative analysis of current vs projected performance benchmarks.</p>
+            </div>
+            <TrendingUp className="text-stone-900" size={24} />
+          </div>
+          <div className="h-80 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={result.strategic_growth.data}
+                layout="vertical"
+                margin={{ left: 40, right: 40 }}
+                className={cn(onDrill && "cursor-pointer")}
+                onClick={state => drillHandler(onDrill, result.strategic_growth!.title, result.strategic_growth!.data, d => d.label)(state.activeTooltipIndex)}
+              >
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#F5F5F4" />
+                <XAxis type="number" hide />
+                <YAxis dataKey="label" type="category" fontSize={10} axisLine={false} tickLine={false} width={100} />
+                <Tooltip 
+                  cursor={{ fill: '#F5F5F4' }}
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                />
+                <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
+                <Bar dataKey="current" name="Current Performance" fill="#D6D3D1" radius={[0, 4, 4, 0]} barSize={12} />
+                <Bar dataKey="projected" name="Projected Growth" fill="#1C1917" radius={[0, 4, 4, 0]} barSize={12} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+
+      {/* Geographic Opportunity Matrix */}
+      {result.geographic_matrix && result.geographic_matrix.data.length > 0 && (
+        <section className="bg-white p-8 rounded-3xl border border-stone-200 shadow-sm print-break-inside-avoid">
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">{result.geographic_matrix.title}</h3>
+              <p className="text-xs text-stone-500">Comprehensive opportunity vs risk analysis across all identified cities.</p>
+            </div>
+            <Globe className="text-stone-900" size={24} />
+          </div>
+          <div className="h-[400px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={result.geographic_matrix.data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
+                className={cn(onDrill && "cursor-pointer")}
+                onClick={state => drillHandler(onDrill, result.geographic_matrix!.title, result.geographic_matrix!.data, d => d.city)(state.activeTooltipIndex)}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
+                <XAxis 
+                  dataKey="city" 
+                  fontSize={10} 
+                  axisLine={false} 
+                  tickLine={false} 
+                  angle={-45} 
+                  textAnchor="end" 
+                  interval={0}
+                />
+                <YAxis fontSize={10} axisLine={false} tickLine={false} />
+                <Tooltip 
+                  contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                />
+                <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
+                <Bar dataKey="score" name="Opportunity Score" fill="#1C1917" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="risk" name="Risk Level" fill="#EF4444" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      )}
+
+      {/* Market Expansion Intelligence */}
+      {result.market_expansion && (
+        <section className="bg-stone-900 text-white p-8 rounded-3xl shadow-2xl relative overflow-hidden print-break-inside-avoid">
+          <div className="absolute top-0 left-0 p-8 opacity-5">
+            <Globe size={160} />
+          </div>
+          <div className="relative z-10">
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h3 className="text-lg font-bold">{result.market_expansion.title}</h3>
+                <p className="text-xs text-stone-400">Opportunity vs Risk analysis across key market segments.</p>
+              </div>
+              <div className="px-3 py-1 bg-white/10 rounded-full text-[10px] font-bold uppercase tracking-widest">Expansion Intelligence</div>
+            </div>
+            <div className="h-80 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={result.market_expansion.data}
+                  margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  className={cn(onDrill && "cursor-pointer")}
+                  onClick={state => drillHandler(onDrill, result.market_expansion!.title, result.market_expansion!.data, d => d.segment)(state.activeTooltipIndex)}
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255,255,255,0.05)" />
+                  <XAxis dataKey="segment" fontSize={10} axisLine={false} tickLine={false} stroke="rgba(255,255,255,0.5)" />
+                  <YAxis fontSize={10} axisLine={false} tickLine={false} stroke="rgba(255,255,255,0.5)" />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1C1917', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
+                    itemStyle={{ color: '#FFFFFF' }}
+                  />
+                  <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '20px' }} />
+                  <Bar dataKey="opportunity_score" name="Opportunity Score" fill="#FFFFFF" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="risk_factor" name="Risk Factor" fill="rgba(255,255,255,0.2)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </section>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,452 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { SlidersHorizontal, ChevronRight, Loader2, Save, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { AnalysisResult } from '@/lib/schema';
+import type { ReportScenario } from '@/lib/scenarios';
+import { DEFAULT_DRIVERS, DRIVER_RANGES, scenarioBaseline, simulate, type ScenarioDrivers } from '@/lib/whatif';
+import { cn } from '../lib/utils';
+
+type Metric = 'revenue' | 'profit';
+
+// Saved scenarios cycle through these; the report's projection and the live
+// sliders keep the stone tones used by the growth chart
+const SCENARIO_COLORS = ['#D97706', '#0D9488', '#7C3AED', '#DB2777', '#2563EB'];
+
+const formatNumber = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+const formatPercent = (n: number) => `${n > 0 ? '+' : ''}${n.toFixed(1)}%`;
+const change = (value: number, base: number) => (base === 0 ? null : ((value - base) / Math.abs(base)) * 100);
+
+const DriverSlider = ({ label, hint, value, range, step = 1, signed = true, isDefault, onChange, onReset }: {
+  label: string;
+  hint?: string;
+  value: number;
+  range: readonly [number, number];
+  step?: number;
+  // Changes show their sign; levels such as the cost share don't
+  signed?: boolean;
+  isDefault: boolean;
+  onChange: (value: number) => void;
+  onReset: () => void;
+}) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[11px] font-medium text-stone-700 truncate" title={label}>{label}</span>
+      <div className="flex items-center gap-1 shrink-0">
+        <span className={cn("text-[11px] font-mono", isDefault ? "text-stone-400" : "text-stone-900 font-bold")}>
+          {signed && value > 0 ? '+' : ''}{value}%
+        </span>
+        {!isDefault && (
+          <button onClick={onReset} title="Reset" className="p-0.5 text-stone-400 hover:text-stone-900">
+            <RotateCcw size={10} />
+          </button>
+        )}
+      </div>
+    </div>
+    <input
+      type="range"
+      min={range[0]}
+      max={range[1]}
+      step={step}
+      value={Math.min(range[1], Math.max(range[0], value))}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-stone-900"
+    />
+    {hint && <p className="text-[10px] text-stone-400 truncate" title={hint}>{hint}</p>}
+  </div>
+);
+
+const Total = ({ label, value, base, suffix }: { label: string; value: number | null; base?: number | null; suffix?: string }) => {
+  const delta = value !== null && base !== undefined && base !== null ? change(value, base) : null;
+  return (
+    <div className="p-3 bg-stone-50 rounded-xl border border-stone-100">
+      <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400">{label}</div>
+      <div className="text-sm font-bold text-stone-900 font-mono">{value === null ? '—' : `${formatNumber(value)}${suffix ?? ''}`}</div>
+      {delta !== null && (
+        <div className={cn("text-[10px] font-mono", delta >= 0 ? "text-emerald-600" : "text-red-600")}>
+          {formatPercent(delta)} vs report
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Without a saved report (or for viewers) the sliders still work, but nothing is stored
+export const ScenarioDrawer = ({ result, reportId, canEdit, onClose }: {
+  result: AnalysisResult;
+  reportId: string | null;
+  canEdit: boolean;
+  onClose: () => void;
+}) => {
+  const baseline = React.useMemo(() => scenarioBaseline(result), [result]);
+  const [drivers, setDrivers] = React.useState<ScenarioDrivers>(DEFAULT_DRIVERS);
+  const [metric, setMetric] = React.useState<Metric>('revenue');
+  const [scenarios, setScenarios] = React.useState<ReportScenario[]>([]);
+  const [compared, setCompared] = React.useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = React.useState(!!reportId);
+  const [name, setName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    if (!reportId) return;
+    try {
+      const res = await fetch(`/api/reports/${reportId}/scenarios`);
+      if (res.ok) setScenarios(await res.json());
+    } catch (e) {
+      console.error("Fetch scenarios failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportId]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  const outcome = React.useMemo(() => (baseline ? simulate(baseline, drivers) : null), [baseline, drivers]);
+  const reportOutcome = React.useMemo(() => (baseline ? simulate(baseline, DEFAULT_DRIVERS) : null), [baseline]);
+  const comparedScenarios = scenarios.filter(s => compared.has(s.id));
+
+  const chartData = React.useMemo(() => {
+    if (!baseline || !outcome || !reportOutcome) return [];
+    const outcomes = comparedScenarios.map(s => ({ id: s.id, segments: simulate(baseline, s.drivers).segments }));
+    return baseline.segments.map((segment, i) => ({
+      label: segment.label,
+      report: reportOutcome.segments[i][metric],
+      live: outcome.segments[i][metric],
+      ...Object.fromEntries(outcomes.map(o => [o.id, o.segments[i][metric]])),
+    }));
+  }, [baseline, outcome, reportOutcome, comparedScenarios, metric]);
+
+  const setDriver = (key: 'price' | 'volume' | 'cost' | 'cost_share', value: number) =>
+    setDrivers(d => ({ ...d, [key]: value }));
+
+  const setKeyed = (group: 'growth' | 'uplift', key: string, value: number | null) =>
+    setDrivers(d => {
+      const next = { ...d[group] };
+      if (value === null) delete next[key];
+      else next[key] = value;
+      return { ...d, [group]: next };
+    });
+
+  const saveScenario = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reportId) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/reports/${reportId}/scenarios`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, drivers }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to save scenario');
+      setCompared(prev => new Set(prev).add(data.id));
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeScenario = async (scenario: ReportScenario) => {
+    if (!reportId || !confirm(`Delete the scenario "${scenario.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/reports/${reportId}/scenarios/${scenario.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Failed to delete scenario');
+    } catch (err: any) {
+      alert(err.message);
+    }
+    setCompared(prev => {
+      const next = new Set(prev);
+      next.delete(scenario.id);
+      return next;
+    });
+    load();
+  };
+
+  const toggleCompared = (id: string) =>
+    setCompared(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-5xl bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <SlidersHorizontal className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">What-if Scenarios</h3>
+              <p className="text-xs text-stone-500">Adjust the drivers behind the growth projection</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        {!baseline || !outcome || !reportOutcome ? (
+          <div className="p-6 text-sm text-stone-500">
+            This report has no growth projection to simulate. Scenarios need the segments of its strategic growth section.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-[18rem_1fr]">
+            <div className="overflow-y-auto p-6 space-y-6 border-r border-stone-100">
+              <div className="flex items-center justify-between">
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Drivers</h4>
+                <button
+                  onClick={() => setDrivers(DEFAULT_DRIVERS)}
+                  className="text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-900"
+                >
+                  Reset all
+                </button>
+              </div>
+
+              <section className="space-y-3">
+                <DriverSlider label="Price" value={drivers.price} range={DRIVER_RANGES.price} isDefault={drivers.price === 0}
+                  onChange={v => setDriver('price', v)} onReset={() => setDriver('price', 0)} />
+                <DriverSlider label="Volume" value={drivers.volume} range={DRIVER_RANGES.volume} isDefault={drivers.volume === 0}
+                  onChange={v => setDriver('volume', v)} onReset={() => setDriver('volume', 0)} />
+                <DriverSlider label="Unit cost" value={drivers.cost} range={DRIVER_RANGES.cost} isDefault={drivers.cost === 0}
+                  onChange={v => setDriver('cost', v)} onReset={() => setDriver('cost', 0)} />
+                <DriverSlider label="Cost share of revenue" hint="Cost before any change, as a share of revenue"
+                  value={drivers.cost_share} range={DRIVER_RANGES.cost_share} signed={false}
+                  isDefault={drivers.cost_share === DEFAULT_DRIVERS.cost_share}
+                  onChange={v => setDriver('cost_share', v)} onReset={() => setDriver('cost_share', DEFAULT_DRIVERS.cost_share)} />
+              </section>
+
+              <section className="space-y-3">
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Growth by segment</h4>
+                {baseline.segments.map(s => (
+                  <DriverSlider
+                    key={s.label}
+                    label={s.label}
+                    hint={`Report projects ${formatPercent(s.growth)}`}
+                    value={drivers.growth[s.label] ?? s.growth}
+                    range={DRIVER_RANGES.growth}
+                    isDefault={drivers.growth[s.label] === undefined}
+                    onChange={v => setKeyed('growth', s.label, v)}
+                    onReset={() => setKeyed('growth', s.label, null)}
+                  />
+                ))}
+              </section>
+
+              {baseline.recommendations.length > 0 && (
+                <section className="space-y-3">
+                  <div>
+                    <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Recommendation uplift</h4>
+                    <p className="text-[10px] text-stone-400">Revenue uplift if adopted, weighted by the engine's confidence</p>
+                  </div>
+                  {baseline.recommendations.map(r => (
+                    <DriverSlider
+                      key={r.key}
+                      label={r.action}
+                      hint={`${Math.round(r.confidence * 100)}% confidence · ${r.expected_outcome}`}
+                      value={drivers.uplift[r.key] ?? 0}
+                      range={DRIVER_RANGES.uplift}
+                      isDefault={!drivers.uplift[r.key]}
+                      onChange={v => setKeyed('uplift', r.key, v === 0 ? null : v)}
+                      onReset={() => setKeyed('uplift', r.key, null)}
+                    />
+                  ))}
+                </section>
+              )}
+            </div>
+
+            <div className="overflow-y-auto p-6 space-y-6">
+              <section className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <Total label="Revenue" value={outcome.totals.revenue} base={reportOutcome.totals.revenue} />
+                <Total label="Cost" value={outcome.totals.cost} base={reportOutcome.totals.cost} />
+                <Total label="Profit" value={outcome.totals.profit} base={reportOutcome.totals.profit} />
+                <Total label="Margin" value={outcome.totals.margin} suffix="%" />
+              </section>
+
+              <section>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Compare</h4>
+                  <div className="flex bg-stone-100 rounded-lg p-0.5">
+                    {(['revenue', 'profit'] as const).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setMetric(m)}
+                        className={cn(
+                          "px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest",
+                          metric === m ? "bg-white text-stone-900 shadow-sm" : "text-stone-500"
+                        )}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="h-72 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
+                      <XAxis dataKey="label" fontSize={10} axisLine={false} tickLine={false} />
+                      <YAxis fontSize={10} axisLine={false} tickLine={false} />
+                      <Tooltip
+                        cursor={{ fill: '#F5F5F4' }}
+                        formatter={(value) => formatNumber(Number(value))}
+                        contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                      />
+                      <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ fontSize: '10px', paddingBottom: '10px' }} />
+                      <Bar dataKey="report" name="Report projection" fill="#D6D3D1" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="live" name="Current sliders" fill="#1C1917" radius={[4, 4, 0, 0]} />
+                      {comparedScenarios.map(s => (
+                        <Bar
+                          key={s.id}
+                          dataKey={s.id}
+                          name={s.name}
+                          fill={SCENARIO_COLORS[scenarios.indexOf(s) % SCENARIO_COLORS.length]}
+                          radius={[4, 4, 0, 0]}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              <section>
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Segments</h4>
+                <table className="w-full text-[11px]">
+                  <thead>
+                    <tr className="text-left text-stone-400">
+                      <th className="py-1 font-bold">Segment</th>
+                      <th className="py-1 font-bold text-right">Current</th>
+                      <th className="py-1 font-bold text-right">Report</th>
+                      <th className="py-1 font-bold text-right">Revenue</th>
+                      <th className="py-1 font-bold text-right">Cost</th>
+                      <th className="py-1 font-bold text-right">Profit</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {outcome.segments.map(s => {
+                      const delta = change(s.revenue, s.baseline);
+                      return (
+                        <tr key={s.label} className="border-t border-stone-100">
+                          <td className="py-1.5 font-medium text-stone-900">{s.label}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-500">{formatNumber(s.current)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-500">{formatNumber(s.baseline)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-900">
+                            {formatNumber(s.revenue)}
+                            {delta !== null && Math.abs(delta) >= 0.05 && (
+                              <span className={cn("ml-1", delta >= 0 ? "text-emerald-600" : "text-red-600")}>{formatPercent(delta)}</span>
+                            )}
+                          </td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(s.cost)}</td>
+                          <td className="py-1.5 text-right font-mono text-stone-700">{formatNumber(s.profit)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </section>
+
+              <section className="space-y-3">
+                <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Saved scenarios</h4>
+                {!reportId ? (
+                  <p className="text-xs text-stone-500">Save the report to keep named scenarios with it.</p>
+                ) : (
+                  <>
+                    {canEdit && (
+                      <form onSubmit={saveScenario} className="flex gap-2">
+                        <input
+                          value={name}
+                          onChange={e => setName(e.target.value)}
+                          placeholder="Scenario name, e.g. Price +5%"
+                          maxLength={80}
+                          className="flex-1 px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900"
+                        />
+                        <button
+                          type="submit"
+                          disabled={!name.trim() || isSaving}
+                          className="flex items-center gap-2 px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+                        >
+                          {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+                          Save
+                        </button>
+                      </form>
+                    )}
+                    {error && (
+                      <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700 flex items-center gap-2">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {error}
+                      </div>
+                    )}
+                    {isLoading ? (
+                      <div className="flex items-center gap-2 text-xs text-stone-500">
+                        <Loader2 size={14} className="animate-spin" />
+                        Loading scenarios…
+                      </div>
+                    ) : scenarios.length === 0 ? (
+                      <p className="text-xs text-stone-500">No saved scenarios yet.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {scenarios.map((s, i) => {
+                          const totals = simulate(baseline, s.drivers).totals;
+                          return (
+                            <div key={s.id} className="flex items-center gap-3 p-3 border border-stone-100 rounded-xl">
+                              <input
+                                type="checkbox"
+                                checked={compared.has(s.id)}
+                                onChange={() => toggleCompared(s.id)}
+                                title="Show on the compare chart"
+                                className="accent-stone-900"
+                              />
+                              <span className="w-2 h-2 rounded-full shrink-0" style={{ background: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }} />
+                              <div className="flex-1 min-w-0">
+                                <div className="text-xs font-semibold text-stone-900 truncate">{s.name}</div>
+                                <div className="text-[10px] text-stone-500 font-mono">
+                                  Revenue {formatNumber(totals.revenue)} · Profit {formatNumber(totals.profit)}
+                                </div>
+                              </div>
+                              <button
+                                onClick={() => { setDrivers(s.drivers); setName(s.name); }}
+                                className="px-3 py-1.5 bg-stone-100 text-stone-900 rounded-lg text-[10px] font-bold uppercase tracking-widest hover:bg-stone-200"
+                              >
+                                Load
+                              </button>
+                              {canEdit && (
+                                <button onClick={() => removeScenario(s)} title="Delete" className="p-1.5 text-stone-400 hover:text-red-600">
+                                  <Trash2 size={14} />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </>
+                )}
+              </section>
+            </div>
+          </div>
+        )}
+      </motion.aside>
+    </>
+  );
+};
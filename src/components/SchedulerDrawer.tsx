@@ -0,0 +1,309 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { CalendarClock, ChevronRight, ChevronDown, Play, Trash2, Plus, Loader2, FolderOpen, AlertCircle, CheckCircle2, MinusCircle } from 'lucide-react';
+import type { JobSummary, JobRun, RunStatus } from '@/lib/scheduler';
+import { parseTimestamp } from './HistoryDrawer';
+import { cn } from '../lib/utils';
+
+const PRESETS = [
+  { label: 'Every night at 02:00', cron: '0 2 * * *' },
+  { label: 'Every hour', cron: '@hourly' },
+  { label: 'Weekdays at 07:00', cron: '0 7 * * 1-5' },
+  { label: 'Mondays at 06:00', cron: '0 6 * * 1' },
+  { label: 'First of the month', cron: '0 3 1 * *' },
+];
+
+const EMPTY_FORM = { name: '', cron: PRESETS[0].cron, folder: '.', pattern: '*.csv', query: '', context: '', tags: '' };
+
+// Poll while something is running so results show up without a refresh
+const POLL_INTERVAL_MS = 4000;
+
+const formatTime = (value: string | null) => value
+  ? parseTimestamp(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+  : '—';
+
+const StatusBadge = ({ status, running }: { status: RunStatus | null; running?: boolean }) => {
+  const effective = running ? 'running' : status;
+  const styles: Record<string, { className: string; icon: React.ElementType }> = {
+    running: { className: 'bg-blue-50 text-blue-700 border-blue-100', icon: Loader2 },
+    success: { className: 'bg-emerald-50 text-emerald-700 border-emerald-100', icon: CheckCircle2 },
+    failed: { className: 'bg-red-50 text-red-700 border-red-100', icon: AlertCircle },
+    skipped: { className: 'bg-stone-100 text-stone-500 border-stone-200', icon: MinusCircle },
+  };
+  if (!effective) return <span className="text-[10px] font-bold uppercase tracking-widest text-stone-300">Never run</span>;
+  const { className, icon: Icon } = styles[effective];
+  return (
+    <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest border", className)}>
+      <Icon size={10} className={effective === 'running' ? 'animate-spin' : undefined} />
+      {effective}
+    </span>
+  );
+};
+
+const RunHistory = ({ jobId, refreshKey }: { jobId: string; refreshKey: string }) => {
+  const [runs, setRuns] = React.useState<JobRun[] | null>(null);
+
+  React.useEffect(() => {
+    fetch(`/api/jobs/${jobId}/runs`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setRuns)
+      .catch(() => setRuns([]));
+  }, [jobId, refreshKey]);
+
+  if (!runs) return <div className="py-2 text-stone-400"><Loader2 size={14} className="animate-spin" /></div>;
+  if (runs.length === 0) return <p className="text-[11px] text-stone-400 py-2">No runs yet.</p>;
+  return (
+    <ul className="divide-y divide-stone-100">
+      {runs.map(run => (
+        <li key={run.id} className="py-2 text-[11px]">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono text-stone-500">{formatTime(run.started_at)} • {run.trigger}</span>
+            <StatusBadge status={run.status} />
+          </div>
+          {run.file && (
+            <div className="text-stone-500 truncate">
+              {run.file}{run.rows !== null && ` • ${run.rows.toLocaleString()} rows`}
+            </div>
+          )}
+          {run.error && <div className={run.status === 'failed' ? 'text-red-600' : 'text-stone-400'}>{run.error}</div>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const SchedulerDrawer = ({ onClose, onReportsChanged }: {
+  onClose: () => void;
+  onReportsChanged: () => void;
+}) => {
+  const [jobs, setJobs] = React.useState<JobSummary[]>([]);
+  const [watchRoot, setWatchRoot] = React.useState('');
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [showForm, setShowForm] = React.useState(false);
+  const [form, setForm] = React.useState(EMPTY_FORM);
+  const [formError, setFormError] = React.useState<string | null>(null);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const runningRef = React.useRef(false);
+  // Parent callbacks change identity every render; keep polling stable
+  const onReportsChangedRef = React.useRef(onReportsChanged);
+  onReportsChangedRef.current = onReportsChanged;
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch('/api/jobs');
+      if (!res.ok) return;
+      const data = await res.json();
+      const anyRunning = data.jobs.some((j: JobSummary) => j.running);
+      // A run just finished; its report is now in history
+      if (runningRef.current && !anyRunning) onReportsChangedRef.current();
+      runningRef.current = anyRunning;
+      setJobs(data.jobs);
+      setWatchRoot(data.watchRoot);
+    } catch (e) {
+      console.error("Fetch jobs failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  const anyRunning = jobs.some(j => j.running);
+  React.useEffect(() => {
+    if (!anyRunning) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [anyRunning, load]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const createJob = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      await request('/api/jobs', 'POST', { ...form, tags: form.tags.split(',') });
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      load();
+    } catch (err: any) {
+      setFormError(err.message);
+    }
+  };
+
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message);
+    }
+    load();
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <CalendarClock className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">Scheduled Analyses</h3>
+              <p className="text-xs text-stone-500">Re-run a saved query on the newest export in a folder.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {showForm ? (
+            <form onSubmit={createJob} className="p-4 rounded-2xl border border-stone-200 space-y-3">
+              <input required placeholder="Job name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={PRESETS.some(p => p.cron === form.cron) ? form.cron : ''}
+                  onChange={e => e.target.value && setForm({ ...form, cron: e.target.value })}
+                  className={inputClass}
+                >
+                  {PRESETS.map(p => <option key={p.cron} value={p.cron}>{p.label}</option>)}
+                  <option value="">Custom</option>
+                </select>
+                <input required placeholder="m h dom mon dow" value={form.cron} onChange={e => setForm({ ...form, cron: e.target.value })} className={cn(inputClass, "font-mono")} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input placeholder="Folder" value={form.folder} onChange={e => setForm({ ...form, folder: e.target.value })} className={cn(inputClass, "font-mono")} title={`Relative to ${watchRoot}`} />
+                <input placeholder="*.csv" value={form.pattern} onChange={e => setForm({ ...form, pattern: e.target.value })} className={cn(inputClass, "font-mono")} />
+              </div>
+              <p className="text-[10px] text-stone-400 font-mono truncate">Watch root: {watchRoot}</p>
+              <textarea placeholder="Context" rows={2} value={form.context} onChange={e => setForm({ ...form, context: e.target.value })} className={inputClass} />
+              <textarea placeholder="Analysis query" rows={2} value={form.query} onChange={e => setForm({ ...form, query: e.target.value })} className={inputClass} />
+              <input placeholder="Tags (comma separated)" value={form.tags} onChange={e => setForm({ ...form, tags: e.target.value })} className={inputClass} />
+              {formError && <p className="text-[11px] text-red-600">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => { setShowForm(false); setFormError(null); }} className="px-3 py-2 text-xs font-bold text-stone-500 hover:text-stone-900">
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold">
+                  Create Job
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full p-3 rounded-2xl border border-dashed border-stone-300 text-xs font-bold text-stone-500 hover:text-stone-900 hover:border-stone-900 transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New scheduled job
+            </button>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-stone-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          ) : jobs.length === 0 && !showForm ? (
+            <div className="py-16 flex flex-col items-center justify-center text-center opacity-40">
+              <CalendarClock size={48} className="mb-4" />
+              <p className="text-sm font-medium">No scheduled jobs yet.</p>
+            </div>
+          ) : (
+            jobs.map(job => (
+              <div key={job.id} className={cn("p-4 rounded-2xl border transition-all", job.enabled ? "border-stone-100" : "border-stone-100 opacity-60")}>
+                <div className="flex justify-between items-start gap-2 mb-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-bold text-stone-900 truncate">{job.name}</div>
+                    <div className="flex items-center gap-1.5 text-[10px] font-mono text-stone-400 truncate">
+                      <FolderOpen size={10} className="shrink-0" />
+                      {job.folder}/{job.pattern} • {job.cron}
+                    </div>
+                  </div>
+                  <StatusBadge status={job.last_status} running={job.running} />
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-[10px] mb-3">
+                  <div>
+                    <div className="font-bold uppercase tracking-widest text-stone-400">Last run</div>
+                    <div className="text-stone-700">{formatTime(job.last_run_at)}</div>
+                  </div>
+                  <div>
+                    <div className="font-bold uppercase tracking-widest text-stone-400">Next run</div>
+                    <div className="text-stone-700">{job.enabled ? formatTime(job.next_run_at) : 'Paused'}</div>
+                  </div>
+                  <div>
+                    <div className="font-bold uppercase tracking-widest text-stone-400">Failures</div>
+                    <div className={job.failures > 0 ? 'text-red-600 font-bold' : 'text-stone-700'}>{job.failures}</div>
+                  </div>
+                </div>
+                {job.last_status === 'failed' && job.last_error && (
+                  <div className="mb-3 p-2 bg-red-50 rounded-lg text-[11px] text-red-700">{job.last_error}</div>
+                )}
+                <div className="flex items-center gap-2">
+                  <button
+                    disabled={job.running}
+                    onClick={() => act(() => request(`/api/jobs/${job.id}/run`, 'POST'))}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest disabled:opacity-30"
+                  >
+                    <Play size={10} /> Run now
+                  </button>
+                  <button
+                    onClick={() => act(() => request(`/api/jobs/${job.id}`, 'PATCH', { enabled: !job.enabled }))}
+                    className="px-3 py-1.5 border border-stone-200 rounded-lg text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-900"
+                  >
+                    {job.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    disabled={job.running}
+                    onClick={() => confirm(`Delete "${job.name}" and its run history?`) && act(() => request(`/api/jobs/${job.id}`, 'DELETE'))}
+                    className="p-1.5 text-stone-400 hover:text-red-600 disabled:opacity-30"
+                    title="Delete job"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                    className="ml-auto flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-stone-900"
+                  >
+                    Runs <ChevronDown size={12} className={cn("transition-transform", expandedId === job.id && "rotate-180")} />
+                  </button>
+                </div>
+                {expandedId === job.id && (
+                  <div className="mt-3 pt-3 border-t border-stone-100">
+                    <RunHistory jobId={job.id} refreshKey={`${job.last_run_at}-${job.running}`} />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </motion.aside>
+    </>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { SEMANTIC_TYPES, type ColumnSchema, type SemanticType } from '@/lib/semantic';
+import { cn } from '../lib/utils';
+
+// Column list for the dark preview card: every column with its detected
+// semantic type, which the user can correct before running the analysis.
+export const SchemaPanel = ({ detected, overrides, onChange }: {
+  detected: ColumnSchema[];
+  overrides: Record<string, SemanticType>;
+  onChange: (name: string, type: SemanticType | null) => void;
+}) => {
+  const overridden = detected.filter(c => overrides[c.name] && overrides[c.name] !== c.type).length;
+
+  return (
+    <div>
+      <div className="text-[9px] font-bold uppercase tracking-widest text-stone-500 mb-2">
+        {detected.length} columns{overridden > 0 && ` • ${overridden} overridden`}
+      </div>
+      <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+        {detected.map(column => {
+          const type = overrides[column.name] ?? column.type;
+          const isOverride = type !== column.type;
+          return (
+            <div key={column.name} className="flex items-center gap-2">
+              <div className={cn("w-1 h-1 rounded-full shrink-0", isOverride ? "bg-amber-400" : "bg-stone-500")} />
+              <span className="text-[10px] font-mono opacity-80 truncate flex-1 min-w-0" title={column.name}>{column.name}</span>
+              {isOverride && (
+                <button
+                  onClick={() => onChange(column.name, null)}
+                  className="text-stone-500 hover:text-white transition-colors shrink-0"
+                  title={`Detected as ${column.type}; reset`}
+                >
+                  <RotateCcw size={10} />
+                </button>
+              )}
+              <select
+                value={type}
+                onChange={e => onChange(column.name, e.target.value as SemanticType)}
+                className={cn(
+                  "bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[9px] font-bold uppercase tracking-widest focus:outline-none focus:border-white/40 shrink-0",
+                  isOverride ? "text-amber-300" : "text-stone-400"
+                )}
+              >
+                {SEMANTIC_TYPES.map(t => <option key={t} value={t} className="text-stone-900">{t}</option>)}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Share2, ChevronRight, Plus, Loader2, Copy, Check, Lock, Eye, Ban } from 'lucide-react';
+import type { ReportShare, ShareStatus } from '@/lib/shares';
+import { parseTimestamp } from './HistoryDrawer';
+import { cn } from '../lib/utils';
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'Never', days: null },
+];
+
+const EMPTY_FORM = { label: '', expires_in_days: '7', password: '' };
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const formatDate = (value: string) =>
+  parseTimestamp(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ShareBadge = ({ status }: { status: ShareStatus }) => {
+  const styles = {
+    active: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+    expired: 'bg-amber-50 text-amber-700 border-amber-100',
+    revoked: 'bg-stone-100 text-stone-500 border-stone-200',
+  };
+  return (
+    <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-widest border", styles[status])}>
+      {status}
+    </span>
+  );
+};
+
+const CopyLink = ({ token }: { token: string }) => {
+  const [copied, setCopied] = React.useState(false);
+  const copy = async () => {
+    await navigator.clipboard.writeText(shareUrl(token));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+  return (
+    <button
+      onClick={copy}
+      className="flex items-center gap-1 px-3 py-1.5 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest"
+    >
+      {copied ? <Check size={10} /> : <Copy size={10} />}
+      {copied ? 'Copied' : 'Copy link'}
+    </button>
+  );
+};
+
+export const ShareDrawer = ({ reportId, onClose }: { reportId: string; onClose: () => void }) => {
+  const [shares, setShares] = React.useState<ReportShare[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [showForm, setShowForm] = React.useState(false);
+  const [form, setForm] = React.useState(EMPTY_FORM);
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch(`/api/reports/${reportId}/shares`);
+      if (res.ok) setShares(await res.json());
+    } catch (e) {
+      console.error("Fetch share links failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportId]);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const createShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      await request(`/api/reports/${reportId}/shares`, 'POST', {
+        label: form.label,
+        expires_in_days: form.expires_in_days ? Number(form.expires_in_days) : null,
+        password: form.password || null,
+      });
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      load();
+    } catch (err: any) {
+      setFormError(err.message);
+    }
+  };
+
+  const revoke = async (share: ReportShare) => {
+    if (!confirm('Revoke this link? Anyone holding it will lose access immediately.')) return;
+    try {
+      await request(`/api/reports/${reportId}/shares/${share.id}`, 'DELETE');
+    } catch (err: any) {
+      alert(err.message);
+    }
+    load();
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <Share2 className="text-white" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-stone-900">Share Links</h3>
+              <p className="text-xs text-stone-500">Read-only access without an account.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {showForm ? (
+            <form onSubmit={createShare} className="p-4 rounded-2xl border border-stone-200 space-y-3">
+              <input placeholder="Label, e.g. Board pack Q3" value={form.label} onChange={e => setForm({ ...form, label: e.target.value })} className={inputClass} />
+              <div>
+                <label className="block text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Expires after</label>
+                <select value={form.expires_in_days} onChange={e => setForm({ ...form, expires_in_days: e.target.value })} className={inputClass}>
+                  {EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+                </select>
+              </div>
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Password (optional)"
+                value={form.password}
+                onChange={e => setForm({ ...form, password: e.target.value })}
+                className={inputClass}
+              />
+              {formError && <p className="text-[11px] text-red-600">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => { setShowForm(false); setFormError(null); }} className="px-3 py-2 text-xs font-bold text-stone-500 hover:text-stone-900">
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold">
+                  Create Link
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="w-full p-3 rounded-2xl border border-dashed border-stone-300 text-xs font-bold text-stone-500 hover:text-stone-900 hover:border-stone-900 transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New share link
+            </button>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-stone-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          ) : shares.length === 0 && !showForm ? (
+            <div className="py-16 flex flex-col items-center justify-center text-center opacity-40">
+              <Share2 size={48} className="mb-4" />
+              <p className="text-sm font-medium">This report hasn't been shared yet.</p>
+            </div>
+          ) : (
+            shares.map(share => (
+              <div key={share.id} className={cn("p-4 rounded-2xl border border-stone-100", share.status !== 'active' && "opacity-60")}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <div className="text-sm font-bold text-stone-900 truncate flex items-center gap-1.5">
+                    {share.has_password && <Lock size={12} className="shrink-0 text-stone-400" />}
+                    {share.label || 'Untitled link'}
+                  </div>
+                  <ShareBadge status={share.status} />
+                </div>
+                <div className="text-[10px] font-mono text-stone-400 truncate">{shareUrl(share.token)}</div>
+                <div className="text-[10px] font-mono text-stone-400 mt-1">
+                  Created {formatDate(share.created_at)}
+                  {' • '}
+                  {share.revoked_at ? `Revoked ${formatDate(share.revoked_at)}` : share.expires_at ? `Expires ${formatDate(share.expires_at)}` : 'Never expires'}
+                </div>
+                <div className="flex items-center gap-1 text-[10px] text-stone-500 mt-1">
+                  <Eye size={10} />
+                  {share.view_count} view{share.view_count === 1 ? '' : 's'}
+                  {share.last_viewed_at && ` • last ${formatDate(share.last_viewed_at)}`}
+                </div>
+                {share.status === 'active' && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <CopyLink token={share.token} />
+                    <button
+                      onClick={() => revoke(share)}
+                      className="ml-auto flex items-center gap-1 px-3 py-1.5 border border-stone-200 rounded-lg text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-red-600 hover:border-red-200"
+                    >
+                      <Ban size={10} /> Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </motion.aside>
+    </>
+  );
+};
@@ -0,0 +1,133 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Database, Lock, Loader2, Link2Off, Eye } from 'lucide-react';
+import type { SharedReport as SharedReportData } from '@/lib/shares';
+import { ReportView } from './ReportView';
+import { parseTimestamp } from './HistoryDrawer';
+
+type State =
+  | { kind: 'loading' }
+  | { kind: 'password'; error: string | null }
+  | { kind: 'error'; message: string }
+  | { kind: 'ready'; report: SharedReportData };
+
+// Standalone page for /share/:token. Anonymous visitors get the report body
+// only: no sidebar, upload, history or account controls.
+export const SharedReport = ({ token }: { token: string }) => {
+  const [state, setState] = React.useState<State>({ kind: 'loading' });
+  const [password, setPassword] = React.useState('');
+  const [isUnlocking, setIsUnlocking] = React.useState(false);
+
+  const open = React.useCallback(async (password?: string) => {
+    const res = await fetch(`/api/shared/${encodeURIComponent(token)}`, password === undefined ? undefined : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) return setState({ kind: 'ready', report: data });
+    if (data.reason === 'password_required') return setState({ kind: 'password', error: null });
+    if (data.reason === 'invalid_password' || data.reason === 'locked') return setState({ kind: 'password', error: data.error });
+    setState({ kind: 'error', message: data.error || 'This report could not be loaded' });
+  }, [token]);
+
+  React.useEffect(() => {
+    open().catch(() => setState({ kind: 'error', message: 'This report could not be loaded' }));
+  }, [open]);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      await open(password);
+    } catch {
+      setState({ kind: 'password', error: 'Could not reach the server' });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="border-b border-stone-200 bg-white/80 backdrop-blur-md sticky top-0 z-50 no-print">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-stone-900 rounded-lg flex items-center justify-center">
+              <Database className="text-white" size={18} />
+            </div>
+            <h1 className="text-xl font-bold tracking-tight text-stone-900">Cognitia<span className="text-stone-400">OS</span></h1>
+          </div>
+          <span className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-stone-400">
+            <Eye size={14} />
+            Shared report • Read only
+          </span>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-5xl mx-auto w-full px-6 py-12">
+        {state.kind === 'loading' && (
+          <div className="flex justify-center py-32 text-stone-400">
+            <Loader2 size={24} className="animate-spin" />
+          </div>
+        )}
+
+        {state.kind === 'error' && (
+          <div className="py-32 flex flex-col items-center justify-center text-center text-stone-500">
+            <Link2Off size={48} className="mb-4 opacity-40" />
+            <p className="text-lg font-bold text-stone-900">{state.message}</p>
+            <p className="text-sm mt-1">Ask the person who shared it for a new link.</p>
+          </div>
+        )}
+
+        {state.kind === 'password' && (
+          <form onSubmit={unlock} className="max-w-sm mx-auto mt-24 bg-white p-8 rounded-3xl border border-stone-200 shadow-sm space-y-4">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center">
+              <Lock className="text-white" size={20} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-stone-900">Password required</h2>
+              <p className="text-xs text-stone-500">Enter the password you were given with this link.</p>
+            </div>
+            <input
+              autoFocus
+              required
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm focus:outline-none focus:border-stone-900"
+            />
+            {state.error && <p className="text-[11px] text-red-600">{state.error}</p>}
+            <button
+              type="submit"
+              disabled={isUnlocking}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-50"
+            >
+              {isUnlocking && <Loader2 size={14} className="animate-spin" />}
+              View Report
+            </button>
+          </form>
+        )}
+
+        {state.kind === 'ready' && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-8">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight text-stone-900">{state.report.query || 'Intelligence Report'}</h2>
+              <p className="text-xs font-mono text-stone-400 mt-2">
+                {parseTimestamp(state.report.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                {state.report.dataset_name && ` • ${state.report.dataset_name}`}
+              </p>
+              {state.report.context && <p className="text-sm text-stone-500 mt-3">{state.report.context}</p>}
+            </div>
+            <ReportView result={state.report.result} />
+          </motion.div>
+        )}
+      </main>
+
+      <footer className="border-t border-stone-200 bg-white py-8 no-print">
+        <div className="max-w-7xl mx-auto px-6 text-[10px] font-bold uppercase tracking-widest text-stone-400">
+          © 2026 Cognitia Intelligence Systems • Enterprise Grade
+        </div>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,305 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { FileSpreadsheet, ChevronRight, Check, Link2, AlertCircle } from 'lucide-react';
+import {
+  joinSheets,
+  stackSheets,
+  suggestJoinKeys,
+  type JoinKind,
+  type SheetJoin,
+  type SheetTable,
+  type Table,
+} from '@/lib/workbook';
+import { cn } from '../lib/utils';
+
+export type SheetMode = 'single' | 'stack' | 'join';
+
+export interface SheetPlan {
+  mode: SheetMode;
+  // Selection order matters: the first sheet is the base of a join
+  selected: string[];
+  joins: SheetJoin[];
+}
+
+const MODES: { mode: SheetMode; label: string; hint: string }[] = [
+  { mode: 'single', label: 'One sheet', hint: 'Analyze a single sheet on its own.' },
+  { mode: 'stack', label: 'Stack', hint: 'Append sheets with the same columns, e.g. one per month.' },
+  { mode: 'join', label: 'Join', hint: 'Combine sheets side by side on a shared key column.' },
+];
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 8;
+
+// Fills in a key pair for every joined sheet, keeping the user's choice where
+// it still refers to columns that exist at that point in the chain.
+function resolveJoins(sheets: SheetTable[], selected: string[], chosen: SheetJoin[]): { joins: SheetJoin[]; available: string[][]; error?: string } {
+  const byName = new Map(sheets.map(s => [s.name, s]));
+  const joins: SheetJoin[] = [];
+  const available: string[][] = [];
+  for (const name of selected.slice(1)) {
+    const right = byName.get(name)!;
+    let left: Table;
+    try {
+      left = joinSheets(sheets, selected[0], joins);
+    } catch (err: any) {
+      return { joins, available, error: err.message };
+    }
+    const previous = chosen.find(j => j.sheet === name);
+    const suggested = suggestJoinKeys(left, right);
+    const join: SheetJoin = previous && left.headers.includes(previous.left_key) && right.headers.includes(previous.right_key)
+      ? previous
+      : {
+          sheet: name,
+          left_key: suggested?.left_key ?? left.headers[0],
+          right_key: suggested?.right_key ?? right.headers[0],
+          kind: previous?.kind ?? 'left',
+        };
+    available.push(left.headers);
+    joins.push(join);
+  }
+  return { joins, available };
+}
+
+export function buildTable(sheets: SheetTable[], plan: SheetPlan): Table {
+  const chosen = plan.selected.map(name => sheets.find(s => s.name === name)!).filter(Boolean);
+  if (chosen.length === 0) throw new Error('Select at least one sheet');
+  if (plan.mode === 'single' || chosen.length === 1) return chosen[0];
+  if (plan.mode === 'stack') return stackSheets(chosen);
+  return joinSheets(sheets, plan.selected[0], plan.joins);
+}
+
+export const planLabel = (plan: SheetPlan) =>
+  plan.mode === 'single' ? plan.selected[0] : plan.selected.join(plan.mode === 'join' ? ' ⋈ ' : ' + ');
+
+export const SheetPicker = ({ fileName, sheets, initial, onConfirm, onClose }: {
+  fileName: string;
+  sheets: SheetTable[];
+  initial?: SheetPlan;
+  onConfirm: (table: Table, plan: SheetPlan) => void;
+  onClose: () => void;
+}) => {
+  const [mode, setMode] = React.useState<SheetMode>(initial?.mode ?? 'single');
+  const [selected, setSelected] = React.useState<string[]>(initial?.selected ?? [sheets[0].name]);
+  const [chosenJoins, setChosenJoins] = React.useState<SheetJoin[]>(initial?.joins ?? []);
+
+  const resolved = React.useMemo(
+    (): ReturnType<typeof resolveJoins> => (mode === 'join' ? resolveJoins(sheets, selected, chosenJoins) : { joins: [], available: [] }),
+    [mode, sheets, selected, chosenJoins]
+  );
+  const plan = React.useMemo((): SheetPlan => ({ mode, selected, joins: resolved.joins }), [mode, selected, resolved]);
+
+  const preview = React.useMemo((): { table: Table } | { error: string } => {
+    if (resolved.error) return { error: resolved.error };
+    try {
+      return { table: buildTable(sheets, plan) };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }, [sheets, plan, resolved]);
+
+  const changeMode = (next: SheetMode) => {
+    setMode(next);
+    if (next === 'single') setSelected(selected.slice(0, 1));
+  };
+
+  const toggle = (name: string) => {
+    if (mode === 'single') return setSelected([name]);
+    setSelected(selected.includes(name) ? selected.filter(s => s !== name) : [...selected, name]);
+  };
+
+  const updateJoin = (sheet: string, patch: Partial<SheetJoin>) => {
+    const current = resolved.joins.find(j => j.sheet === sheet)!;
+    setChosenJoins([...chosenJoins.filter(j => j.sheet !== sheet), { ...current, ...patch }]);
+  };
+
+  const selectClass = "px-2 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-900 min-w-0";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-2xl bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <FileSpreadsheet className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-stone-900 truncate">{fileName}</h3>
+              <p className="text-xs text-stone-500">{sheets.length} sheets with data. Choose what to analyze.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <div className="grid grid-cols-3 gap-2">
+              {MODES.map(m => (
+                <button
+                  key={m.mode}
+                  onClick={() => changeMode(m.mode)}
+                  className={cn(
+                    "px-3 py-2 rounded-xl text-xs font-bold uppercase tracking-widest border transition-colors",
+                    mode === m.mode ? "bg-stone-900 text-white border-stone-900" : "border-stone-200 text-stone-500 hover:text-stone-900"
+                  )}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-stone-400 mt-2">{MODES.find(m => m.mode === mode)!.hint}</p>
+          </div>
+
+          <div className="space-y-2">
+            {sheets.map(sheet => {
+              const position = selected.indexOf(sheet.name);
+              const isSelected = position >= 0;
+              return (
+                <button
+                  key={sheet.name}
+                  onClick={() => toggle(sheet.name)}
+                  className={cn(
+                    "w-full text-left p-4 rounded-2xl border transition-colors flex items-start gap-3",
+                    isSelected ? "border-stone-900 bg-stone-50" : "border-stone-200 hover:border-stone-400"
+                  )}
+                >
+                  <span className={cn(
+                    "w-5 h-5 mt-0.5 shrink-0 flex items-center justify-center border text-[10px] font-bold",
+                    mode === 'single' ? "rounded-full" : "rounded-md",
+                    isSelected ? "bg-stone-900 border-stone-900 text-white" : "border-stone-300"
+                  )}>
+                    {isSelected && (mode === 'join' ? position + 1 : <Check size={12} />)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-bold text-stone-900 truncate">
+                        {sheet.name}
+                        {mode === 'join' && position === 0 && (
+                          <span className="ml-2 text-[9px] font-bold uppercase tracking-widest text-stone-400">Base</span>
+                        )}
+                      </span>
+                      <span className="text-[10px] font-mono text-stone-400 shrink-0">
+                        {sheet.rows.length.toLocaleString()} rows × {sheet.headers.length} cols
+                      </span>
+                    </div>
+                    {sheet.header_row > 1 && (
+                      <div className="text-[10px] text-amber-600 mt-0.5">Headers found on row {sheet.header_row}; rows above were skipped</div>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {sheet.headers.slice(0, 6).map(h => (
+                        <span key={h} className="px-1.5 py-0.5 bg-white border border-stone-200 rounded text-[10px] text-stone-500">{h}</span>
+                      ))}
+                      {sheet.headers.length > 6 && <span className="text-[10px] text-stone-400">+{sheet.headers.length - 6}</span>}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {mode === 'join' && selected.length > 1 && (
+            <div className="p-4 rounded-2xl border border-stone-200 space-y-3">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 flex items-center gap-1.5">
+                <Link2 size={12} /> Join keys
+              </h4>
+              {resolved.joins.map((join, i) => {
+                const right = sheets.find(s => s.name === join.sheet)!;
+                return (
+                  <div key={join.sheet} className="space-y-1">
+                    <div className="text-xs font-bold text-stone-900">{join.sheet}</div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={join.kind}
+                        onChange={e => updateJoin(join.sheet, { kind: e.target.value as JoinKind })}
+                        className={selectClass}
+                        title="Left keeps every base row; inner keeps only rows that match"
+                      >
+                        <option value="left">Left</option>
+                        <option value="inner">Inner</option>
+                      </select>
+                      <select value={join.left_key} onChange={e => updateJoin(join.sheet, { left_key: e.target.value })} className={cn(selectClass, "flex-1")}>
+                        {resolved.available[i].map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                      <span className="text-xs text-stone-400">=</span>
+                      <select value={join.right_key} onChange={e => updateJoin(join.sheet, { right_key: e.target.value })} className={cn(selectClass, "flex-1")}>
+                        {right.headers.map(h => <option key={h} value={h}>{join.sheet}.{h}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Preview</h4>
+            {'error' in preview ? (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700 flex items-center gap-2">
+                <AlertCircle size={14} className="shrink-0" />
+                {preview.error}
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-stone-500 mb-2">
+                  {preview.table.rows.length.toLocaleString()} rows × {preview.table.headers.length} columns
+                </p>
+                <div className="overflow-x-auto border border-stone-100 rounded-xl">
+                  <table className="w-full text-[11px]">
+                    <thead className="bg-stone-50">
+                      <tr>
+                        {preview.table.headers.slice(0, PREVIEW_COLUMNS).map(h => (
+                          <th key={h} className="px-2 py-1.5 text-left font-bold text-stone-600 whitespace-nowrap">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                        <tr key={i} className="border-t border-stone-100">
+                          {preview.table.headers.slice(0, PREVIEW_COLUMNS).map(h => (
+                            <td key={h} className="px-2 py-1.5 text-stone-700 whitespace-nowrap max-w-[160px] truncate">
+                              {row[h] === null || row[h] === undefined ? <span className="text-stone-300">—</span> : String(row[h])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-stone-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold text-stone-500 hover:text-stone-900">
+            Cancel
+          </button>
+          <button
+            onClick={() => 'table' in preview && onConfirm(preview.table, plan)}
+            disabled={!('table' in preview) || preview.table.rows.length === 0}
+            className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Use {'table' in preview ? preview.table.rows.length.toLocaleString() : 0} rows
+          </button>
+        </div>
+      </motion.aside>
+    </>
+  );
+};
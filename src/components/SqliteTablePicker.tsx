@@ -0,0 +1,106 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Database, ChevronRight, Loader2, Table2 } from 'lucide-react';
+import type { SqliteTableInfo } from '@/lib/sqliteFile';
+import { cn } from '../lib/utils';
+
+export const SqliteTablePicker = ({ fileName, tables, current, onPick, onClose }: {
+  fileName: string;
+  tables: SqliteTableInfo[];
+  current?: string;
+  onPick: (table: string) => Promise<void>;
+  onClose: () => void;
+}) => {
+  const [loading, setLoading] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const pick = async (table: string) => {
+    setLoading(table);
+    setError(null);
+    try {
+      await onPick(table);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <Database className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-stone-900 truncate">{fileName}</h3>
+              <p className="text-xs text-stone-500">Pick the table to analyze.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {error && <p className="p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-700">{error}</p>}
+          {tables.length === 0 && (
+            <div className="py-16 flex flex-col items-center justify-center text-center opacity-40">
+              <Table2 size={48} className="mb-4" />
+              <p className="text-sm font-medium">This database has no tables.</p>
+            </div>
+          )}
+          {tables.map(table => (
+            <button
+              key={table.name}
+              onClick={() => pick(table.name)}
+              disabled={loading !== null}
+              className={cn(
+                "w-full text-left p-4 rounded-2xl border transition-colors disabled:cursor-wait",
+                table.name === current ? "border-stone-900 bg-stone-50" : "border-stone-200 hover:border-stone-400"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-bold text-stone-900 truncate flex items-center gap-1.5">
+                  <Table2 size={12} className="shrink-0 text-stone-400" />
+                  {table.name}
+                </span>
+                {loading === table.name ? (
+                  <Loader2 size={14} className="animate-spin text-stone-400" />
+                ) : (
+                  <span className="text-[10px] font-mono text-stone-400 shrink-0">
+                    {table.row_count.toLocaleString()} rows × {table.columns.length} cols
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {table.columns.slice(0, 6).map(c => (
+                  <span key={c} className="px-1.5 py-0.5 bg-white border border-stone-200 rounded text-[10px] text-stone-500">{c}</span>
+                ))}
+                {table.columns.length > 6 && <span className="text-[10px] text-stone-400">+{table.columns.length - 6}</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+      </motion.aside>
+    </>
+  );
+};
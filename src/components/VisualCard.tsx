@@ -0,0 +1,95 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar,
+  Legend
+} from 'recharts';
+import type { DatumFilter, Visualization } from '@/lib/schema';
+import type { DrillTarget } from '@/lib/drilldown';
+import { cn } from '../lib/utils';
+
+const CHART_COLORS = ['#1C1917', '#44403C', '#78716C', '#A8A29E', '#D6D3D1', '#E7E5E4'];
+
+// Turns a click on the datum at `index` into a drill target; charts pass the
+// clicked index from recharts, which is null when the click misses every datum
+export function drillHandler<T extends { filter?: DatumFilter }>(
+  onDrill: ((target: DrillTarget) => void) | undefined,
+  chart: string,
+  data: T[],
+  label: (datum: T) => string
+) {
+  return (index: unknown) => {
+    const datum = index === null || index === undefined ? undefined : data[Number(index)];
+    if (onDrill && datum) onDrill({ chart, label: label(datum), filter: datum.filter });
+  };
+}
+
+// Without onDrill (shared reports) the chart is display-only
+export const VisualCard = ({ viz, onDrill }: { viz: Visualization; onDrill?: (target: DrillTarget) => void }) => {
+  const drill = drillHandler(onDrill, viz.title, viz.data, d => d.name);
+
+  return (
+    <motion.div 
+      whileHover={{ y: -4 }}
+      className="bg-white p-6 rounded-2xl border border-stone-200 shadow-sm transition-shadow hover:shadow-md"
+    >
+      <div className="mb-4">
+        <h4 className="text-sm font-bold text-stone-900">{viz.title}</h4>
+        <p className="text-[10px] text-stone-500">{viz.description}</p>
+      </div>
+      <div className={cn("h-64 w-full", onDrill && "cursor-pointer")}>
+        <ResponsiveContainer width="100%" height="100%">
+          {viz.type === 'pie' ? (
+            <PieChart>
+              <Pie
+                data={viz.data}
+                cx="50%"
+                cy="50%"
+                innerRadius={60}
+                outerRadius={80}
+                paddingAngle={5}
+                dataKey="value"
+                onClick={(_, index) => drill(index)}
+              >
+                {viz.data.map((_, index) => (
+                  <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip 
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+              />
+              <Legend verticalAlign="bottom" height={36} iconType="circle" wrapperStyle={{ fontSize: '10px', paddingTop: '10px' }} />
+            </PieChart>
+          ) : viz.type === 'bar' ? (
+            <BarChart data={viz.data} onClick={state => drill(state.activeTooltipIndex)}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
+              <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} />
+              <YAxis fontSize={10} axisLine={false} tickLine={false} />
+              <Tooltip cursor={{ fill: '#F5F5F4' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+              <Bar dataKey="value" fill="#1C1917" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          ) : (
+            <LineChart data={viz.data} onClick={state => drill(state.activeTooltipIndex)}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F5F5F4" />
+              <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} />
+              <YAxis fontSize={10} axisLine={false} tickLine={false} />
+              <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }} />
+              <Line type="monotone" dataKey="value" stroke="#1C1917" strokeWidth={2} dot={{ r: 4, fill: '#1C1917' }} />
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,255 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Users, ChevronRight, Loader2, Trash2, Mail, Pencil, LogOut } from 'lucide-react';
+import type { ActiveWorkspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/lib/workspaces';
+import { parseTimestamp } from './HistoryDrawer';
+
+const ROLES: { role: WorkspaceRole; hint: string }[] = [
+  { role: 'viewer', hint: 'Browse and export reports' },
+  { role: 'analyst', hint: 'Run, save, tag and share analyses' },
+  { role: 'admin', hint: 'Manage members and invitations' },
+];
+
+export const WorkspaceDrawer = ({ workspace, userId, onClose, onChanged, onLeft }: {
+  workspace: ActiveWorkspace;
+  userId: string;
+  onClose: () => void;
+  // Called after a rename or a change to the user's own role
+  onChanged: () => void;
+  onLeft: () => void;
+}) => {
+  const [members, setMembers] = React.useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = React.useState<WorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [invite, setInvite] = React.useState({ email: '', role: 'analyst' as WorkspaceRole });
+  const [inviteError, setInviteError] = React.useState<string | null>(null);
+  const [renaming, setRenaming] = React.useState(false);
+  const [name, setName] = React.useState(workspace.name);
+  const isAdmin = workspace.role === 'admin';
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch('/api/workspace/members');
+      if (res.ok) {
+        const data = await res.json();
+        setMembers(data.members);
+        setInvitations(data.invitations);
+      }
+    } catch (e) {
+      console.error("Fetch workspace members failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => { load(); }, [load, workspace.id]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message);
+    }
+    load();
+  };
+
+  const sendInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+    try {
+      await request('/api/workspace/invitations', 'POST', invite);
+      setInvite({ ...invite, email: '' });
+      load();
+    } catch (err: any) {
+      setInviteError(err.message);
+    }
+  };
+
+  const rename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await act(() => request('/api/workspace', 'PATCH', { name }));
+    setRenaming(false);
+    onChanged();
+  };
+
+  const leave = async () => {
+    if (!confirm(`Leave ${workspace.name}? You will lose access to its reports and datasets.`)) return;
+    try {
+      await request(`/api/workspace/members/${userId}`, 'DELETE');
+      onClose();
+      onLeft();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-xs focus:outline-none focus:border-stone-900";
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[60]"
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-[70] border-l border-stone-200 overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-stone-900 rounded-xl flex items-center justify-center shrink-0">
+              <Users className="text-white" size={20} />
+            </div>
+            {renaming ? (
+              <form onSubmit={rename} className="flex items-center gap-2">
+                <input autoFocus required value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+                <button type="submit" className="px-3 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold">Save</button>
+              </form>
+            ) : (
+              <div className="min-w-0">
+                <h3 className="text-lg font-bold text-stone-900 truncate flex items-center gap-2">
+                  {workspace.name}
+                  {isAdmin && (
+                    <button onClick={() => setRenaming(true)} className="text-stone-400 hover:text-stone-900" title="Rename workspace">
+                      <Pencil size={12} />
+                    </button>
+                  )}
+                </h3>
+                <p className="text-xs text-stone-500">Members share reports and datasets.</p>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-200 rounded-full transition-colors"
+          >
+            <ChevronRight size={24} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {isAdmin && (
+            <form onSubmit={sendInvite} className="p-4 rounded-2xl border border-stone-200 space-y-3">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400">Invite by email</h4>
+              <input
+                required
+                type="email"
+                placeholder="teammate@company.com"
+                value={invite.email}
+                onChange={e => setInvite({ ...invite, email: e.target.value })}
+                className={inputClass}
+              />
+              <select value={invite.role} onChange={e => setInvite({ ...invite, role: e.target.value as WorkspaceRole })} className={inputClass}>
+                {ROLES.map(r => <option key={r.role} value={r.role}>{r.role} — {r.hint}</option>)}
+              </select>
+              {inviteError && <p className="text-[11px] text-red-600">{inviteError}</p>}
+              <p className="text-[10px] text-stone-400">They'll see the invitation in the workspace menu after signing in with this address.</p>
+              <div className="flex justify-end">
+                <button type="submit" className="px-4 py-2 bg-stone-900 text-white rounded-xl text-xs font-bold">
+                  Send Invitation
+                </button>
+              </div>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-stone-400">
+              <Loader2 size={18} className="animate-spin" />
+            </div>
+          ) : (
+            <div>
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Members ({members.length})</h4>
+              <ul className="divide-y divide-stone-100">
+                {members.map(m => (
+                  <li key={m.user_id} className="py-3 flex items-center gap-3">
+                    {m.avatar
+                      ? <img src={m.avatar} alt={m.name} className="w-8 h-8 rounded-full border border-stone-200" />
+                      : <div className="w-8 h-8 rounded-full bg-stone-100" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-bold text-stone-900 truncate">{m.name}{m.user_id === userId && ' (you)'}</div>
+                      <div className="text-[10px] text-stone-400 truncate">{m.email}</div>
+                    </div>
+                    {isAdmin ? (
+                      <>
+                        <select
+                          value={m.role}
+                          onChange={e => act(() => request(`/api/workspace/members/${m.user_id}`, 'PATCH', { role: e.target.value }))
+                            .then(() => m.user_id === userId && onChanged())}
+                          className="px-2 py-1 bg-white border border-stone-200 rounded-lg text-[11px] focus:outline-none focus:border-stone-900"
+                        >
+                          {ROLES.map(r => <option key={r.role} value={r.role}>{r.role}</option>)}
+                        </select>
+                        {m.user_id !== userId && (
+                          <button
+                            onClick={() => confirm(`Remove ${m.name} from ${workspace.name}?`) && act(() => request(`/api/workspace/members/${m.user_id}`, 'DELETE'))}
+                            className="p-1.5 text-stone-400 hover:text-red-600"
+                            title="Remove member"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-[10px] font-bold uppercase tracking-widest text-stone-400">{m.role}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {invitations.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-2">Pending Invitations</h4>
+              <ul className="divide-y divide-stone-100">
+                {invitations.map(inv => (
+                  <li key={inv.id} className="py-2 flex items-center gap-3 text-xs">
+                    <Mail size={14} className="text-stone-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-stone-900 truncate">{inv.email}</div>
+                      <div className="text-[10px] text-stone-400">
+                        {inv.role} • expires {parseTimestamp(inv.expires_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => act(() => request(`/api/workspace/invitations/${inv.id}`, 'DELETE'))}
+                      className="p-1.5 text-stone-400 hover:text-red-600"
+                      title="Revoke invitation"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={leave}
+            className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-stone-400 hover:text-red-600"
+          >
+            <LogOut size={12} />
+            Leave workspace
+          </button>
+        </div>
+      </motion.aside>
+    </>
+  );
+};
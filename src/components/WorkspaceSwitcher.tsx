@@ -0,0 +1,139 @@
+import React from 'react';
+import { Building2, ChevronDown, Check, Plus, Users, Mail } from 'lucide-react';
+import type { ActiveWorkspace, Workspace, WorkspaceInvitation } from '@/lib/workspaces';
+import { cn } from '../lib/utils';
+
+export interface WorkspaceState {
+  active: ActiveWorkspace;
+  workspaces: Workspace[];
+  invitations: WorkspaceInvitation[];
+}
+
+export const WorkspaceSwitcher = ({ state, onSwitch, onCreate, onRespond, onManage }: {
+  state: WorkspaceState;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRespond: (invitation: WorkspaceInvitation, accept: boolean) => void;
+  onManage: () => void;
+}) => {
+  const [open, setOpen] = React.useState(false);
+  const [creating, setCreating] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const { active, workspaces, invitations } = state;
+
+  const close = () => {
+    setOpen(false);
+    setCreating(false);
+    setName('');
+    setError(null);
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onCreate(name);
+      close();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-xl border border-stone-200 hover:border-stone-400 transition-colors relative"
+        title="Switch workspace"
+      >
+        <Building2 size={14} className="text-stone-500" />
+        <span className="text-xs font-bold text-stone-900 max-w-[140px] truncate">{active.name}</span>
+        <span className="text-[9px] font-bold uppercase tracking-widest text-stone-400">{active.role}</span>
+        <ChevronDown size={12} className={cn("text-stone-400 transition-transform", open && "rotate-180")} />
+        {invitations.length > 0 && (
+          <span className="absolute -top-1 -right-1 w-2 h-2 bg-amber-500 rounded-full border border-white" />
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-stone-200 rounded-xl shadow-lg z-[60] py-1">
+          <div className="px-4 pt-2 pb-1 text-[10px] font-bold uppercase tracking-widest text-stone-400">Workspaces</div>
+          {workspaces.map(w => (
+            <button
+              key={w.id}
+              onClick={() => { close(); if (w.id !== active.id) onSwitch(w.id); }}
+              className="w-full flex items-center gap-2 px-4 py-2 text-xs text-stone-700 hover:bg-stone-50"
+            >
+              <span className="w-3 shrink-0">{w.id === active.id && <Check size={12} />}</span>
+              <span className="flex-1 text-left truncate font-medium">{w.name}</span>
+              <span className="text-[10px] text-stone-400">{w.member_count} • {w.role}</span>
+            </button>
+          ))}
+
+          {invitations.length > 0 && (
+            <>
+              <div className="border-t border-stone-100 my-1" />
+              <div className="px-4 pt-2 pb-1 text-[10px] font-bold uppercase tracking-widest text-amber-600">Invitations</div>
+              {invitations.map(inv => (
+                <div key={inv.id} className="px-4 py-2 text-xs">
+                  <div className="flex items-center gap-1.5 text-stone-900 font-medium truncate">
+                    <Mail size={12} className="shrink-0 text-stone-400" />
+                    {inv.workspace_name}
+                  </div>
+                  <div className="text-[10px] text-stone-400 mb-2">
+                    As {inv.role}{inv.invited_by_name && ` • from ${inv.invited_by_name}`}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => { close(); onRespond(inv, true); }}
+                      className="px-3 py-1 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest"
+                    >
+                      Join
+                    </button>
+                    <button
+                      onClick={() => onRespond(inv, false)}
+                      className="px-3 py-1 border border-stone-200 rounded-lg text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-900"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          <div className="border-t border-stone-100 my-1" />
+          {creating ? (
+            <form onSubmit={create} className="px-4 py-2 space-y-2">
+              <input
+                autoFocus
+                required
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Workspace name"
+                className="w-full px-3 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-xs focus:outline-none focus:border-stone-900"
+              />
+              {error && <p className="text-[11px] text-red-600">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setCreating(false)} className="px-2 py-1 text-[10px] font-bold text-stone-500 hover:text-stone-900">
+                  Cancel
+                </button>
+                <button type="submit" className="px-3 py-1 bg-stone-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest">
+                  Create
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button onClick={() => setCreating(true)} className="w-full flex items-center gap-2 px-4 py-2 text-xs text-stone-700 hover:bg-stone-50">
+              <Plus size={12} />
+              New workspace
+            </button>
+          )}
+          <button onClick={() => { close(); onManage(); }} className="w-full flex items-center gap-2 px-4 py-2 text-xs text-stone-700 hover:bg-stone-50">
+            <Users size={12} />
+            Members{active.role === 'admin' ? ' & invitations' : ''}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { SharedReport } from './components/SharedReport';
 import './index.css';
 
+// Public share links render outside the app shell
+const shareToken = window.location.pathname.match(/^\/share\/([\w-]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareToken ? <SharedReport token={shareToken} /> : <App />}
   </StrictMode>,
 );